@@ -0,0 +1,24 @@
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { redirect } from "next/navigation"
+import { AccountRegister } from "@/components/ledger/account-register"
+
+export default async function AccountRegisterPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string }
+  searchParams: { organizationId?: string }
+}) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    redirect("/auth/signin")
+  }
+
+  if (!searchParams.organizationId) {
+    redirect("/dashboard")
+  }
+
+  return <AccountRegister organizationId={searchParams.organizationId} accountId={params.id} />
+}
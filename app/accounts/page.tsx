@@ -0,0 +1,22 @@
+import { getServerSession } from "next-auth"
+import { authOptions } from "@/lib/auth"
+import { redirect } from "next/navigation"
+import { ChartOfAccounts } from "@/components/ledger/chart-of-accounts"
+
+export default async function AccountsPage({
+  searchParams,
+}: {
+  searchParams: { organizationId?: string }
+}) {
+  const session = await getServerSession(authOptions)
+
+  if (!session) {
+    redirect("/auth/signin")
+  }
+
+  if (!searchParams.organizationId) {
+    redirect("/dashboard")
+  }
+
+  return <ChartOfAccounts organizationId={searchParams.organizationId} />
+}
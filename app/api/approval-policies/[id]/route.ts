@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server"
+import { approvalPolicyUpdateSchema } from "@/lib/validations"
+import { deleteApprovalPolicy, updateApprovalPolicy } from "@/lib/approvals/expenseApprovals"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("ADMIN")
+    const { id } = await params
+
+    const body = await request.json()
+    const validated = approvalPolicyUpdateSchema.parse(body)
+
+    const policy = await updateApprovalPolicy({
+      organizationId: actor.orgId,
+      policyId: id,
+      changes: validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "ApprovalPolicy",
+      entityId: policy.id,
+      metadata: { changes: validated },
+    })
+
+    return NextResponse.json(policy)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("ADMIN")
+    const { id } = await params
+
+    await deleteApprovalPolicy(actor.orgId, id, actor.userId)
+
+    await writeAudit({
+      actor,
+      action: "DELETE",
+      entityType: "ApprovalPolicy",
+      entityId: id,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
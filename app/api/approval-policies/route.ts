@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { approvalPolicySchema } from "@/lib/validations"
+import { createApprovalPolicy, listApprovalPolicies } from "@/lib/approvals/expenseApprovals"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+export async function GET() {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const policies = await listApprovalPolicies(actor.orgId)
+
+    return NextResponse.json(policies)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+/**
+ * Creates an approval policy (ADMIN+)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const validated = approvalPolicySchema.parse(body)
+
+    const policy = await createApprovalPolicy({
+      organizationId: actor.orgId,
+      ...validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "CREATE",
+      entityType: "ApprovalPolicy",
+      entityId: policy.id,
+      metadata: { name: policy.name },
+    })
+
+    return NextResponse.json(policy, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server"
+import { deleteCsvMapping } from "@/lib/bank/statementImport"
+import { requireActor } from "@/src/core/org"
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("MEMBER")
+    const { id } = await params
+
+    await deleteCsvMapping(actor.orgId, id, actor.userId)
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import { bankCsvMappingSchema } from "@/lib/validations"
+import { listCsvMappings, saveCsvMapping } from "@/lib/bank/statementImport"
+import { requireActor } from "@/src/core/org"
+
+export async function GET() {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const mappings = await listCsvMappings(actor.orgId)
+
+    return NextResponse.json(mappings)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+/**
+ * Saves a CSV column mapping; saving under an existing name replaces it
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("MEMBER")
+
+    const body = await request.json()
+    const { name, ...config } = bankCsvMappingSchema.parse(body)
+
+    const mapping = await saveCsvMapping({
+      organizationId: actor.orgId,
+      name,
+      config,
+      userId: actor.userId,
+    })
+
+    return NextResponse.json(mapping, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
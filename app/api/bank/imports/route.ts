@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server"
+import { statementImportSchema } from "@/lib/validations"
+import { importStatement, listStatementImports } from "@/lib/bank/statementImport"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024 // 5MB
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const accountId = request.nextUrl.searchParams.get("accountId") || undefined
+    const imports = await listStatementImports(actor.orgId, accountId)
+
+    return NextResponse.json(imports)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+/**
+ * Imports a statement file sent as multipart "file" with accountId, optional format and mappingId (CSV)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("MEMBER")
+
+    const formData = await request.formData()
+    const file = formData.get("file") as File | null
+    if (!file) {
+      return NextResponse.json({ error: "file is required" }, { status: 400 })
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: "File too large" }, { status: 400 })
+    }
+
+    const validated = statementImportSchema.parse({
+      accountId: formData.get("accountId") || undefined,
+      format: formData.get("format") || undefined,
+      mappingId: formData.get("mappingId") || undefined,
+    })
+
+    const result = await importStatement({
+      organizationId: actor.orgId,
+      accountId: validated.accountId,
+      content: await file.text(),
+      fileName: file.name,
+      format: validated.format,
+      mappingId: validated.mappingId,
+      createdByUserId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "CREATE",
+      entityType: "BankStatementImport",
+      entityId: result.id,
+      metadata: { format: result.format, importedCount: result.importedCount, duplicateCount: result.duplicateCount },
+    })
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server"
+import { bankLineConvertSchema } from "@/lib/validations"
+import { convertLineToExpense, convertLineToJournalEntry } from "@/lib/bank/statementImport"
+import { isAdminLike, requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Converts a pending statement line
+ * - { type: "expense" } books an outgoing line as an expense paid from the statement's account (MEMBER+);
+ *   HARD spending policy violations refuse it with 422
+ * - { type: "journal", offsetAccountId } books it against any account (ADMIN+, like other journal entries)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("MEMBER")
+    const { id } = await params
+
+    const body = await request.json()
+    const validated = bankLineConvertSchema.parse(body)
+
+    if (validated.type === "expense") {
+      const expense = await convertLineToExpense({
+        organizationId: actor.orgId,
+        lineId: id,
+        description: validated.description,
+        category: validated.category,
+        vendor: validated.vendor,
+        createdByUserId: actor.userId,
+      })
+
+      await writeAudit({
+        actor,
+        action: "CREATE",
+        entityType: "Expense",
+        entityId: expense.id,
+        metadata: { amount: expense.amount, currency: expense.currency, bankLineId: id },
+      })
+
+      return NextResponse.json(expense, { status: 201 })
+    }
+
+    if (!isAdminLike(actor.role)) {
+      return NextResponse.json({ error: "Journal entries require ADMIN role" }, { status: 403 })
+    }
+
+    const transaction = await convertLineToJournalEntry({
+      organizationId: actor.orgId,
+      lineId: id,
+      offsetAccountId: validated.offsetAccountId,
+      description: validated.description,
+      memo: validated.memo,
+      createdByUserId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "CREATE",
+      entityType: "LedgerTransaction",
+      entityId: transaction.id,
+      metadata: { kind: "journal", bankLineId: id },
+    })
+
+    return NextResponse.json(transaction, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    if (error.violations) {
+      return NextResponse.json({ error: error.message, violations: error.violations }, { status: 422 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server"
+import { bankLineUpdateSchema } from "@/lib/validations"
+import { setLineIgnored } from "@/lib/bank/statementImport"
+import { requireActor } from "@/src/core/org"
+
+/**
+ * Ignores a pending statement line, or restores an ignored one ({ ignored: false })
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("MEMBER")
+    const { id } = await params
+
+    const body = await request.json()
+    const validated = bankLineUpdateSchema.parse(body)
+
+    const line = await setLineIgnored({
+      organizationId: actor.orgId,
+      lineId: id,
+      ignored: validated.ignored,
+      userId: actor.userId,
+    })
+
+    return NextResponse.json(line)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server"
+import { bankLineQuerySchema } from "@/lib/validations"
+import { listBankLines } from "@/lib/bank/statementImport"
+import { requireActor } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const validated = bankLineQuerySchema.parse({
+      accountId: searchParams.get("accountId") || undefined,
+      importId: searchParams.get("importId") || undefined,
+      status: searchParams.get("status") || undefined,
+      cursor: searchParams.get("cursor") || undefined,
+      limit: searchParams.get("limit") || undefined,
+    })
+
+    const result = await listBankLines(actor.orgId, validated)
+
+    return NextResponse.json(result)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
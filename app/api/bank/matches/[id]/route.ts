@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server"
+import { deleteMatch } from "@/lib/bank/reconciliation"
+import { requireActor } from "@/src/core/org"
+
+/**
+ * Unmatches lines and postings; refused once a reconciliation covers the match
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("MEMBER")
+    const { id } = await params
+
+    await deleteMatch(actor.orgId, id, actor.userId)
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { bankAutoMatchSchema } from "@/lib/validations"
+import { autoMatch } from "@/lib/bank/reconciliation"
+import { requireActor } from "@/src/core/org"
+
+/**
+ * Applies confident one-to-one match suggestions for an account
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("MEMBER")
+
+    const body = await request.json()
+    const validated = bankAutoMatchSchema.parse(body)
+
+    const result = await autoMatch({
+      organizationId: actor.orgId,
+      accountId: validated.accountId,
+      dateWindowDays: validated.dateWindowDays,
+      createdByUserId: actor.userId,
+    })
+
+    return NextResponse.json(result)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server"
+import { bankMatchSchema } from "@/lib/validations"
+import { createMatch } from "@/lib/bank/reconciliation"
+import { requireActor } from "@/src/core/org"
+
+/**
+ * Matches statement lines to the ledger postings they clear
+ * Line and posting totals must agree; an empty lineIds clears postings that never hit a statement
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("MEMBER")
+
+    const body = await request.json()
+    const validated = bankMatchSchema.parse(body)
+
+    const match = await createMatch({
+      organizationId: actor.orgId,
+      lineIds: validated.lineIds,
+      postingIds: validated.postingIds,
+      createdByUserId: actor.userId,
+    })
+
+    return NextResponse.json(match, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
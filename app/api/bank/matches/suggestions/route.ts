@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server"
+import { bankMatchSuggestionQuerySchema } from "@/lib/validations"
+import { suggestMatches } from "@/lib/bank/reconciliation"
+import { requireActor } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const validated = bankMatchSuggestionQuerySchema.parse({
+      accountId: searchParams.get("accountId") || undefined,
+      dateWindowDays: searchParams.get("dateWindowDays") || undefined,
+    })
+
+    const suggestions = await suggestMatches(actor.orgId, validated.accountId, {
+      dateWindowDays: validated.dateWindowDays,
+    })
+
+    return NextResponse.json(suggestions)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server"
+import { reconciliationReportQuerySchema } from "@/lib/validations"
+import { getReconciliationReport } from "@/lib/bank/reconciliation"
+import { requireActor } from "@/src/core/org"
+
+/**
+ * Statement ending balance vs. cleared ledger balance, with outstanding postings and unmatched lines
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const validated = reconciliationReportQuerySchema.parse({
+      accountId: searchParams.get("accountId") || undefined,
+      statementDate: searchParams.get("statementDate") || undefined,
+      statementEndingBalance: searchParams.get("statementEndingBalance") || undefined,
+    })
+
+    const report = await getReconciliationReport(actor.orgId, validated.accountId, {
+      statementDate: validated.statementDate,
+      statementEndingBalance: validated.statementEndingBalance,
+    })
+
+    return NextResponse.json(report)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server"
+import { reconciliationSchema } from "@/lib/validations"
+import { completeReconciliation, getReconciliationReport, listReconciliations } from "@/lib/bank/reconciliation"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const accountId = request.nextUrl.searchParams.get("accountId") || undefined
+    const reconciliations = await listReconciliations(actor.orgId, accountId)
+
+    return NextResponse.json(reconciliations)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+/**
+ * Completes a reconciliation (ADMIN+); the cleared postings become immutable
+ * Refuses with the report while the cleared balance differs from the statement ending balance
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const validated = reconciliationSchema.parse(body)
+
+    const report = await getReconciliationReport(actor.orgId, validated.accountId, {
+      statementDate: validated.statementDate,
+      statementEndingBalance: validated.statementEndingBalance,
+    })
+    if (report.differenceCents !== 0) {
+      return NextResponse.json(
+        { error: "Cleared balance does not match the statement ending balance", report },
+        { status: 409 }
+      )
+    }
+
+    const reconciliation = await completeReconciliation({
+      organizationId: actor.orgId,
+      accountId: validated.accountId,
+      statementDate: validated.statementDate,
+      statementEndingBalance: validated.statementEndingBalance,
+      createdByUserId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "CREATE",
+      entityType: "BankReconciliation",
+      entityId: reconciliation.id,
+      metadata: { accountId: validated.accountId, statementDate: reconciliation.statementDate },
+    })
+
+    return NextResponse.json(reconciliation, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import { voidBillPayment } from "@/lib/payables/bills"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Voids a bill payment by reversing its transaction (MEMBER+)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; paymentId: string }> }
+) {
+  try {
+    const actor = await requireActor("MEMBER")
+    const { id, paymentId } = await params
+
+    const bill = await voidBillPayment({
+      organizationId: actor.orgId,
+      billId: id,
+      paymentId,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "DELETE",
+      entityType: "BillPayment",
+      entityId: paymentId,
+      metadata: { billId: id, status: bill.status },
+    })
+
+    return NextResponse.json(bill)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
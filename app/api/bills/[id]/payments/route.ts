@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { billPaymentSchema } from "@/lib/validations"
+import { recordBillPayment } from "@/lib/payables/bills"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Records a full or partial payment of a bill (MEMBER+)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("MEMBER")
+    const { id } = await params
+
+    const body = await request.json()
+    const validated = billPaymentSchema.parse(body)
+
+    const result = await recordBillPayment({
+      organizationId: actor.orgId,
+      billId: id,
+      ...validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "CREATE",
+      entityType: "BillPayment",
+      entityId: result.payment.id,
+      metadata: { billId: id, amount: result.payment.amount, paidAt: result.payment.paidAt },
+    })
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getBill, voidBill } from "@/lib/payables/bills"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("VIEWER")
+    const { id } = await params
+
+    const bill = await getBill(actor.orgId, id)
+
+    return NextResponse.json(bill)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+/**
+ * Voids a bill by reversing its transaction (MEMBER+); its payments must be voided first
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("MEMBER")
+    const { id } = await params
+
+    const bill = await voidBill({ organizationId: actor.orgId, billId: id, userId: actor.userId })
+
+    await writeAudit({
+      actor,
+      action: "DELETE",
+      entityType: "Bill",
+      entityId: id,
+      metadata: { vendor: bill.vendor, amount: bill.amount, currency: bill.currency },
+    })
+
+    return NextResponse.json(bill)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+import { billListQuerySchema, billSchema } from "@/lib/validations"
+import { createBill, listBills } from "@/lib/payables/bills"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const filters = billListQuerySchema.parse({
+      status: searchParams.get("status") || undefined,
+      vendor: searchParams.get("vendor") || undefined,
+    })
+
+    const bills = await listBills(actor.orgId, filters)
+
+    return NextResponse.json(bills)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+/**
+ * Records a vendor bill, booked to Accounts Payable (MEMBER+)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("MEMBER")
+
+    const body = await request.json()
+    const validated = billSchema.parse(body)
+
+    const bill = await createBill({
+      organizationId: actor.orgId,
+      ...validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "CREATE",
+      entityType: "Bill",
+      entityId: bill.id,
+      metadata: { vendor: bill.vendor, amount: bill.amount, currency: bill.currency, dueDate: bill.dueDate },
+    })
+
+    return NextResponse.json(bill, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
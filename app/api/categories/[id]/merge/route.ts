@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server"
+import { categoryMergeSchema } from "@/lib/validations"
+import { mergeCategory } from "@/lib/ledger/categoryService"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Merges this category into targetCategoryId, re-posting its expenses (ADMIN+)
+ * Expenses that cannot be re-posted are returned as skipped; merging again retries them
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("ADMIN")
+    const { id } = await params
+
+    const body = await request.json()
+    const validated = categoryMergeSchema.parse(body)
+
+    const result = await mergeCategory({
+      organizationId: actor.orgId,
+      sourceId: id,
+      targetId: validated.targetCategoryId,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "ExpenseCategory",
+      entityId: id,
+      metadata: {
+        mergedIntoCategoryId: result.targetId,
+        movedCount: result.movedCount,
+        skippedCount: result.skipped.length,
+      },
+    })
+
+    return NextResponse.json(result)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
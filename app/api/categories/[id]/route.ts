@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { categoryUpdateSchema } from "@/lib/validations"
+import { updateCategory } from "@/lib/ledger/categoryService"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Renames, re-maps or archives an expense category (ADMIN+)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("ADMIN")
+    const { id } = await params
+
+    const body = await request.json()
+    const validated = categoryUpdateSchema.parse(body)
+
+    const category = await updateCategory({
+      organizationId: actor.orgId,
+      categoryId: id,
+      ...validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "ExpenseCategory",
+      entityId: category.id,
+      metadata: { changes: validated },
+    })
+
+    return NextResponse.json(category)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
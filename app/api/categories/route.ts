@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server"
+import { categorySchema } from "@/lib/validations"
+import { createCategory, listCategories } from "@/lib/ledger/categoryService"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const includeArchived = request.nextUrl.searchParams.get("includeArchived") === "true"
+    const categories = await listCategories(actor.orgId, { includeArchived })
+
+    return NextResponse.json(categories)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+/**
+ * Creates an expense category (ADMIN+)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const validated = categorySchema.parse(body)
+
+    const category = await createCategory({
+      organizationId: actor.orgId,
+      ...validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "CREATE",
+      entityType: "ExpenseCategory",
+      entityId: category.id,
+      metadata: { name: category.name, accountId: category.accountId },
+    })
+
+    return NextResponse.json(category, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server"
+import { categorizationRuleUpdateSchema } from "@/lib/validations"
+import { deleteRule, updateRule } from "@/lib/rules/categorizationRules"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("ADMIN")
+    const { id } = await params
+
+    const body = await request.json()
+    const validated = categorizationRuleUpdateSchema.parse(body)
+
+    const rule = await updateRule({
+      organizationId: actor.orgId,
+      ruleId: id,
+      changes: validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "CategorizationRule",
+      entityId: rule.id,
+      metadata: { changes: validated },
+    })
+
+    return NextResponse.json(rule)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("ADMIN")
+    const { id } = await params
+
+    await deleteRule(actor.orgId, id, actor.userId)
+
+    await writeAudit({
+      actor,
+      action: "DELETE",
+      entityType: "CategorizationRule",
+      entityId: id,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server"
+import { ruleApplySchema } from "@/lib/validations"
+import { applyRulesToHistory } from "@/lib/rules/categorizationRules"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Runs categorization rules over existing expenses and pending statement lines (ADMIN+)
+ * dryRun (the default) previews the affected rows without changing anything
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const validated = ruleApplySchema.parse(body)
+
+    const result = await applyRulesToHistory({
+      organizationId: actor.orgId,
+      ...validated,
+      userId: actor.userId,
+    })
+
+    if (!validated.dryRun) {
+      await writeAudit({
+        actor,
+        action: "UPDATE",
+        entityType: "CategorizationRule",
+        entityId: validated.ruleId,
+        metadata: {
+          applied: true,
+          expenseCount: result.expenseCount,
+          bankLineCount: result.bankLineCount,
+          skippedCount: result.skipped.length,
+        },
+      })
+    }
+
+    return NextResponse.json(result)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
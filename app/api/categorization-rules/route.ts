@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { categorizationRuleSchema } from "@/lib/validations"
+import { createRule, listRules } from "@/lib/rules/categorizationRules"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+export async function GET() {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const rules = await listRules(actor.orgId)
+
+    return NextResponse.json(rules)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+/**
+ * Creates a categorization rule (ADMIN+)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const validated = categorizationRuleSchema.parse(body)
+
+    const rule = await createRule({
+      organizationId: actor.orgId,
+      ...validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "CREATE",
+      entityType: "CategorizationRule",
+      entityId: rule.id,
+      metadata: { name: rule.name },
+    })
+
+    return NextResponse.json(rule, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
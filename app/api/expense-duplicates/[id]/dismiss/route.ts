@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { dismissDuplicate } from "@/lib/ledger/expenseDuplicates"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Keeps both expenses of a pair; the pair is not flagged again (MEMBER+)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("MEMBER")
+    const { id } = await params
+
+    const duplicate = await dismissDuplicate({ organizationId: actor.orgId, duplicateId: id, userId: actor.userId })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "ExpenseDuplicate",
+      entityId: id,
+      metadata: { status: duplicate.status },
+    })
+
+    return NextResponse.json(duplicate)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
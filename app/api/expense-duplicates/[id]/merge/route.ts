@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import { expenseDuplicateMergeSchema } from "@/lib/validations"
+import { mergeDuplicateExpenses } from "@/lib/ledger/expenseDuplicates"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Merges a duplicate pair into one expense, deleting the other and reversing its ledger transaction (MEMBER+)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("MEMBER")
+    const { id } = await params
+
+    const body = await request.json()
+    const validated = expenseDuplicateMergeSchema.parse(body)
+
+    const duplicate = await mergeDuplicateExpenses({
+      organizationId: actor.orgId,
+      duplicateId: id,
+      keepExpenseId: validated.keepExpenseId,
+      userId: actor.userId,
+    })
+
+    const removedId = duplicate.keptExpenseId === duplicate.expenseId ? duplicate.duplicateOfId : duplicate.expenseId
+    await writeAudit({
+      actor,
+      action: "DELETE",
+      entityType: "Expense",
+      entityId: removedId,
+      metadata: { mergedInto: duplicate.keptExpenseId, duplicateId: id },
+    })
+
+    return NextResponse.json(duplicate)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server"
+import { expenseDuplicateListQuerySchema } from "@/lib/validations"
+import { listExpenseDuplicates } from "@/lib/ledger/expenseDuplicates"
+import { requireActor } from "@/src/core/org"
+
+/**
+ * Duplicate review queue: likely duplicate pairs with both expenses and their receipts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const filters = expenseDuplicateListQuerySchema.parse({
+      status: request.nextUrl.searchParams.get("status") || undefined,
+    })
+
+    const duplicates = await listExpenseDuplicates(actor.orgId, filters.status)
+
+    return NextResponse.json(duplicates)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
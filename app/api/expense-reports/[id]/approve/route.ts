@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { approveExpenseReport } from "@/lib/payables/expenseReports"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Approves a submitted report and posts its expenses to the employee's reimbursements account (ADMIN+)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("ADMIN")
+    const { id } = await params
+
+    const report = await approveExpenseReport({ organizationId: actor.orgId, reportId: id, userId: actor.userId })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "ExpenseReport",
+      entityId: id,
+      metadata: { status: report.status, employeeId: report.employeeId },
+    })
+
+    return NextResponse.json(report)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
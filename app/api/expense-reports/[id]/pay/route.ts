@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { expenseReportPayoutSchema } from "@/lib/validations"
+import { payExpenseReport } from "@/lib/payables/expenseReports"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Pays out an approved report, clearing the employee's reimbursements account (ADMIN+)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("ADMIN")
+    const { id } = await params
+
+    const body = await request.json()
+    const validated = expenseReportPayoutSchema.parse(body)
+
+    const report = await payExpenseReport({
+      organizationId: actor.orgId,
+      reportId: id,
+      ...validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "ExpenseReport",
+      entityId: id,
+      metadata: { status: report.status, paidAt: report.paidAt, payoutTransactionId: report.payoutTransactionId },
+    })
+
+    return NextResponse.json(report)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { expenseReportRejectSchema } from "@/lib/validations"
+import { rejectExpenseReport } from "@/lib/payables/expenseReports"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Returns a submitted report to its employee with a reason (ADMIN+)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("ADMIN")
+    const { id } = await params
+
+    const body = await request.json()
+    const validated = expenseReportRejectSchema.parse(body)
+
+    const report = await rejectExpenseReport({
+      organizationId: actor.orgId,
+      reportId: id,
+      reason: validated.reason,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "ExpenseReport",
+      entityId: id,
+      metadata: { status: report.status, reason: validated.reason },
+    })
+
+    return NextResponse.json(report)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
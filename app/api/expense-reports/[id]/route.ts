@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server"
+import { expenseReportUpdateSchema } from "@/lib/validations"
+import { deleteExpenseReport, getExpenseReport, updateExpenseReport } from "@/lib/payables/expenseReports"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("VIEWER")
+    const { id } = await params
+
+    const report = await getExpenseReport(actor.orgId, id)
+
+    return NextResponse.json(report)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+/**
+ * Renames a draft or rejected report or replaces its expenses (the report's employee only)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("MEMBER")
+    const { id } = await params
+
+    const body = await request.json()
+    const validated = expenseReportUpdateSchema.parse(body)
+
+    const report = await updateExpenseReport({
+      organizationId: actor.orgId,
+      reportId: id,
+      ...validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "ExpenseReport",
+      entityId: id,
+      metadata: { changes: validated },
+    })
+
+    return NextResponse.json(report)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+/**
+ * Deletes a draft or rejected report (the report's employee only); its expenses are kept
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("MEMBER")
+    const { id } = await params
+
+    await deleteExpenseReport({ organizationId: actor.orgId, reportId: id, userId: actor.userId })
+
+    await writeAudit({
+      actor,
+      action: "DELETE",
+      entityType: "ExpenseReport",
+      entityId: id,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { submitExpenseReport } from "@/lib/payables/expenseReports"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Submits a draft or rejected report for approval (the report's employee only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("MEMBER")
+    const { id } = await params
+
+    const report = await submitExpenseReport({ organizationId: actor.orgId, reportId: id, userId: actor.userId })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "ExpenseReport",
+      entityId: id,
+      metadata: { status: report.status },
+    })
+
+    return NextResponse.json(report)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { getReimbursementBalances } from "@/lib/payables/expenseReports"
+import { requireActor } from "@/src/core/org"
+
+/**
+ * Outstanding reimbursements per employee (VIEWER+)
+ */
+export async function GET() {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const balances = await getReimbursementBalances(actor.orgId)
+
+    return NextResponse.json(balances)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+import { expenseReportListQuerySchema, expenseReportSchema } from "@/lib/validations"
+import { createExpenseReport, listExpenseReports } from "@/lib/payables/expenseReports"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const filters = expenseReportListQuerySchema.parse({
+      status: searchParams.get("status") || undefined,
+      employeeId: searchParams.get("employeeId") || undefined,
+    })
+
+    const reports = await listExpenseReports(actor.orgId, filters)
+
+    return NextResponse.json(reports)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+/**
+ * Starts a draft expense report of the acting member's reimbursable expenses (MEMBER+)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("MEMBER")
+
+    const body = await request.json()
+    const validated = expenseReportSchema.parse(body)
+
+    const report = await createExpenseReport({
+      organizationId: actor.orgId,
+      ...validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "CREATE",
+      entityType: "ExpenseReport",
+      entityId: report.id,
+      metadata: { title: report.title, expenseCount: report.expenses.length },
+    })
+
+    return NextResponse.json(report, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
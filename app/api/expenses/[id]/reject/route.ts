@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import { expenseRejectionSchema } from "@/lib/validations"
+import { rejectExpense } from "@/lib/approvals/expenseApprovals"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Rejects a pending expense at its current approval step with a comment (MEMBER+ with the step's role or
+ * named on it)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("MEMBER")
+    const { id } = await params
+
+    const body = await request.json()
+    const validated = expenseRejectionSchema.parse(body)
+
+    const expense = await rejectExpense({
+      organizationId: actor.orgId,
+      expenseId: id,
+      approver: { userId: actor.userId, role: actor.role },
+      comment: validated.comment,
+    })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "Expense",
+      entityId: id,
+      metadata: { approvalStatus: expense.approvalStatus, comment: validated.comment },
+    })
+
+    return NextResponse.json(expense)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
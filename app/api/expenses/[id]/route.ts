@@ -1,8 +1,24 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { expenseUpdateSchema } from "@/lib/validations"
-import { createExpenseTransaction, reverseTransaction, guardPeriodNotLocked } from "@/lib/ledger/ledgerService"
+import {
+  createExpenseTransaction,
+  reverseTransaction,
+  guardPeriodNotLocked,
+  resolvePaymentAccount,
+  ledgerError,
+} from "@/lib/ledger/ledgerService"
+import { resolveExpenseCategory } from "@/lib/ledger/categoryService"
+import { resolveVendor } from "@/lib/ledger/vendorService"
+import { assertExpenseEditable } from "@/lib/payables/expenseReports"
+import { approvalStepsFor, clearExpenseApproval, requestExpenseApproval } from "@/lib/approvals/expenseApprovals"
+import { enforceSpendingPolicies } from "@/lib/approvals/spendingPolicies"
+import { checkExpenseDuplicates } from "@/lib/ledger/expenseDuplicates"
+import { matchConvertedExpense } from "@/lib/bank/reconciliation"
+import { getExpenseLines, prepareExpenseLines, replaceExpenseLines, toLedgerLines } from "@/lib/ledger/expenseLines"
+import { currencyDecimals, hasValidPrecision, toMinorUnits } from "@/lib/currency"
 import { requireActor, orgFindUniqueExpense, writeAudit } from "@/src/core/org"
+import { ExpenseApprovalStatus } from "@prisma/client"
 import { randomUUID } from "crypto"
 
 export async function GET(
@@ -18,6 +34,11 @@ export async function GET(
       where: { id },
       include: {
         receipts: true,
+        lines: { orderBy: { position: "asc" } },
+        approvalSteps: { orderBy: { position: "asc" } },
+        policyViolations: true,
+        duplicates: { where: { status: "OPEN" } },
+        duplicatedBy: { where: { status: "OPEN" } },
       },
     })
 
@@ -52,16 +73,26 @@ export async function PATCH(
       return NextResponse.json({ error: "Expense not found" }, { status: 404 })
     }
 
-    // Guard against locked periods (check both old and new dates)
-    await guardPeriodNotLocked(actor.orgId, existingExpense.date)
     // Remove id from validated data (id comes from params, organizationId from actor)
-    const { id: _id, ...updateData } = validated
-    if (updateData.date) {
-      await guardPeriodNotLocked(actor.orgId, updateData.date)
+    const { id: _id, lines, ...updateData } = validated
+
+    // Reimbursable expenses are posted when their report is approved, and fixed from submission on
+    const { reimbursable } = existingExpense
+    if (reimbursable && updateData.paymentAccountId) {
+      throw ledgerError("Reimbursable expenses are paid out through expense reports")
     }
+    // Expenses pending or rejected under an approval policy have no postings yet
+    const wasPosted = !reimbursable && existingExpense.approvalStatus === ExpenseApprovalStatus.APPROVED
 
     // Implement supersede: reverse old transaction, create new one
     const result = await prisma.$transaction(async (tx) => {
+      await assertExpenseEditable(tx, existingExpense)
+
+      // The original period must be open; the new date is guarded below or when its transaction is written
+      if (wasPosted) {
+        await guardPeriodNotLocked(tx, actor.orgId, existingExpense.date)
+      }
+
       // Reverse existing ledger transaction if it exists
       if (existingExpense.ledgerTransactionId) {
         await reverseTransaction({
@@ -76,19 +107,86 @@ export async function PATCH(
       const finalDate = updateData.date || existingExpense.date
       const finalAmount = updateData.amount !== undefined ? updateData.amount : existingExpense.amount
       const finalDescription = updateData.description || existingExpense.description
-      const finalCategory = updateData.category !== undefined ? updateData.category : existingExpense.category
-      const finalVendor = updateData.vendor !== undefined ? updateData.vendor : existingExpense.vendor
+      const requestedCategory = updateData.category !== undefined ? updateData.category : existingExpense.category
+      // A changed vendor resolves to its vendor record; otherwise the expense keeps its link
+      const vendorRef = updateData.vendor ? await resolveVendor(tx, actor.orgId, updateData.vendor) : null
+      const finalVendor = updateData.vendor !== undefined ? vendorRef?.name ?? null : existingExpense.vendor
+      const finalVendorId = updateData.vendor !== undefined ? vendorRef?.id ?? null : existingExpense.vendorId
+      const finalExpenseAccountId =
+        updateData.expenseAccountId !== undefined ? updateData.expenseAccountId : existingExpense.expenseAccountId
+      const paymentAccountId = !reimbursable
+        ? await resolvePaymentAccount(
+            tx,
+            actor.orgId,
+            updateData.paymentAccountId !== undefined ? updateData.paymentAccountId : existingExpense.paymentAccountId
+          )
+        : null
+
+      const finalCurrency = updateData.currency || existingExpense.currency
+      const finalTaxCodeId = updateData.taxCodeId !== undefined ? updateData.taxCodeId : existingExpense.taxCodeId
+      const finalTaxAmount = updateData.taxAmount !== undefined ? updateData.taxAmount : existingExpense.taxAmount
+      if (
+        !hasValidPrecision(Number(finalAmount), finalCurrency) ||
+        (finalTaxAmount != null && !hasValidPrecision(Number(finalTaxAmount), finalCurrency))
+      ) {
+        throw ledgerError(`${finalCurrency} amounts allow at most ${currencyDecimals(finalCurrency)} decimal places`)
+      }
+
+      // Lines sent replace the split ([] removes it); otherwise a split expense keeps its lines,
+      // which must still add up to the amount
+      const finalLines = lines !== undefined ? lines : await getExpenseLines(tx, id)
+      const splitLines = finalLines.length > 0
+        ? await prepareExpenseLines(
+            tx,
+            actor.orgId,
+            finalLines,
+            { amount: Number(finalAmount), currency: finalCurrency },
+            { taxCodeId: finalTaxCodeId }
+          )
+        : []
 
-      const amountCents = Math.round(Number(finalAmount) * 100)
+      const categoryRef =
+        requestedCategory && splitLines.length === 0 ? await resolveExpenseCategory(tx, actor.orgId, requestedCategory) : null
+      const finalCategory = categoryRef?.name ?? null
+
+      const amountCents = toMinorUnits(Number(finalAmount), finalCurrency)
       const idempotencyKey = `expense:${id}:${randomUUID()}`
 
-      const newLedgerTransactionId = await createExpenseTransaction({
+      // An edit runs the approval policies again; an expense they apply to waits for approval unposted
+      const approvalSteps = reimbursable
+        ? []
+        : await approvalStepsFor(tx, {
+            organizationId: actor.orgId,
+            date: finalDate,
+            description: finalDescription,
+            vendor: finalVendor,
+            category: finalCategory,
+            lineCategories: splitLines.map((line) => line.category),
+            amount: Number(finalAmount),
+            currency: finalCurrency,
+            paymentAccountId,
+          })
+      const post = !reimbursable && approvalSteps.length === 0
+
+      // An expense that stays unposted must still land in an open period to be posted later
+      if (!post) {
+        await guardPeriodNotLocked(tx, actor.orgId, finalDate)
+      }
+
+      const newLedgerTransactionId = !post ? null : await createExpenseTransaction({
         organizationId: actor.orgId,
         occurredAt: finalDate,
         description: finalDescription,
         amountCents,
+        currency: finalCurrency,
         category: finalCategory,
+        expenseAccountId: finalExpenseAccountId,
+        lines: toLedgerLines(splitLines),
+        taxCodeId: finalTaxCodeId,
+        taxAmountCents: finalTaxAmount != null ? toMinorUnits(Number(finalTaxAmount), finalCurrency) : null,
         vendor: finalVendor,
+        vendorId: finalVendorId,
+        paymentAccountId,
         idempotencyKey,
         createdByUserId: actor.userId,
       }, tx)
@@ -96,18 +194,50 @@ export async function PATCH(
       // Update expense with new values and new ledger transaction ID
       // updateData already has organizationId and id removed
       const safeUpdateData = updateData
-      const expense = await tx.expense.update({
+      await replaceExpenseLines(tx, id, splitLines)
+      if (approvalSteps.length > 0) {
+        await requestExpenseApproval(tx, { organizationId: actor.orgId, expenseId: id, steps: approvalSteps, userId: actor.userId })
+      } else if (!reimbursable) {
+        await clearExpenseApproval(tx, id)
+      }
+      await tx.expense.update({
         where: { id },
         data: {
           ...safeUpdateData,
+          category: finalCategory,
+          categoryId: categoryRef?.id ?? null,
+          vendor: finalVendor,
+          vendorId: finalVendorId,
+          paymentAccountId,
           ledgerTransactionId: newLedgerTransactionId,
+          ...(!reimbursable
+            ? { approvalStatus: post ? ExpenseApprovalStatus.APPROVED : ExpenseApprovalStatus.PENDING }
+            : {}),
         },
+      })
+
+      // A converted expense posted for the first time clears its statement line
+      if (newLedgerTransactionId) {
+        await matchConvertedExpense(tx, id, newLedgerTransactionId, actor.userId)
+      }
+
+      // The edited expense must still pass the spending policies' HARD rules
+      await enforceSpendingPolicies(tx, actor.orgId, id)
+
+      // Changed amounts, dates or vendors can make or break a likely duplicate; pairs go to the review queue
+      await checkExpenseDuplicates(tx, actor.orgId, id)
+
+      return tx.expense.findUniqueOrThrow({
+        where: { id },
         include: {
           receipts: true,
+          lines: { orderBy: { position: "asc" } },
+          approvalSteps: { orderBy: { position: "asc" } },
+          policyViolations: true,
+          duplicates: { where: { status: "OPEN" } },
+          duplicatedBy: { where: { status: "OPEN" } },
         },
       })
-
-      return expense
     })
 
     await writeAudit({
@@ -115,7 +245,7 @@ export async function PATCH(
       action: "UPDATE",
       entityType: "Expense",
       entityId: result.id,
-      metadata: { changes: updateData },
+      metadata: { changes: { ...updateData, ...(lines !== undefined ? { lines } : {}) } },
     })
 
     return NextResponse.json(result)
@@ -123,6 +253,9 @@ export async function PATCH(
     if (error.name === "ZodError") {
       return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
     }
+    if (error.violations) {
+      return NextResponse.json({ error: error.message, violations: error.violations }, { status: 422 })
+    }
     const statusCode = (error as any).statusCode || 500
     return NextResponse.json({ error: error.message }, { status: statusCode })
   }
@@ -145,11 +278,15 @@ export async function DELETE(
       return NextResponse.json({ error: "Expense not found" }, { status: 404 })
     }
 
-    // Guard against locked periods
-    await guardPeriodNotLocked(actor.orgId, expense.date)
-
     // Soft delete: reverse transaction, set deletedAt, keep receipts
     await prisma.$transaction(async (tx) => {
+      await assertExpenseEditable(tx, expense)
+
+      // Guard against closed periods; expenses awaiting approval have nothing to reverse
+      if (!expense.reimbursable && expense.approvalStatus === ExpenseApprovalStatus.APPROVED) {
+        await guardPeriodNotLocked(tx, actor.orgId, expense.date)
+      }
+
       // Reverse ledger transaction if it exists
       if (expense.ledgerTransactionId) {
         await reverseTransaction({
@@ -165,6 +302,7 @@ export async function DELETE(
         where: { id },
         data: {
           deletedAt: new Date(),
+          expenseReportId: null,
         },
       })
     })
@@ -23,8 +23,10 @@ export async function GET(request: NextRequest) {
     let expenses: Array<{
       date: Date
       amount: number
+      currency: string
       description: string
       category: string
+      memo: string
       vendor: string
     }>
 
@@ -53,7 +55,7 @@ export async function GET(request: NextRequest) {
       }
 
       if (category) {
-        where.category = category
+        where.OR = [{ category }, { lines: { some: { category } } }]
       }
 
       if (vendor) {
@@ -62,27 +64,43 @@ export async function GET(request: NextRequest) {
 
       const expenseRecords = await prisma.expense.findMany({
         where,
+        include: {
+          lines: { orderBy: { position: "asc" } },
+        },
         orderBy: {
           date: "desc",
         },
       })
 
-      expenses = expenseRecords.map((expense) => ({
-        date: expense.date,
-        amount: Number(expense.amount),
-        description: expense.description,
-        category: expense.category || "",
-        vendor: expense.vendor || "",
-      }))
+      // Split expenses export one row per line
+      expenses = expenseRecords.flatMap((expense) => {
+        const parts = expense.lines.length > 0
+          ? expense.lines.map((line) => ({ amount: line.amount, category: line.category, memo: line.memo }))
+          : [{ amount: expense.amount, category: expense.category, memo: null }]
+
+        return parts
+          .filter((part) => !category || part.category === category)
+          .map((part) => ({
+            date: expense.date,
+            amount: Number(part.amount),
+            currency: expense.currency,
+            description: expense.description,
+            category: part.category || "",
+            memo: part.memo || "",
+            vendor: expense.vendor || "",
+          }))
+      })
     }
 
     // Generate CSV
-    const headers = ["Date", "Amount", "Description", "Category", "Vendor"]
+    const headers = ["Date", "Amount", "Currency", "Description", "Category", "Memo", "Vendor"]
     const rows = expenses.map((expense) => [
       new Date(expense.date).toISOString().split("T")[0],
       expense.amount.toString(),
+      expense.currency,
       expense.description,
       expense.category || "",
+      expense.memo || "",
       expense.vendor || "",
     ])
 
@@ -1,22 +1,52 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
-import { expenseSchema } from "@/lib/validations"
-import { ensureDefaultAccounts, createExpenseTransaction, guardPeriodNotLocked } from "@/lib/ledger/ledgerService"
+import { expenseListQuerySchema, expenseSchema } from "@/lib/validations"
+import {
+  ensureDefaultAccounts,
+  createExpenseTransaction,
+  guardPeriodNotLocked,
+  resolvePaymentAccount,
+  ledgerError,
+} from "@/lib/ledger/ledgerService"
+import { getBaseCurrency } from "@/lib/ledger/fxService"
+import { currencyDecimals, hasValidPrecision, toMinorUnits } from "@/lib/currency"
+import { auditNewExpenseCategorization, categorizeNewExpense } from "@/lib/rules/categorizationRules"
+import { resolveExpenseCategory } from "@/lib/ledger/categoryService"
+import { getVendorDefaults, resolveVendor } from "@/lib/ledger/vendorService"
+import { prepareExpenseLines, toLedgerLines, toLineRows } from "@/lib/ledger/expenseLines"
+import { approvalStepsFor, requestExpenseApproval } from "@/lib/approvals/expenseApprovals"
+import { enforceSpendingPolicies } from "@/lib/approvals/spendingPolicies"
+import { duplicateExpenseError, findDuplicateCandidates, recordDuplicates } from "@/lib/ledger/expenseDuplicates"
 import { requireActor, orgFindManyExpense, writeAudit } from "@/src/core/org"
+import { ExpenseApprovalStatus } from "@prisma/client"
 import { randomUUID } from "crypto"
 
+const expenseInclude = {
+  receipts: true,
+  lines: { orderBy: { position: "asc" as const } },
+  approvalSteps: { orderBy: { position: "asc" as const } },
+  policyViolations: true,
+  duplicates: { where: { status: "OPEN" as const } },
+}
+
 export async function GET(request: NextRequest) {
   try {
     // Use OrgCore to get actor (user + active org + role)
     const actor = await requireActor("VIEWER")
 
+    const filters = expenseListQuerySchema.parse({
+      approvalStatus: request.nextUrl.searchParams.get("approvalStatus") || undefined,
+    })
+
     // Use scoped query helper
     const expenses = await orgFindManyExpense(actor.orgId, {
       where: {
         deletedAt: null, // Exclude soft-deleted expenses
+        ...(filters.approvalStatus ? { approvalStatus: filters.approvalStatus } : {}),
       },
       include: {
-        receipts: true,
+        ...expenseInclude,
+        paymentAccount: { select: { id: true, name: true } },
       },
       orderBy: {
         date: "desc",
@@ -25,6 +55,9 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json(expenses)
   } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
     const statusCode = (error as any).statusCode || 500
     return NextResponse.json({ error: error.message }, { status: statusCode })
   }
@@ -40,30 +73,127 @@ export async function POST(request: NextRequest) {
     const expenseData = expenseSchema.parse(body)
     
     // Add organizationId from actor
+    const { lines, allowDuplicates, ...fields } = expenseData
     const validated = {
-      ...expenseData,
+      ...fields,
       organizationId: actor.orgId, // Use actor's orgId, never trust client
     }
 
-    // Guard against locked periods
-    await guardPeriodNotLocked(actor.orgId, validated.date)
+    // Expenses default to the organization's base currency
+    const currency = validated.currency || (await getBaseCurrency(actor.orgId))
+    const taxAmount = validated.taxAmount ?? null
+    if (!hasValidPrecision(validated.amount, currency) || (taxAmount !== null && !hasValidPrecision(taxAmount, currency))) {
+      throw ledgerError(`${currency} amounts allow at most ${currencyDecimals(currency)} decimal places`)
+    }
 
-    // Convert amount to cents
-    const amountCents = Math.round(Number(validated.amount) * 100)
+    if (validated.reimbursable && validated.paymentAccountId) {
+      throw ledgerError("Reimbursable expenses are paid out through expense reports")
+    }
+
+    // Convert amount to minor units
+    const amountCents = toMinorUnits(validated.amount, currency)
 
     // Generate idempotency key
     const idempotencyKey = `expense:${randomUUID()}`
 
     // Create expense and ledger transaction in a single transaction
-    const result = await prisma.$transaction(async (tx) => {
-      // Create ledger transaction (pass tx to use same transaction)
-      const ledgerTransactionId = await createExpenseTransaction({
+    const { expense: result, categorization } = await prisma.$transaction(async (tx) => {
+      // The period must be open even for an expense that posts later (reimbursable or awaiting approval),
+      // since its posting could never be written into a closed period
+      await guardPeriodNotLocked(tx, actor.orgId, validated.date)
+
+      // Resolve the payment source (explicit, org default, or Cash) so the expense records it; a reimbursable
+      // expense gets the employee's account when its report is approved
+      const paymentAccountId = validated.reimbursable
+        ? null
+        : await resolvePaymentAccount(tx, actor.orgId, validated.paymentAccountId)
+
+      // Store the vendor's current name, adding new vendors to the list
+      const vendorRef = validated.vendor ? await resolveVendor(tx, actor.orgId, validated.vendor) : null
+      const vendor = vendorRef?.name ?? null
+
+      // Likely duplicates of expenses on file stop the expense unless the caller confirms it
+      const duplicates = await findDuplicateCandidates(tx, {
+        organizationId: actor.orgId,
+        amount: validated.amount,
+        currency,
+        date: validated.date,
+        vendor,
+        vendorId: vendorRef?.id ?? null,
+      })
+      if (duplicates.length > 0 && !allowDuplicates) {
+        throw duplicateExpenseError(duplicates)
+      }
+
+      // Categorization rules may normalize the category, pick the expense account and add tags
+      const categorization = await categorizeNewExpense(tx, actor.orgId, {
+        vendor,
+        description: validated.description,
+        category: validated.category,
+        amount: validated.amount,
+        currency,
+        paymentAccountId,
+        expenseAccountId: validated.expenseAccountId,
+        tags: validated.tags,
+      })
+      let categoryName = categorization ? categorization.after.category : validated.category
+      let expenseAccountId = categorization ? categorization.after.expenseAccountId : validated.expenseAccountId
+      const tags = categorization ? categorization.after.tags : validated.tags
+
+      // The vendor's defaults apply when neither the input nor a rule picked a category or account
+      if (vendorRef && !categoryName && !expenseAccountId) {
+        const defaults = await getVendorDefaults(tx, vendorRef)
+        categoryName = defaults.category
+        expenseAccountId = defaults.expenseAccountId
+      }
+
+      // A split expense carries its categories and tax codes on its lines; lines without one take the expense's
+      const splitLines = lines && lines.length > 0
+        ? await prepareExpenseLines(
+            tx,
+            actor.orgId,
+            lines,
+            { amount: validated.amount, currency },
+            { category: categoryName, taxCodeId: validated.taxCodeId }
+          )
+        : null
+
+      // Store the managed category's current name, adding new names to the list
+      const categoryRef = categoryName && !splitLines ? await resolveExpenseCategory(tx, actor.orgId, categoryName) : null
+      const category = categoryRef?.name ?? null
+
+      // Approval policies hold the expense back from the ledger until it is approved
+      const approvalSteps = validated.reimbursable
+        ? []
+        : await approvalStepsFor(tx, {
+            organizationId: actor.orgId,
+            date: validated.date,
+            description: validated.description,
+            vendor,
+            category,
+            lineCategories: splitLines ? splitLines.map((line) => line.category) : [],
+            amount: validated.amount,
+            currency,
+            paymentAccountId,
+          })
+      const pendingApproval = approvalSteps.length > 0
+
+      // Create ledger transaction (pass tx to use same transaction); reimbursable expenses post when their
+      // report is approved, others under an approval policy when their last step is
+      const ledgerTransactionId = validated.reimbursable || pendingApproval ? null : await createExpenseTransaction({
         organizationId: actor.orgId,
         occurredAt: validated.date,
         description: validated.description,
         amountCents,
-        category: validated.category,
-        vendor: validated.vendor,
+        currency,
+        category,
+        expenseAccountId,
+        lines: splitLines ? toLedgerLines(splitLines) : undefined,
+        taxCodeId: validated.taxCodeId,
+        taxAmountCents: taxAmount !== null ? toMinorUnits(taxAmount, currency) : null,
+        vendor,
+        vendorId: vendorRef?.id,
+        paymentAccountId,
         idempotencyKey,
         createdByUserId: actor.userId,
       }, tx)
@@ -72,24 +202,55 @@ export async function POST(request: NextRequest) {
       const expense = await tx.expense.create({
         data: {
           ...validated,
+          currency,
+          category,
+          categoryId: categoryRef?.id ?? null,
+          vendor,
+          vendorId: vendorRef?.id ?? null,
+          expenseAccountId,
+          tags,
+          categorizationRuleId: categorization?.ruleId,
+          paymentAccountId,
           createdById: actor.userId,
           ledgerTransactionId,
-        },
-        include: {
-          receipts: true,
+          approvalStatus: pendingApproval ? ExpenseApprovalStatus.PENDING : ExpenseApprovalStatus.APPROVED,
+          ...(splitLines ? { lines: { create: toLineRows(splitLines) } } : {}),
         },
       })
 
-      return expense
+      if (pendingApproval) {
+        await requestExpenseApproval(tx, {
+          organizationId: actor.orgId,
+          expenseId: expense.id,
+          steps: approvalSteps,
+          userId: actor.userId,
+        })
+      }
+
+      if (duplicates.length > 0) {
+        await recordDuplicates(tx, actor.orgId, expense.id, duplicates)
+      }
+
+      // Spending policies flag the expense, or refuse it when one of their HARD rules is broken
+      await enforceSpendingPolicies(tx, actor.orgId, expense.id)
+
+      return {
+        expense: await tx.expense.findUniqueOrThrow({ where: { id: expense.id }, include: expenseInclude }),
+        categorization,
+      }
     })
 
+    if (categorization) {
+      await auditNewExpenseCategorization(actor.orgId, actor.userId, result.id, categorization)
+    }
+
     // Use OrgCore audit helper
     await writeAudit({
       actor,
       action: "CREATE",
       entityType: "Expense",
       entityId: result.id,
-      metadata: { amount: result.amount, description: result.description },
+      metadata: { amount: result.amount, currency: result.currency, description: result.description },
     })
 
     return NextResponse.json(result, { status: 201 })
@@ -97,6 +258,12 @@ export async function POST(request: NextRequest) {
     if (error.name === "ZodError") {
       return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
     }
+    if (error.violations) {
+      return NextResponse.json({ error: error.message, violations: error.violations }, { status: 422 })
+    }
+    if (error.duplicates) {
+      return NextResponse.json({ error: error.message, duplicates: error.duplicates }, { status: 409 })
+    }
     const statusCode = (error as any).statusCode || 500
     return NextResponse.json({ error: error.message }, { status: statusCode })
   }
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server"
+import { accountRegisterQuerySchema } from "@/lib/validations"
+import { getAccountRegister } from "@/lib/reports/accountRegister"
+import { requireActor } from "@/src/core/org"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const validated = accountRegisterQuerySchema.parse({
+      startDate: searchParams.get("startDate") || undefined,
+      endDate: searchParams.get("endDate") || undefined,
+      cursor: searchParams.get("cursor") || undefined,
+      limit: searchParams.get("limit") || undefined,
+    })
+
+    // Include the whole end day
+    validated.endDate?.setUTCHours(23, 59, 59, 999)
+
+    const register = await getAccountRegister({
+      organizationId: actor.orgId,
+      accountId: id,
+      ...validated,
+    })
+
+    return NextResponse.json(register)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
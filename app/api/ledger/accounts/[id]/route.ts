@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server"
+import { ledgerAccountUpdateSchema } from "@/lib/validations"
+import {
+  getAccountBalance,
+  updateAccount,
+  archiveAccount,
+  restoreAccount,
+} from "@/lib/ledger/accountService"
+import { requireActor, orgFindUniqueLedgerAccount } from "@/src/core/org"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const actor = await requireActor("VIEWER")
+
+    const account = await orgFindUniqueLedgerAccount(actor.orgId, {
+      where: { id },
+      include: { parent: true, children: true },
+    })
+
+    if (!account) {
+      return NextResponse.json({ error: "Account not found" }, { status: 404 })
+    }
+
+    // rollup=true includes postings on descendant accounts
+    const includeDescendants = request.nextUrl.searchParams.get("rollup") === "true"
+    const balance = await getAccountBalance(actor.orgId, id, { includeDescendants })
+
+    return NextResponse.json({ ...account, ...balance })
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const { archived, ...changes } = ledgerAccountUpdateSchema.parse(body)
+
+    let account
+    if (Object.keys(changes).length > 0) {
+      account = await updateAccount({
+        organizationId: actor.orgId,
+        accountId: id,
+        ...changes,
+        userId: actor.userId,
+      })
+    }
+
+    if (archived === true) {
+      account = await archiveAccount(actor.orgId, id, actor.userId)
+    } else if (archived === false) {
+      account = await restoreAccount(actor.orgId, id, actor.userId)
+    }
+
+    if (!account) {
+      return NextResponse.json({ error: "No changes provided" }, { status: 400 })
+    }
+
+    return NextResponse.json(account)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const actor = await requireActor("ADMIN")
+
+    // Ledger accounts are never hard-deleted; DELETE archives
+    const account = await archiveAccount(actor.orgId, id, actor.userId)
+
+    return NextResponse.json(account)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server"
+import { ledgerAccountSchema } from "@/lib/validations"
+import { ensureDefaultAccounts } from "@/lib/ledger/ledgerService"
+import { listAccounts, createAccount } from "@/lib/ledger/accountService"
+import { requireActor } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+    const includeArchived = request.nextUrl.searchParams.get("includeArchived") === "true"
+
+    // Make sure system accounts show up even before the first expense
+    await ensureDefaultAccounts(actor.orgId)
+
+    const accounts = await listAccounts(actor.orgId, { includeArchived })
+
+    return NextResponse.json(accounts)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const validated = ledgerAccountSchema.parse(body)
+
+    const account = await createAccount({
+      organizationId: actor.orgId,
+      name: validated.name,
+      type: validated.type,
+      code: validated.code,
+      currency: validated.currency,
+      parentId: validated.parentId,
+      userId: actor.userId,
+    })
+
+    return NextResponse.json(account, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server"
+import { importEcbRates } from "@/lib/ledger/fxService"
+import { requireActor } from "@/src/core/org"
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024 // 5MB covers the full ECB history file
+
+/**
+ * Imports an ECB-style reference rate CSV, sent as multipart "file" or as a text/csv body
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("ADMIN")
+
+    let csv: string
+    if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+      const formData = await request.formData()
+      const file = formData.get("file") as File | null
+      if (!file) {
+        return NextResponse.json({ error: "file is required" }, { status: 400 })
+      }
+      if (file.size > MAX_FILE_SIZE) {
+        return NextResponse.json({ error: "File too large" }, { status: 400 })
+      }
+      csv = await file.text()
+    } else {
+      csv = await request.text()
+      if (csv.length > MAX_FILE_SIZE) {
+        return NextResponse.json({ error: "File too large" }, { status: 400 })
+      }
+    }
+
+    const result = await importEcbRates(actor.orgId, csv, actor.userId)
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
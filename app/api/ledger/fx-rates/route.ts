@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server"
+import { fxRateSchema, fxRateQuerySchema } from "@/lib/validations"
+import { getBaseCurrency, listFxRates, upsertFxRate } from "@/lib/ledger/fxService"
+import { requireActor } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const validated = fxRateQuerySchema.parse({
+      currency: searchParams.get("currency") || undefined,
+      startDate: searchParams.get("startDate") || undefined,
+      endDate: searchParams.get("endDate") || undefined,
+    })
+
+    const [baseCurrency, rates] = await Promise.all([
+      getBaseCurrency(actor.orgId),
+      listFxRates(actor.orgId, validated),
+    ])
+
+    return NextResponse.json({ baseCurrency, rates })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const validated = fxRateSchema.parse(body)
+
+    const rate = await upsertFxRate({
+      organizationId: actor.orgId,
+      ...validated,
+      source: "manual",
+      userId: actor.userId,
+    })
+
+    return NextResponse.json(rate, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
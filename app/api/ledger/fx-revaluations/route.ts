@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+import { fxRevaluationSchema } from "@/lib/validations"
+import { computeRevaluation, listRevaluationRuns, runRevaluation } from "@/lib/ledger/fxRevaluation"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Lists revaluation runs, or previews the adjustments for ?period=YYYY-MM without posting
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const period = request.nextUrl.searchParams.get("period")
+    if (period) {
+      const validated = fxRevaluationSchema.parse({ period })
+      const preview = await computeRevaluation(actor.orgId, validated.period)
+      return NextResponse.json({ period: validated.period, ...preview })
+    }
+
+    const runs = await listRevaluationRuns(actor.orgId)
+    return NextResponse.json(runs)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const validated = fxRevaluationSchema.parse(body)
+
+    const run = await runRevaluation({
+      organizationId: actor.orgId,
+      period: validated.period,
+      createdByUserId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "CREATE",
+      entityType: "FxRevaluationRun",
+      entityId: run.id,
+      metadata: { period: run.period, transactionId: run.transactionId },
+    })
+
+    return NextResponse.json(run, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server"
+import { periodLockSchema, periodSchema } from "@/lib/validations"
+import { lockPeriod } from "@/lib/ledger/ledgerService"
+import { getCloseChecklist } from "@/lib/ledger/periodClose"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Soft-closes or locks a period (ADMIN+)
+ * Refuses with the checklist while it has open items unless force is set
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ period: string }> }
+) {
+  try {
+    const actor = await requireActor("ADMIN")
+    const period = periodSchema.parse((await params).period)
+
+    const body = await request.json()
+    const validated = periodLockSchema.parse(body)
+
+    const checklist = await getCloseChecklist(actor.orgId, period)
+    if (!checklist.complete && !validated.force) {
+      return NextResponse.json(
+        { error: "Close checklist has open items; resubmit with force to close anyway", checklist },
+        { status: 409 }
+      )
+    }
+
+    const lock = await lockPeriod({
+      organizationId: actor.orgId,
+      period,
+      status: validated.status,
+      reason: validated.reason,
+      lockedByUserId: actor.userId,
+      metadata: {
+        forced: !checklist.complete,
+        checklist: Object.fromEntries(checklist.items.map((item) => [item.key, item.count])),
+      },
+    })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "LedgerPeriod",
+      entityId: period,
+      metadata: { status: lock.status, reason: validated.reason },
+    })
+
+    return NextResponse.json(lock)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
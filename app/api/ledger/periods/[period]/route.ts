@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server"
+import { periodSchema } from "@/lib/validations"
+import { getCloseChecklist, getPeriodStatus } from "@/lib/ledger/periodClose"
+import { requireActor } from "@/src/core/org"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ period: string }> }
+) {
+  try {
+    const actor = await requireActor("VIEWER")
+    const period = periodSchema.parse((await params).period)
+
+    const [status, checklist] = await Promise.all([
+      getPeriodStatus(actor.orgId, period),
+      getCloseChecklist(actor.orgId, period),
+    ])
+
+    return NextResponse.json({ ...status, checklist })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server"
+import { periodSchema, periodUnlockSchema } from "@/lib/validations"
+import { unlockPeriod } from "@/lib/ledger/ledgerService"
+import { getPeriodStatus } from "@/lib/ledger/periodClose"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Reopens a soft-closed or locked period (ADMIN+)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ period: string }> }
+) {
+  try {
+    const actor = await requireActor("ADMIN")
+    const period = periodSchema.parse((await params).period)
+
+    const body = await request.json()
+    const validated = periodUnlockSchema.parse(body)
+
+    await unlockPeriod({
+      organizationId: actor.orgId,
+      period,
+      reason: validated.reason,
+      unlockedByUserId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "LedgerPeriod",
+      entityId: period,
+      metadata: { status: "OPEN", reason: validated.reason },
+    })
+
+    return NextResponse.json(await getPeriodStatus(actor.orgId, period))
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
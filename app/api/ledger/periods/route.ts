@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server"
+import { periodListQuerySchema } from "@/lib/validations"
+import { listPeriods } from "@/lib/ledger/periodClose"
+import { requireActor } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const validated = periodListQuerySchema.parse({
+      from: searchParams.get("from") || undefined,
+      to: searchParams.get("to") || undefined,
+    })
+
+    const periods = await listPeriods(actor.orgId, validated)
+
+    return NextResponse.json(periods)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
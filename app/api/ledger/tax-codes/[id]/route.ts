@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { taxCodeUpdateSchema } from "@/lib/validations"
+import { updateTaxCode } from "@/lib/ledger/taxCodes"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Updates or archives a tax code (ADMIN+)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("ADMIN")
+    const { id } = await params
+
+    const body = await request.json()
+    const validated = taxCodeUpdateSchema.parse(body)
+
+    const taxCode = await updateTaxCode({
+      organizationId: actor.orgId,
+      taxCodeId: id,
+      ...validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "TaxCode",
+      entityId: taxCode.id,
+      metadata: { changes: validated },
+    })
+
+    return NextResponse.json(taxCode)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server"
+import { taxCodeSchema } from "@/lib/validations"
+import { createTaxCode, listTaxCodes } from "@/lib/ledger/taxCodes"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const includeArchived = request.nextUrl.searchParams.get("includeArchived") === "true"
+    const taxCodes = await listTaxCodes(actor.orgId, { includeArchived })
+
+    return NextResponse.json(taxCodes)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+/**
+ * Creates a tax code (ADMIN+)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const validated = taxCodeSchema.parse(body)
+
+    const taxCode = await createTaxCode({
+      organizationId: actor.orgId,
+      ...validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "CREATE",
+      entityType: "TaxCode",
+      entityId: taxCode.id,
+      metadata: { code: taxCode.code, rate: validated.rate, recoverablePercent: validated.recoverablePercent },
+    })
+
+    return NextResponse.json(taxCode, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
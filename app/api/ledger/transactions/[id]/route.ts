@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireActor, orgFindUniqueLedgerTransaction } from "@/src/core/org"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const actor = await requireActor("VIEWER")
+
+    // Use scoped query helper
+    const transaction = await orgFindUniqueLedgerTransaction(actor.orgId, {
+      where: { id },
+      include: {
+        postings: {
+          include: {
+            account: { select: { id: true, name: true, code: true, type: true } },
+          },
+        },
+        expense: true,
+        attachmentLinks: {
+          include: { receipt: true },
+        },
+      },
+    })
+
+    if (!transaction) {
+      return NextResponse.json({ error: "Transaction not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(transaction)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server"
+import { journalEntrySchema } from "@/lib/validations"
+import { createJournalEntry, ledgerError } from "@/lib/ledger/ledgerService"
+import { getBaseCurrency } from "@/lib/ledger/fxService"
+import { currencyDecimals, hasValidPrecision, toMinorUnits } from "@/lib/currency"
+import { requireActor, writeAudit } from "@/src/core/org"
+import { randomUUID } from "crypto"
+
+export async function POST(request: NextRequest) {
+  try {
+    // Journal entries can touch any account, so require ADMIN
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const validated = journalEntrySchema.parse(body)
+
+    // Client-supplied key makes retries safe; otherwise generate one
+    const idempotencyKey = validated.idempotencyKey
+      ? `journal:${validated.idempotencyKey}`
+      : `journal:${randomUUID()}`
+
+    // Amounts arrive in major units; precision depends on each line's currency
+    const baseCurrency = await getBaseCurrency(actor.orgId)
+    const lines = validated.lines.map((line) => {
+      const currency = line.currency || baseCurrency
+      if (!hasValidPrecision(line.amount, currency)) {
+        throw ledgerError(`${currency} amounts allow at most ${currencyDecimals(currency)} decimal places`)
+      }
+      if (line.baseAmount !== undefined && !hasValidPrecision(line.baseAmount, baseCurrency)) {
+        throw ledgerError(`${baseCurrency} amounts allow at most ${currencyDecimals(baseCurrency)} decimal places`)
+      }
+
+      return {
+        accountId: line.accountId,
+        direction: line.direction,
+        amountCents: toMinorUnits(line.amount, currency),
+        currency,
+        baseAmountCents: line.baseAmount !== undefined ? toMinorUnits(line.baseAmount, baseCurrency) : undefined,
+        memo: line.memo,
+        category: line.category,
+      }
+    })
+
+    const transaction = await createJournalEntry({
+      organizationId: actor.orgId,
+      occurredAt: validated.date,
+      description: validated.description,
+      vendor: validated.vendor,
+      externalRef: validated.externalRef,
+      idempotencyKey,
+      createdByUserId: actor.userId,
+      lines,
+    })
+
+    await writeAudit({
+      actor,
+      action: "CREATE",
+      entityType: "JournalEntry",
+      entityId: transaction.id,
+      metadata: { description: transaction.description, lineCount: transaction.postings.length },
+    })
+
+    return NextResponse.json(transaction, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server"
+import { trialBalanceQuerySchema } from "@/lib/validations"
+import { getTrialBalance } from "@/lib/reports/ledgerReports"
+import { toCsv } from "@/lib/utils"
+import { requireActor } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const validated = trialBalanceQuerySchema.parse({
+      asOf: searchParams.get("asOf") || undefined,
+      depth: searchParams.get("depth") || undefined,
+      format: searchParams.get("format") || undefined,
+    })
+
+    // A bare date means "through the end of that day"
+    const asOf = validated.asOf || new Date()
+    if (searchParams.get("asOf")?.length === 10) {
+      asOf.setUTCHours(23, 59, 59, 999)
+    }
+
+    const report = await getTrialBalance({
+      organizationId: actor.orgId,
+      asOf,
+      depth: validated.depth,
+    })
+
+    if (validated.format !== "csv") {
+      return NextResponse.json(report)
+    }
+
+    const headers = ["Code", "Account", "Type", "Debits", "Credits", "Debit Balance", "Credit Balance"]
+    const rows = report.lines.map((line) => [
+      line.code || "",
+      `${"  ".repeat(line.depth)}${line.name}`,
+      line.type,
+      line.debit.toFixed(2),
+      line.credit.toFixed(2),
+      line.balanceDebit.toFixed(2),
+      line.balanceCredit.toFixed(2),
+    ])
+    rows.push([
+      "",
+      "Total",
+      "",
+      report.totals.debit.toFixed(2),
+      report.totals.credit.toFixed(2),
+      report.totals.balanceDebit.toFixed(2),
+      report.totals.balanceCredit.toFixed(2),
+    ])
+
+    const asOfLabel = asOf.toISOString().split("T")[0]
+    return new NextResponse(toCsv(headers, rows), {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="trial-balance-${asOfLabel}.csv"`,
+      },
+    })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server"
+import { yearEndCloseSchema } from "@/lib/validations"
+import { closeFiscalYear, computeYearEndClose, listYearEndCloses } from "@/lib/ledger/yearEndClose"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Lists year-end closes, or previews the closing lines for ?fiscalYear=YYYY without posting
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const fiscalYear = request.nextUrl.searchParams.get("fiscalYear")
+    if (fiscalYear) {
+      const validated = yearEndCloseSchema.parse({ fiscalYear })
+      const preview = await computeYearEndClose(actor.orgId, validated.fiscalYear)
+      return NextResponse.json(preview)
+    }
+
+    const closes = await listYearEndCloses(actor.orgId)
+    return NextResponse.json(closes)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const validated = yearEndCloseSchema.parse(body)
+
+    const close = await closeFiscalYear({
+      organizationId: actor.orgId,
+      fiscalYear: validated.fiscalYear,
+      createdByUserId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "CREATE",
+      entityType: "YearEndClose",
+      entityId: close.id,
+      metadata: { fiscalYear: close.fiscalYear, transactionId: close.transactionId },
+    })
+
+    return NextResponse.json(close, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { orgSettingsSchema } from "@/lib/validations"
+import { assertPaymentAccount, ledgerError } from "@/lib/ledger/ledgerService"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+const settingsSelect = {
+  id: true,
+  name: true,
+  baseCurrency: true,
+  fiscalYearStartMonth: true,
+  reportingTimezone: true,
+  taxId: true,
+  defaultPaymentAccountId: true,
+  defaultPaymentAccount: { select: { id: true, name: true, code: true, type: true } },
+}
+
+export async function GET() {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const settings = await prisma.organization.findUnique({
+      where: { id: actor.orgId },
+      select: settingsSelect,
+    })
+
+    return NextResponse.json(settings)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const validated = orgSettingsSchema.parse(body)
+
+    if (validated.defaultPaymentAccountId) {
+      await assertPaymentAccount(prisma, actor.orgId, validated.defaultPaymentAccountId)
+    }
+
+    // Base amounts on existing postings would be in the old currency
+    if (validated.baseCurrency) {
+      const organization = await prisma.organization.findUnique({
+        where: { id: actor.orgId },
+        select: { baseCurrency: true },
+      })
+      const postingCount = await prisma.ledgerPosting.count({ where: { organizationId: actor.orgId } })
+      if (organization?.baseCurrency !== validated.baseCurrency && postingCount > 0) {
+        throw ledgerError("Base currency cannot be changed once the ledger has postings", 409)
+      }
+    }
+
+    // Closed periods and fiscal years were drawn under the current calendar
+    if (validated.fiscalYearStartMonth !== undefined || validated.reportingTimezone) {
+      const organization = await prisma.organization.findUnique({
+        where: { id: actor.orgId },
+        select: { fiscalYearStartMonth: true, reportingTimezone: true },
+      })
+      const [closedYears, closedPeriods] = await Promise.all([
+        prisma.yearEndClose.count({ where: { organizationId: actor.orgId } }),
+        prisma.ledgerPeriodLock.count({ where: { organizationId: actor.orgId } }),
+      ])
+
+      const startMonthChanged =
+        validated.fiscalYearStartMonth !== undefined &&
+        organization?.fiscalYearStartMonth !== validated.fiscalYearStartMonth
+      if (startMonthChanged && closedYears > 0) {
+        throw ledgerError("Fiscal year start cannot be changed once a fiscal year has been closed", 409)
+      }
+
+      const timezoneChanged =
+        validated.reportingTimezone !== undefined && organization?.reportingTimezone !== validated.reportingTimezone
+      if (timezoneChanged && closedYears + closedPeriods > 0) {
+        throw ledgerError("Reporting timezone cannot be changed once a period has been closed", 409)
+      }
+    }
+
+    const settings = await prisma.organization.update({
+      where: { id: actor.orgId },
+      data: validated,
+      select: settingsSelect,
+    })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "OrganizationSettings",
+      entityId: actor.orgId,
+      metadata: { changes: validated },
+    })
+
+    return NextResponse.json(settings)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
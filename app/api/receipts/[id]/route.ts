@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { requireMembership, canManageExpenses } from "@/lib/auth-helpers"
 import { deleteS3Object } from "@/lib/s3"
+import { refreshPolicyViolations } from "@/lib/approvals/spendingPolicies"
 
 export async function DELETE(
   request: NextRequest,
@@ -13,25 +14,33 @@ export async function DELETE(
       where: { id },
       include: {
         expense: true,
+        bill: true,
       },
     })
 
-    if (!receipt) {
+    const owner = receipt?.expense ?? receipt?.bill
+    if (!receipt || !owner) {
       return NextResponse.json({ error: "Receipt not found" }, { status: 404 })
     }
 
-    const { user } = await requireMembership(receipt.expense.organizationId, "MEMBER")
+    const { user } = await requireMembership(owner.organizationId, "MEMBER")
 
-    if (!(await canManageExpenses(receipt.expense.organizationId, user.id))) {
+    if (!(await canManageExpenses(owner.organizationId, user.id))) {
       return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 })
     }
 
     // Delete from S3
     await deleteS3Object(receipt.key)
 
-    // Delete from database
-    await prisma.receipt.delete({
-      where: { id },
+    // Delete from database; the expense may now be missing a required receipt
+    await prisma.$transaction(async (tx) => {
+      await tx.receipt.delete({
+        where: { id },
+      })
+
+      if (receipt.expenseId) {
+        await refreshPolicyViolations(tx, owner.organizationId, receipt.expenseId)
+      }
     })
 
     return NextResponse.json({ success: true })
@@ -2,44 +2,81 @@ import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { requireMembership, canManageExpenses } from "@/lib/auth-helpers"
 import { z } from "zod"
-import { generatePresignedDownloadUrl } from "@/lib/s3"
-
-const receiptSchema = z.object({
-  expenseId: z.string().cuid(),
-  key: z.string().min(1),
-  filename: z.string().min(1),
-  mimeType: z.string().min(1),
-  size: z.number().int().positive(),
-})
+import { generatePresignedDownloadUrl, hashS3Object } from "@/lib/s3"
+import { refreshPolicyViolations } from "@/lib/approvals/spendingPolicies"
+import { checkExpenseDuplicates } from "@/lib/ledger/expenseDuplicates"
+
+// A receipt belongs to an expense or to a vendor bill
+const receiptSchema = z
+  .object({
+    expenseId: z.string().cuid().optional(),
+    billId: z.string().cuid().optional(),
+    key: z.string().min(1),
+    filename: z.string().min(1),
+    mimeType: z.string().min(1),
+    size: z.number().int().positive(),
+  })
+  .refine((receipt) => Boolean(receipt.expenseId) !== Boolean(receipt.billId), {
+    message: "Pass either expenseId or billId",
+    path: ["expenseId"],
+  })
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
     const validated = receiptSchema.parse(body)
 
-    const expense = await prisma.expense.findUnique({
-      where: { id: validated.expenseId },
-    })
+    const owner = validated.billId
+      ? await prisma.bill.findUnique({ where: { id: validated.billId } })
+      : await prisma.expense.findUnique({ where: { id: validated.expenseId } })
 
-    if (!expense) {
-      return NextResponse.json({ error: "Expense not found" }, { status: 404 })
+    if (!owner) {
+      return NextResponse.json({ error: validated.billId ? "Bill not found" : "Expense not found" }, { status: 404 })
     }
 
-    const { user } = await requireMembership(expense.organizationId, "MEMBER")
+    const { user } = await requireMembership(owner.organizationId, "MEMBER")
 
-    if (!(await canManageExpenses(expense.organizationId, user.id))) {
+    if (!(await canManageExpenses(owner.organizationId, user.id))) {
       return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 })
     }
 
-    const receipt = await prisma.receipt.create({
-      data: {
-        expenseId: validated.expenseId,
-        key: validated.key,
-        filename: validated.filename,
-        mimeType: validated.mimeType,
-        size: validated.size,
-        url: validated.key, // Store key as URL for now (presigned URLs generated on-demand)
-      },
+    // Only files uploaded for this expense or bill (see upload-url) can be registered against it
+    if (!validated.key.startsWith(`receipts/${owner.organizationId}/${owner.id}/`)) {
+      return NextResponse.json({ error: "Receipt key does not belong to this expense or bill" }, { status: 400 })
+    }
+
+    // Hash the uploaded bytes to spot the same receipt on two expenses
+    const sha256 = await hashS3Object(validated.key)
+
+    const receipt = await prisma.$transaction(async (tx) => {
+      const receipt = await tx.receipt.create({
+        data: {
+          expenseId: validated.expenseId,
+          billId: validated.billId,
+          key: validated.key,
+          filename: validated.filename,
+          mimeType: validated.mimeType,
+          size: validated.size,
+          sha256,
+          url: validated.key, // Store key as URL for now (presigned URLs generated on-demand)
+        },
+      })
+
+      // A bill's receipt is attached to the bill's ledger transaction
+      if (validated.billId && owner.ledgerTransactionId) {
+        await tx.ledgerAttachmentLink.create({
+          data: { organizationId: owner.organizationId, transactionId: owner.ledgerTransactionId, receiptId: receipt.id },
+        })
+      }
+
+      // A receipt can settle a receipt-required policy violation, and reveal a duplicate when the same file
+      // is on another expense
+      if (validated.expenseId) {
+        await refreshPolicyViolations(tx, owner.organizationId, validated.expenseId)
+        await checkExpenseDuplicates(tx, owner.organizationId, validated.expenseId)
+      }
+
+      return receipt
     })
 
     return NextResponse.json(receipt, { status: 201 })
@@ -64,14 +101,16 @@ export async function GET(request: NextRequest) {
       where: { id: receiptId },
       include: {
         expense: true,
+        bill: true,
       },
     })
 
-    if (!receipt) {
+    const owner = receipt?.expense ?? receipt?.bill
+    if (!receipt || !owner) {
       return NextResponse.json({ error: "Receipt not found" }, { status: 404 })
     }
 
-    await requireMembership(receipt.expense.organizationId, "VIEWER")
+    await requireMembership(owner.organizationId, "VIEWER")
 
     // Generate presigned download URL
     const downloadUrl = await generatePresignedDownloadUrl(receipt.key)
@@ -10,23 +10,23 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const validated = receiptUploadSchema.parse(body)
 
-    const expense = await prisma.expense.findUnique({
-      where: { id: validated.expenseId },
-    })
+    const owner = validated.billId
+      ? await prisma.bill.findUnique({ where: { id: validated.billId } })
+      : await prisma.expense.findUnique({ where: { id: validated.expenseId } })
 
-    if (!expense) {
-      return NextResponse.json({ error: "Expense not found" }, { status: 404 })
+    if (!owner) {
+      return NextResponse.json({ error: validated.billId ? "Bill not found" : "Expense not found" }, { status: 404 })
     }
 
-    const { user } = await requireMembership(expense.organizationId, "MEMBER")
+    const { user } = await requireMembership(owner.organizationId, "MEMBER")
 
-    if (!(await canManageExpenses(expense.organizationId, user.id))) {
+    if (!(await canManageExpenses(owner.organizationId, user.id))) {
       return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 })
     }
 
     // Generate unique key for S3
     const fileExtension = validated.filename.split(".").pop()
-    const key = `receipts/${expense.organizationId}/${validated.expenseId}/${randomBytes(16).toString("hex")}.${fileExtension}`
+    const key = `receipts/${owner.organizationId}/${owner.id}/${randomBytes(16).toString("hex")}.${fileExtension}`
 
     const uploadUrl = await generatePresignedUploadUrl(key, validated.mimeType)
 
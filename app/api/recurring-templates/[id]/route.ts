@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server"
+import { recurringTemplateUpdateSchema } from "@/lib/validations"
+import { deleteRecurringTemplate, getRecurringTemplate, updateRecurringTemplate } from "@/lib/ledger/recurringTemplates"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("VIEWER")
+    const { id } = await params
+
+    const template = await getRecurringTemplate(actor.orgId, id)
+
+    return NextResponse.json(template)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("ADMIN")
+    const { id } = await params
+
+    const body = await request.json()
+    const validated = recurringTemplateUpdateSchema.parse(body)
+
+    const template = await updateRecurringTemplate({
+      organizationId: actor.orgId,
+      templateId: id,
+      changes: validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "RecurringTemplate",
+      entityId: template.id,
+      metadata: { changes: validated },
+    })
+
+    return NextResponse.json(template)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("ADMIN")
+    const { id } = await params
+
+    await deleteRecurringTemplate(actor.orgId, id, actor.userId)
+
+    await writeAudit({
+      actor,
+      action: "DELETE",
+      entityType: "RecurringTemplate",
+      entityId: id,
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
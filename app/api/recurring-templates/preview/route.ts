@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server"
+import { recurringPreviewQuerySchema } from "@/lib/validations"
+import { previewRecurringOccurrences } from "@/lib/ledger/recurringTemplates"
+import { requireActor } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const validated = recurringPreviewQuerySchema.parse({
+      templateId: searchParams.get("templateId") || undefined,
+      until: searchParams.get("until") || undefined,
+    })
+
+    const preview = await previewRecurringOccurrences({
+      organizationId: actor.orgId,
+      templateId: validated.templateId,
+      until: validated.until,
+    })
+
+    return NextResponse.json(preview)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
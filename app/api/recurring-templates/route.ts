@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { recurringTemplateSchema } from "@/lib/validations"
+import { createRecurringTemplate, listRecurringTemplates } from "@/lib/ledger/recurringTemplates"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+export async function GET() {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const templates = await listRecurringTemplates(actor.orgId)
+
+    return NextResponse.json(templates)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+/**
+ * Creates a recurring expense or journal entry template (ADMIN+)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const validated = recurringTemplateSchema.parse(body)
+
+    const template = await createRecurringTemplate({
+      organizationId: actor.orgId,
+      ...validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "CREATE",
+      entityType: "RecurringTemplate",
+      entityId: template.id,
+      metadata: { name: template.name },
+    })
+
+    return NextResponse.json(template, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
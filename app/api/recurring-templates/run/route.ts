@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { recurringRunSchema } from "@/lib/validations"
+import { runRecurringTemplates } from "@/lib/ledger/recurringTemplates"
+import { requireActor } from "@/src/core/org"
+
+/**
+ * Posts the organization's due recurring occurrences now instead of waiting for the scheduler (ADMIN+)
+ * Occurrences that could not be posted are listed under skipped with their error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const validated = recurringRunSchema.parse(body)
+
+    const result = await runRecurringTemplates({
+      organizationId: actor.orgId,
+      asOf: validated.asOf,
+      userId: actor.userId,
+    })
+
+    return NextResponse.json(result)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server"
+import { form1099QuerySchema } from "@/lib/validations"
+import { get1099Report } from "@/lib/reports/form1099"
+import { toCsv } from "@/lib/utils"
+import { requireActor } from "@/src/core/org"
+
+// Column layout of the IRIS bulk upload template for Form 1099-NEC
+const IRIS_1099_NEC_HEADERS = [
+  "Form Type",
+  "Tax Year",
+  "Payer TIN",
+  "Payer Name",
+  "Recipient TIN Type",
+  "Recipient TIN",
+  "Recipient Name",
+  "Recipient Address",
+  "Recipient Email",
+  "Account Number",
+  "Box 1 Nonemployee Compensation",
+  "Box 4 Federal Income Tax Withheld",
+]
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const validated = form1099QuerySchema.parse({
+      taxYear: searchParams.get("taxYear") || undefined,
+      threshold: searchParams.get("threshold") || undefined,
+      format: searchParams.get("format") || undefined,
+    })
+
+    const report = await get1099Report({
+      organizationId: actor.orgId,
+      taxYear: validated.taxYear,
+      threshold: validated.threshold,
+    })
+
+    if (validated.format !== "csv") {
+      return NextResponse.json(report)
+    }
+
+    // Only vendors at or above the threshold are filed
+    const rows = report.lines
+      .filter((line) => line.reportable)
+      .map((line) => [
+        "1099-NEC",
+        String(report.taxYear),
+        report.payer.taxId || "",
+        report.payer.name,
+        line.tinType || "",
+        line.taxId || "",
+        line.vendor,
+        line.address || "",
+        line.email || "",
+        line.vendorId,
+        line.payments.toFixed(2),
+        "0.00",
+      ])
+
+    return new NextResponse(toCsv(IRIS_1099_NEC_HEADERS, rows), {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="1099-nec-${report.taxYear}.csv"`,
+      },
+    })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
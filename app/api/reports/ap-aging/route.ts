@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server"
+import { apAgingQuerySchema } from "@/lib/validations"
+import { AGING_BUCKETS, getApAging } from "@/lib/reports/apAging"
+import { toCsv } from "@/lib/utils"
+import { requireActor } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const validated = apAgingQuerySchema.parse({
+      asOf: searchParams.get("asOf") || undefined,
+      format: searchParams.get("format") || undefined,
+    })
+
+    // Include the whole asOf day
+    const asOf = validated.asOf || new Date()
+    if (validated.asOf) {
+      asOf.setUTCHours(23, 59, 59, 999)
+    }
+
+    const report = await getApAging({ organizationId: actor.orgId, asOf })
+
+    if (validated.format !== "csv") {
+      return NextResponse.json(report)
+    }
+
+    const headers = ["Vendor", "Bill Number", "Bill Date", "Due Date", "Days Past Due", "Currency", "Outstanding", "Current", "1-30", "31-60", "61-90", "90+"]
+    const rows = report.lines.map((line) => [
+      line.vendor,
+      line.billNumber || "",
+      line.billDate.toISOString().split("T")[0],
+      line.dueDate.toISOString().split("T")[0],
+      String(line.daysPastDue),
+      line.currency,
+      line.outstanding.toFixed(2),
+      ...AGING_BUCKETS.map((bucket) =>
+        line.bucket === bucket ? line.outstandingBase.toFixed(2) : ""
+      ),
+    ])
+    rows.push([
+      "Total",
+      "",
+      "",
+      "",
+      "",
+      report.currency,
+      report.totals.total.toFixed(2),
+      report.totals.current.toFixed(2),
+      report.totals.days1to30.toFixed(2),
+      report.totals.days31to60.toFixed(2),
+      report.totals.days61to90.toFixed(2),
+      report.totals.over90.toFixed(2),
+    ])
+
+    const label = asOf.toISOString().split("T")[0]
+    return new NextResponse(toCsv(headers, rows), {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="ap-aging-${label}.csv"`,
+      },
+    })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
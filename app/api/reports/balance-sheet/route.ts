@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server"
+import { balanceSheetQuerySchema } from "@/lib/validations"
+import { getBalanceSheet } from "@/lib/reports/financialStatements"
+import { requireActor } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const validated = balanceSheetQuerySchema.parse({
+      asOf: searchParams.get("asOf") || undefined,
+      comparison: searchParams.get("comparison") || undefined,
+      depth: searchParams.get("depth") || undefined,
+    })
+
+    // A bare date means "through the end of that day"
+    const asOf = validated.asOf || new Date()
+    if (validated.asOf) {
+      asOf.setUTCHours(23, 59, 59, 999)
+    }
+
+    const statement = await getBalanceSheet({
+      organizationId: actor.orgId,
+      asOf,
+      comparison: validated.comparison,
+      depth: validated.depth,
+    })
+
+    return NextResponse.json(statement)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server"
+import { incomeStatementQuerySchema } from "@/lib/validations"
+import { getIncomeStatement } from "@/lib/reports/financialStatements"
+import { requireActor } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const validated = incomeStatementQuerySchema.parse({
+      startDate: searchParams.get("startDate") || undefined,
+      endDate: searchParams.get("endDate") || undefined,
+      comparison: searchParams.get("comparison") || undefined,
+      depth: searchParams.get("depth") || undefined,
+    })
+
+    // Include the whole end day
+    validated.endDate.setUTCHours(23, 59, 59, 999)
+
+    if (validated.startDate > validated.endDate) {
+      return NextResponse.json({ error: "startDate must be before endDate" }, { status: 400 })
+    }
+
+    const statement = await getIncomeStatement({
+      organizationId: actor.orgId,
+      ...validated,
+    })
+
+    return NextResponse.json(statement)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
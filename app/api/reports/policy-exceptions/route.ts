@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server"
+import { policyExceptionsQuerySchema } from "@/lib/validations"
+import { getPolicyExceptions } from "@/lib/reports/policyExceptions"
+import { toCsv } from "@/lib/utils"
+import { requireActor } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const validated = policyExceptionsQuerySchema.parse({
+      startDate: searchParams.get("startDate") || undefined,
+      endDate: searchParams.get("endDate") || undefined,
+      severity: searchParams.get("severity") || undefined,
+      policyId: searchParams.get("policyId") || undefined,
+      format: searchParams.get("format") || undefined,
+    })
+
+    const report = await getPolicyExceptions({
+      organizationId: actor.orgId,
+      startDate: validated.startDate,
+      endDate: validated.endDate,
+      severity: validated.severity,
+      policyId: validated.policyId,
+    })
+
+    if (validated.format !== "csv") {
+      return NextResponse.json(report)
+    }
+
+    const headers = ["Date", "Description", "Vendor", "Category", "Amount", "Currency", "Entered By", "Policy", "Severity", "Violation"]
+    const rows = report.exceptions.map((exception) => [
+      exception.date.toISOString().split("T")[0],
+      exception.description,
+      exception.vendor || "",
+      exception.category || "",
+      exception.amount,
+      exception.currency,
+      exception.createdBy || "",
+      exception.policyName,
+      exception.severity,
+      exception.message,
+    ])
+
+    return new NextResponse(toCsv(headers, rows), {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="policy-exceptions.csv"`,
+      },
+    })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
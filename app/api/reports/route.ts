@@ -3,6 +3,7 @@ import { prisma } from "@/lib/prisma"
 import { requireMembership } from "@/lib/auth-helpers"
 import { reportFiltersSchema } from "@/lib/validations"
 import { getLedgerReport } from "@/lib/reports/ledgerReports"
+import { getFiscalCalendar, periodOf } from "@/lib/ledger/periods"
 
 const LEDGER_REPORTS_ENABLED = process.env.LEDGER_REPORTS_ENABLED === "true"
 
@@ -16,6 +17,7 @@ export async function GET(request: NextRequest) {
       category: searchParams.get("category") || undefined,
       vendor: searchParams.get("vendor") || undefined,
       groupBy: searchParams.get("groupBy") || undefined,
+      depth: searchParams.get("depth") || undefined,
     }
 
     const validated = reportFiltersSchema.parse(filters)
@@ -30,10 +32,15 @@ export async function GET(request: NextRequest) {
         category: validated.category,
         vendor: validated.vendor,
         groupBy: validated.groupBy,
+        depth: validated.depth,
       })
       return NextResponse.json(result)
     }
 
+    if (validated.groupBy === "account") {
+      return NextResponse.json({ error: "Grouping by account requires ledger reports" }, { status: 400 })
+    }
+
     // Fallback to expense-based reports
     const where: any = {
       organizationId: validated.organizationId,
@@ -49,7 +56,7 @@ export async function GET(request: NextRequest) {
     }
 
     if (validated.category) {
-      where.category = validated.category
+      where.OR = [{ category: validated.category }, { lines: { some: { category: validated.category } } }]
     }
 
     if (validated.vendor) {
@@ -63,14 +70,23 @@ export async function GET(request: NextRequest) {
         date: true,
         category: true,
         vendor: true,
+        lines: { select: { amount: true, category: true } },
       },
     })
 
+    // Split expenses count per line, so a category filter or grouping only takes the matching lines
+    const parts = expenses.flatMap((expense) =>
+      (expense.lines.length > 0 ? expense.lines : [{ amount: expense.amount, category: expense.category }])
+        .filter((part) => !validated.category || part.category === validated.category)
+        .map((part) => ({ ...expense, amount: part.amount, category: part.category }))
+    )
+
     let result: any = {}
 
     if (validated.groupBy === "month") {
-      const grouped = expenses.reduce((acc, expense) => {
-        const month = new Date(expense.date).toISOString().slice(0, 7) // YYYY-MM
+      const { timezone } = await getFiscalCalendar(validated.organizationId)
+      const grouped = parts.reduce((acc, expense) => {
+        const month = periodOf(new Date(expense.date), timezone) // YYYY-MM
         acc[month] = (acc[month] || 0) + Number(expense.amount)
         return acc
       }, {} as Record<string, number>)
@@ -80,7 +96,7 @@ export async function GET(request: NextRequest) {
         total: Number(total),
       }))
     } else if (validated.groupBy === "category") {
-      const grouped = expenses.reduce((acc, expense) => {
+      const grouped = parts.reduce((acc, expense) => {
         const category = expense.category || "Uncategorized"
         acc[category] = (acc[category] || 0) + Number(expense.amount)
         return acc
@@ -91,7 +107,7 @@ export async function GET(request: NextRequest) {
         total: Number(total),
       }))
     } else if (validated.groupBy === "vendor") {
-      const grouped = expenses.reduce((acc, expense) => {
+      const grouped = parts.reduce((acc, expense) => {
         const vendor = expense.vendor || "Unknown"
         acc[vendor] = (acc[vendor] || 0) + Number(expense.amount)
         return acc
@@ -103,7 +119,7 @@ export async function GET(request: NextRequest) {
       }))
     } else {
       // Default: total
-      const total = expenses.reduce((sum, expense) => sum + Number(expense.amount), 0)
+      const total = parts.reduce((sum, expense) => sum + Number(expense.amount), 0)
       result = { total: Number(total), count: expenses.length }
     }
 
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server"
+import { taxSummaryQuerySchema } from "@/lib/validations"
+import { getTaxSummary } from "@/lib/reports/taxSummary"
+import { periodEnd, periodStart } from "@/lib/ledger/periods"
+import { toCsv } from "@/lib/utils"
+import { currencyDecimals } from "@/lib/currency"
+import { requireActor } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const validated = taxSummaryQuerySchema.parse({
+      period: searchParams.get("period") || undefined,
+      startDate: searchParams.get("startDate") || undefined,
+      endDate: searchParams.get("endDate") || undefined,
+      format: searchParams.get("format") || undefined,
+    })
+
+    const startDate = validated.period ? periodStart(validated.period) : validated.startDate!
+    const endDate = validated.period ? periodEnd(validated.period) : validated.endDate!
+    if (!validated.period) {
+      // Include the whole end day
+      endDate.setUTCHours(23, 59, 59, 999)
+    }
+
+    if (startDate > endDate) {
+      return NextResponse.json({ error: "startDate must be before endDate" }, { status: 400 })
+    }
+
+    const report = await getTaxSummary({ organizationId: actor.orgId, startDate, endDate })
+
+    if (validated.format !== "csv") {
+      return NextResponse.json(report)
+    }
+
+    // Amounts are written with the base currency's minor units (none for JPY, three for KWD)
+    const decimals = currencyDecimals(report.currency)
+    const headers = ["Tax Code", "Name", "Rate %", "Net Amount", "Recoverable Tax", "Non-Recoverable Tax", "Total Tax", "Gross Amount"]
+    const rows = report.lines.map((line) => [
+      line.code,
+      line.name,
+      String(line.rate),
+      line.netAmount.toFixed(decimals),
+      line.recoverableTax.toFixed(decimals),
+      line.nonRecoverableTax.toFixed(decimals),
+      line.totalTax.toFixed(decimals),
+      line.grossAmount.toFixed(decimals),
+    ])
+    rows.push([
+      "Total",
+      "",
+      "",
+      report.totals.netAmount.toFixed(decimals),
+      report.totals.recoverableTax.toFixed(decimals),
+      report.totals.nonRecoverableTax.toFixed(decimals),
+      report.totals.totalTax.toFixed(decimals),
+      report.totals.grossAmount.toFixed(decimals),
+    ])
+
+    const label = validated.period || `${startDate.toISOString().split("T")[0]}-${endDate.toISOString().split("T")[0]}`
+    return new NextResponse(toCsv(headers, rows), {
+      headers: {
+        "Content-Type": "text/csv",
+        "Content-Disposition": `attachment; filename="tax-summary-${label}.csv"`,
+      },
+    })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
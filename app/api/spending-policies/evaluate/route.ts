@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server"
+import { spendingPolicyEvaluateSchema } from "@/lib/validations"
+import { evaluateSpendingPolicies } from "@/lib/approvals/spendingPolicies"
+import { requireActor } from "@/src/core/org"
+
+/**
+ * Evaluates existing expenses against the spending policies and stores their violations (ADMIN+)
+ * Covers one expense, the expenses dated in a range, or all of them
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const validated = spendingPolicyEvaluateSchema.parse(body)
+
+    const summary = await evaluateSpendingPolicies({
+      organizationId: actor.orgId,
+      ...validated,
+      userId: actor.userId,
+    })
+
+    return NextResponse.json(summary)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server"
+import { vendorMergeSchema } from "@/lib/validations"
+import { mergeVendor } from "@/lib/ledger/vendorService"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Merges this vendor into targetVendorId, moving its expenses, bills and transactions (ADMIN+)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("ADMIN")
+    const { id } = await params
+
+    const body = await request.json()
+    const validated = vendorMergeSchema.parse(body)
+
+    const result = await mergeVendor({
+      organizationId: actor.orgId,
+      sourceId: id,
+      targetId: validated.targetVendorId,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "Vendor",
+      entityId: id,
+      metadata: {
+        mergedIntoVendorId: result.targetId,
+        expenseCount: result.expenseCount,
+        transactionCount: result.transactionCount,
+      },
+    })
+
+    return NextResponse.json(result)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server"
+import { vendorUpdateSchema } from "@/lib/validations"
+import { updateVendor } from "@/lib/ledger/vendorService"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+/**
+ * Renames, edits or archives a vendor (ADMIN+)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const actor = await requireActor("ADMIN")
+    const { id } = await params
+
+    const body = await request.json()
+    const validated = vendorUpdateSchema.parse(body)
+
+    const vendor = await updateVendor({
+      organizationId: actor.orgId,
+      vendorId: id,
+      ...validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "UPDATE",
+      entityType: "Vendor",
+      entityId: vendor.id,
+      metadata: { changes: validated },
+    })
+
+    return NextResponse.json(vendor)
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
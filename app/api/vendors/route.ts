@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server"
+import { vendorSchema } from "@/lib/validations"
+import { createVendor, listVendors } from "@/lib/ledger/vendorService"
+import { requireActor, writeAudit } from "@/src/core/org"
+
+export async function GET(request: NextRequest) {
+  try {
+    const actor = await requireActor("VIEWER")
+
+    const searchParams = request.nextUrl.searchParams
+    const vendors = await listVendors(actor.orgId, {
+      includeArchived: searchParams.get("includeArchived") === "true",
+      search: searchParams.get("search") || undefined,
+    })
+
+    return NextResponse.json(vendors)
+  } catch (error: any) {
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
+
+/**
+ * Creates a vendor (ADMIN+)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const actor = await requireActor("ADMIN")
+
+    const body = await request.json()
+    const validated = vendorSchema.parse(body)
+
+    const vendor = await createVendor({
+      organizationId: actor.orgId,
+      ...validated,
+      userId: actor.userId,
+    })
+
+    await writeAudit({
+      actor,
+      action: "CREATE",
+      entityType: "Vendor",
+      entityId: vendor.id,
+      metadata: { name: vendor.name, aliases: vendor.aliases },
+    })
+
+    return NextResponse.json(vendor, { status: 201 })
+  } catch (error: any) {
+    if (error.name === "ZodError") {
+      return NextResponse.json({ error: "Validation error", details: error.errors }, { status: 400 })
+    }
+    const statusCode = (error as any).statusCode || 500
+    return NextResponse.json({ error: error.message }, { status: statusCode })
+  }
+}
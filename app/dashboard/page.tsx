@@ -139,7 +139,9 @@ export default async function DashboardPage() {
                         {expense.organization.name} • {new Date(expense.date).toLocaleDateString()}
                       </div>
                     </div>
-                    <div className="text-lg font-semibold">{formatCurrency(Number(expense.amount))}</div>
+                    <div className="text-lg font-semibold">
+                      {formatCurrency(Number(expense.amount), expense.currency)}
+                    </div>
                   </div>
                 ))}
               </div>
@@ -1,12 +1,19 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { useForm } from "react-hook-form"
+import { useForm, Controller } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { z } from "zod"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import {
   Dialog,
   DialogContent,
@@ -16,15 +23,48 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog"
 import { useToast } from "@/hooks/use-toast"
+import { formatCurrency, formatDate } from "@/lib/utils"
 
 const expenseFormSchema = z.object({
   amount: z.coerce.number().positive("Amount must be positive"),
+  currency: z.union([z.literal(""), z.string().regex(/^[A-Za-z]{3}$/, "Use a 3-letter currency code")]).optional(),
   description: z.string().min(1, "Description is required").max(500),
   category: z.string().max(100).optional(),
   vendor: z.string().max(100).optional(),
   date: z.string().min(1, "Date is required"),
+  paymentAccountId: z.string().optional(),
 })
 
+// Sentinel for "use the organization's default payment account"
+const DEFAULT_PAYMENT_ACCOUNT = "default"
+
+// Sentinel for "no category" (posts to Uncategorized Expense)
+const NO_CATEGORY = "none"
+
+interface ExpenseCategory {
+  id: string
+  name: string
+}
+
+interface PaymentAccount {
+  id: string
+  name: string
+  code?: string | null
+  type: string
+}
+
+// Expense on file that the new one likely repeats, as returned with a 409
+interface DuplicateCandidate {
+  expenseId: string
+  date: string
+  description: string
+  vendor: string | null
+  amount: number
+  currency: string
+  score: number
+  reasons: string[]
+}
+
 type ExpenseFormData = z.infer<typeof expenseFormSchema>
 
 interface ExpenseFormProps {
@@ -34,20 +74,26 @@ interface ExpenseFormProps {
   expense?: {
     id: string
     amount: number
+    currency?: string
     description: string
     category?: string | null
     vendor?: string | null
     date: string
+    paymentAccountId?: string | null
   }
   onSuccess?: () => void
 }
 
 export function ExpenseForm({ open, onOpenChange, organizationId, expense, onSuccess }: ExpenseFormProps) {
   const [loading, setLoading] = useState(false)
+  const [paymentAccounts, setPaymentAccounts] = useState<PaymentAccount[]>([])
+  const [categories, setCategories] = useState<ExpenseCategory[]>([])
+  const [duplicates, setDuplicates] = useState<DuplicateCandidate[] | null>(null)
   const { toast } = useToast()
 
   const {
     register,
+    control,
     handleSubmit,
     reset,
     formState: { errors },
@@ -56,13 +102,17 @@ export function ExpenseForm({ open, onOpenChange, organizationId, expense, onSuc
     defaultValues: expense
       ? {
           amount: expense.amount,
+          currency: expense.currency || "",
           description: expense.description,
-          category: expense.category || "",
+          category: expense.category || NO_CATEGORY,
           vendor: expense.vendor || "",
           date: expense.date.split("T")[0],
+          paymentAccountId: expense.paymentAccountId || DEFAULT_PAYMENT_ACCOUNT,
         }
       : {
           date: new Date().toISOString().split("T")[0],
+          category: NO_CATEGORY,
+          paymentAccountId: DEFAULT_PAYMENT_ACCOUNT,
         },
   })
 
@@ -70,18 +120,57 @@ export function ExpenseForm({ open, onOpenChange, organizationId, expense, onSuc
     if (expense) {
       reset({
         amount: expense.amount,
+        currency: expense.currency || "",
         description: expense.description,
-        category: expense.category || "",
+        category: expense.category || NO_CATEGORY,
         vendor: expense.vendor || "",
         date: expense.date.split("T")[0],
+        paymentAccountId: expense.paymentAccountId || DEFAULT_PAYMENT_ACCOUNT,
       })
     } else {
       reset({
         date: new Date().toISOString().split("T")[0],
+        category: NO_CATEGORY,
+        paymentAccountId: DEFAULT_PAYMENT_ACCOUNT,
       })
     }
   }, [expense, reset])
 
+  useEffect(() => {
+    setDuplicates(null)
+    if (!open) return
+
+    const fetchPaymentAccounts = async () => {
+      try {
+        const response = await fetch("/api/ledger/accounts")
+        if (!response.ok) throw new Error("Failed to fetch accounts")
+        const accounts: PaymentAccount[] = await response.json()
+        setPaymentAccounts(accounts.filter((a) => a.type === "ASSET" || a.type === "LIABILITY"))
+      } catch (error: any) {
+        console.error("Error fetching payment accounts:", error)
+      }
+    }
+
+    const fetchCategories = async () => {
+      try {
+        const response = await fetch("/api/categories")
+        if (!response.ok) throw new Error("Failed to fetch categories")
+        setCategories(await response.json())
+      } catch (error: any) {
+        console.error("Error fetching categories:", error)
+      }
+    }
+
+    fetchPaymentAccounts()
+    fetchCategories()
+  }, [open])
+
+  // An expense in an archived category still shows its category
+  const categoryOptions =
+    expense?.category && !categories.some((c) => c.name === expense.category)
+      ? [...categories, { id: expense.category, name: expense.category }]
+      : categories
+
   const onSubmit = async (data: ExpenseFormData) => {
     setLoading(true)
     try {
@@ -96,12 +185,23 @@ export function ExpenseForm({ open, onOpenChange, organizationId, expense, onSuc
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           ...data,
+          // Blank currency means the organization's base currency
+          currency: data.currency ? data.currency.toUpperCase() : undefined,
+          category: data.category === NO_CATEGORY ? "" : data.category,
+          paymentAccountId:
+            data.paymentAccountId === DEFAULT_PAYMENT_ACCOUNT ? undefined : data.paymentAccountId,
+          // Likely duplicates were shown and the user chose to create the expense anyway
+          ...(!expense && duplicates ? { allowDuplicates: true } : {}),
           organizationId,
         }),
       })
 
       if (!response.ok) {
         const error = await response.json()
+        if (response.status === 409 && error.duplicates) {
+          setDuplicates(error.duplicates)
+          return
+        }
         throw new Error(error.error || "Failed to save expense")
       }
 
@@ -133,18 +233,34 @@ export function ExpenseForm({ open, onOpenChange, organizationId, expense, onSuc
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="amount">Amount *</Label>
-            <Input
-              id="amount"
-              type="number"
-              step="0.01"
-              {...register("amount")}
-              placeholder="0.00"
-            />
-            {errors.amount && (
-              <p className="text-sm text-destructive">{errors.amount.message}</p>
-            )}
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="amount">Amount *</Label>
+              <Input
+                id="amount"
+                type="number"
+                step="any"
+                {...register("amount")}
+                placeholder="0.00"
+              />
+              {errors.amount && (
+                <p className="text-sm text-destructive">{errors.amount.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="currency">Currency</Label>
+              <Input
+                id="currency"
+                maxLength={3}
+                className="uppercase"
+                {...register("currency")}
+                placeholder="Base"
+              />
+              {errors.currency && (
+                <p className="text-sm text-destructive">{errors.currency.message}</p>
+              )}
+            </div>
           </div>
 
           <div className="space-y-2">
@@ -160,11 +276,25 @@ export function ExpenseForm({ open, onOpenChange, organizationId, expense, onSuc
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="category">Category</Label>
-            <Input
-              id="category"
-              {...register("category")}
-              placeholder="e.g., Travel, Food, Equipment"
+            <Label>Category</Label>
+            <Controller
+              control={control}
+              name="category"
+              render={({ field }) => (
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_CATEGORY}>Uncategorized</SelectItem>
+                    {categoryOptions.map((category) => (
+                      <SelectItem key={category.id} value={category.name}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             />
             {errors.category && (
               <p className="text-sm text-destructive">{errors.category.message}</p>
@@ -183,6 +313,29 @@ export function ExpenseForm({ open, onOpenChange, organizationId, expense, onSuc
             )}
           </div>
 
+          <div className="space-y-2">
+            <Label>Paid From</Label>
+            <Controller
+              control={control}
+              name="paymentAccountId"
+              render={({ field }) => (
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_PAYMENT_ACCOUNT}>Organization default</SelectItem>
+                    {paymentAccounts.map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.code ? `${account.code} - ${account.name}` : account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            />
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="date">Date *</Label>
             <Input
@@ -195,12 +348,31 @@ export function ExpenseForm({ open, onOpenChange, organizationId, expense, onSuc
             )}
           </div>
 
+          {duplicates && (
+            <div className="space-y-2 rounded-md border border-destructive/50 p-3">
+              <p className="text-sm font-medium">This looks like an expense already on file:</p>
+              <ul className="space-y-1">
+                {duplicates.map((duplicate) => (
+                  <li key={duplicate.expenseId} className="text-sm">
+                    {formatDate(duplicate.date)} - {duplicate.description}
+                    {duplicate.vendor ? ` (${duplicate.vendor})` : ""} -{" "}
+                    {formatCurrency(duplicate.amount, duplicate.currency)}
+                    <span className="block text-xs text-muted-foreground">{duplicate.reasons.join(", ")}</span>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-sm text-muted-foreground">
+                Create it anyway if it is a separate purchase; the pair is queued for duplicate review.
+              </p>
+            </div>
+          )}
+
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               Cancel
             </Button>
             <Button type="submit" disabled={loading}>
-              {loading ? "Saving..." : expense ? "Update" : "Create"}
+              {loading ? "Saving..." : expense ? "Update" : duplicates ? "Create anyway" : "Create"}
             </Button>
           </DialogFooter>
         </form>
@@ -27,10 +27,14 @@ import {
 interface Expense {
   id: string
   amount: number
+  currency: string
   description: string
   category?: string | null
   vendor?: string | null
   date: string
+  paymentAccountId?: string | null
+  paymentAccount?: { id: string; name: string } | null
+  lines?: Array<{ id: string; amount: number; category?: string | null }>
   receipts: Array<{
     id: string
     filename: string
@@ -130,7 +134,15 @@ export function ExpensesList({ organizationId }: ExpensesListProps) {
     }
   }
 
-  const total = expenses.reduce((sum, expense) => sum + Number(expense.amount), 0)
+  // Amounts in different currencies are totalled separately
+  const totals = expenses.reduce((acc, expense) => {
+    acc[expense.currency] = (acc[expense.currency] || 0) + Number(expense.amount)
+    return acc
+  }, {} as Record<string, number>)
+  const totalLabel =
+    Object.entries(totals)
+      .map(([currency, amount]) => formatCurrency(amount, currency))
+      .join(" + ") || formatCurrency(0)
 
   if (loading) {
     return (
@@ -146,7 +158,7 @@ export function ExpensesList({ organizationId }: ExpensesListProps) {
         <div>
           <h1 className="text-3xl font-bold">Expenses</h1>
           <p className="text-muted-foreground">
-            Total: {formatCurrency(total)} ({expenses.length} expenses)
+            Total: {totalLabel} ({expenses.length} expenses)
           </p>
         </div>
         <div className="flex gap-2">
@@ -178,6 +190,7 @@ export function ExpensesList({ organizationId }: ExpensesListProps) {
                   <TableHead>Description</TableHead>
                   <TableHead>Category</TableHead>
                   <TableHead>Vendor</TableHead>
+                  <TableHead>Paid From</TableHead>
                   <TableHead className="text-right">Amount</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
@@ -187,10 +200,15 @@ export function ExpensesList({ organizationId }: ExpensesListProps) {
                   <TableRow key={expense.id}>
                     <TableCell>{formatDate(expense.date)}</TableCell>
                     <TableCell className="font-medium">{expense.description}</TableCell>
-                    <TableCell>{expense.category || "-"}</TableCell>
+                    <TableCell>
+                      {expense.lines && expense.lines.length > 0
+                        ? expense.lines.map((line) => line.category || "Uncategorized").join(", ")
+                        : expense.category || "-"}
+                    </TableCell>
                     <TableCell>{expense.vendor || "-"}</TableCell>
+                    <TableCell>{expense.paymentAccount?.name || "-"}</TableCell>
                     <TableCell className="text-right font-medium">
-                      {formatCurrency(Number(expense.amount))}
+                      {formatCurrency(Number(expense.amount), expense.currency)}
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
@@ -18,6 +18,7 @@ export function Navbar({ organizationId }: NavbarProps) {
         { href: "/dashboard", label: "Dashboard" },
         { href: `/expenses?organizationId=${organizationId}`, label: "Expenses" },
         { href: `/reports?organizationId=${organizationId}`, label: "Reports" },
+        { href: `/accounts?organizationId=${organizationId}`, label: "Accounts" },
       ]
     : []
 
@@ -0,0 +1,244 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { formatCurrency, formatDate } from "@/lib/utils"
+import { Paperclip } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+interface RegisterEntry {
+  postingId: string
+  transactionId: string
+  occurredAt: string
+  description: string
+  vendor?: string | null
+  memo?: string | null
+  currency: string
+  amount: number
+  debit: number
+  credit: number
+  balance: number
+  reversalOfTransactionId?: string | null
+  reversedByTransactionId?: string | null
+  expense?: { id: string; description: string; deletedAt?: string | null } | null
+  receipts: Array<{ id: string; filename: string }>
+}
+
+interface Register {
+  account: { id: string; name: string; code?: string | null; type: string }
+  currency: string
+  openingBalance: number
+  closingBalance: number
+  entries: RegisterEntry[]
+  nextCursor: string | null
+}
+
+interface AccountRegisterProps {
+  organizationId: string
+  accountId: string
+}
+
+export function AccountRegister({ organizationId, accountId }: AccountRegisterProps) {
+  const [startDate, setStartDate] = useState("")
+  const [endDate, setEndDate] = useState("")
+  const [register, setRegister] = useState<Register | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  const { toast } = useToast()
+
+  const fetchPage = async (cursor?: string) => {
+    const params = new URLSearchParams()
+    if (startDate) params.append("startDate", startDate)
+    if (endDate) params.append("endDate", endDate)
+    if (cursor) params.append("cursor", cursor)
+
+    const response = await fetch(`/api/ledger/accounts/${accountId}/register?${params.toString()}`)
+    if (!response.ok) {
+      const error = await response.json()
+      throw new Error(error.error || "Failed to fetch register")
+    }
+    return (await response.json()) as Register
+  }
+
+  const fetchRegister = async () => {
+    setLoading(true)
+    try {
+      setRegister(await fetchPage())
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadMore = async () => {
+    if (!register?.nextCursor) return
+    setLoadingMore(true)
+    try {
+      const next = await fetchPage(register.nextCursor)
+      setRegister({ ...next, entries: [...register.entries, ...next.entries] })
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const openReceipt = async (receiptId: string) => {
+    try {
+      const response = await fetch(`/api/receipts?id=${receiptId}`)
+      if (!response.ok) throw new Error("Failed to load receipt")
+      const receipt = await response.json()
+      window.open(receipt.downloadUrl, "_blank")
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  useEffect(() => {
+    fetchRegister()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [accountId, startDate, endDate])
+
+  if (loading && !register) {
+    return (
+      <div className="mx-auto max-w-7xl p-6">
+        <div>Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mx-auto max-w-7xl p-6">
+      <div className="mb-6 flex items-end justify-between">
+        <div>
+          <Link
+            href={`/accounts?organizationId=${organizationId}`}
+            className="text-sm text-muted-foreground hover:text-primary"
+          >
+            Chart of Accounts
+          </Link>
+          <h1 className="text-3xl font-bold">
+            {register?.account.code ? `${register.account.code} - ` : ""}
+            {register?.account.name}
+          </h1>
+          <p className="text-muted-foreground">{register?.account.type}</p>
+        </div>
+        <div className="flex gap-4">
+          <div className="space-y-2">
+            <Label>Start Date</Label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>End Date</Label>
+            <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+          </div>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Register</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Vendor</TableHead>
+                <TableHead className="text-right">Debit</TableHead>
+                <TableHead className="text-right">Credit</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow className="text-muted-foreground">
+                <TableCell colSpan={5}>Opening balance</TableCell>
+                <TableCell className="text-right">{formatCurrency(register?.openingBalance || 0, register?.currency)}</TableCell>
+              </TableRow>
+              {register?.entries.map((entry) => (
+                <TableRow key={entry.postingId} className={entry.reversedByTransactionId ? "opacity-60" : ""}>
+                  <TableCell>{formatDate(entry.occurredAt)}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{entry.description}</div>
+                    <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                      <a href={`/api/ledger/transactions/${entry.transactionId}`} className="hover:text-primary">
+                        Transaction
+                      </a>
+                      {entry.currency !== register.currency && (
+                        <span>{formatCurrency(entry.amount, entry.currency)}</span>
+                      )}
+                      {entry.reversalOfTransactionId && <span>Reversal</span>}
+                      {entry.reversedByTransactionId && <span>Reversed</span>}
+                      {entry.expense && (
+                        <Link
+                          href={`/expenses?organizationId=${organizationId}`}
+                          className="hover:text-primary"
+                        >
+                          Expense{entry.expense.deletedAt ? " (deleted)" : ""}
+                        </Link>
+                      )}
+                      {entry.receipts.map((receipt) => (
+                        <button
+                          key={receipt.id}
+                          type="button"
+                          onClick={() => openReceipt(receipt.id)}
+                          className="inline-flex items-center hover:text-primary"
+                        >
+                          <Paperclip className="mr-1 h-3 w-3" />
+                          {receipt.filename}
+                        </button>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>{entry.vendor || "-"}</TableCell>
+                  <TableCell className="text-right">{entry.debit ? formatCurrency(entry.debit, register.currency) : ""}</TableCell>
+                  <TableCell className="text-right">{entry.credit ? formatCurrency(entry.credit, register.currency) : ""}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(entry.balance, register.currency)}</TableCell>
+                </TableRow>
+              ))}
+              {!register?.nextCursor && (
+                <TableRow className="font-bold">
+                  <TableCell colSpan={5}>Closing balance</TableCell>
+                  <TableCell className="text-right">{formatCurrency(register?.closingBalance || 0, register?.currency)}</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+          {register?.nextCursor && (
+            <div className="mt-4 flex justify-center">
+              <Button variant="outline" onClick={loadMore} disabled={loadingMore}>
+                {loadingMore ? "Loading..." : "Load more"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
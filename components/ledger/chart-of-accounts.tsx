@@ -0,0 +1,387 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Plus, Edit, Archive, ArchiveRestore } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+
+const ACCOUNT_TYPES = ["ASSET", "LIABILITY", "EQUITY", "INCOME", "EXPENSE"] as const
+
+type AccountType = (typeof ACCOUNT_TYPES)[number]
+
+interface LedgerAccount {
+  id: string
+  name: string
+  code?: string | null
+  type: AccountType
+  currency: string
+  isSystem: boolean
+  archivedAt?: string | null
+  parentId?: string | null
+}
+
+interface ChartOfAccountsProps {
+  organizationId: string
+}
+
+interface AccountFormState {
+  name: string
+  code: string
+  type: AccountType
+  parentId: string
+}
+
+const EMPTY_FORM: AccountFormState = { name: "", code: "", type: "EXPENSE", parentId: "none" }
+
+/**
+ * Orders accounts depth-first under their parents so children render indented
+ */
+function toTreeRows(accounts: LedgerAccount[]): Array<{ account: LedgerAccount; depth: number }> {
+  const byParent = new Map<string | null, LedgerAccount[]>()
+  const ids = new Set(accounts.map((a) => a.id))
+  for (const account of accounts) {
+    const key = account.parentId && ids.has(account.parentId) ? account.parentId : null
+    byParent.set(key, [...(byParent.get(key) || []), account])
+  }
+
+  const rows: Array<{ account: LedgerAccount; depth: number }> = []
+  const visit = (parentId: string | null, depth: number) => {
+    for (const account of byParent.get(parentId) || []) {
+      rows.push({ account, depth })
+      visit(account.id, depth + 1)
+    }
+  }
+  visit(null, 0)
+  return rows
+}
+
+export function ChartOfAccounts({ organizationId }: ChartOfAccountsProps) {
+  const [accounts, setAccounts] = useState<LedgerAccount[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showArchived, setShowArchived] = useState(false)
+  const [formOpen, setFormOpen] = useState(false)
+  const [editingAccount, setEditingAccount] = useState<LedgerAccount | undefined>()
+  const [form, setForm] = useState<AccountFormState>(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+  const { toast } = useToast()
+
+  const fetchAccounts = async () => {
+    try {
+      const response = await fetch(`/api/ledger/accounts?includeArchived=${showArchived}`)
+      if (!response.ok) throw new Error("Failed to fetch accounts")
+      const data = await response.json()
+      setAccounts(data)
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchAccounts()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [organizationId, showArchived])
+
+  const openCreate = () => {
+    setEditingAccount(undefined)
+    setForm(EMPTY_FORM)
+    setFormOpen(true)
+  }
+
+  const openEdit = (account: LedgerAccount) => {
+    setEditingAccount(account)
+    setForm({
+      name: account.name,
+      code: account.code || "",
+      type: account.type,
+      parentId: account.parentId || "none",
+    })
+    setFormOpen(true)
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const parentId = form.parentId === "none" ? null : form.parentId
+      const body = editingAccount
+        ? editingAccount.isSystem
+          ? { parentId }
+          : { name: form.name, code: form.code || null, parentId }
+        : {
+            name: form.name,
+            type: form.type,
+            ...(form.code ? { code: form.code } : {}),
+            ...(parentId ? { parentId } : {}),
+          }
+
+      const response = await fetch(
+        editingAccount ? `/api/ledger/accounts/${editingAccount.id}` : "/api/ledger/accounts",
+        {
+          method: editingAccount ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }
+      )
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to save account")
+      }
+
+      toast({
+        title: editingAccount ? "Account updated" : "Account created",
+        description: "The chart of accounts has been saved.",
+      })
+
+      setFormOpen(false)
+      fetchAccounts()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleArchive = async (account: LedgerAccount, archived: boolean) => {
+    try {
+      const response = await fetch(`/api/ledger/accounts/${account.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ archived }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || "Failed to update account")
+      }
+
+      toast({
+        title: archived ? "Account archived" : "Account restored",
+        description: account.name,
+      })
+
+      fetchAccounts()
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  // Parents must share the account's type and cannot be the account itself
+  const parentOptions = accounts.filter(
+    (a) => !a.archivedAt && a.type === form.type && a.id !== editingAccount?.id
+  )
+
+  if (loading) {
+    return (
+      <div className="mx-auto max-w-7xl p-6">
+        <div>Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mx-auto max-w-7xl p-6">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Chart of Accounts</h1>
+          <p className="text-muted-foreground">Manage the ledger accounts used for postings</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowArchived(!showArchived)}>
+            {showArchived ? "Hide Archived" : "Show Archived"}
+          </Button>
+          <Button onClick={openCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Account
+          </Button>
+        </div>
+      </div>
+
+      {ACCOUNT_TYPES.map((type) => {
+        const rows = toTreeRows(accounts.filter((a) => a.type === type))
+        if (rows.length === 0) return null
+
+        return (
+          <Card key={type} className="mb-6">
+            <CardHeader>
+              <CardTitle>{type.charAt(0) + type.slice(1).toLowerCase()}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Currency</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(({ account, depth }) => (
+                    <TableRow key={account.id} className={account.archivedAt ? "opacity-50" : ""}>
+                      <TableCell className="font-mono text-sm">{account.code || "-"}</TableCell>
+                      <TableCell className="font-medium" style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>
+                        <Link
+                          href={`/accounts/${account.id}?organizationId=${organizationId}`}
+                          className="hover:text-primary hover:underline"
+                        >
+                          {account.name}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{account.currency}</TableCell>
+                      <TableCell>
+                        {account.archivedAt ? "Archived" : account.isSystem ? "System" : "Active"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="icon" onClick={() => openEdit(account)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          {!account.isSystem && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleArchive(account, !account.archivedAt)}
+                            >
+                              {account.archivedAt ? (
+                                <ArchiveRestore className="h-4 w-4" />
+                              ) : (
+                                <Archive className="h-4 w-4" />
+                              )}
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )
+      })}
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{editingAccount ? "Edit Account" : "New Account"}</DialogTitle>
+            <DialogDescription>
+              {editingAccount?.isSystem
+                ? "System accounts can only be moved under a different parent."
+                : "Accounts are grouped by type and may be nested under a parent of the same type."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="account-name">Name *</Label>
+              <Input
+                id="account-name"
+                value={form.name}
+                disabled={editingAccount?.isSystem}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g., Travel"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="account-code">Code</Label>
+              <Input
+                id="account-code"
+                value={form.code}
+                disabled={editingAccount?.isSystem}
+                onChange={(e) => setForm({ ...form, code: e.target.value })}
+                placeholder="e.g., 6100"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Type *</Label>
+              <Select
+                value={form.type}
+                disabled={!!editingAccount}
+                onValueChange={(value) => setForm({ ...form, type: value as AccountType, parentId: "none" })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ACCOUNT_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Parent</Label>
+              <Select value={form.parentId} onValueChange={(value) => setForm({ ...form, parentId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No parent</SelectItem>
+                  {parentOptions.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.code ? `${account.code} - ${account.name}` : account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !form.name}>
+              {saving ? "Saving..." : editingAccount ? "Update" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
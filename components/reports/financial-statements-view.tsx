@@ -0,0 +1,266 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { formatCurrency } from "@/lib/utils"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+
+interface StatementLine {
+  accountId: string
+  code?: string | null
+  name: string
+  depth: number
+  hasChildren: boolean
+  current: number
+  comparison?: number
+}
+
+interface StatementSection {
+  type: string
+  lines: StatementLine[]
+  total: { current: number; comparison?: number }
+}
+
+interface Amounts {
+  current: number
+  comparison?: number
+}
+
+interface IncomeStatement {
+  currency: string
+  income: StatementSection
+  expense: StatementSection
+  netIncome: Amounts
+}
+
+interface BalanceSheet {
+  currency: string
+  assets: StatementSection
+  liabilities: StatementSection
+  equity: StatementSection
+  currentYearEarnings: Amounts
+  priorUnclosedEarnings: Amounts
+  totalLiabilitiesAndEquity: Amounts
+  balanced: boolean
+}
+
+const SECTION_TITLES: Record<string, string> = {
+  INCOME: "Income",
+  EXPENSE: "Expenses",
+  ASSET: "Assets",
+  LIABILITY: "Liabilities",
+  EQUITY: "Equity",
+}
+
+function today(): string {
+  return new Date().toISOString().split("T")[0]
+}
+
+function startOfFiscalYear(startMonth: number): string {
+  const now = new Date()
+  const year = now.getUTCMonth() + 1 >= startMonth ? now.getUTCFullYear() : now.getUTCFullYear() - 1
+  return `${year}-${String(startMonth).padStart(2, "0")}-01`
+}
+
+export function FinancialStatementsView({ fiscalYearStartMonth = 1 }: { fiscalYearStartMonth?: number }) {
+  const [statement, setStatement] = useState<"income-statement" | "balance-sheet">("income-statement")
+  const [comparison, setComparison] = useState("none")
+  const [startDate, setStartDate] = useState(startOfFiscalYear(fiscalYearStartMonth))
+  const [endDate, setEndDate] = useState(today())
+  const [asOf, setAsOf] = useState(today())
+  const [data, setData] = useState<IncomeStatement | BalanceSheet | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    setStartDate(startOfFiscalYear(fiscalYearStartMonth))
+  }, [fiscalYearStartMonth])
+
+  const fetchStatement = async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams(
+        statement === "income-statement" ? { startDate, endDate } : { asOf }
+      )
+      if (comparison !== "none") params.append("comparison", comparison)
+
+      const response = await fetch(`/api/reports/${statement}?${params.toString()}`)
+      if (!response.ok) throw new Error("Failed to fetch statement")
+      setData(await response.json())
+    } catch (error: any) {
+      console.error("Error fetching statement:", error)
+      setData(null)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchStatement()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statement, comparison, startDate, endDate, asOf])
+
+  const showComparison = comparison !== "none"
+
+  const renderAmounts = (amounts: Amounts) => (
+    <>
+      <TableCell className="text-right">{formatCurrency(amounts.current, data?.currency)}</TableCell>
+      {showComparison && (
+        <TableCell className="text-right text-muted-foreground">
+          {formatCurrency(amounts.comparison || 0, data?.currency)}
+        </TableCell>
+      )}
+    </>
+  )
+
+  const renderSection = (section: StatementSection) => (
+    <>
+      <TableRow key={`${section.type}-header`}>
+        <TableCell colSpan={showComparison ? 3 : 2} className="font-semibold">
+          {SECTION_TITLES[section.type]}
+        </TableCell>
+      </TableRow>
+      {section.lines.map((line) => (
+        <TableRow key={line.accountId} className={line.hasChildren ? "font-medium" : ""}>
+          <TableCell style={{ paddingLeft: `${2 + line.depth * 1.5}rem` }}>
+            {line.code ? `${line.code} - ${line.name}` : line.name}
+          </TableCell>
+          {renderAmounts(line)}
+        </TableRow>
+      ))}
+      <TableRow key={`${section.type}-total`} className="font-semibold">
+        <TableCell>Total {SECTION_TITLES[section.type]}</TableCell>
+        {renderAmounts(section.total)}
+      </TableRow>
+    </>
+  )
+
+  const renderBody = () => {
+    if (!data) return null
+
+    if ("netIncome" in data) {
+      return (
+        <TableBody>
+          {renderSection(data.income)}
+          {renderSection(data.expense)}
+          <TableRow className="font-bold">
+            <TableCell>Net Income</TableCell>
+            {renderAmounts(data.netIncome)}
+          </TableRow>
+        </TableBody>
+      )
+    }
+
+    return (
+      <TableBody>
+        {renderSection(data.assets)}
+        {renderSection(data.liabilities)}
+        {renderSection(data.equity)}
+        <TableRow>
+          <TableCell className="pl-8">Current Year Earnings</TableCell>
+          {renderAmounts(data.currentYearEarnings)}
+        </TableRow>
+        <TableRow>
+          <TableCell className="pl-8">Prior Earnings (unclosed)</TableCell>
+          {renderAmounts(data.priorUnclosedEarnings)}
+        </TableRow>
+        <TableRow className="font-bold">
+          <TableCell>
+            Total Liabilities &amp; Equity {data.balanced ? "" : "(out of balance)"}
+          </TableCell>
+          {renderAmounts(data.totalLiabilitiesAndEquity)}
+        </TableRow>
+      </TableBody>
+    )
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Financial Statements</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="mb-6 grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+          <div className="space-y-2">
+            <Label>Statement</Label>
+            <Select value={statement} onValueChange={(value) => setStatement(value as typeof statement)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="income-statement">Income Statement</SelectItem>
+                <SelectItem value="balance-sheet">Balance Sheet</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {statement === "income-statement" ? (
+            <>
+              <div className="space-y-2">
+                <Label>Start Date</Label>
+                <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>End Date</Label>
+                <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+            </>
+          ) : (
+            <div className="space-y-2">
+              <Label>As of</Label>
+              <Input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Compare To</Label>
+            <Select value={comparison} onValueChange={setComparison}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No comparison</SelectItem>
+                <SelectItem value="previous_period">Previous period</SelectItem>
+                <SelectItem value="previous_year">Same period last year</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {loading ? (
+          <div>Loading...</div>
+        ) : data ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Account</TableHead>
+                <TableHead className="text-right">Current</TableHead>
+                {showComparison && <TableHead className="text-right">Comparison</TableHead>}
+              </TableRow>
+            </TableHeader>
+            {renderBody()}
+          </Table>
+        ) : (
+          <div className="py-12 text-center text-muted-foreground">
+            No data available for the selected dates.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
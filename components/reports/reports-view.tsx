@@ -21,6 +21,8 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table"
+import { TrialBalanceView } from "./trial-balance-view"
+import { FinancialStatementsView } from "./financial-statements-view"
 
 interface ReportsViewProps {
   organizationId: string
@@ -30,6 +32,8 @@ interface ReportData {
   month?: string
   category?: string
   vendor?: string
+  account?: string
+  depth?: number
   total: number
   count?: number
 }
@@ -40,8 +44,27 @@ export function ReportsView({ organizationId }: ReportsViewProps) {
   const [endDate, setEndDate] = useState("")
   const [category, setCategory] = useState("")
   const [vendor, setVendor] = useState("")
+  const [depth, setDepth] = useState("all")
   const [reportData, setReportData] = useState<ReportData[] | { total: number; count: number } | null>(null)
   const [loading, setLoading] = useState(false)
+  const [baseCurrency, setBaseCurrency] = useState("USD")
+  const [fiscalYearStartMonth, setFiscalYearStartMonth] = useState(1)
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch("/api/org/settings")
+        if (!response.ok) throw new Error("Failed to fetch settings")
+        const settings = await response.json()
+        setBaseCurrency(settings.baseCurrency)
+        setFiscalYearStartMonth(settings.fiscalYearStartMonth)
+      } catch (error: any) {
+        console.error("Error fetching settings:", error)
+      }
+    }
+
+    fetchSettings()
+  }, [organizationId])
 
   const fetchReport = async () => {
     setLoading(true)
@@ -55,6 +78,7 @@ export function ReportsView({ organizationId }: ReportsViewProps) {
       if (endDate) params.append("endDate", endDate)
       if (category) params.append("category", category)
       if (vendor) params.append("vendor", vendor)
+      if (groupBy === "account" && depth !== "all") params.append("depth", depth)
 
       const response = await fetch(`/api/reports?${params.toString()}`)
       if (!response.ok) throw new Error("Failed to fetch report")
@@ -70,7 +94,7 @@ export function ReportsView({ organizationId }: ReportsViewProps) {
   useEffect(() => {
     fetchReport()
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [organizationId, groupBy, startDate, endDate, category, vendor])
+  }, [organizationId, groupBy, startDate, endDate, category, vendor, depth])
 
   const isArray = Array.isArray(reportData)
 
@@ -97,10 +121,28 @@ export function ReportsView({ organizationId }: ReportsViewProps) {
                   <SelectItem value="month">Month</SelectItem>
                   <SelectItem value="category">Category</SelectItem>
                   <SelectItem value="vendor">Vendor</SelectItem>
+                  <SelectItem value="account">Account</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
+            {groupBy === "account" && (
+              <div className="space-y-2">
+                <Label>Account Depth</Label>
+                <Select value={depth} onValueChange={setDepth}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All levels</SelectItem>
+                    <SelectItem value="0">Top level</SelectItem>
+                    <SelectItem value="1">2 levels</SelectItem>
+                    <SelectItem value="2">3 levels</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label>Start Date</Label>
               <Input
@@ -148,6 +190,7 @@ export function ReportsView({ organizationId }: ReportsViewProps) {
             {groupBy === "month" && "Expenses by Month"}
             {groupBy === "category" && "Expenses by Category"}
             {groupBy === "vendor" && "Expenses by Vendor"}
+            {groupBy === "account" && "Expenses by Account"}
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -160,17 +203,18 @@ export function ReportsView({ organizationId }: ReportsViewProps) {
                   {groupBy === "month" && <TableHead>Month</TableHead>}
                   {groupBy === "category" && <TableHead>Category</TableHead>}
                   {groupBy === "vendor" && <TableHead>Vendor</TableHead>}
+                  {groupBy === "account" && <TableHead>Account</TableHead>}
                   <TableHead className="text-right">Total</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {reportData.map((item, index) => (
                   <TableRow key={index}>
-                    <TableCell>
-                      {item.month || item.category || item.vendor || "Unknown"}
+                    <TableCell style={item.depth ? { paddingLeft: `${1 + item.depth * 1.5}rem` } : undefined}>
+                      {item.month || item.category || item.vendor || item.account || "Unknown"}
                     </TableCell>
                     <TableCell className="text-right font-medium">
-                      {formatCurrency(item.total)}
+                      {formatCurrency(item.total, baseCurrency)}
                     </TableCell>
                   </TableRow>
                 ))}
@@ -179,7 +223,7 @@ export function ReportsView({ organizationId }: ReportsViewProps) {
           ) : !isArray && reportData ? (
             <div className="space-y-4">
               <div className="text-2xl font-bold">
-                Total: {formatCurrency(reportData.total)}
+                Total: {formatCurrency(reportData.total, baseCurrency)}
               </div>
               <div className="text-muted-foreground">
                 {reportData.count || 0} expenses
@@ -192,6 +236,10 @@ export function ReportsView({ organizationId }: ReportsViewProps) {
           )}
         </CardContent>
       </Card>
+
+      <FinancialStatementsView fiscalYearStartMonth={fiscalYearStartMonth} />
+
+      <TrialBalanceView />
     </div>
   )
 }
@@ -0,0 +1,134 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { formatCurrency } from "@/lib/utils"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { Download } from "lucide-react"
+
+interface TrialBalanceLine {
+  accountId: string
+  code?: string | null
+  name: string
+  type: string
+  depth: number
+  debit: number
+  credit: number
+  balanceDebit: number
+  balanceCredit: number
+}
+
+interface TrialBalance {
+  currency: string
+  lines: TrialBalanceLine[]
+  totals: {
+    debit: number
+    credit: number
+    balanceDebit: number
+    balanceCredit: number
+  }
+  balanced: boolean
+}
+
+export function TrialBalanceView() {
+  const [asOf, setAsOf] = useState(new Date().toISOString().split("T")[0])
+  const [report, setReport] = useState<TrialBalance | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const fetchTrialBalance = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/ledger/trial-balance?asOf=${asOf}`)
+      if (!response.ok) throw new Error("Failed to fetch trial balance")
+      const data = await response.json()
+      setReport(data)
+    } catch (error: any) {
+      console.error("Error fetching trial balance:", error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchTrialBalance()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [asOf])
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-end justify-between gap-4">
+          <CardTitle>Trial Balance</CardTitle>
+          <div className="flex items-end gap-2">
+            <div className="space-y-2">
+              <Label>As of</Label>
+              <Input type="date" value={asOf} onChange={(e) => setAsOf(e.target.value)} />
+            </div>
+            <Button variant="outline" asChild>
+              <a href={`/api/ledger/trial-balance?asOf=${asOf}&format=csv`}>
+                <Download className="mr-2 h-4 w-4" />
+                Export CSV
+              </a>
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div>Loading...</div>
+        ) : report && report.lines.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead className="text-right">Debit</TableHead>
+                <TableHead className="text-right">Credit</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.lines.map((line) => (
+                <TableRow key={line.accountId}>
+                  <TableCell className="font-mono text-sm">{line.code || "-"}</TableCell>
+                  <TableCell style={{ paddingLeft: `${1 + line.depth * 1.5}rem` }}>{line.name}</TableCell>
+                  <TableCell className="text-right">
+                    {line.balanceDebit ? formatCurrency(line.balanceDebit, report.currency) : ""}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {line.balanceCredit ? formatCurrency(line.balanceCredit, report.currency) : ""}
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-bold">
+                <TableCell />
+                <TableCell>
+                  Total {report.balanced ? "" : "(out of balance)"}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(report.totals.balanceDebit, report.currency)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatCurrency(report.totals.balanceCredit, report.currency)}
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="py-12 text-center text-muted-foreground">
+            No ledger activity as of this date.
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
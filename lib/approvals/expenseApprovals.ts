@@ -0,0 +1,423 @@
+import { prisma } from "@/lib/prisma"
+import { createAuditLog } from "@/lib/audit-log"
+import { ApprovalStepStatus, ExpenseApprovalStatus, Role } from "@prisma/client"
+import { ledgerError, rebookExpenseTransaction } from "@/lib/ledger/ledgerService"
+import { convertMinorUnits, getBaseCurrency, getFxRate } from "@/lib/ledger/fxService"
+import { compileConditions, RuleCondition, RuleSubject } from "@/lib/rules/categorizationRules"
+import { fromMinorUnits, toMinorUnits } from "@/lib/currency"
+import { roleGte } from "@/src/core/org"
+import { matchConvertedExpense } from "@/lib/bank/reconciliation"
+
+/**
+ * Server-only expense approvals
+ * Every enabled approval policy whose conditions hold for a new expense adds a step, in ascending
+ * priority. An expense with steps is recorded PENDING without postings; each step is approved by a
+ * member holding the policy's role or named on it, never by the expense's creator. An approver also
+ * completes the steps right after theirs that they qualify for. The last approval posts the expense as it
+ * would have been posted on creation (clearing the statement line it was converted from, if any); a
+ * rejection ends the request, and an edit submits it again.
+ * Reimbursable expenses are approved through their expense report and skip policies
+ */
+
+// What policies are evaluated against; amount is in major units of the base currency
+interface ApprovalSubject {
+  organizationId: string
+  date: Date
+  description: string
+  vendor: string | null
+  category: string | null
+  lineCategories: Array<string | null>
+  amount: number
+  currency: string
+  paymentAccountId: string | null
+}
+
+interface ApprovalStepInput {
+  policyId: string
+  policyName: string
+  requiredRole: Role | null
+  approverIds: string[]
+}
+
+interface Approver {
+  userId: string
+  role: Role
+}
+
+/**
+ * Approval steps a new or edited expense needs, one per matching enabled policy
+ * Amount conditions compare the expense converted to the base currency on its date. A split expense
+ * matches a category condition when one of its lines does
+ */
+export async function approvalStepsFor(tx: any, subject: ApprovalSubject): Promise<ApprovalStepInput[]> {
+  const { organizationId } = subject
+
+  const policies = await tx.approvalPolicy.findMany({
+    where: { organizationId, enabled: true },
+    orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+  })
+  if (policies.length === 0) {
+    return []
+  }
+
+  const baseCurrency = await getBaseCurrency(organizationId, tx)
+  const rate = await getFxRate(organizationId, subject.currency, baseCurrency, subject.date, tx)
+  const baseAmount = fromMinorUnits(
+    convertMinorUnits(toMinorUnits(subject.amount, subject.currency), subject.currency, baseCurrency, rate),
+    baseCurrency
+  )
+
+  const categories = subject.lineCategories.length > 0 ? subject.lineCategories : [subject.category]
+  const ruleSubjects: RuleSubject[] = categories.map((category) => ({
+    vendor: subject.vendor,
+    description: subject.description,
+    category,
+    amount: baseAmount,
+    currency: subject.currency,
+    paymentAccountId: subject.paymentAccountId,
+  }))
+
+  return policies
+    .filter((policy: any) => {
+      const test = compileConditions(policy.conditions as RuleCondition[])
+      return ruleSubjects.some(test)
+    })
+    .map((policy: any) => ({
+      policyId: policy.id,
+      policyName: policy.name,
+      requiredRole: policy.requiredRole,
+      approverIds: policy.approverIds,
+    }))
+}
+
+/**
+ * Replaces an expense's approval steps with a new request; runs inside the caller's transaction, which
+ * marks the expense PENDING and leaves it unposted
+ */
+export async function requestExpenseApproval(
+  tx: any,
+  input: { organizationId: string; expenseId: string; steps: ApprovalStepInput[]; userId: string }
+) {
+  const { organizationId, expenseId, steps, userId } = input
+
+  await tx.expenseApprovalStep.deleteMany({ where: { expenseId } })
+  await tx.expenseApprovalStep.createMany({
+    data: steps.map((step, position) => ({ organizationId, expenseId, position, ...step })),
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "EXPENSE_APPROVAL_REQUESTED",
+    entityType: "Expense",
+    entityId: expenseId,
+    metadata: { policies: steps.map((step) => step.policyName) },
+  })
+}
+
+/**
+ * Clears the approval steps of an edited expense that no policy applies to any more
+ */
+export async function clearExpenseApproval(tx: any, expenseId: string) {
+  await tx.expenseApprovalStep.deleteMany({ where: { expenseId } })
+}
+
+function canApprove(step: { requiredRole: Role | null; approverIds: string[] }, approver: Approver) {
+  return step.approverIds.includes(approver.userId) || Boolean(step.requiredRole && roleGte(approver.role, step.requiredRole))
+}
+
+/**
+ * Locks a pending expense for a decision and returns it with its open steps in order
+ */
+async function lockPendingExpense(tx: any, organizationId: string, expenseId: string, approver: Approver) {
+  await tx.$executeRaw`SELECT id FROM "Expense" WHERE id = ${expenseId} FOR UPDATE`
+
+  const expense = await tx.expense.findFirst({
+    where: { id: expenseId, organizationId, deletedAt: null },
+    include: { approvalSteps: { where: { status: ApprovalStepStatus.PENDING }, orderBy: { position: "asc" } } },
+  })
+  if (!expense) {
+    throw ledgerError("Expense not found", 404)
+  }
+  if (expense.approvalStatus !== ExpenseApprovalStatus.PENDING || expense.approvalSteps.length === 0) {
+    throw ledgerError(`Expense is ${expense.approvalStatus.toLowerCase()}`, 409)
+  }
+  if (expense.createdById === approver.userId) {
+    throw ledgerError("Expenses cannot be approved or rejected by their creator", 403)
+  }
+  if (!canApprove(expense.approvalSteps[0], approver)) {
+    throw ledgerError(`Step ${expense.approvalSteps[0].policyName} needs another approver`, 403)
+  }
+
+  return expense
+}
+
+const expenseInclude = {
+  receipts: true,
+  lines: { orderBy: { position: "asc" as const } },
+  approvalSteps: { orderBy: { position: "asc" as const } },
+}
+
+/**
+ * Approves the current step of a pending expense, and the steps after it the approver also qualifies
+ * for. When no step is left the expense is posted on its date, which must fall in an open period
+ */
+export async function approveExpense(input: {
+  organizationId: string
+  expenseId: string
+  approver: Approver
+  comment?: string | null
+}) {
+  const { organizationId, expenseId, approver } = input
+
+  const { expense, approvedSteps } = await prisma.$transaction(async (tx) => {
+    const pending = await lockPendingExpense(tx, organizationId, expenseId, approver)
+
+    const approvedSteps = []
+    for (const step of pending.approvalSteps) {
+      if (!canApprove(step, approver)) {
+        break
+      }
+      approvedSteps.push(step)
+    }
+
+    await tx.expenseApprovalStep.updateMany({
+      where: { id: { in: approvedSteps.map((step) => step.id) } },
+      data: {
+        status: ApprovalStepStatus.APPROVED,
+        decidedById: approver.userId,
+        decidedAt: new Date(),
+        comment: input.comment || null,
+      },
+    })
+
+    // Final approval posts the expense as creation would have
+    if (approvedSteps.length === pending.approvalSteps.length) {
+      const ledgerTransactionId = await rebookExpenseTransaction(
+        tx,
+        pending,
+        { category: pending.category, expenseAccountId: pending.expenseAccountId },
+        "Expense approved",
+        approver.userId
+      )
+      await tx.expense.update({
+        where: { id: pending.id },
+        data: { approvalStatus: ExpenseApprovalStatus.APPROVED, ledgerTransactionId },
+      })
+      await matchConvertedExpense(tx, pending.id, ledgerTransactionId, approver.userId)
+    }
+
+    const expense = await tx.expense.findUniqueOrThrow({ where: { id: pending.id }, include: expenseInclude })
+    return { expense, approvedSteps }
+  })
+
+  for (const step of approvedSteps) {
+    await createAuditLog({
+      organizationId,
+      userId: approver.userId,
+      action: "EXPENSE_APPROVAL_STEP_APPROVED",
+      entityType: "Expense",
+      entityId: expenseId,
+      metadata: { stepId: step.id, policy: step.policyName, comment: input.comment || null },
+    })
+  }
+  if (expense.approvalStatus === ExpenseApprovalStatus.APPROVED) {
+    await createAuditLog({
+      organizationId,
+      userId: approver.userId,
+      action: "EXPENSE_APPROVED",
+      entityType: "Expense",
+      entityId: expenseId,
+      metadata: { ledgerTransactionId: expense.ledgerTransactionId },
+    })
+  }
+
+  return expense
+}
+
+/**
+ * Rejects a pending expense at its current step; nothing is posted. Editing the expense submits it again
+ */
+export async function rejectExpense(input: {
+  organizationId: string
+  expenseId: string
+  approver: Approver
+  comment: string
+}) {
+  const { organizationId, expenseId, approver, comment } = input
+
+  const expense = await prisma.$transaction(async (tx) => {
+    const pending = await lockPendingExpense(tx, organizationId, expenseId, approver)
+    const step = pending.approvalSteps[0]
+
+    await tx.expenseApprovalStep.update({
+      where: { id: step.id },
+      data: { status: ApprovalStepStatus.REJECTED, decidedById: approver.userId, decidedAt: new Date(), comment },
+    })
+
+    return tx.expense.update({
+      where: { id: pending.id },
+      data: { approvalStatus: ExpenseApprovalStatus.REJECTED },
+      include: expenseInclude,
+    })
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId: approver.userId,
+    action: "EXPENSE_REJECTED",
+    entityType: "Expense",
+    entityId: expenseId,
+    metadata: { comment },
+  })
+
+  return expense
+}
+
+/**
+ * Lists policies in evaluation order
+ */
+export async function listApprovalPolicies(organizationId: string) {
+  return prisma.approvalPolicy.findMany({
+    where: { organizationId },
+    orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+  })
+}
+
+async function assertApprovers(organizationId: string, approverIds: string[]) {
+  const count = await prisma.membership.count({ where: { organizationId, userId: { in: approverIds } } })
+  if (count !== new Set(approverIds).size) {
+    throw ledgerError("Approvers must be members of the organization")
+  }
+}
+
+function duplicateName(error: any, name: string | undefined) {
+  if (error.code === "P2002") {
+    return ledgerError(`An approval policy named "${name}" already exists`, 409)
+  }
+  return error
+}
+
+/**
+ * Creates a policy; it applies to expenses created or edited from then on
+ */
+export async function createApprovalPolicy(input: {
+  organizationId: string
+  name: string
+  priority: number
+  enabled: boolean
+  conditions: RuleCondition[]
+  requiredRole?: Role | null
+  approverIds: string[]
+  userId: string
+}) {
+  const { organizationId, userId, ...data } = input
+
+  await assertApprovers(organizationId, data.approverIds)
+
+  try {
+    const policy = await prisma.approvalPolicy.create({
+      data: {
+        organizationId,
+        name: data.name,
+        priority: data.priority,
+        enabled: data.enabled,
+        conditions: data.conditions as any,
+        requiredRole: data.requiredRole || null,
+        approverIds: data.approverIds,
+        createdByUserId: userId,
+      },
+    })
+
+    await createAuditLog({
+      organizationId,
+      userId,
+      action: "APPROVAL_POLICY_CREATED",
+      entityType: "ApprovalPolicy",
+      entityId: policy.id,
+      metadata: { name: policy.name, conditions: data.conditions, requiredRole: policy.requiredRole, approverIds: policy.approverIds },
+    })
+
+    return policy
+  } catch (error: any) {
+    throw duplicateName(error, data.name)
+  }
+}
+
+/**
+ * Updates a policy; the result must still name a role or approvers. Steps already requested keep the
+ * approvers they were created with
+ */
+export async function updateApprovalPolicy(input: {
+  organizationId: string
+  policyId: string
+  changes: {
+    name?: string
+    priority?: number
+    enabled?: boolean
+    conditions?: RuleCondition[]
+    requiredRole?: Role | null
+    approverIds?: string[]
+  }
+  userId: string
+}) {
+  const { organizationId, policyId, changes, userId } = input
+
+  const existing = await prisma.approvalPolicy.findFirst({ where: { id: policyId, organizationId } })
+  if (!existing) {
+    throw ledgerError("Approval policy not found", 404)
+  }
+
+  const requiredRole = changes.requiredRole !== undefined ? changes.requiredRole : existing.requiredRole
+  const approverIds = changes.approverIds ?? existing.approverIds
+  if (!requiredRole && approverIds.length === 0) {
+    throw ledgerError("Set a required role or approvers")
+  }
+  if (changes.approverIds) {
+    await assertApprovers(organizationId, changes.approverIds)
+  }
+
+  try {
+    const policy = await prisma.approvalPolicy.update({
+      where: { id: policyId },
+      data: {
+        ...changes,
+        conditions: changes.conditions as any,
+      },
+    })
+
+    await createAuditLog({
+      organizationId,
+      userId,
+      action: "APPROVAL_POLICY_UPDATED",
+      entityType: "ApprovalPolicy",
+      entityId: policy.id,
+      metadata: { changes },
+    })
+
+    return policy
+  } catch (error: any) {
+    throw duplicateName(error, changes.name)
+  }
+}
+
+/**
+ * Deletes a policy; expenses already awaiting its step still need it
+ */
+export async function deleteApprovalPolicy(organizationId: string, policyId: string, userId: string) {
+  const policy = await prisma.approvalPolicy.findFirst({ where: { id: policyId, organizationId } })
+  if (!policy) {
+    throw ledgerError("Approval policy not found", 404)
+  }
+
+  await prisma.approvalPolicy.delete({ where: { id: policy.id } })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "APPROVAL_POLICY_DELETED",
+    entityType: "ApprovalPolicy",
+    entityId: policy.id,
+    metadata: { name: policy.name },
+  })
+}
@@ -0,0 +1,472 @@
+import { prisma } from "@/lib/prisma"
+import { createAuditLog } from "@/lib/audit-log"
+import { PolicySeverity, SpendingPolicyKind } from "@prisma/client"
+import { ledgerError } from "@/lib/ledger/ledgerService"
+import { convertMinorUnits, getBaseCurrency, getFxRate } from "@/lib/ledger/fxService"
+import { categoryKey, getCategoryNameResolver } from "@/lib/ledger/categoryService"
+import { calendarDateOf, getFiscalCalendar } from "@/lib/ledger/periods"
+import { fromMinorUnits, toMinorUnits } from "@/lib/currency"
+import { formatCurrency } from "@/lib/utils"
+
+/**
+ * Server-only spending policies
+ * Each enabled policy checks one rule against an expense when it is created or edited, when a receipt is
+ * added to or removed from it, and when the policies are evaluated on demand. The violations found replace
+ * those stored on the expense. A HARD violation blocks creating or editing the expense with a 422 error
+ * listing the violations; receipt changes and evaluations on demand record it instead. Amounts are compared
+ * in the base currency, converted on the expense date; the weekend and age rules use calendar dates in the
+ * reporting timezone, an expense's age running from its date to the day it was entered
+ */
+
+export interface PolicyViolation {
+  policyId: string
+  policyName: string
+  kind: SpendingPolicyKind
+  severity: PolicySeverity
+  message: string
+}
+
+// Rule parameters by kind, as validated by spendingPolicySchema
+interface PolicyParams {
+  amount?: number
+  category?: string
+  per?: "EXPENSE" | "DAY"
+  days?: number
+  vendorIds?: string[]
+}
+
+interface PolicyContext {
+  organizationId: string
+  policies: Array<{ id: string; name: string; kind: SpendingPolicyKind; severity: PolicySeverity; params: PolicyParams }>
+  baseCurrency: string
+  timezone: string
+  resolveCategory: (name: string) => string
+  // Blocked vendor ids per BLOCKED_VENDOR policy, including the vendors they were merged into
+  blockedVendors: Map<string, Set<string>>
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const expenseInclude = {
+  lines: true,
+  _count: { select: { receipts: true } },
+}
+
+/**
+ * Error for an expense that breaks HARD policies; routes answer 422 with its violations
+ */
+export function policyViolationError(violations: PolicyViolation[]): Error {
+  const names = violations.map((violation) => violation.policyName).join(", ")
+  const error = ledgerError(`Expense violates spending policies: ${names}`, 422)
+  ;(error as any).violations = violations
+  return error
+}
+
+async function loadPolicyContext(tx: any, organizationId: string): Promise<PolicyContext> {
+  const policies = await tx.spendingPolicy.findMany({
+    where: { organizationId, enabled: true },
+    orderBy: { createdAt: "asc" },
+  })
+  const context: PolicyContext = {
+    organizationId,
+    policies,
+    baseCurrency: "",
+    timezone: "UTC",
+    resolveCategory: (name) => name,
+    blockedVendors: new Map(),
+  }
+  if (policies.length === 0) {
+    return context
+  }
+
+  const [baseCurrency, calendar, resolveCategory] = await Promise.all([
+    getBaseCurrency(organizationId, tx),
+    getFiscalCalendar(organizationId, tx),
+    getCategoryNameResolver(organizationId),
+  ])
+  context.baseCurrency = baseCurrency
+  context.timezone = calendar.timezone
+  context.resolveCategory = resolveCategory
+
+  for (const policy of policies) {
+    if (policy.kind !== SpendingPolicyKind.BLOCKED_VENDOR) continue
+    const blocked = new Set<string>()
+    for (const vendorId of (policy.params as PolicyParams).vendorIds || []) {
+      let vendor = await tx.vendor.findFirst({ where: { id: vendorId, organizationId } })
+      while (vendor) {
+        blocked.add(vendor.id)
+        vendor = vendor.mergedIntoId ? await tx.vendor.findUnique({ where: { id: vendor.mergedIntoId } }) : null
+      }
+    }
+    context.blockedVendors.set(policy.id, blocked)
+  }
+
+  return context
+}
+
+/**
+ * Part of an expense booked under a category, in the expense currency: the whole amount, or its matching
+ * lines when it is split
+ */
+function amountInCategory(expense: any, key: string): number {
+  if (expense.lines.length > 0) {
+    return expense.lines
+      .filter((line: any) => line.category && categoryKey(line.category) === key)
+      .reduce((sum: number, line: any) => sum + Number(line.amount), 0)
+  }
+  return expense.category && categoryKey(expense.category) === key ? Number(expense.amount) : 0
+}
+
+async function toBaseMinorUnits(tx: any, context: PolicyContext, amount: number, currency: string, date: Date) {
+  const rate = await getFxRate(context.organizationId, currency, context.baseCurrency, date, tx)
+  return convertMinorUnits(toMinorUnits(amount, currency), currency, context.baseCurrency, rate)
+}
+
+function dayNumber(date: Date, timezone: string): number {
+  return Date.parse(`${calendarDateOf(date, timezone)}T00:00:00Z`) / DAY_MS
+}
+
+/**
+ * Message describing how an expense breaks a policy, or null when it complies
+ */
+async function checkPolicy(tx: any, context: PolicyContext, policy: PolicyContext["policies"][number], expense: any) {
+  const params = policy.params
+  const money = (minorUnits: number) => formatCurrency(fromMinorUnits(minorUnits, context.baseCurrency), context.baseCurrency)
+
+  switch (policy.kind) {
+    case SpendingPolicyKind.RECEIPT_REQUIRED: {
+      if (expense._count.receipts > 0) return null
+      const amount = await toBaseMinorUnits(tx, context, Number(expense.amount), expense.currency, expense.date)
+      const threshold = toMinorUnits(params.amount!, context.baseCurrency)
+      return amount > threshold ? `A receipt is required for expenses over ${money(threshold)}` : null
+    }
+
+    case SpendingPolicyKind.CATEGORY_CAP: {
+      const category = context.resolveCategory(params.category!)
+      const key = categoryKey(category)
+      const own = amountInCategory(expense, key)
+      if (own === 0) return null
+
+      let spent = await toBaseMinorUnits(tx, context, own, expense.currency, expense.date)
+      const cap = toMinorUnits(params.amount!, context.baseCurrency)
+      if (params.per !== "DAY") {
+        return spent > cap ? `${category} expense of ${money(spent)} is over the ${money(cap)} cap` : null
+      }
+
+      // The daily cap covers everything the same member spent in the category on the expense date
+      const sameDay = await tx.expense.findMany({
+        where: {
+          organizationId: context.organizationId,
+          createdById: expense.createdById,
+          date: expense.date,
+          deletedAt: null,
+          id: { not: expense.id },
+        },
+        include: { lines: true },
+      })
+      for (const other of sameDay) {
+        const amount = amountInCategory(other, key)
+        if (amount > 0) {
+          spent += await toBaseMinorUnits(tx, context, amount, other.currency, other.date)
+        }
+      }
+      return spent > cap
+        ? `${category} spending of ${money(spent)} on ${calendarDateOf(expense.date, context.timezone)} is over the ${money(cap)} daily cap`
+        : null
+    }
+
+    case SpendingPolicyKind.NO_WEEKEND: {
+      if (params.category && amountInCategory(expense, categoryKey(context.resolveCategory(params.category))) === 0) {
+        return null
+      }
+      const date = calendarDateOf(expense.date, context.timezone)
+      const weekday = new Date(`${date}T00:00:00Z`).getUTCDay()
+      if (weekday !== 0 && weekday !== 6) return null
+      return params.category
+        ? `${context.resolveCategory(params.category)} expenses are not allowed on weekends (${date})`
+        : `Expenses are not allowed on weekends (${date})`
+    }
+
+    case SpendingPolicyKind.MAX_AGE: {
+      const age = dayNumber(expense.createdAt, context.timezone) - dayNumber(expense.date, context.timezone)
+      return age > params.days! ? `Entered ${age} days after the expense date; the limit is ${params.days} days` : null
+    }
+
+    case SpendingPolicyKind.BLOCKED_VENDOR: {
+      const blocked = context.blockedVendors.get(policy.id)
+      return expense.vendorId && blocked?.has(expense.vendorId) ? `${expense.vendor} is a blocked vendor` : null
+    }
+  }
+  return null
+}
+
+async function findViolations(tx: any, context: PolicyContext, expense: any): Promise<PolicyViolation[]> {
+  const violations: PolicyViolation[] = []
+  for (const policy of context.policies) {
+    const message = await checkPolicy(tx, context, policy, expense)
+    if (message) {
+      violations.push({ policyId: policy.id, policyName: policy.name, kind: policy.kind, severity: policy.severity, message })
+    }
+  }
+  return violations
+}
+
+async function recordViolations(tx: any, expense: { id: string; organizationId: string }, violations: PolicyViolation[]) {
+  await tx.expensePolicyViolation.deleteMany({ where: { expenseId: expense.id } })
+  if (violations.length > 0) {
+    await tx.expensePolicyViolation.createMany({
+      data: violations.map((violation) => ({ ...violation, organizationId: expense.organizationId, expenseId: expense.id })),
+    })
+  }
+}
+
+async function findExpense(tx: any, organizationId: string, expenseId: string) {
+  const expense = await tx.expense.findFirst({
+    where: { id: expenseId, organizationId, deletedAt: null },
+    include: expenseInclude,
+  })
+  if (!expense) {
+    throw ledgerError("Expense not found", 404)
+  }
+  return expense
+}
+
+/**
+ * Checks a new or edited expense, after it is written in the caller's transaction: HARD violations throw,
+ * rolling the write back, and warnings are stored on the expense
+ */
+export async function enforceSpendingPolicies(tx: any, organizationId: string, expenseId: string) {
+  const expense = await findExpense(tx, organizationId, expenseId)
+  const violations = await findViolations(tx, await loadPolicyContext(tx, organizationId), expense)
+
+  const hard = violations.filter((violation) => violation.severity === PolicySeverity.HARD)
+  if (hard.length > 0) {
+    throw policyViolationError(hard)
+  }
+
+  await recordViolations(tx, expense, violations)
+  return violations
+}
+
+/**
+ * Evaluates an expense again and stores every violation found, HARD ones included; deleted expenses are
+ * left as they are
+ */
+export async function refreshPolicyViolations(tx: any, organizationId: string, expenseId: string) {
+  const expense = await tx.expense.findFirst({
+    where: { id: expenseId, organizationId, deletedAt: null },
+    include: expenseInclude,
+  })
+  if (!expense) {
+    return []
+  }
+  const violations = await findViolations(tx, await loadPolicyContext(tx, organizationId), expense)
+  await recordViolations(tx, expense, violations)
+  return violations
+}
+
+/**
+ * Evaluates one live expense, or every one dated in the range (all when open), against the current
+ * policies, storing what each violates; expenses entered before a policy existed are flagged, not blocked
+ */
+export async function evaluateSpendingPolicies(input: {
+  organizationId: string
+  expenseId?: string
+  startDate?: Date
+  endDate?: Date
+  userId: string
+}) {
+  const { organizationId, expenseId, startDate, endDate, userId } = input
+  const context = await loadPolicyContext(prisma, organizationId)
+
+  const where = {
+    organizationId,
+    deletedAt: null,
+    ...(expenseId ? { id: expenseId } : {}),
+    ...(startDate || endDate ? { date: { ...(startDate ? { gte: startDate } : {}), ...(endDate ? { lte: endDate } : {}) } } : {}),
+  }
+
+  const summary = { evaluated: 0, flagged: 0, warnings: 0, hard: 0 }
+  let cursor: string | undefined
+  for (;;) {
+    const expenses: any[] = await prisma.expense.findMany({
+      where,
+      include: expenseInclude,
+      orderBy: { id: "asc" },
+      take: 200,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    })
+    if (expenses.length === 0) break
+
+    for (const expense of expenses) {
+      const violations = await findViolations(prisma, context, expense)
+      await prisma.$transaction((tx) => recordViolations(tx, expense, violations))
+
+      summary.evaluated++
+      if (violations.length > 0) summary.flagged++
+      violations.forEach((violation) => {
+        if (violation.severity === PolicySeverity.HARD) summary.hard++
+        else summary.warnings++
+      })
+    }
+    cursor = expenses[expenses.length - 1].id
+  }
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "SPENDING_POLICIES_EVALUATED",
+    entityType: "Expense",
+    entityId: expenseId,
+    metadata: { expenseId, startDate, endDate, ...summary },
+  })
+
+  return summary
+}
+
+/**
+ * Lists policies in evaluation order
+ */
+export async function listSpendingPolicies(organizationId: string) {
+  return prisma.spendingPolicy.findMany({
+    where: { organizationId },
+    orderBy: { createdAt: "asc" },
+  })
+}
+
+async function assertVendors(organizationId: string, kind: SpendingPolicyKind, params: PolicyParams) {
+  if (kind !== SpendingPolicyKind.BLOCKED_VENDOR) return
+  const vendorIds = params.vendorIds || []
+  const count = await prisma.vendor.count({ where: { organizationId, id: { in: vendorIds } } })
+  if (count !== new Set(vendorIds).size) {
+    throw ledgerError("Vendor not found", 404)
+  }
+}
+
+function duplicateName(error: any, name: string | undefined) {
+  if (error.code === "P2002") {
+    return ledgerError(`A spending policy named "${name}" already exists`, 409)
+  }
+  return error
+}
+
+/**
+ * Creates a policy; it applies to expenses created or edited from then on, and to earlier ones when the
+ * policies are evaluated on demand
+ */
+export async function createSpendingPolicy(input: {
+  organizationId: string
+  name: string
+  kind: SpendingPolicyKind
+  params: PolicyParams
+  severity: PolicySeverity
+  enabled: boolean
+  userId: string
+}) {
+  const { organizationId, userId, ...data } = input
+
+  await assertVendors(organizationId, data.kind, data.params)
+
+  try {
+    const policy = await prisma.spendingPolicy.create({
+      data: {
+        organizationId,
+        name: data.name,
+        kind: data.kind,
+        params: data.params as any,
+        severity: data.severity,
+        enabled: data.enabled,
+        createdByUserId: userId,
+      },
+    })
+
+    await createAuditLog({
+      organizationId,
+      userId,
+      action: "SPENDING_POLICY_CREATED",
+      entityType: "SpendingPolicy",
+      entityId: policy.id,
+      metadata: { name: policy.name, kind: policy.kind, params: data.params, severity: policy.severity },
+    })
+
+    return policy
+  } catch (error: any) {
+    throw duplicateName(error, data.name)
+  }
+}
+
+/**
+ * Updates a policy; kind and params are replaced together. Violations already stored change when their
+ * expenses are evaluated again
+ */
+export async function updateSpendingPolicy(input: {
+  organizationId: string
+  policyId: string
+  changes: {
+    name?: string
+    kind?: SpendingPolicyKind
+    params?: PolicyParams
+    severity?: PolicySeverity
+    enabled?: boolean
+  }
+  userId: string
+}) {
+  const { organizationId, policyId, changes, userId } = input
+
+  const existing = await prisma.spendingPolicy.findFirst({ where: { id: policyId, organizationId } })
+  if (!existing) {
+    throw ledgerError("Spending policy not found", 404)
+  }
+
+  const kind = changes.kind ?? existing.kind
+  if (kind === SpendingPolicyKind.RECEIPT_REQUIRED && (changes.severity ?? existing.severity) === PolicySeverity.HARD) {
+    throw ledgerError("A receipt policy can only warn")
+  }
+  if (changes.params) {
+    await assertVendors(organizationId, kind, changes.params)
+  }
+
+  try {
+    const policy = await prisma.spendingPolicy.update({
+      where: { id: policyId },
+      data: {
+        ...changes,
+        params: changes.params as any,
+      },
+    })
+
+    await createAuditLog({
+      organizationId,
+      userId,
+      action: "SPENDING_POLICY_UPDATED",
+      entityType: "SpendingPolicy",
+      entityId: policy.id,
+      metadata: { changes },
+    })
+
+    return policy
+  } catch (error: any) {
+    throw duplicateName(error, changes.name)
+  }
+}
+
+/**
+ * Deletes a policy; violations recorded under it keep its name until their expenses are evaluated again
+ */
+export async function deleteSpendingPolicy(organizationId: string, policyId: string, userId: string) {
+  const policy = await prisma.spendingPolicy.findFirst({ where: { id: policyId, organizationId } })
+  if (!policy) {
+    throw ledgerError("Spending policy not found", 404)
+  }
+
+  await prisma.spendingPolicy.delete({ where: { id: policy.id } })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "SPENDING_POLICY_DELETED",
+    entityType: "SpendingPolicy",
+    entityId: policy.id,
+    metadata: { name: policy.name, kind: policy.kind },
+  })
+}
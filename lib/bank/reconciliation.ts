@@ -0,0 +1,828 @@
+import { prisma } from "@/lib/prisma"
+import { createAuditLog } from "@/lib/audit-log"
+import { BankLineStatus, PostingDirection } from "@prisma/client"
+import { assertPaymentAccount, ledgerError } from "@/lib/ledger/ledgerService"
+import { getBaseCurrency } from "@/lib/ledger/fxService"
+import { calendarDateOf, getFiscalCalendar, today } from "@/lib/ledger/periods"
+import { currencyDecimals, hasValidPrecision, toMinorUnits } from "@/lib/currency"
+
+/**
+ * Server-only bank reconciliation
+ * Staged statement lines are matched to the LedgerPostings of their bank/card account (one-to-one,
+ * one-to-many or many-to-one); matched postings are cleared. A reconciliation is completed once the
+ * cleared balance agrees with the statement ending balance, which stamps the cleared postings as
+ * reconciled: from then on they cannot be unmatched or reversed, even while their period is open.
+ *
+ * Amounts are signed in the account's currency, positive for money in: statement lines already are,
+ * and postings are DR-positive (a DR raises a bank balance and pays down a card balance)
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_DATE_WINDOW_DAYS = 5
+const MAX_GROUP_SIZE = 3 // Postings per line (or lines per posting) tried for one-to-many matches
+const MAX_GROUP_CANDIDATES = 12
+const AUTO_MATCH_MIN_SCORE = 0.75 // Below this, only unambiguous one-to-one pairs are auto-matched
+
+export type MatchKind = "one_to_one" | "one_to_many" | "many_to_one"
+
+export interface MatchSuggestion {
+  kind: MatchKind
+  lineIds: string[]
+  postingIds: string[]
+  amountCents: number
+  score: number // 0..1; date proximity and vendor similarity
+  exclusive: boolean // Each side had no other candidate of the same amount
+}
+
+interface LineCandidate {
+  id: string
+  day: number
+  amountCents: number
+  text: string
+  reference: string | null
+}
+
+interface PostingCandidate {
+  id: string
+  day: number
+  amountCents: number
+  text: string
+  reference: string | null
+}
+
+/**
+ * Signed amount of a posting in its account's currency, or null when it cannot be expressed in it
+ * Foreign-currency postings on a base-currency account use their base amount
+ */
+function accountAmountCents(
+  posting: { direction: PostingDirection; amountCents: number; currency: string; baseAmountCents: number | null },
+  accountCurrency: string,
+  baseCurrency: string
+): number | null {
+  const sign = posting.direction === PostingDirection.DR ? 1 : -1
+  if (posting.currency === accountCurrency) {
+    return sign * posting.amountCents
+  }
+  if (accountCurrency === baseCurrency && posting.baseAmountCents !== null) {
+    return sign * posting.baseAmountCents
+  }
+  return null
+}
+
+function dayNumber(calendarDate: string): number {
+  return Math.floor(new Date(`${calendarDate}T00:00:00Z`).getTime() / DAY_MS)
+}
+
+function tokens(value: string): Set<string> {
+  return new Set(
+    value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, " ")
+      .split(" ")
+      .filter((token) => token.length > 1 && !/^\d+$/.test(token))
+  )
+}
+
+/**
+ * Similarity of two payee/vendor descriptions in 0..1 (Dice coefficient over word tokens)
+ * Card statements often prefix or truncate merchant names, so containment counts as a full match
+ */
+export function vendorSimilarity(a: string, b: string): number {
+  const left = tokens(a)
+  const right = tokens(b)
+  if (left.size === 0 || right.size === 0) {
+    return 0
+  }
+
+  let shared = 0
+  left.forEach((token) => {
+    if (right.has(token)) {
+      shared++
+    }
+  })
+
+  if (shared === Math.min(left.size, right.size)) {
+    return 1
+  }
+  return (2 * shared) / (left.size + right.size)
+}
+
+function pairScore(line: LineCandidate, posting: PostingCandidate, dateWindowDays: number): number {
+  if (line.reference && posting.reference && line.reference === posting.reference) {
+    return 1
+  }
+  const dateScore = 1 - Math.abs(line.day - posting.day) / (dateWindowDays + 1)
+  return 0.5 * dateScore + 0.5 * vendorSimilarity(line.text, posting.text)
+}
+
+/**
+ * Finds up to MAX_GROUP_SIZE items whose amounts add up to a target, closest in date first
+ */
+function findGroup<T extends { amountCents: number }>(candidates: T[], target: number): T[] | null {
+  const pool = candidates.slice(0, MAX_GROUP_CANDIDATES)
+
+  const search = (start: number, remaining: number, picked: T[]): T[] | null => {
+    if (picked.length >= 2 && remaining === 0) {
+      return picked
+    }
+    if (picked.length === MAX_GROUP_SIZE) {
+      return null
+    }
+    for (let i = start; i < pool.length; i++) {
+      const found = search(i + 1, remaining - pool[i].amountCents, [...picked, pool[i]])
+      if (found) {
+        return found
+      }
+    }
+    return null
+  }
+
+  return search(0, target, [])
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 100) / 100
+}
+
+/**
+ * Suggests matches between unmatched statement lines and uncleared postings of an account
+ * One-to-one pairs need the same amount within the date window and are assigned best score first;
+ * lines (or postings) left over are then tried against groups of up to three same-signed counterparts
+ */
+export async function suggestMatches(
+  organizationId: string,
+  accountId: string,
+  options: { dateWindowDays?: number } = {}
+): Promise<MatchSuggestion[]> {
+  const dateWindowDays = options.dateWindowDays ?? DEFAULT_DATE_WINDOW_DAYS
+
+  const account = await assertPaymentAccount(prisma, organizationId, accountId)
+  const [calendar, baseCurrency, lineRows] = await Promise.all([
+    getFiscalCalendar(organizationId),
+    getBaseCurrency(organizationId),
+    prisma.bankStatementLine.findMany({
+      where: { organizationId, accountId, matchId: null, status: { not: BankLineStatus.IGNORED }, currency: account.currency },
+      orderBy: { postedAt: "asc" },
+    }),
+  ])
+
+  if (lineRows.length === 0) {
+    return []
+  }
+
+  // Two extra days either side cover timestamps that land on another calendar date in the reporting timezone
+  const from = new Date(lineRows[0].postedAt.getTime() - (dateWindowDays + 2) * DAY_MS)
+  const to = new Date(lineRows[lineRows.length - 1].postedAt.getTime() + (dateWindowDays + 2) * DAY_MS)
+
+  const postingRows = await prisma.ledgerPosting.findMany({
+    where: {
+      organizationId,
+      accountId,
+      bankMatchId: null,
+      // Reversal pairs net to zero and revaluations only move base amounts; neither shows on a statement
+      transaction: {
+        occurredAt: { gte: from, lte: to },
+        originalTransactionId: null,
+        reversedByTransactionId: null,
+        fxRevaluationRun: { is: null },
+      },
+    },
+    include: { transaction: { select: { occurredAt: true, description: true, vendor: true, externalRef: true } } },
+  })
+
+  const lines: LineCandidate[] = lineRows.map((line) => ({
+    id: line.id,
+    day: dayNumber(calendarDateOf(line.postedAt, calendar.timezone)),
+    amountCents: line.amountCents,
+    text: line.payee || line.description,
+    reference: line.reference || line.externalId,
+  }))
+
+  const postings: PostingCandidate[] = []
+  for (const posting of postingRows) {
+    const amountCents = accountAmountCents(posting, account.currency, baseCurrency)
+    if (amountCents === null || amountCents === 0) {
+      continue
+    }
+    postings.push({
+      id: posting.id,
+      day: dayNumber(calendarDateOf(posting.transaction.occurredAt, calendar.timezone)),
+      amountCents,
+      text: posting.transaction.vendor || posting.transaction.description,
+      reference: posting.transaction.externalRef,
+    })
+  }
+
+  const suggestions: MatchSuggestion[] = []
+  const usedLines = new Set<string>()
+  const usedPostings = new Set<string>()
+  const inWindow = (a: { day: number }, b: { day: number }) => Math.abs(a.day - b.day) <= dateWindowDays
+
+  // One-to-one
+  const pairs: { line: LineCandidate; posting: PostingCandidate; score: number }[] = []
+  const lineCandidateCount = new Map<string, number>()
+  const postingCandidateCount = new Map<string, number>()
+  for (const line of lines) {
+    for (const posting of postings) {
+      if (posting.amountCents === line.amountCents && inWindow(line, posting)) {
+        pairs.push({ line, posting, score: pairScore(line, posting, dateWindowDays) })
+        lineCandidateCount.set(line.id, (lineCandidateCount.get(line.id) || 0) + 1)
+        postingCandidateCount.set(posting.id, (postingCandidateCount.get(posting.id) || 0) + 1)
+      }
+    }
+  }
+
+  pairs.sort((a, b) => b.score - a.score || Math.abs(a.line.day - a.posting.day) - Math.abs(b.line.day - b.posting.day))
+  for (const { line, posting, score } of pairs) {
+    if (usedLines.has(line.id) || usedPostings.has(posting.id)) {
+      continue
+    }
+    usedLines.add(line.id)
+    usedPostings.add(posting.id)
+    suggestions.push({
+      kind: "one_to_one",
+      lineIds: [line.id],
+      postingIds: [posting.id],
+      amountCents: line.amountCents,
+      score: roundScore(score),
+      exclusive: lineCandidateCount.get(line.id) === 1 && postingCandidateCount.get(posting.id) === 1,
+    })
+  }
+
+  // One line, several postings (e.g. a deposit batch)
+  for (const line of lines) {
+    if (usedLines.has(line.id)) {
+      continue
+    }
+    const candidates = postings
+      .filter((p) => !usedPostings.has(p.id) && inWindow(line, p) && Math.sign(p.amountCents) === Math.sign(line.amountCents))
+      .filter((p) => Math.abs(p.amountCents) < Math.abs(line.amountCents))
+      .sort((a, b) => Math.abs(a.day - line.day) - Math.abs(b.day - line.day))
+    const group = findGroup(candidates, line.amountCents)
+    if (!group) {
+      continue
+    }
+    usedLines.add(line.id)
+    group.forEach((p) => usedPostings.add(p.id))
+    suggestions.push({
+      kind: "one_to_many",
+      lineIds: [line.id],
+      postingIds: group.map((p) => p.id),
+      amountCents: line.amountCents,
+      score: roundScore(group.reduce((sum, p) => sum + pairScore(line, p, dateWindowDays), 0) / group.length),
+      exclusive: false,
+    })
+  }
+
+  // Several lines, one posting (e.g. a payment the bank split)
+  for (const posting of postings) {
+    if (usedPostings.has(posting.id)) {
+      continue
+    }
+    const candidates = lines
+      .filter((l) => !usedLines.has(l.id) && inWindow(l, posting) && Math.sign(l.amountCents) === Math.sign(posting.amountCents))
+      .filter((l) => Math.abs(l.amountCents) < Math.abs(posting.amountCents))
+      .sort((a, b) => Math.abs(a.day - posting.day) - Math.abs(b.day - posting.day))
+    const group = findGroup(candidates, posting.amountCents)
+    if (!group) {
+      continue
+    }
+    usedPostings.add(posting.id)
+    group.forEach((l) => usedLines.add(l.id))
+    suggestions.push({
+      kind: "many_to_one",
+      lineIds: group.map((l) => l.id),
+      postingIds: [posting.id],
+      amountCents: posting.amountCents,
+      score: roundScore(group.reduce((sum, l) => sum + pairScore(l, posting, dateWindowDays), 0) / group.length),
+      exclusive: false,
+    })
+  }
+
+  return suggestions.sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Clears postings against statement lines inside the caller's transaction
+ * Conditional updates make a concurrent match of the same line or posting fail instead of double-clearing
+ */
+async function writeMatch(
+  tx: any,
+  input: { organizationId: string; accountId: string; lineIds: string[]; postingIds: string[]; createdByUserId: string }
+) {
+  const { organizationId, accountId, lineIds, postingIds, createdByUserId } = input
+
+  const match = await tx.bankMatch.create({
+    data: { organizationId, accountId, createdByUserId },
+  })
+
+  const cleared = await tx.ledgerPosting.updateMany({
+    where: { id: { in: postingIds }, organizationId, accountId, bankMatchId: null },
+    data: { bankMatchId: match.id },
+  })
+  if (cleared.count !== postingIds.length) {
+    throw ledgerError("A posting was matched concurrently", 409)
+  }
+
+  if (lineIds.length > 0) {
+    const matched = await tx.bankStatementLine.updateMany({
+      where: { id: { in: lineIds }, organizationId, accountId, matchId: null, status: { not: BankLineStatus.IGNORED } },
+      data: { matchId: match.id },
+    })
+    if (matched.count !== lineIds.length) {
+      throw ledgerError("A statement line was matched concurrently", 409)
+    }
+
+    // Converted lines keep their status; lines matched to existing postings become MATCHED
+    await tx.bankStatementLine.updateMany({
+      where: { id: { in: lineIds }, status: BankLineStatus.PENDING },
+      data: { status: BankLineStatus.MATCHED },
+    })
+  }
+
+  return match
+}
+
+/**
+ * Matches statement lines to postings of the same account
+ * Line and posting totals must agree; without lines, the postings are cleared on their own
+ */
+export async function createMatch(input: {
+  organizationId: string
+  lineIds: string[]
+  postingIds: string[]
+  createdByUserId: string
+}) {
+  const { organizationId, createdByUserId } = input
+  const lineIds = Array.from(new Set(input.lineIds))
+  const postingIds = Array.from(new Set(input.postingIds))
+
+  if (postingIds.length === 0) {
+    throw ledgerError("At least one posting is required")
+  }
+
+  const match = await prisma.$transaction(async (tx) => {
+    const postings = await tx.ledgerPosting.findMany({
+      where: { id: { in: postingIds }, organizationId },
+    })
+    if (postings.length !== postingIds.length) {
+      throw ledgerError("Posting not found", 404)
+    }
+
+    const accountId = postings[0].accountId
+    if (postings.some((p) => p.accountId !== accountId)) {
+      throw ledgerError("Postings must belong to the same account")
+    }
+    if (postings.some((p) => p.bankMatchId)) {
+      throw ledgerError("Posting is already cleared", 409)
+    }
+
+    const account = await assertPaymentAccount(tx, organizationId, accountId)
+    const baseCurrency = await getBaseCurrency(organizationId, tx)
+
+    let postingTotal = 0
+    for (const posting of postings) {
+      const amountCents = accountAmountCents(posting, account.currency, baseCurrency)
+      if (amountCents === null) {
+        throw ledgerError(`Posting ${posting.id} is not in the account currency ${account.currency}`)
+      }
+      postingTotal += amountCents
+    }
+
+    if (lineIds.length > 0) {
+      const lines = await tx.bankStatementLine.findMany({
+        where: { id: { in: lineIds }, organizationId },
+      })
+      if (lines.length !== lineIds.length) {
+        throw ledgerError("Statement line not found", 404)
+      }
+      if (lines.some((l) => l.accountId !== accountId)) {
+        throw ledgerError("Statement lines must belong to the postings' account")
+      }
+      if (lines.some((l) => l.currency !== account.currency)) {
+        throw ledgerError(`Statement lines must be in the account currency ${account.currency}`)
+      }
+      if (lines.some((l) => l.matchId || l.status === BankLineStatus.IGNORED)) {
+        throw ledgerError("Statement line is already matched or ignored", 409)
+      }
+
+      const lineTotal = lines.reduce((sum, l) => sum + l.amountCents, 0)
+      if (lineTotal !== postingTotal) {
+        throw ledgerError(`Statement lines total ${lineTotal} but postings total ${postingTotal} (minor units)`)
+      }
+    }
+
+    return writeMatch(tx, { organizationId, accountId, lineIds, postingIds, createdByUserId })
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId: createdByUserId,
+    action: "BANK_MATCH_CREATED",
+    entityType: "BankMatch",
+    entityId: match.id,
+    metadata: { accountId: match.accountId, lineIds, postingIds },
+  })
+
+  return prisma.bankMatch.findUnique({
+    where: { id: match.id },
+    include: { lines: true, postings: true },
+  })
+}
+
+/**
+ * Applies the confident one-to-one suggestions for an account
+ * Group suggestions are left for review
+ */
+export async function autoMatch(input: {
+  organizationId: string
+  accountId: string
+  dateWindowDays?: number
+  createdByUserId: string
+}) {
+  const { organizationId, accountId, createdByUserId } = input
+
+  const suggestions = await suggestMatches(organizationId, accountId, { dateWindowDays: input.dateWindowDays })
+  const confident = suggestions.filter(
+    (s) => s.kind === "one_to_one" && (s.exclusive || s.score >= AUTO_MATCH_MIN_SCORE)
+  )
+
+  let matchedCount = 0
+  for (const suggestion of confident) {
+    try {
+      await createMatch({
+        organizationId,
+        lineIds: suggestion.lineIds,
+        postingIds: suggestion.postingIds,
+        createdByUserId,
+      })
+      matchedCount++
+    } catch (error: any) {
+      // Matched by someone else since the suggestions were computed
+      if (error.statusCode !== 409) {
+        throw error
+      }
+    }
+  }
+
+  return { matchedCount, remainingSuggestions: suggestions.length - matchedCount }
+}
+
+/**
+ * Clears the account-side posting of a transaction booked from a statement line
+ * Runs inside the conversion's transaction
+ */
+export async function matchConvertedLine(
+  tx: any,
+  line: { id: string; organizationId: string; accountId: string },
+  transactionId: string,
+  createdByUserId: string
+) {
+  const posting = await tx.ledgerPosting.findFirst({
+    where: { transactionId, accountId: line.accountId },
+  })
+  if (!posting) {
+    throw ledgerError("Converted transaction has no posting on the statement account", 500)
+  }
+
+  return writeMatch(tx, {
+    organizationId: line.organizationId,
+    accountId: line.accountId,
+    lineIds: [line.id],
+    postingIds: [posting.id],
+    createdByUserId,
+  })
+}
+
+/**
+ * Clears the statement line an expense was converted from once the expense is first posted
+ * A converted expense that needs approval is booked without a transaction; runs inside the posting's transaction
+ */
+export async function matchConvertedExpense(tx: any, expenseId: string, transactionId: string, createdByUserId: string) {
+  const line = await tx.bankStatementLine.findFirst({ where: { expenseId, transactionId: null } })
+  if (!line) {
+    return null
+  }
+
+  await tx.bankStatementLine.update({ where: { id: line.id }, data: { transactionId } })
+  return matchConvertedLine(tx, line, transactionId, createdByUserId)
+}
+
+/**
+ * Removes a match, returning its lines to review and its postings to uncleared
+ * Matches covered by a completed reconciliation are final
+ */
+export async function deleteMatch(organizationId: string, matchId: string, userId: string) {
+  const match = await prisma.$transaction(async (tx) => {
+    // Row locks serialize this with a reconciliation stamping the same postings
+    await tx.$executeRaw`SELECT id FROM "LedgerPosting" WHERE "bankMatchId" = ${matchId} FOR UPDATE`
+
+    const match = await tx.bankMatch.findFirst({
+      where: { id: matchId, organizationId },
+      include: { postings: { select: { id: true, reconciliationId: true } }, lines: { select: { id: true } } },
+    })
+    if (!match) {
+      throw ledgerError("Match not found", 404)
+    }
+    if (match.postings.some((p) => p.reconciliationId)) {
+      throw ledgerError("Match is part of a completed reconciliation", 409)
+    }
+
+    await tx.bankStatementLine.updateMany({
+      where: { matchId, status: BankLineStatus.MATCHED },
+      data: { status: BankLineStatus.PENDING },
+    })
+    await tx.bankMatch.delete({ where: { id: matchId } })
+
+    return match
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "BANK_MATCH_DELETED",
+    entityType: "BankMatch",
+    entityId: matchId,
+    metadata: {
+      accountId: match.accountId,
+      lineIds: match.lines.map((l) => l.id),
+      postingIds: match.postings.map((p) => p.id),
+    },
+  })
+}
+
+/**
+ * Compares a statement ending balance with the cleared ledger balance at the statement date
+ * - Cleared: postings in matches whose latest statement line (or, without lines, latest posting) is on
+ *   or before the statement date
+ * - Outstanding: uncleared postings through the statement date, less reversal pairs dated within it
+ * - Unmatched lines: statement lines through the statement date not yet in the ledger
+ */
+async function computeReconciliation(
+  client: any,
+  organizationId: string,
+  accountId: string,
+  statementDate: Date,
+  statementEndingBalanceCents: number | null
+) {
+  const account = await assertPaymentAccount(client, organizationId, accountId)
+  const [calendar, baseCurrency] = await Promise.all([
+    getFiscalCalendar(organizationId, client),
+    getBaseCurrency(organizationId, client),
+  ])
+
+  const statementDay = calendarDateOf(statementDate, calendar.timezone)
+  const cutoff = new Date(`${statementDay}T00:00:00Z`)
+  // Two extra days cover timestamps that fall on the statement date in the reporting timezone
+  const queryCutoff = new Date(cutoff.getTime() + 2 * DAY_MS)
+  const onOrBefore = (date: Date) => calendarDateOf(date, calendar.timezone) <= statementDay
+  const toAccount = (posting: any) => accountAmountCents(posting, account.currency, baseCurrency) ?? 0
+
+  const postingSelect = {
+    id: true,
+    direction: true,
+    amountCents: true,
+    currency: true,
+    baseAmountCents: true,
+    memo: true,
+    transaction: {
+      select: {
+        id: true,
+        occurredAt: true,
+        description: true,
+        vendor: true,
+        originalTransactionId: true,
+        reversedByTransactionId: true,
+      },
+    },
+  }
+
+  const [reconciledSums, openMatches, unclearedPostings, unmatchedLines] = await Promise.all([
+    client.ledgerPosting.groupBy({
+      by: ["direction", "currency"],
+      where: { organizationId, accountId, reconciliationId: { not: null } },
+      _sum: { amountCents: true, baseAmountCents: true },
+    }),
+    client.bankMatch.findMany({
+      where: { organizationId, accountId, postings: { some: { reconciliationId: null } } },
+      include: {
+        lines: { select: { postedAt: true } },
+        postings: { select: postingSelect },
+      },
+    }),
+    client.ledgerPosting.findMany({
+      where: {
+        organizationId,
+        accountId,
+        bankMatchId: null,
+        transaction: { occurredAt: { lt: queryCutoff } },
+      },
+      select: postingSelect,
+    }),
+    client.bankStatementLine.findMany({
+      where: {
+        organizationId,
+        accountId,
+        matchId: null,
+        status: { not: BankLineStatus.IGNORED },
+        postedAt: { lte: cutoff },
+      },
+      orderBy: { postedAt: "asc" },
+    }),
+  ])
+
+  let clearedBalanceCents = 0
+  for (const sum of reconciledSums) {
+    clearedBalanceCents += toAccount({
+      direction: sum.direction,
+      currency: sum.currency,
+      amountCents: sum._sum.amountCents ?? 0,
+      baseAmountCents: sum._sum.baseAmountCents,
+    })
+  }
+
+  const clearedPostingIds: string[] = []
+  for (const match of openMatches) {
+    const dates: Date[] =
+      match.lines.length > 0
+        ? match.lines.map((l: any) => l.postedAt)
+        : match.postings.map((p: any) => p.transaction.occurredAt)
+    if (!dates.every(onOrBefore)) {
+      continue
+    }
+    for (const posting of match.postings) {
+      clearedBalanceCents += toAccount(posting)
+      clearedPostingIds.push(posting.id)
+    }
+  }
+
+  const datedPostings = unclearedPostings.filter((p: any) => onOrBefore(p.transaction.occurredAt))
+  const transactionIds = new Set(datedPostings.map((p: any) => p.transaction.id))
+  const outstanding = datedPostings
+    .filter((p: any) => {
+      const partner = p.transaction.originalTransactionId || p.transaction.reversedByTransactionId
+      return !partner || !transactionIds.has(partner)
+    })
+    .map((p: any) => ({
+      postingId: p.id,
+      transactionId: p.transaction.id,
+      occurredAt: p.transaction.occurredAt,
+      description: p.transaction.description,
+      vendor: p.transaction.vendor,
+      memo: p.memo,
+      amountCents: accountAmountCents(p, account.currency, baseCurrency),
+    }))
+    .sort((a: any, b: any) => a.occurredAt.getTime() - b.occurredAt.getTime())
+
+  const outstandingDepositsCents = outstanding
+    .filter((p: any) => (p.amountCents ?? 0) > 0)
+    .reduce((sum: number, p: any) => sum + p.amountCents, 0)
+  const outstandingPaymentsCents = outstanding
+    .filter((p: any) => (p.amountCents ?? 0) < 0)
+    .reduce((sum: number, p: any) => sum + p.amountCents, 0)
+
+  const report = {
+    accountId,
+    accountName: account.name,
+    currency: account.currency,
+    statementDate: cutoff,
+    reconciledThrough: account.reconciledThrough,
+    statementEndingBalanceCents,
+    clearedBalanceCents,
+    differenceCents: statementEndingBalanceCents === null ? null : statementEndingBalanceCents - clearedBalanceCents,
+    outstandingDepositsCents,
+    outstandingPaymentsCents,
+    outstandingPostings: outstanding,
+    unmatchedLines: unmatchedLines.map((line: any) => ({
+      lineId: line.id,
+      postedAt: line.postedAt,
+      description: line.description,
+      payee: line.payee,
+      reference: line.reference,
+      amountCents: line.amountCents,
+      status: line.status,
+    })),
+  }
+
+  return { report, clearedPostingIds }
+}
+
+function statementBalanceCents(balance: number, currency: string): number {
+  if (!hasValidPrecision(balance, currency)) {
+    throw ledgerError(`${currency} amounts allow at most ${currencyDecimals(currency)} decimal places`)
+  }
+  return toMinorUnits(balance, currency)
+}
+
+/**
+ * Builds the reconciliation report for an account at a statement date
+ * The statement ending balance is in the account currency; without it the difference is null
+ */
+export async function getReconciliationReport(
+  organizationId: string,
+  accountId: string,
+  input: { statementDate: Date; statementEndingBalance?: number }
+) {
+  const account = await assertPaymentAccount(prisma, organizationId, accountId)
+  const endingCents =
+    input.statementEndingBalance === undefined ? null : statementBalanceCents(input.statementEndingBalance, account.currency)
+
+  const { report } = await computeReconciliation(prisma, organizationId, accountId, input.statementDate, endingCents)
+  return report
+}
+
+/**
+ * Completes a reconciliation once the cleared balance equals the statement ending balance
+ * Stamps the cleared postings as reconciled and moves the account's reconciledThrough to the statement date
+ */
+export async function completeReconciliation(input: {
+  organizationId: string
+  accountId: string
+  statementDate: Date
+  statementEndingBalance: number
+  createdByUserId: string
+}) {
+  const { organizationId, accountId, createdByUserId } = input
+
+  const reconciliation = await prisma.$transaction(async (tx) => {
+    // Serializes reconciliations of the same account
+    await tx.$executeRaw`SELECT id FROM "LedgerAccount" WHERE id = ${accountId} AND "organizationId" = ${organizationId} FOR UPDATE`
+
+    const account = await assertPaymentAccount(tx, organizationId, accountId)
+    const calendar = await getFiscalCalendar(organizationId, tx)
+    const statementDate = new Date(`${calendarDateOf(input.statementDate, calendar.timezone)}T00:00:00Z`)
+
+    if (statementDate > today(calendar.timezone)) {
+      throw ledgerError("Statement date cannot be in the future")
+    }
+    if (account.reconciledThrough && statementDate <= account.reconciledThrough) {
+      throw ledgerError(
+        `Account ${account.name} is already reconciled through ${account.reconciledThrough.toISOString().slice(0, 10)}`,
+        409
+      )
+    }
+
+    const endingCents = statementBalanceCents(input.statementEndingBalance, account.currency)
+    const { report, clearedPostingIds } = await computeReconciliation(tx, organizationId, accountId, statementDate, endingCents)
+    if (report.differenceCents !== 0) {
+      throw ledgerError(
+        `Cleared balance ${report.clearedBalanceCents} differs from the statement ending balance ${endingCents} (minor units)`,
+        409
+      )
+    }
+
+    const reconciliation = await tx.bankReconciliation.create({
+      data: {
+        organizationId,
+        accountId,
+        statementDate,
+        statementEndingBalanceCents: endingCents,
+        clearedBalanceCents: report.clearedBalanceCents,
+        postingCount: clearedPostingIds.length,
+        createdByUserId,
+      },
+    })
+
+    const stamped = await tx.ledgerPosting.updateMany({
+      where: { id: { in: clearedPostingIds }, bankMatchId: { not: null }, reconciliationId: null },
+      data: { reconciliationId: reconciliation.id },
+    })
+    if (stamped.count !== clearedPostingIds.length) {
+      throw ledgerError("Cleared items changed during reconciliation; try again", 409)
+    }
+
+    await tx.ledgerAccount.update({
+      where: { id: accountId },
+      data: { reconciledThrough: statementDate },
+    })
+
+    return reconciliation
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId: createdByUserId,
+    action: "BANK_RECONCILIATION_COMPLETED",
+    entityType: "BankReconciliation",
+    entityId: reconciliation.id,
+    metadata: {
+      accountId,
+      statementDate: reconciliation.statementDate.toISOString().slice(0, 10),
+      statementEndingBalanceCents: reconciliation.statementEndingBalanceCents,
+      postingCount: reconciliation.postingCount,
+    },
+  })
+
+  return reconciliation
+}
+
+/**
+ * Lists completed reconciliations, latest statement first
+ */
+export async function listReconciliations(organizationId: string, accountId?: string) {
+  return prisma.bankReconciliation.findMany({
+    where: { organizationId, ...(accountId ? { accountId } : {}) },
+    include: { account: { select: { id: true, name: true, code: true, currency: true } } },
+    orderBy: [{ statementDate: "desc" }, { createdAt: "desc" }],
+  })
+}
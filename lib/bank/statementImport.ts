@@ -0,0 +1,524 @@
+import { prisma } from "@/lib/prisma"
+import { createAuditLog } from "@/lib/audit-log"
+import { BankLineStatus, ExpenseApprovalStatus, PostingDirection } from "@prisma/client"
+import {
+  assertPaymentAccount,
+  createExpenseTransaction,
+  createJournalEntry,
+  ledgerError,
+} from "@/lib/ledger/ledgerService"
+import { resolveExpenseCategory } from "@/lib/ledger/categoryService"
+import { getVendorDefaults, getVendorMatcher, resolveVendor } from "@/lib/ledger/vendorService"
+import { checkExpenseDuplicates } from "@/lib/ledger/expenseDuplicates"
+import { approvalStepsFor, requestExpenseApproval } from "@/lib/approvals/expenseApprovals"
+import { enforceSpendingPolicies } from "@/lib/approvals/spendingPolicies"
+import { fromMinorUnits } from "@/lib/currency"
+import {
+  CsvMappingConfig,
+  ParsedStatementLine,
+  StatementFormat,
+  detectStatementFormat,
+  parseStatement,
+} from "@/lib/bank/statementParsers"
+import { matchConvertedLine } from "@/lib/bank/reconciliation"
+import { auditImportedLineCategorizations, categorizeStatementLines } from "@/lib/rules/categorizationRules"
+
+/**
+ * Server-only bank statement import
+ * Statement files are parsed into BankStatementLine rows staged against an ASSET or LIABILITY account,
+ * then reviewed and converted into expenses or journal entries (which clears the booked posting)
+ * or matched to postings already in the ledger (see reconciliation.ts)
+ */
+
+const CHUNK_SIZE = 500
+
+/**
+ * Key that identifies a line across overlapping imports of the same account
+ * The bank's transaction id when the format has one, else reference + amount + date; identical lines
+ * within one file are numbered so they are not collapsed into one
+ */
+function dedupeKeys(lines: ParsedStatementLine[]): string[] {
+  const seen = new Map<string, number>()
+  return lines.map((line) => {
+    if (line.externalId) {
+      return `id:${line.externalId}`
+    }
+    const base = `ref:${line.reference || ""}:${line.amountCents}:${line.currency}:${line.postedAt.toISOString().slice(0, 10)}`
+    const occurrence = (seen.get(base) || 0) + 1
+    seen.set(base, occurrence)
+    return occurrence === 1 ? base : `${base}#${occurrence}`
+  })
+}
+
+/**
+ * Parses a statement file and stages its lines
+ * Lines already staged for the account (by dedupe key) are skipped; outgoing lines are run through the
+ * categorization rules so conversion can default to the rule's category, account and tags
+ */
+export async function importStatement(input: {
+  organizationId: string
+  accountId: string
+  content: string
+  fileName?: string
+  format?: StatementFormat
+  mappingId?: string
+  createdByUserId: string
+}) {
+  const { organizationId, accountId, content, fileName, mappingId, createdByUserId } = input
+
+  const account = await assertPaymentAccount(prisma, organizationId, accountId)
+  const format = input.format || detectStatementFormat(content)
+
+  let csvMapping: CsvMappingConfig | undefined
+  if (mappingId) {
+    const mapping = await prisma.bankCsvMapping.findFirst({ where: { id: mappingId, organizationId } })
+    if (!mapping) {
+      throw ledgerError("CSV mapping not found", 404)
+    }
+    csvMapping = mapping.config as unknown as CsvMappingConfig
+  }
+
+  const parsed = parseStatement(content, format, { defaultCurrency: account.currency, csvMapping })
+  if (parsed.length === 0) {
+    throw ledgerError("Statement has no transactions")
+  }
+
+  const keys = dedupeKeys(parsed)
+  const categorizations = await categorizeStatementLines(organizationId, accountId, parsed)
+  const matchVendor = await getVendorMatcher(organizationId)
+
+  const statementImport = await prisma.$transaction(async (tx) => {
+    const created = await tx.bankStatementImport.create({
+      data: {
+        organizationId,
+        accountId,
+        format,
+        fileName: fileName || null,
+        lineCount: parsed.length,
+        importedCount: 0,
+        createdByUserId,
+      },
+    })
+
+    let importedCount = 0
+    for (let i = 0; i < parsed.length; i += CHUNK_SIZE) {
+      const result = await tx.bankStatementLine.createMany({
+        data: parsed.slice(i, i + CHUNK_SIZE).map((line, j) => ({
+          organizationId,
+          accountId,
+          importId: created.id,
+          postedAt: line.postedAt,
+          amountCents: line.amountCents,
+          currency: line.currency,
+          description: line.description.slice(0, 500),
+          payee: line.payee || null,
+          vendorId: matchVendor(line.payee || line.description)?.id ?? null,
+          reference: line.reference || null,
+          externalId: line.externalId || null,
+          dedupeKey: keys[i + j],
+          category: categorizations[i + j]?.after.category ?? null,
+          expenseAccountId: categorizations[i + j]?.after.expenseAccountId ?? null,
+          tags: categorizations[i + j]?.after.tags ?? [],
+          categorizationRuleId: categorizations[i + j]?.ruleId ?? null,
+        })),
+        skipDuplicates: true,
+      })
+      importedCount += result.count
+    }
+
+    return tx.bankStatementImport.update({
+      where: { id: created.id },
+      data: { importedCount },
+    })
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId: createdByUserId,
+    action: "BANK_STATEMENT_IMPORTED",
+    entityType: "BankStatementImport",
+    entityId: statementImport.id,
+    metadata: {
+      accountId,
+      format,
+      fileName,
+      lineCount: statementImport.lineCount,
+      importedCount: statementImport.importedCount,
+    },
+  })
+  await auditImportedLineCategorizations(organizationId, createdByUserId, statementImport.id)
+
+  return {
+    ...statementImport,
+    duplicateCount: statementImport.lineCount - statementImport.importedCount,
+  }
+}
+
+/**
+ * Lists statement imports, newest first
+ */
+export async function listStatementImports(organizationId: string, accountId?: string) {
+  return prisma.bankStatementImport.findMany({
+    where: { organizationId, ...(accountId ? { accountId } : {}) },
+    include: { account: { select: { id: true, name: true, code: true } } },
+    orderBy: { createdAt: "desc" },
+  })
+}
+
+/**
+ * Lists staged lines, newest first, cursor-paginated
+ */
+export async function listBankLines(
+  organizationId: string,
+  filters: { accountId?: string; importId?: string; status?: BankLineStatus; cursor?: string; limit?: number }
+) {
+  const { accountId, importId, status, cursor, limit = 100 } = filters
+
+  const lines = await prisma.bankStatementLine.findMany({
+    where: {
+      organizationId,
+      ...(accountId ? { accountId } : {}),
+      ...(importId ? { importId } : {}),
+      ...(status ? { status } : {}),
+    },
+    orderBy: [{ postedAt: "desc" }, { id: "desc" }],
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  })
+
+  const hasMore = lines.length > limit
+  const page = hasMore ? lines.slice(0, limit) : lines
+
+  return {
+    lines: page.map((line) => ({ ...line, amount: fromMinorUnits(line.amountCents, line.currency) })),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  }
+}
+
+/**
+ * Claims a pending line for conversion inside the caller's transaction
+ * The conditional update makes concurrent conversions of the same line fail instead of double-booking
+ */
+async function claimPendingLine(tx: any, organizationId: string, lineId: string) {
+  const line = await tx.bankStatementLine.findFirst({ where: { id: lineId, organizationId } })
+  if (!line) {
+    throw ledgerError("Statement line not found", 404)
+  }
+
+  const claimed = await tx.bankStatementLine.updateMany({
+    where: { id: lineId, status: BankLineStatus.PENDING },
+    data: { status: BankLineStatus.CONVERTED },
+  })
+  if (claimed.count === 0) {
+    throw ledgerError(`Statement line is already ${line.status.toLowerCase()}`, 409)
+  }
+
+  return line
+}
+
+/**
+ * Books an outgoing statement line as an expense paid from the statement's account
+ * Without an explicit category, the line's rule categorization (category, account, tags) is used,
+ * else the vendor's default category and account. Approval and spending policies apply as to expenses
+ * entered by hand: an expense needing approval stays PENDING and unposted, and the line is cleared when it is
+ * approved; a HARD spending policy violation refuses the conversion. Likely duplicates among the expenses on file are queued for review and returned with the expense
+ */
+export async function convertLineToExpense(input: {
+  organizationId: string
+  lineId: string
+  description?: string
+  category?: string
+  vendor?: string
+  createdByUserId: string
+}) {
+  const { organizationId, lineId, createdByUserId } = input
+
+  const expense = await prisma.$transaction(async (tx) => {
+    const line = await claimPendingLine(tx, organizationId, lineId)
+    if (line.amountCents >= 0) {
+      throw ledgerError("Only outgoing statement lines can become expenses")
+    }
+
+    await assertPaymentAccount(tx, organizationId, line.accountId)
+
+    const amountCents = -line.amountCents
+    const description = input.description || line.description
+
+    // An explicit vendor, else the vendor matched on import, else the payee as a new vendor
+    const matchedVendor = !input.vendor && line.vendorId
+      ? await tx.vendor.findFirst({ where: { id: line.vendorId, archivedAt: null } })
+      : null
+    const vendorName = input.vendor || line.payee
+    const vendorRef = matchedVendor || (vendorName ? await resolveVendor(tx, organizationId, vendorName) : null)
+    const vendor = vendorRef?.name
+
+    const useRule = input.category === undefined
+    let categoryName = useRule ? line.category : input.category
+    let expenseAccountId = useRule ? line.expenseAccountId : null
+    if (useRule && vendorRef && !categoryName && !expenseAccountId) {
+      const defaults = await getVendorDefaults(tx, vendorRef)
+      categoryName = defaults.category
+      expenseAccountId = defaults.expenseAccountId
+    }
+    const categoryRef = categoryName ? await resolveExpenseCategory(tx, organizationId, categoryName) : null
+    const category = categoryRef?.name ?? null
+
+    // Approval policies hold the expense back from the ledger until it is approved
+    const approvalSteps = await approvalStepsFor(tx, {
+      organizationId,
+      date: line.postedAt,
+      description,
+      vendor: vendor ?? null,
+      category,
+      lineCategories: [],
+      amount: fromMinorUnits(amountCents, line.currency),
+      currency: line.currency,
+      paymentAccountId: line.accountId,
+    })
+    const pendingApproval = approvalSteps.length > 0
+
+    const ledgerTransactionId = pendingApproval ? null : await createExpenseTransaction(
+      {
+        organizationId,
+        occurredAt: line.postedAt,
+        description,
+        amountCents,
+        currency: line.currency,
+        category,
+        expenseAccountId,
+        vendor,
+        vendorId: vendorRef?.id,
+        paymentAccountId: line.accountId,
+        idempotencyKey: `bank-line:${line.id}`,
+        createdByUserId,
+      },
+      tx
+    )
+
+    const expense = await tx.expense.create({
+      data: {
+        organizationId,
+        amount: fromMinorUnits(amountCents, line.currency),
+        currency: line.currency,
+        description,
+        category,
+        categoryId: categoryRef?.id ?? null,
+        expenseAccountId,
+        tags: line.tags,
+        categorizationRuleId: useRule ? line.categorizationRuleId : null,
+        vendor,
+        vendorId: vendorRef?.id ?? null,
+        date: line.postedAt,
+        paymentAccountId: line.accountId,
+        createdById: createdByUserId,
+        ledgerTransactionId,
+        approvalStatus: pendingApproval ? ExpenseApprovalStatus.PENDING : ExpenseApprovalStatus.APPROVED,
+      },
+    })
+
+    await tx.bankStatementLine.update({
+      where: { id: line.id },
+      data: { expenseId: expense.id, transactionId: ledgerTransactionId },
+    })
+    if (ledgerTransactionId) {
+      await matchConvertedLine(tx, line, ledgerTransactionId, createdByUserId)
+    } else {
+      await requestExpenseApproval(tx, { organizationId, expenseId: expense.id, steps: approvalSteps, userId: createdByUserId })
+    }
+
+    // Spending policies flag the expense, or refuse the conversion when one of their HARD rules is broken
+    const violations = await enforceSpendingPolicies(tx, organizationId, expense.id)
+
+    // An expense entered by hand for the same purchase is queued for review as a likely duplicate
+    const duplicates = await checkExpenseDuplicates(tx, organizationId, expense.id)
+
+    return { ...expense, policyViolations: violations, duplicates }
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId: createdByUserId,
+    action: "BANK_LINE_CONVERTED",
+    entityType: "BankStatementLine",
+    entityId: lineId,
+    metadata: { kind: "expense", expenseId: expense.id, transactionId: expense.ledgerTransactionId },
+  })
+
+  return expense
+}
+
+/**
+ * Books a statement line as a two-line journal entry against an offset account
+ * Money in debits the statement's account; money out credits it
+ */
+export async function convertLineToJournalEntry(input: {
+  organizationId: string
+  lineId: string
+  offsetAccountId: string
+  description?: string
+  memo?: string
+  createdByUserId: string
+}) {
+  const { organizationId, lineId, offsetAccountId, memo, createdByUserId } = input
+
+  const transaction = await prisma.$transaction(async (tx) => {
+    const line = await claimPendingLine(tx, organizationId, lineId)
+    if (line.amountCents === 0) {
+      throw ledgerError("Statement line has no amount")
+    }
+    if (offsetAccountId === line.accountId) {
+      throw ledgerError("Offset account must differ from the statement account")
+    }
+
+    const incoming = line.amountCents > 0
+    const amountCents = Math.abs(line.amountCents)
+    const vendorRef = line.vendorId ? await tx.vendor.findUnique({ where: { id: line.vendorId } }) : null
+
+    const transaction = await createJournalEntry(
+      {
+        organizationId,
+        occurredAt: line.postedAt,
+        description: input.description || line.description,
+        vendor: vendorRef?.name ?? line.payee,
+        vendorId: vendorRef?.id,
+        externalRef: line.reference || line.externalId,
+        idempotencyKey: `bank-line:${line.id}`,
+        createdByUserId,
+        lines: [
+          {
+            accountId: line.accountId,
+            direction: incoming ? PostingDirection.DR : PostingDirection.CR,
+            amountCents,
+            currency: line.currency,
+            memo,
+          },
+          {
+            accountId: offsetAccountId,
+            direction: incoming ? PostingDirection.CR : PostingDirection.DR,
+            amountCents,
+            currency: line.currency,
+            memo,
+          },
+        ],
+      },
+      tx
+    )
+
+    await tx.bankStatementLine.update({
+      where: { id: line.id },
+      data: { transactionId: transaction.id },
+    })
+    await matchConvertedLine(tx, line, transaction.id, createdByUserId)
+
+    return transaction
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId: createdByUserId,
+    action: "BANK_LINE_CONVERTED",
+    entityType: "BankStatementLine",
+    entityId: lineId,
+    metadata: { kind: "journal", transactionId: transaction.id, offsetAccountId },
+  })
+
+  return transaction
+}
+
+/**
+ * Ignores a pending line (transfers, duplicates the bank reissued) or puts an ignored line back
+ * Matched and converted lines are not pending, so they cannot be ignored
+ */
+export async function setLineIgnored(input: {
+  organizationId: string
+  lineId: string
+  ignored: boolean
+  userId: string
+}) {
+  const { organizationId, lineId, ignored, userId } = input
+  const from = ignored ? BankLineStatus.PENDING : BankLineStatus.IGNORED
+  const to = ignored ? BankLineStatus.IGNORED : BankLineStatus.PENDING
+
+  const line = await prisma.bankStatementLine.findFirst({ where: { id: lineId, organizationId } })
+  if (!line) {
+    throw ledgerError("Statement line not found", 404)
+  }
+
+  const updated = await prisma.bankStatementLine.updateMany({
+    where: { id: lineId, status: from },
+    data: { status: to },
+  })
+  if (updated.count === 0) {
+    throw ledgerError(`Statement line is ${line.status.toLowerCase()}`, 409)
+  }
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: ignored ? "BANK_LINE_IGNORED" : "BANK_LINE_RESTORED",
+    entityType: "BankStatementLine",
+    entityId: lineId,
+  })
+
+  return prisma.bankStatementLine.findUnique({ where: { id: lineId } })
+}
+
+/**
+ * Lists saved CSV mappings
+ */
+export async function listCsvMappings(organizationId: string) {
+  return prisma.bankCsvMapping.findMany({
+    where: { organizationId },
+    orderBy: { name: "asc" },
+  })
+}
+
+/**
+ * Creates or replaces a CSV mapping by name
+ */
+export async function saveCsvMapping(input: {
+  organizationId: string
+  name: string
+  config: CsvMappingConfig
+  userId: string
+}) {
+  const { organizationId, name, config, userId } = input
+
+  const mapping = await prisma.bankCsvMapping.upsert({
+    where: { organizationId_name: { organizationId, name } },
+    update: { config: config as any },
+    create: { organizationId, name, config: config as any, createdByUserId: userId },
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "BANK_CSV_MAPPING_SAVED",
+    entityType: "BankCsvMapping",
+    entityId: mapping.id,
+    metadata: { name },
+  })
+
+  return mapping
+}
+
+/**
+ * Deletes a CSV mapping
+ */
+export async function deleteCsvMapping(organizationId: string, mappingId: string, userId: string) {
+  const mapping = await prisma.bankCsvMapping.findFirst({ where: { id: mappingId, organizationId } })
+  if (!mapping) {
+    throw ledgerError("CSV mapping not found", 404)
+  }
+
+  await prisma.bankCsvMapping.delete({ where: { id: mapping.id } })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "BANK_CSV_MAPPING_DELETED",
+    entityType: "BankCsvMapping",
+    entityId: mapping.id,
+    metadata: { name: mapping.name },
+  })
+}
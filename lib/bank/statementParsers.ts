@@ -0,0 +1,480 @@
+import { ledgerError } from "@/lib/ledger/ledgerService"
+import { isSupportedCurrency, toMinorUnits } from "@/lib/currency"
+
+/**
+ * Bank and card statement parsers
+ * Every format is reduced to ParsedStatementLine: a calendar date at UTC midnight and a signed amount
+ * in minor units (positive is money into the account, negative money out)
+ */
+
+export type StatementFormat = "csv" | "ofx" | "camt053" | "mt940"
+
+export const STATEMENT_FORMATS: StatementFormat[] = ["csv", "ofx", "camt053", "mt940"]
+
+export type CsvDateFormat = "YYYY-MM-DD" | "YYYYMMDD" | "MM/DD/YYYY" | "DD/MM/YYYY" | "DD.MM.YYYY"
+
+/**
+ * Saved CSV column mapping
+ * Columns are header names (case-insensitive) when hasHeader is set, otherwise 0-based indexes
+ * Either amountColumn (signed) or debitColumn/creditColumn (unsigned, one per direction) must be given
+ */
+export interface CsvMappingConfig {
+  delimiter: string
+  hasHeader: boolean
+  dateColumn: string | number
+  dateFormat: CsvDateFormat
+  amountColumn?: string | number
+  debitColumn?: string | number
+  creditColumn?: string | number
+  descriptionColumn: string | number
+  payeeColumn?: string | number
+  referenceColumn?: string | number
+  currencyColumn?: string | number
+  decimalSeparator: "." | ","
+  negateAmounts: boolean // Card exports often list charges as positive amounts
+}
+
+export interface ParsedStatementLine {
+  postedAt: Date
+  amountCents: number
+  currency: string
+  description: string
+  payee?: string
+  reference?: string
+  externalId?: string
+}
+
+/**
+ * Guesses the format of a statement file from its content
+ */
+export function detectStatementFormat(content: string): StatementFormat {
+  const head = content.slice(0, 4096)
+  if (/OFXHEADER|<OFX>/i.test(head)) {
+    return "ofx"
+  }
+  if (/camt\.053|<(\w+:)?BkToCstmrStmt/.test(head)) {
+    return "camt053"
+  }
+  if (/^:20:/m.test(head) && /^:61:/m.test(content)) {
+    return "mt940"
+  }
+  return "csv"
+}
+
+/**
+ * Parses a statement in the given format
+ * defaultCurrency is used when the file does not state one (CSV without a currency column)
+ */
+export function parseStatement(
+  content: string,
+  format: StatementFormat,
+  options: { defaultCurrency: string; csvMapping?: CsvMappingConfig }
+): ParsedStatementLine[] {
+  switch (format) {
+    case "csv":
+      if (!options.csvMapping) {
+        throw ledgerError("A column mapping is required to import CSV statements")
+      }
+      return parseCsvStatement(content, options.csvMapping, options.defaultCurrency)
+    case "ofx":
+      return parseOfxStatement(content, options.defaultCurrency)
+    case "camt053":
+      return parseCamt053Statement(content, options.defaultCurrency)
+    case "mt940":
+      return parseMt940Statement(content, options.defaultCurrency)
+  }
+}
+
+function utcDate(year: number, month: number, day: number, source: string): Date {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw ledgerError(`Invalid date in statement: ${source}`)
+  }
+  return date
+}
+
+/**
+ * Parses a decimal amount as printed by banks: thousands separators, currency symbols,
+ * parentheses or a trailing minus for negatives
+ */
+function parseAmount(text: string, decimalSeparator: "." | "," = "."): number {
+  let value = text.trim()
+  let negative = false
+
+  if (/^\(.*\)$/.test(value)) {
+    negative = true
+    value = value.slice(1, -1)
+  }
+  if (value.endsWith("-")) {
+    negative = true
+    value = value.slice(0, -1)
+  }
+
+  const thousands = decimalSeparator === "." ? /[,\s']/g : /[.\s']/g
+  value = value.replace(thousands, "").replace(decimalSeparator, ".").replace(/[^\d.+-]/g, "")
+
+  const amount = Number(value)
+  if (!value || isNaN(amount)) {
+    throw ledgerError(`Invalid amount in statement: ${text}`)
+  }
+  return negative ? -amount : amount
+}
+
+function statementCurrency(currency: string | undefined, fallback: string): string {
+  const code = (currency || fallback).trim().toUpperCase()
+  if (!isSupportedCurrency(code)) {
+    throw ledgerError(`Unknown currency in statement: ${code}`)
+  }
+  return code
+}
+
+// CSV
+
+/**
+ * Splits CSV text into rows, honouring quoted fields with embedded delimiters, quotes and newlines
+ */
+export function parseCsvRows(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""))
+}
+
+function parseCsvDate(text: string, format: CsvDateFormat): Date {
+  const value = text.trim()
+  // Capture groups in year, month, day order
+  const patterns: Record<CsvDateFormat, { pattern: RegExp; order: [number, number, number] }> = {
+    "YYYY-MM-DD": { pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})/, order: [1, 2, 3] },
+    YYYYMMDD: { pattern: /^(\d{4})(\d{2})(\d{2})$/, order: [1, 2, 3] },
+    "MM/DD/YYYY": { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: [3, 1, 2] },
+    "DD/MM/YYYY": { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: [3, 2, 1] },
+    "DD.MM.YYYY": { pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/, order: [3, 2, 1] },
+  }
+
+  const { pattern, order } = patterns[format]
+  const match = pattern.exec(value)
+  if (!match) {
+    throw ledgerError(`Date "${value}" does not match ${format}`)
+  }
+  return utcDate(Number(match[order[0]]), Number(match[order[1]]), Number(match[order[2]]), value)
+}
+
+function parseCsvStatement(content: string, mapping: CsvMappingConfig, defaultCurrency: string): ParsedStatementLine[] {
+  // Strip a UTF-8 BOM left by spreadsheet exports
+  const rows = parseCsvRows(content.replace(/^\uFEFF/, ""), mapping.delimiter)
+  if (rows.length === 0) {
+    return []
+  }
+
+  const headers = mapping.hasHeader ? rows[0].map((h) => h.trim().toLowerCase()) : []
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows
+
+  const indexOf = (column: string | number | undefined): number | undefined => {
+    if (column === undefined || column === "") {
+      return undefined
+    }
+    if (typeof column === "number" || !mapping.hasHeader) {
+      return Number(column)
+    }
+    const index = headers.indexOf(column.trim().toLowerCase())
+    if (index === -1) {
+      throw ledgerError(`Column "${column}" not found in the CSV header`)
+    }
+    return index
+  }
+
+  const columns = {
+    date: indexOf(mapping.dateColumn)!,
+    amount: indexOf(mapping.amountColumn),
+    debit: indexOf(mapping.debitColumn),
+    credit: indexOf(mapping.creditColumn),
+    description: indexOf(mapping.descriptionColumn)!,
+    payee: indexOf(mapping.payeeColumn),
+    reference: indexOf(mapping.referenceColumn),
+    currency: indexOf(mapping.currencyColumn),
+  }
+
+  if (columns.amount === undefined && columns.debit === undefined && columns.credit === undefined) {
+    throw ledgerError("The mapping needs an amount column or debit/credit columns")
+  }
+
+  const cell = (row: string[], index: number | undefined) => (index === undefined ? "" : (row[index] || "").trim())
+
+  return dataRows.map((row, i) => {
+    let amount: number
+    if (columns.amount !== undefined) {
+      amount = parseAmount(cell(row, columns.amount), mapping.decimalSeparator)
+    } else {
+      const debit = cell(row, columns.debit)
+      const credit = cell(row, columns.credit)
+      if (!debit && !credit) {
+        throw ledgerError(`Row ${i + 1} has neither a debit nor a credit amount`)
+      }
+      amount =
+        (credit ? Math.abs(parseAmount(credit, mapping.decimalSeparator)) : 0) -
+        (debit ? Math.abs(parseAmount(debit, mapping.decimalSeparator)) : 0)
+    }
+
+    if (mapping.negateAmounts) {
+      amount = -amount
+    }
+
+    const currency = statementCurrency(cell(row, columns.currency) || undefined, defaultCurrency)
+    return {
+      postedAt: parseCsvDate(cell(row, columns.date), mapping.dateFormat),
+      amountCents: toMinorUnits(amount, currency),
+      currency,
+      description: cell(row, columns.description) || cell(row, columns.payee) || "Statement line",
+      payee: cell(row, columns.payee) || undefined,
+      reference: cell(row, columns.reference) || undefined,
+    }
+  })
+}
+
+// OFX / QFX (SGML 1.x and XML 2.x)
+
+function ofxValue(block: string, tag: string): string | undefined {
+  // SGML leaves leaf elements unclosed, so a value runs to the next tag or line end
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, "i").exec(block)
+  return match ? decodeXmlEntities(match[1].trim()) || undefined : undefined
+}
+
+function parseOfxDate(value: string): Date {
+  // YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]; only the booking date is kept
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value)
+  if (!match) {
+    throw ledgerError(`Invalid OFX date: ${value}`)
+  }
+  return utcDate(Number(match[1]), Number(match[2]), Number(match[3]), value)
+}
+
+/**
+ * Decimal separator of an OFX amount: the spec allows "." or "," and no thousands separators, so a lone
+ * comma is the decimal separator (European exports print -12,50); with both, the last one is
+ */
+function ofxDecimalSeparator(text: string): "." | "," {
+  return text.lastIndexOf(",") > text.lastIndexOf(".") ? "," : "."
+}
+
+function parseOfxStatement(content: string, defaultCurrency: string): ParsedStatementLine[] {
+  const currency = statementCurrency(ofxValue(content, "CURDEF"), defaultCurrency)
+  const blocks = content.split(/<STMTTRN>/i).slice(1).map((block) => block.split(/<\/STMTTRN>/i)[0])
+
+  return blocks.map((block) => {
+    const amountText = ofxValue(block, "TRNAMT")
+    const dateText = ofxValue(block, "DTPOSTED")
+    if (!amountText || !dateText) {
+      throw ledgerError("OFX transaction is missing TRNAMT or DTPOSTED")
+    }
+
+    // A CURRENCY aggregate means the amounts are in that currency rather than CURDEF
+    const currencyBlock = /<CURRENCY>([\s\S]*?)(<\/CURRENCY>|$)/i.exec(block)?.[1]
+    const lineCurrency = currencyBlock ? statementCurrency(ofxValue(currencyBlock, "CURSYM"), currency) : currency
+    const name = ofxValue(block, "NAME")
+    const memo = ofxValue(block, "MEMO")
+
+    return {
+      postedAt: parseOfxDate(dateText),
+      amountCents: toMinorUnits(parseAmount(amountText, ofxDecimalSeparator(amountText)), lineCurrency),
+      currency: lineCurrency,
+      description: memo || name || ofxValue(block, "TRNTYPE") || "Statement line",
+      payee: name,
+      reference: ofxValue(block, "CHECKNUM") || ofxValue(block, "REFNUM"),
+      externalId: ofxValue(block, "FITID"),
+    }
+  })
+}
+
+// ISO 20022 CAMT.053
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&")
+}
+
+/**
+ * Returns the inner XML of every element with a local name, ignoring namespace prefixes
+ */
+function xmlElements(xml: string, name: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w.-]+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w.-]+:)?${name}>`, "g")
+  return Array.from(xml.matchAll(pattern), (match) => match[1])
+}
+
+/**
+ * Text of the first element matching a path of local names
+ */
+function xmlText(xml: string, ...path: string[]): string | undefined {
+  let scope: string | undefined = xml
+  for (const name of path) {
+    scope = scope === undefined ? undefined : xmlElements(scope, name)[0]
+  }
+  return scope === undefined ? undefined : decodeXmlEntities(scope.trim()) || undefined
+}
+
+function parseIsoDate(value: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value)
+  if (!match) {
+    throw ledgerError(`Invalid date in statement: ${value}`)
+  }
+  return utcDate(Number(match[1]), Number(match[2]), Number(match[3]), value)
+}
+
+function parseCamt053Statement(content: string, defaultCurrency: string): ParsedStatementLine[] {
+  const statements = xmlElements(content, "Stmt")
+  if (statements.length === 0) {
+    throw ledgerError("CAMT.053 file has no Stmt element")
+  }
+
+  return statements.flatMap((statement) => {
+    const accountCurrency = xmlText(statement, "Acct", "Ccy")
+
+    return xmlElements(statement, "Ntry").map((entry) => {
+      // The entry amount precedes NtryDtls, so the first Amt is the booked amount
+      const amountMatch = /<(?:[\w.-]+:)?Amt(\s[^>]*)?>([^<]+)</.exec(entry)
+      const indicator = xmlText(entry, "CdtDbtInd")
+      const dateText = xmlText(entry, "BookgDt", "Dt") || xmlText(entry, "BookgDt", "DtTm") || xmlText(entry, "ValDt", "Dt")
+      if (!amountMatch || !indicator || !dateText) {
+        throw ledgerError("CAMT.053 entry is missing Amt, CdtDbtInd or BookgDt")
+      }
+
+      const currency = statementCurrency(/Ccy="([A-Z]{3})"/.exec(amountMatch[1] || "")?.[1] || accountCurrency, defaultCurrency)
+      const amount = Math.abs(parseAmount(amountMatch[2]))
+      // CdtDbtInd is the booked direction even on a reversal (CRDT with RvslInd returns an earlier debit)
+      const incoming = indicator === "CRDT"
+      const reversed = xmlText(entry, "RvslInd") === "true"
+
+      const details = xmlElements(entry, "TxDtls")[0] || ""
+      const party = incoming
+        ? xmlText(details, "RltdPties", "Dbtr", "Nm") || xmlText(details, "RltdPties", "Dbtr", "Pty", "Nm")
+        : xmlText(details, "RltdPties", "Cdtr", "Nm") || xmlText(details, "RltdPties", "Cdtr", "Pty", "Nm")
+      const remittance = xmlElements(details, "Ustrd").map((u) => decodeXmlEntities(u.trim())).join(" ")
+      const endToEndId = xmlText(details, "Refs", "EndToEndId")
+
+      const description = remittance || xmlText(entry, "AddtlNtryInf") || party || "Statement line"
+
+      return {
+        postedAt: parseIsoDate(dateText),
+        amountCents: toMinorUnits(incoming ? amount : -amount, currency),
+        currency,
+        description: reversed ? `Reversal: ${description}` : description,
+        payee: party,
+        reference: endToEndId && endToEndId !== "NOTPROVIDED" ? endToEndId : xmlText(entry, "NtryRef"),
+        externalId: xmlText(entry, "AcctSvcrRef"),
+      }
+    })
+  })
+}
+
+// SWIFT MT940
+
+/**
+ * Splits an MT940 message into its :tag: fields, joining continuation lines
+ */
+function mt940Fields(content: string): Array<{ tag: string; value: string }> {
+  const fields: Array<{ tag: string; value: string }> = []
+  for (const line of content.split(/\r?\n/)) {
+    const match = /^:(\d{2}[A-Z]?):(.*)$/.exec(line)
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] })
+    } else if (fields.length > 0 && line.trim() && !/^-\}?$|^\{/.test(line.trim())) {
+      fields[fields.length - 1].value += `\n${line}`
+    }
+  }
+  return fields
+}
+
+function parseMt940Statement(content: string, defaultCurrency: string): ParsedStatementLine[] {
+  const lines: ParsedStatementLine[] = []
+  let currency = defaultCurrency
+
+  for (const field of mt940Fields(content)) {
+    if (field.tag === "60F" || field.tag === "60M") {
+      // Opening balance: D/C mark, YYMMDD, currency, amount
+      const match = /^[CD]\d{6}([A-Z]{3})/.exec(field.value)
+      currency = statementCurrency(match?.[1], defaultCurrency)
+    } else if (field.tag === "61") {
+      // Value date YYMMDD, optional entry date MMDD, mark (C, D, RC, RD), optional funds code, amount,
+      // transaction type (N/F/S + 3 chars), customer reference, optional //bank reference, optional details line
+      const [first, ...rest] = field.value.split("\n")
+      const match = /^(\d{2})(\d{2})(\d{2})(\d{4})?(R?[CD])([A-Z])?(\d+,\d*)([NFS][A-Z0-9]{3})([^/]*)(?:\/\/(.*))?$/.exec(
+        first.trim()
+      )
+      if (!match) {
+        throw ledgerError(`Invalid MT940 statement line: ${first}`)
+      }
+
+      const [, yy, mm, dd, entryDate, mark, , amountText, , customerRef, bankRef] = match
+      const valueYear = 2000 + Number(yy)
+      // Book on the entry date when present; it can roll into the next year around New Year
+      let postedAt = utcDate(valueYear, Number(mm), Number(dd), first)
+      if (entryDate) {
+        const entryMonth = Number(entryDate.slice(0, 2))
+        const entryYear =
+          entryMonth < Number(mm) - 6 ? valueYear + 1 : entryMonth > Number(mm) + 6 ? valueYear - 1 : valueYear
+        postedAt = utcDate(entryYear, entryMonth, Number(entryDate.slice(2)), first)
+      }
+
+      const amount = parseAmount(amountText, ",")
+      const outgoing = mark === "D" || mark === "RC"
+      const reference = customerRef.trim() && customerRef.trim() !== "NONREF" ? customerRef.trim() : undefined
+
+      lines.push({
+        postedAt,
+        amountCents: toMinorUnits(outgoing ? -amount : amount, currency),
+        currency,
+        description: rest.join(" ").trim() || reference || "Statement line",
+        reference,
+        externalId: bankRef?.trim() || undefined,
+      })
+    } else if (field.tag === "86" && lines.length > 0) {
+      // Information to account owner for the preceding :61: line
+      const info = field.value.replace(/\n/g, "").replace(/\?\d{2}/g, " ").replace(/\s+/g, " ").trim()
+      if (info) {
+        lines[lines.length - 1].description = info
+      }
+    }
+  }
+
+  return lines
+}
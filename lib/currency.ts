@@ -0,0 +1,52 @@
+/**
+ * Currency helpers shared by server and client code
+ * Ledger amounts are stored as integers in each currency's minor unit
+ * (cents for USD, yen for JPY, fils for KWD), so precision comes from ISO 4217 via Intl
+ */
+
+const decimalsCache = new Map<string, number>()
+
+/**
+ * Returns true for ISO 4217 codes the runtime knows about
+ */
+export function isSupportedCurrency(currency: string): boolean {
+  return Intl.supportedValuesOf("currency").includes(currency.toUpperCase())
+}
+
+/**
+ * Number of minor-unit decimals for a currency (USD 2, JPY 0, KWD 3)
+ */
+export function currencyDecimals(currency: string): number {
+  const code = currency.toUpperCase()
+  const cached = decimalsCache.get(code)
+  if (cached !== undefined) {
+    return cached
+  }
+
+  const decimals =
+    new Intl.NumberFormat("en-US", { style: "currency", currency: code }).resolvedOptions().maximumFractionDigits ?? 2
+  decimalsCache.set(code, decimals)
+  return decimals
+}
+
+/**
+ * Converts a major-unit amount (e.g. 12.34 USD) to integer minor units (1234)
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * 10 ** currencyDecimals(currency))
+}
+
+/**
+ * Converts integer minor units back to a major-unit amount
+ */
+export function fromMinorUnits(minorUnits: number, currency: string): number {
+  return minorUnits / 10 ** currencyDecimals(currency)
+}
+
+/**
+ * Returns true when an amount has no more decimals than the currency allows
+ */
+export function hasValidPrecision(amount: number, currency: string): boolean {
+  const scaled = amount * 10 ** currencyDecimals(currency)
+  return Math.abs(scaled - Math.round(scaled)) < 1e-6
+}
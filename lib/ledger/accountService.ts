@@ -0,0 +1,361 @@
+import { prisma } from "@/lib/prisma"
+import { createAuditLog } from "@/lib/audit-log"
+import { ledgerError } from "@/lib/ledger/ledgerService"
+import { getBaseCurrency, groupBaseAmounts } from "@/lib/ledger/fxService"
+import { AccountType, PostingDirection } from "@prisma/client"
+
+/**
+ * Server-only chart of accounts management
+ * System accounts (Cash, Uncategorized Expense, ...) are looked up by name
+ * elsewhere in the ledger, so their identity fields are protected here
+ */
+
+interface CreateAccountInput {
+  organizationId: string
+  name: string
+  type: AccountType
+  code?: string | null
+  currency?: string
+  parentId?: string | null
+  userId: string
+}
+
+interface UpdateAccountInput {
+  organizationId: string
+  accountId: string
+  name?: string
+  code?: string | null
+  parentId?: string | null
+  userId: string
+}
+
+/**
+ * Returns true for account types whose balance increases with debits
+ */
+export function isDebitNormal(type: AccountType): boolean {
+  return type === AccountType.ASSET || type === AccountType.EXPENSE
+}
+
+/**
+ * Lists accounts for an organization ordered by type, code and name
+ */
+export async function listAccounts(organizationId: string, options: { includeArchived?: boolean } = {}) {
+  return prisma.ledgerAccount.findMany({
+    where: {
+      organizationId,
+      ...(options.includeArchived ? {} : { archivedAt: null }),
+    },
+    orderBy: [{ type: "asc" }, { code: "asc" }, { name: "asc" }],
+  })
+}
+
+/**
+ * Gets the ids of every descendant of an account
+ */
+export async function getDescendantAccountIds(organizationId: string, accountId: string, tx?: any): Promise<string[]> {
+  const client = tx || prisma
+
+  const accounts: Array<{ id: string; parentId: string | null }> = await client.ledgerAccount.findMany({
+    where: { organizationId, parentId: { not: null } },
+    select: { id: true, parentId: true },
+  })
+
+  const descendants: string[] = []
+  const queue = [accountId]
+  const seen = new Set(queue)
+  while (queue.length > 0) {
+    const current = queue.shift()
+    for (const account of accounts) {
+      if (account.parentId === current && !seen.has(account.id)) {
+        seen.add(account.id)
+        descendants.push(account.id)
+        queue.push(account.id)
+      }
+    }
+  }
+
+  return descendants
+}
+
+/**
+ * Gets an account's balance from all of its postings
+ * With includeDescendants, child account postings are rolled up into the total
+ * Amounts are in base-currency minor units; balanceCents is signed by the account type's normal side
+ */
+export async function getAccountBalance(
+  organizationId: string,
+  accountId: string,
+  options: { includeDescendants?: boolean; tx?: any } = {}
+) {
+  const client = options.tx || prisma
+
+  const account = await client.ledgerAccount.findFirst({
+    where: { id: accountId, organizationId },
+  })
+
+  if (!account) {
+    throw ledgerError("Account not found", 404)
+  }
+
+  const accountIds = options.includeDescendants
+    ? [accountId, ...(await getDescendantAccountIds(organizationId, accountId, client))]
+    : [accountId]
+
+  const sums = await groupBaseAmounts<{ direction: PostingDirection }>(client, ["direction"], {
+    organizationId,
+    accountId: { in: accountIds },
+  })
+
+  const debitCents = sums.find((s) => s.direction === PostingDirection.DR)?.baseAmountCents || 0
+  const creditCents = sums.find((s) => s.direction === PostingDirection.CR)?.baseAmountCents || 0
+
+  return {
+    debitCents,
+    creditCents,
+    balanceCents: isDebitNormal(account.type) ? debitCents - creditCents : creditCents - debitCents,
+  }
+}
+
+/**
+ * Validates a prospective parent for an account
+ * Parent must be in the same org, active, of the same type and not a descendant of the account
+ */
+async function assertValidParent(
+  tx: any,
+  organizationId: string,
+  accountId: string | null,
+  parentId: string,
+  type: AccountType
+): Promise<void> {
+  if (accountId && parentId === accountId) {
+    throw ledgerError("An account cannot be its own parent")
+  }
+
+  const parent = await tx.ledgerAccount.findFirst({
+    where: { id: parentId, organizationId },
+  })
+
+  if (!parent) {
+    throw ledgerError("Parent account not found", 404)
+  }
+
+  if (parent.archivedAt) {
+    throw ledgerError("Parent account is archived")
+  }
+
+  if (parent.type !== type) {
+    throw ledgerError(`A ${type} account cannot be placed under a ${parent.type} account`)
+  }
+
+  if (!accountId) {
+    return
+  }
+
+  // Walk up from the parent; reaching the account itself means a cycle
+  let cursor: string | null = parent.parentId
+  const seen = new Set<string>([parent.id])
+  while (cursor) {
+    if (cursor === accountId) {
+      throw ledgerError("Account hierarchy cannot contain cycles")
+    }
+    if (seen.has(cursor)) {
+      break
+    }
+    seen.add(cursor)
+    const ancestor: { parentId: string | null } | null = await tx.ledgerAccount.findFirst({
+      where: { id: cursor, organizationId },
+      select: { parentId: true },
+    })
+    cursor = ancestor?.parentId || null
+  }
+}
+
+/**
+ * Maps unique constraint violations to a 409
+ */
+function rethrowConflict(error: any): never {
+  if (error.code === "P2002") {
+    throw ledgerError("An account with this name or code already exists", 409)
+  }
+  throw error
+}
+
+/**
+ * Creates a non-system account, in the organization's base currency unless another is given
+ */
+export async function createAccount(input: CreateAccountInput) {
+  const { organizationId, name, type, code, parentId, userId } = input
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      if (parentId) {
+        await assertValidParent(tx, organizationId, null, parentId, type)
+      }
+
+      const account = await tx.ledgerAccount.create({
+        data: {
+          organizationId,
+          name,
+          type,
+          code: code || null,
+          currency: input.currency || (await getBaseCurrency(organizationId, tx)),
+          parentId: parentId || null,
+          isSystem: false,
+        },
+      })
+
+      await createAuditLog({
+        organizationId,
+        userId,
+        action: "ACCOUNT_CREATED",
+        entityType: "LedgerAccount",
+        entityId: account.id,
+        metadata: { name, type, code, parentId },
+      })
+
+      return account
+    })
+  } catch (error: any) {
+    rethrowConflict(error)
+  }
+}
+
+/**
+ * Renames, recodes or reparents an account
+ * System accounts may only be reparented
+ */
+export async function updateAccount(input: UpdateAccountInput) {
+  const { organizationId, accountId, name, code, parentId, userId } = input
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const account = await tx.ledgerAccount.findFirst({
+        where: { id: accountId, organizationId },
+      })
+
+      if (!account) {
+        throw ledgerError("Account not found", 404)
+      }
+
+      if (account.isSystem && (name !== undefined || code !== undefined)) {
+        throw ledgerError("System accounts cannot be renamed or recoded", 403)
+      }
+
+      if (parentId) {
+        await assertValidParent(tx, organizationId, accountId, parentId, account.type)
+      }
+
+      const updated = await tx.ledgerAccount.update({
+        where: { id: accountId },
+        data: {
+          ...(name !== undefined ? { name } : {}),
+          ...(code !== undefined ? { code: code || null } : {}),
+          ...(parentId !== undefined ? { parentId: parentId || null } : {}),
+        },
+      })
+
+      await createAuditLog({
+        organizationId,
+        userId,
+        action: "ACCOUNT_UPDATED",
+        entityType: "LedgerAccount",
+        entityId: accountId,
+        metadata: {
+          before: { name: account.name, code: account.code, parentId: account.parentId },
+          after: { name: updated.name, code: updated.code, parentId: updated.parentId },
+        },
+      })
+
+      return updated
+    })
+  } catch (error: any) {
+    rethrowConflict(error)
+  }
+}
+
+/**
+ * Archives an account
+ * Refuses system accounts, accounts with a non-zero balance and accounts with active children
+ */
+export async function archiveAccount(organizationId: string, accountId: string, userId: string) {
+  return prisma.$transaction(async (tx) => {
+    const account = await tx.ledgerAccount.findFirst({
+      where: { id: accountId, organizationId },
+    })
+
+    if (!account) {
+      throw ledgerError("Account not found", 404)
+    }
+
+    if (account.isSystem) {
+      throw ledgerError("System accounts cannot be archived", 403)
+    }
+
+    if (account.archivedAt) {
+      return account
+    }
+
+    const { balanceCents } = await getAccountBalance(organizationId, accountId, { tx })
+    if (balanceCents !== 0) {
+      throw ledgerError("Accounts with a non-zero balance cannot be archived", 409)
+    }
+
+    const activeChildren = await tx.ledgerAccount.count({
+      where: { organizationId, parentId: accountId, archivedAt: null },
+    })
+    if (activeChildren > 0) {
+      throw ledgerError("Archive or move child accounts first", 409)
+    }
+
+    const archived = await tx.ledgerAccount.update({
+      where: { id: accountId },
+      data: { archivedAt: new Date() },
+    })
+
+    await createAuditLog({
+      organizationId,
+      userId,
+      action: "ACCOUNT_ARCHIVED",
+      entityType: "LedgerAccount",
+      entityId: accountId,
+      metadata: { name: account.name },
+    })
+
+    return archived
+  })
+}
+
+/**
+ * Restores an archived account
+ */
+export async function restoreAccount(organizationId: string, accountId: string, userId: string) {
+  return prisma.$transaction(async (tx) => {
+    const account = await tx.ledgerAccount.findFirst({
+      where: { id: accountId, organizationId },
+    })
+
+    if (!account) {
+      throw ledgerError("Account not found", 404)
+    }
+
+    if (!account.archivedAt) {
+      return account
+    }
+
+    const restored = await tx.ledgerAccount.update({
+      where: { id: accountId },
+      data: { archivedAt: null },
+    })
+
+    await createAuditLog({
+      organizationId,
+      userId,
+      action: "ACCOUNT_RESTORED",
+      entityType: "LedgerAccount",
+      entityId: accountId,
+      metadata: { name: account.name },
+    })
+
+    return restored
+  })
+}
@@ -0,0 +1,454 @@
+import { prisma } from "@/lib/prisma"
+import { createAuditLog } from "@/lib/audit-log"
+import { AccountType, BankLineStatus } from "@prisma/client"
+import { assertExpenseAccount, ledgerError, rebookExpenseTransaction } from "@/lib/ledger/ledgerService"
+import { getBaseCurrency } from "@/lib/ledger/fxService"
+
+/**
+ * Server-only managed expense categories
+ * Each category maps to the EXPENSE account its expenses post to. Names match ignoring case and
+ * surrounding whitespace; a rename keeps the account and the old name as an alias, and a merge
+ * re-points the source's expenses (re-posting them when the account changes) and aliases its names
+ * to the target, so old postings and free-text input keep resolving to the surviving category
+ */
+
+const MERGE_BATCH_SIZE = 200
+
+/**
+ * Normalizes a category name for comparison
+ */
+export function categoryKey(name: string): string {
+  return displayName(name).toLowerCase()
+}
+
+function displayName(name: string): string {
+  return name.trim().replace(/\s+/g, " ")
+}
+
+function accountNameFor(name: string): string {
+  return `Expense: ${name}`
+}
+
+/**
+ * Picks an account code for a category that no other account uses
+ * "R&D" and "R D" both slug to EXP_R_D, so later ones get a numeric suffix
+ */
+async function uniqueAccountCode(tx: any, organizationId: string, name: string): Promise<string> {
+  const slug = name.toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_+|_+$/g, "") || "CATEGORY"
+  const base = `EXP_${slug}`
+
+  const taken = await tx.ledgerAccount.findMany({
+    where: { organizationId, code: { startsWith: base } },
+    select: { code: true },
+  })
+  const codes = new Set(taken.map((a: any) => a.code))
+
+  let code = base
+  for (let n = 2; codes.has(code); n++) {
+    code = `${base}_${n}`
+  }
+  return code
+}
+
+/**
+ * Finds the category a name refers to (by name or alias), following merges to the surviving category
+ */
+async function findCategory(client: any, organizationId: string, name: string) {
+  const key = categoryKey(name)
+  const matches = await client.expenseCategory.findMany({
+    where: { organizationId, OR: [{ nameKey: key }, { aliasKeys: { has: key } }] },
+  })
+
+  let category = matches.find((c: any) => c.nameKey === key) || matches[0] || null
+  while (category?.mergedIntoId) {
+    category = await client.expenseCategory.findUnique({ where: { id: category.mergedIntoId } })
+  }
+  return category
+}
+
+async function assertNameAvailable(client: any, organizationId: string, name: string, exceptId?: string) {
+  const key = categoryKey(name)
+  const clash = await client.expenseCategory.findFirst({
+    where: {
+      organizationId,
+      OR: [{ nameKey: key }, { aliasKeys: { has: key } }],
+      ...(exceptId ? { id: { not: exceptId } } : {}),
+    },
+  })
+  if (clash) {
+    throw ledgerError(`Category name "${displayName(name)}" is already used by "${clash.name}"`, 409)
+  }
+}
+
+/**
+ * Creates the EXPENSE account a new category posts to, or adopts the legacy "Expense: <name>" account
+ */
+async function createCategoryAccount(tx: any, organizationId: string, name: string) {
+  const existing = await tx.ledgerAccount.findFirst({
+    where: { organizationId, name: { equals: accountNameFor(name), mode: "insensitive" } },
+  })
+  if (existing) {
+    if (existing.type !== AccountType.EXPENSE || existing.archivedAt) {
+      throw ledgerError(`Account "${existing.name}" cannot be used for category "${name}"`, 409)
+    }
+    return existing
+  }
+
+  return tx.ledgerAccount.create({
+    data: {
+      organizationId,
+      name: accountNameFor(name),
+      type: AccountType.EXPENSE,
+      currency: await getBaseCurrency(organizationId, tx),
+      isSystem: false,
+      code: await uniqueAccountCode(tx, organizationId, name),
+    },
+  })
+}
+
+/**
+ * Resolves a category name to its managed category, creating it (and its account) on first use
+ * Names that are not in the list yet, e.g. from API clients or imports, join it; an archived
+ * category cannot take new expenses
+ */
+export async function resolveExpenseCategory(tx: any, organizationId: string, name: string) {
+  if (!displayName(name)) {
+    throw ledgerError("Category name is required")
+  }
+
+  const existing = await findCategory(tx, organizationId, name)
+  if (existing) {
+    if (existing.archivedAt) {
+      throw ledgerError(`Category "${existing.name}" is archived`)
+    }
+    return existing
+  }
+
+  const account = await createCategoryAccount(tx, organizationId, displayName(name))
+  return tx.expenseCategory.create({
+    data: {
+      organizationId,
+      name: displayName(name),
+      nameKey: categoryKey(name),
+      accountId: account.id,
+    },
+  })
+}
+
+/**
+ * Maps any posted category name (current, former or merged) to the current category name
+ * Names without a category are returned unchanged
+ */
+export async function getCategoryNameResolver(organizationId: string) {
+  const categories = await prisma.expenseCategory.findMany({
+    where: { organizationId },
+    select: { id: true, name: true, nameKey: true, aliasKeys: true, mergedIntoId: true },
+  })
+
+  const byId = new Map(categories.map((c) => [c.id, c]))
+  const survivor = (category: (typeof categories)[number]) => {
+    let current = category
+    while (current.mergedIntoId && byId.has(current.mergedIntoId)) {
+      current = byId.get(current.mergedIntoId)!
+    }
+    return current.name
+  }
+
+  const names = new Map<string, string>()
+  for (const category of categories) {
+    category.aliasKeys.forEach((key) => names.set(key, survivor(category)))
+  }
+  for (const category of categories) {
+    names.set(category.nameKey, survivor(category))
+  }
+
+  return (name: string) => names.get(categoryKey(name)) || name
+}
+
+/**
+ * Posting filter for a category, covering the names its postings were booked under
+ */
+export async function categoryPostingFilter(organizationId: string, name: string) {
+  const category = await findCategory(prisma, organizationId, name)
+  const keys = category ? [category.nameKey, ...category.aliasKeys] : [categoryKey(name)]
+
+  return {
+    OR: keys.map((key) => ({ category: { equals: key, mode: "insensitive" as const } })),
+  }
+}
+
+/**
+ * Lists categories by name with their accounts
+ */
+export async function listCategories(organizationId: string, options: { includeArchived?: boolean } = {}) {
+  return prisma.expenseCategory.findMany({
+    where: { organizationId, ...(options.includeArchived ? {} : { archivedAt: null }) },
+    include: { account: { select: { id: true, name: true, code: true } } },
+    orderBy: { name: "asc" },
+  })
+}
+
+/**
+ * Creates a category, posting to an existing EXPENSE account or to a new one
+ */
+export async function createCategory(input: {
+  organizationId: string
+  name: string
+  accountId?: string
+  userId: string
+}) {
+  const { organizationId, userId } = input
+  const name = displayName(input.name)
+
+  const category = await prisma.$transaction(async (tx) => {
+    await assertNameAvailable(tx, organizationId, name)
+
+    const account = input.accountId
+      ? await assertExpenseAccount(tx, organizationId, input.accountId)
+      : await createCategoryAccount(tx, organizationId, name)
+
+    return tx.expenseCategory.create({
+      data: { organizationId, name, nameKey: categoryKey(name), accountId: account.id },
+      include: { account: { select: { id: true, name: true, code: true } } },
+    })
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "CATEGORY_CREATED",
+    entityType: "ExpenseCategory",
+    entityId: category.id,
+    metadata: { name, accountId: category.accountId },
+  })
+
+  return category
+}
+
+/**
+ * Renames, re-maps or archives a category
+ * - A rename keeps the account (renaming it too while it still carries the generated name), keeps the
+ *   old name as an alias and updates expenses, split lines, rules and pending statement lines that use it
+ * - A new account applies to postings made from now on; booked postings stay where they are
+ */
+export async function updateCategory(input: {
+  organizationId: string
+  categoryId: string
+  name?: string
+  accountId?: string
+  archived?: boolean
+  userId: string
+}) {
+  const { organizationId, categoryId, userId } = input
+
+  const { category, changes } = await prisma.$transaction(async (tx) => {
+    const existing = await tx.expenseCategory.findFirst({ where: { id: categoryId, organizationId } })
+    if (!existing) {
+      throw ledgerError("Category not found", 404)
+    }
+    if (existing.mergedIntoId) {
+      throw ledgerError(`Category "${existing.name}" was merged and cannot be changed`, 409)
+    }
+
+    const changes: Record<string, any> = {}
+    const data: Record<string, any> = {}
+
+    const name = input.name !== undefined ? displayName(input.name) : existing.name
+    if (name !== existing.name) {
+      const key = categoryKey(name)
+      if (key !== existing.nameKey) {
+        await assertNameAvailable(tx, organizationId, name, existing.id)
+      }
+
+      data.name = name
+      data.nameKey = key
+      data.aliasKeys = Array.from(new Set([...existing.aliasKeys, existing.nameKey])).filter((k) => k !== key)
+      changes.name = { from: existing.name, to: name }
+
+      await tx.expense.updateMany({ where: { organizationId, categoryId: existing.id }, data: { category: name } })
+      await tx.expenseLine.updateMany({ where: { categoryId: existing.id }, data: { category: name } })
+      await tx.bill.updateMany({ where: { organizationId, categoryId: existing.id }, data: { category: name } })
+      await tx.categorizationRule.updateMany({ where: { organizationId, category: existing.name }, data: { category: name } })
+      await tx.bankStatementLine.updateMany({
+        where: { organizationId, status: BankLineStatus.PENDING, category: existing.name },
+        data: { category: name },
+      })
+
+      const account = await tx.ledgerAccount.findUnique({ where: { id: existing.accountId } })
+      const taken = await tx.ledgerAccount.findFirst({ where: { organizationId, name: accountNameFor(name) } })
+      if (account && account.name === accountNameFor(existing.name) && !taken) {
+        await tx.ledgerAccount.update({ where: { id: account.id }, data: { name: accountNameFor(name) } })
+      }
+    }
+
+    if (input.accountId !== undefined && input.accountId !== existing.accountId) {
+      await assertExpenseAccount(tx, organizationId, input.accountId)
+      data.accountId = input.accountId
+      changes.accountId = { from: existing.accountId, to: input.accountId }
+    }
+
+    if (input.archived !== undefined && input.archived !== Boolean(existing.archivedAt)) {
+      data.archivedAt = input.archived ? new Date() : null
+      changes.archived = input.archived
+    }
+
+    const category = await tx.expenseCategory.update({
+      where: { id: existing.id },
+      data,
+      include: { account: { select: { id: true, name: true, code: true } } },
+    })
+
+    return { category, changes }
+  })
+
+  if (Object.keys(changes).length > 0) {
+    await createAuditLog({
+      organizationId,
+      userId,
+      action: "CATEGORY_UPDATED",
+      entityType: "ExpenseCategory",
+      entityId: category.id,
+      metadata: changes,
+    })
+  }
+
+  return category
+}
+
+/**
+ * Merges a category into another
+ * The source is archived with its names aliased to the target, then each of its expenses (and split lines) is re-pointed;
+ * when the accounts differ the expense is re-posted via reversal. Expenses that cannot be re-posted
+ * (closed period, reconciled postings) stay on the source and are reported; merging again retries them
+ */
+export async function mergeCategory(input: {
+  organizationId: string
+  sourceId: string
+  targetId: string
+  userId: string
+}) {
+  const { organizationId, sourceId, targetId, userId } = input
+
+  if (sourceId === targetId) {
+    throw ledgerError("A category cannot be merged into itself")
+  }
+
+  const { source, target } = await prisma.$transaction(async (tx) => {
+    const [source, target] = await Promise.all([
+      tx.expenseCategory.findFirst({ where: { id: sourceId, organizationId } }),
+      tx.expenseCategory.findFirst({ where: { id: targetId, organizationId } }),
+    ])
+    if (!source || !target) {
+      throw ledgerError("Category not found", 404)
+    }
+    if (target.archivedAt) {
+      throw ledgerError(`Category "${target.name}" is archived`)
+    }
+    if (source.mergedIntoId && source.mergedIntoId !== target.id) {
+      throw ledgerError(`Category "${source.name}" was already merged into another category`, 409)
+    }
+
+    if (!source.mergedIntoId) {
+      await tx.expenseCategory.update({
+        where: { id: source.id },
+        data: { mergedIntoId: target.id, archivedAt: source.archivedAt || new Date() },
+      })
+      await tx.expenseCategory.update({
+        where: { id: target.id },
+        data: { aliasKeys: Array.from(new Set([...target.aliasKeys, source.nameKey, ...source.aliasKeys])) },
+      })
+      await tx.categorizationRule.updateMany({ where: { organizationId, category: source.name }, data: { category: target.name } })
+      await tx.bankStatementLine.updateMany({
+        where: { organizationId, status: BankLineStatus.PENDING, category: source.name },
+        data: { category: target.name },
+      })
+      // Bills move to the target but keep their posting; Accounts Payable was booked when they were received
+      await tx.bill.updateMany({
+        where: { organizationId, categoryId: source.id },
+        data: { categoryId: target.id, category: target.name },
+      })
+    }
+
+    return { source, target }
+  })
+
+  const rebook = source.accountId !== target.accountId
+  const skipped: { expenseId: string; error: string }[] = []
+  let movedCount = 0
+  let repostedCount = 0
+
+  // Failed expenses stay on the source, so paging past them by id keeps the loop finite
+  let cursor: string | undefined
+  for (;;) {
+    const expenses = await prisma.expense.findMany({
+      where: {
+        organizationId,
+        OR: [{ categoryId: source.id }, { lines: { some: { categoryId: source.id } } }],
+        ...(cursor ? { id: { gt: cursor } } : {}),
+      },
+      orderBy: { id: "asc" },
+      take: MERGE_BATCH_SIZE,
+    })
+    if (expenses.length === 0) {
+      break
+    }
+    cursor = expenses[expenses.length - 1].id
+
+    for (const expense of expenses) {
+      try {
+        const reposted = await prisma.$transaction(async (tx) => {
+          // Split lines move first so the re-posted transaction picks them up
+          await tx.expenseLine.updateMany({
+            where: { expenseId: expense.id, categoryId: source.id },
+            data: { categoryId: target.id, category: target.name },
+          })
+
+          let ledgerTransactionId = expense.ledgerTransactionId
+          const repost = rebook && !expense.deletedAt && !expense.expenseAccountId && Boolean(expense.ledgerTransactionId)
+          if (repost) {
+            ledgerTransactionId = await rebookExpenseTransaction(
+              tx,
+              expense,
+              { category: target.name, expenseAccountId: null },
+              `Category ${source.name} merged into ${target.name}`,
+              userId
+            )
+          }
+
+          const updated = await tx.expense.updateMany({
+            where: { id: expense.id, categoryId: expense.categoryId, ledgerTransactionId: expense.ledgerTransactionId },
+            data: {
+              ...(expense.categoryId === source.id ? { categoryId: target.id, category: target.name } : {}),
+              ledgerTransactionId,
+            },
+          })
+          if (updated.count === 0) {
+            throw ledgerError("Expense changed during the merge", 409)
+          }
+          return repost
+        })
+
+        movedCount++
+        if (reposted) {
+          repostedCount++
+        }
+      } catch (error: any) {
+        if (!error.statusCode) {
+          throw error
+        }
+        skipped.push({ expenseId: expense.id, error: error.message })
+      }
+    }
+  }
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "CATEGORY_MERGED",
+    entityType: "ExpenseCategory",
+    entityId: target.id,
+    metadata: { sourceId: source.id, sourceName: source.name, targetName: target.name, movedCount, repostedCount, skippedCount: skipped.length },
+  })
+
+  return { sourceId: source.id, targetId: target.id, movedCount, repostedCount, skipped }
+}
@@ -0,0 +1,410 @@
+import { prisma } from "@/lib/prisma"
+import { createAuditLog } from "@/lib/audit-log"
+import { DuplicateStatus } from "@prisma/client"
+import { guardPeriodNotLocked, ledgerError, reverseTransaction } from "@/lib/ledger/ledgerService"
+import { vendorKey } from "@/lib/ledger/vendorService"
+import { assertExpenseEditable } from "@/lib/payables/expenseReports"
+import { refreshPolicyViolations } from "@/lib/approvals/spendingPolicies"
+
+/**
+ * Server-only duplicate expense detection
+ * The same purchase is often entered twice, by the employee and from the card feed. Live expenses in the
+ * organization are scored against a new or changed one: the same receipt file settles it, otherwise the
+ * same amount and currency, a date within a few days and a matching or similar vendor add up. Pairs scoring
+ * DUPLICATE_SCORE or more are likely duplicates: creating one is refused unless confirmed, and every pair
+ * found is queued for review, where it is dismissed or merged. A merge keeps one expense, moves the other's
+ * receipts to it and deletes the other, reversing its ledger transaction
+ */
+
+export interface DuplicateCandidate {
+  expenseId: string
+  date: Date
+  description: string
+  vendor: string | null
+  amount: number
+  currency: string
+  score: number
+  reasons: string[]
+}
+
+// What a new or changed expense is compared on; expenseId is left out of its own candidates
+interface DuplicateSubject {
+  organizationId: string
+  expenseId?: string
+  amount: number
+  currency: string
+  date: Date
+  vendor: string | null
+  vendorId: string | null
+  receiptHashes?: string[]
+}
+
+const DATE_WINDOW_DAYS = 3
+const DUPLICATE_SCORE = 70
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const expenseSummary = {
+  id: true,
+  date: true,
+  description: true,
+  vendor: true,
+  vendorId: true,
+  amount: true,
+  currency: true,
+  approvalStatus: true,
+  reimbursable: true,
+  ledgerTransactionId: true,
+  createdById: true,
+  deletedAt: true,
+  receipts: { select: { id: true, filename: true, sha256: true } },
+}
+
+/**
+ * Error for a new expense that likely repeats existing ones; routes answer 409 with the candidates
+ */
+export function duplicateExpenseError(duplicates: DuplicateCandidate[]): Error {
+  const error = ledgerError("Expense looks like a duplicate; pass allowDuplicates to create it anyway", 409)
+  ;(error as any).duplicates = duplicates
+  return error
+}
+
+function bigrams(value: string): string[] {
+  const result: string[] = []
+  for (let i = 0; i < value.length - 1; i++) {
+    result.push(value.slice(i, i + 2))
+  }
+  return result
+}
+
+/**
+ * Similarity of two vendor names from 0 to 1: 1 when one normalized name contains the other, else the
+ * share of letter pairs they have in common (Dice coefficient)
+ */
+function vendorSimilarity(a: string, b: string): number {
+  const left = vendorKey(a).replace(/ /g, "")
+  const right = vendorKey(b).replace(/ /g, "")
+  if (!left || !right) return 0
+  if (left.includes(right) || right.includes(left)) return 1
+
+  const leftPairs = bigrams(left)
+  const rightPairs = bigrams(right)
+  let shared = 0
+  const remaining = [...rightPairs]
+  for (const pair of leftPairs) {
+    const index = remaining.indexOf(pair)
+    if (index >= 0) {
+      shared++
+      remaining.splice(index, 1)
+    }
+  }
+  return leftPairs.length + rightPairs.length > 0 ? (2 * shared) / (leftPairs.length + rightPairs.length) : 0
+}
+
+/**
+ * Scores an expense on file against the subject from 0 to 100
+ * Amount and date alone stay below DUPLICATE_SCORE, so the vendor has to match as well; two different
+ * named vendors count against the pair
+ */
+function scoreCandidate(subject: DuplicateSubject, expense: any): { score: number; reasons: string[] } {
+  const reasons: string[] = []
+  const hashes = new Set(subject.receiptHashes || [])
+  if (expense.receipts.some((receipt: any) => receipt.sha256 && hashes.has(receipt.sha256))) {
+    return { score: 100, reasons: ["Same receipt file"] }
+  }
+
+  let score = 0
+  if (expense.currency === subject.currency && Number(expense.amount) === subject.amount) {
+    score += 40
+    reasons.push("Same amount")
+  }
+
+  const days = Math.round(Math.abs(expense.date.getTime() - subject.date.getTime()) / DAY_MS)
+  if (days === 0) {
+    score += 25
+    reasons.push("Same date")
+  } else if (days <= DATE_WINDOW_DAYS) {
+    score += 15
+    reasons.push(`Dated ${days} day${days === 1 ? "" : "s"} apart`)
+  }
+
+  if (subject.vendorId && expense.vendorId === subject.vendorId) {
+    score += 30
+    reasons.push("Same vendor")
+  } else if (subject.vendor && expense.vendor && vendorSimilarity(subject.vendor, expense.vendor) >= 0.5) {
+    score += 20
+    reasons.push("Similar vendor")
+  } else if (subject.vendor && expense.vendor) {
+    // Two named vendors that do not match point to two purchases that happen to cost the same
+    score -= 30
+    reasons.push("Different vendor")
+  }
+
+  return { score: Math.max(Math.min(score, 100), 0), reasons }
+}
+
+/**
+ * Live expenses that likely record the same purchase as the subject, best match first
+ */
+export async function findDuplicateCandidates(tx: any, subject: DuplicateSubject): Promise<DuplicateCandidate[]> {
+  const { organizationId, expenseId } = subject
+  const exclude = expenseId ? { id: { not: expenseId } } : {}
+
+  const sameAmount = await tx.expense.findMany({
+    where: {
+      organizationId,
+      deletedAt: null,
+      ...exclude,
+      currency: subject.currency,
+      amount: subject.amount,
+      date: {
+        gte: new Date(subject.date.getTime() - DATE_WINDOW_DAYS * DAY_MS),
+        lte: new Date(subject.date.getTime() + DATE_WINDOW_DAYS * DAY_MS),
+      },
+    },
+    select: expenseSummary,
+    take: 50,
+  })
+
+  const hashes = subject.receiptHashes || []
+  const sameReceipt = hashes.length > 0
+    ? await tx.expense.findMany({
+        where: { organizationId, deletedAt: null, ...exclude, receipts: { some: { sha256: { in: hashes } } } },
+        select: expenseSummary,
+        take: 50,
+      })
+    : []
+
+  const candidates = new Map<string, DuplicateCandidate>()
+  for (const expense of [...sameReceipt, ...sameAmount]) {
+    if (candidates.has(expense.id)) continue
+    const { score, reasons } = scoreCandidate(subject, expense)
+    if (score < DUPLICATE_SCORE) continue
+    candidates.set(expense.id, {
+      expenseId: expense.id,
+      date: expense.date,
+      description: expense.description,
+      vendor: expense.vendor,
+      amount: Number(expense.amount),
+      currency: expense.currency,
+      score,
+      reasons,
+    })
+  }
+
+  return Array.from(candidates.values()).sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Queues the pairs found for an expense. Pairs already reviewed stay as they were; open pairs involving
+ * the expense that no longer match are dropped
+ */
+export async function recordDuplicates(tx: any, organizationId: string, expenseId: string, candidates: DuplicateCandidate[]) {
+  const candidateIds = candidates.map((candidate) => candidate.expenseId)
+
+  await tx.expenseDuplicate.deleteMany({
+    where: {
+      status: DuplicateStatus.OPEN,
+      OR: [
+        { expenseId, duplicateOfId: { notIn: candidateIds } },
+        { duplicateOfId: expenseId, expenseId: { notIn: candidateIds } },
+      ],
+    },
+  })
+
+  for (const candidate of candidates) {
+    const existing = await tx.expenseDuplicate.findFirst({
+      where: {
+        OR: [
+          { expenseId, duplicateOfId: candidate.expenseId },
+          { expenseId: candidate.expenseId, duplicateOfId: expenseId },
+        ],
+      },
+    })
+    if (!existing) {
+      await tx.expenseDuplicate.create({
+        data: {
+          organizationId,
+          expenseId,
+          duplicateOfId: candidate.expenseId,
+          score: candidate.score,
+          reasons: candidate.reasons,
+        },
+      })
+    } else if (existing.status === DuplicateStatus.OPEN) {
+      await tx.expenseDuplicate.update({
+        where: { id: existing.id },
+        data: { score: candidate.score, reasons: candidate.reasons },
+      })
+    }
+  }
+}
+
+/**
+ * Checks a stored expense against the others and queues the likely duplicates found
+ */
+export async function checkExpenseDuplicates(tx: any, organizationId: string, expenseId: string) {
+  const expense = await tx.expense.findFirst({
+    where: { id: expenseId, organizationId, deletedAt: null },
+    include: { receipts: { select: { sha256: true } } },
+  })
+  if (!expense) {
+    return []
+  }
+
+  const candidates = await findDuplicateCandidates(tx, {
+    organizationId,
+    expenseId,
+    amount: Number(expense.amount),
+    currency: expense.currency,
+    date: expense.date,
+    vendor: expense.vendor,
+    vendorId: expense.vendorId,
+    receiptHashes: expense.receipts.map((receipt: any) => receipt.sha256).filter(Boolean),
+  })
+  await recordDuplicates(tx, organizationId, expenseId, candidates)
+  return candidates
+}
+
+/**
+ * The review queue: pairs with a status (OPEN by default), newest first. Open pairs are listed while both
+ * expenses are live
+ */
+export async function listExpenseDuplicates(organizationId: string, status: DuplicateStatus = DuplicateStatus.OPEN) {
+  return prisma.expenseDuplicate.findMany({
+    where: {
+      organizationId,
+      status,
+      ...(status === DuplicateStatus.OPEN ? { expense: { deletedAt: null }, duplicateOf: { deletedAt: null } } : {}),
+    },
+    include: {
+      expense: { select: expenseSummary },
+      duplicateOf: { select: expenseSummary },
+    },
+    orderBy: { createdAt: "desc" },
+  })
+}
+
+async function lockOpenDuplicate(tx: any, organizationId: string, duplicateId: string) {
+  await tx.$executeRaw`SELECT id FROM "ExpenseDuplicate" WHERE id = ${duplicateId} FOR UPDATE`
+
+  const duplicate = await tx.expenseDuplicate.findFirst({ where: { id: duplicateId, organizationId } })
+  if (!duplicate) {
+    throw ledgerError("Duplicate not found", 404)
+  }
+  if (duplicate.status !== DuplicateStatus.OPEN) {
+    throw ledgerError(`Duplicate is already ${duplicate.status.toLowerCase()}`, 409)
+  }
+  return duplicate
+}
+
+/**
+ * Merges a pair: keeps one expense (the one on file unless keepExpenseId names the other), moves the other's
+ * receipts to it, reverses the other's ledger transaction and deletes it. The removed expense's period must
+ * be open, and it must not be on a submitted expense report
+ */
+export async function mergeDuplicateExpenses(input: {
+  organizationId: string
+  duplicateId: string
+  keepExpenseId?: string
+  userId: string
+}) {
+  const { organizationId, duplicateId, userId } = input
+
+  const result = await prisma.$transaction(async (tx) => {
+    const duplicate = await lockOpenDuplicate(tx, organizationId, duplicateId)
+
+    const keepId = input.keepExpenseId ?? duplicate.duplicateOfId
+    if (keepId !== duplicate.expenseId && keepId !== duplicate.duplicateOfId) {
+      throw ledgerError("keepExpenseId must be one of the pair")
+    }
+    const removeId = keepId === duplicate.expenseId ? duplicate.duplicateOfId : duplicate.expenseId
+
+    const [kept, removed] = await Promise.all([
+      tx.expense.findFirst({ where: { id: keepId, organizationId, deletedAt: null } }),
+      tx.expense.findFirst({ where: { id: removeId, organizationId, deletedAt: null } }),
+    ])
+    if (!kept || !removed) {
+      throw ledgerError("One of the expenses was deleted", 409)
+    }
+
+    await assertExpenseEditable(tx, removed)
+
+    if (removed.ledgerTransactionId) {
+      await guardPeriodNotLocked(tx, organizationId, removed.date)
+      await reverseTransaction({
+        organizationId,
+        transactionId: removed.ledgerTransactionId,
+        reason: "Merged into duplicate expense",
+        createdByUserId: userId,
+      }, tx)
+    }
+
+    const moved = await tx.receipt.updateMany({ where: { expenseId: removed.id }, data: { expenseId: kept.id } })
+
+    await tx.expense.update({
+      where: { id: removed.id },
+      data: { deletedAt: new Date(), expenseReportId: null },
+    })
+
+    // Other open pairs with the removed expense go with it
+    await tx.expenseDuplicate.deleteMany({
+      where: {
+        id: { not: duplicate.id },
+        status: DuplicateStatus.OPEN,
+        OR: [{ expenseId: removed.id }, { duplicateOfId: removed.id }],
+      },
+    })
+
+    const merged = await tx.expenseDuplicate.update({
+      where: { id: duplicate.id },
+      data: { status: DuplicateStatus.MERGED, keptExpenseId: kept.id, resolvedById: userId, resolvedAt: new Date() },
+    })
+
+    // The moved receipts may settle a receipt-required violation
+    await refreshPolicyViolations(tx, organizationId, kept.id)
+
+    return { duplicate: merged, removed, receiptsMoved: moved.count }
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "EXPENSE_DUPLICATE_MERGED",
+    entityType: "Expense",
+    entityId: result.duplicate.keptExpenseId!,
+    metadata: {
+      duplicateId,
+      removedExpenseId: result.removed.id,
+      reversedTransactionId: result.removed.ledgerTransactionId,
+      receiptsMoved: result.receiptsMoved,
+    },
+  })
+
+  return result.duplicate
+}
+
+/**
+ * Marks a pair as reviewed and not a duplicate; it is not flagged again
+ */
+export async function dismissDuplicate(input: { organizationId: string; duplicateId: string; userId: string }) {
+  const { organizationId, duplicateId, userId } = input
+
+  const duplicate = await prisma.$transaction(async (tx) => {
+    await lockOpenDuplicate(tx, organizationId, duplicateId)
+    return tx.expenseDuplicate.update({
+      where: { id: duplicateId },
+      data: { status: DuplicateStatus.DISMISSED, resolvedById: userId, resolvedAt: new Date() },
+    })
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "EXPENSE_DUPLICATE_DISMISSED",
+    entityType: "ExpenseDuplicate",
+    entityId: duplicate.id,
+    metadata: { expenseId: duplicate.expenseId, duplicateOfId: duplicate.duplicateOfId },
+  })
+
+  return duplicate
+}
@@ -0,0 +1,129 @@
+import { ledgerError } from "@/lib/ledger/ledgerService"
+import { resolveExpenseCategory } from "@/lib/ledger/categoryService"
+import { currencyDecimals, fromMinorUnits, hasValidPrecision, toMinorUnits } from "@/lib/currency"
+
+/**
+ * Server-only split expense lines
+ * A split expense stores its line items; each line posts its own DR (see createExpenseTransaction)
+ * and the expense itself carries no category
+ */
+
+export interface ExpenseLineData {
+  amount: number
+  category?: string | null
+  memo?: string | null
+  tags?: string[]
+  taxCodeId?: string | null
+  taxAmount?: number | null
+}
+
+export interface PreparedExpenseLine {
+  position: number
+  amount: number
+  amountCents: number
+  category: string | null
+  categoryId: string | null
+  memo: string | null
+  tags: string[]
+  taxCodeId: string | null
+  taxAmount: number | null
+  taxAmountCents: number | null
+}
+
+/**
+ * Validates split lines against the expense amount and resolves their categories
+ * Lines without a category or tax code take the expense's (the category may come from a categorization rule)
+ */
+export async function prepareExpenseLines(
+  tx: any,
+  organizationId: string,
+  lines: ExpenseLineData[],
+  expense: { amount: number; currency: string },
+  defaults: { category?: string | null; taxCodeId?: string | null } = {}
+): Promise<PreparedExpenseLine[]> {
+  const { currency } = expense
+
+  const prepared: PreparedExpenseLine[] = []
+  for (let position = 0; position < lines.length; position++) {
+    const line = lines[position]
+    if (!hasValidPrecision(line.amount, currency) || (line.taxAmount != null && !hasValidPrecision(line.taxAmount, currency))) {
+      throw ledgerError(`${currency} amounts allow at most ${currencyDecimals(currency)} decimal places`)
+    }
+
+    const categoryName = line.category || defaults.category
+    const category = categoryName ? await resolveExpenseCategory(tx, organizationId, categoryName) : null
+    const amountCents = toMinorUnits(line.amount, currency)
+    const taxAmountCents = line.taxAmount != null ? toMinorUnits(line.taxAmount, currency) : null
+
+    prepared.push({
+      position,
+      amount: fromMinorUnits(amountCents, currency),
+      amountCents,
+      category: category?.name ?? null,
+      categoryId: category?.id ?? null,
+      memo: line.memo || null,
+      tags: Array.from(new Set(line.tags || [])),
+      taxCodeId: line.taxCodeId || defaults.taxCodeId || null,
+      taxAmount: taxAmountCents != null ? fromMinorUnits(taxAmountCents, currency) : null,
+      taxAmountCents,
+    })
+  }
+
+  const totalCents = prepared.reduce((sum, line) => sum + line.amountCents, 0)
+  if (totalCents !== toMinorUnits(expense.amount, currency)) {
+    throw ledgerError(
+      `Expense lines add up to ${fromMinorUnits(totalCents, currency)} ${currency}, not the expense amount of ${expense.amount} ${currency}`
+    )
+  }
+
+  return prepared
+}
+
+/**
+ * Reads an expense's stored lines back as line data, in order
+ */
+export async function getExpenseLines(tx: any, expenseId: string): Promise<ExpenseLineData[]> {
+  const lines = await tx.expenseLine.findMany({ where: { expenseId }, orderBy: { position: "asc" } })
+
+  return lines.map((line: any) => ({
+    amount: Number(line.amount),
+    category: line.category,
+    memo: line.memo,
+    tags: line.tags,
+    taxCodeId: line.taxCodeId,
+    taxAmount: line.taxAmount != null ? Number(line.taxAmount) : null,
+  }))
+}
+
+/**
+ * Prepared lines as createExpenseTransaction lines
+ */
+export function toLedgerLines(lines: PreparedExpenseLine[]) {
+  return lines.map((line) => ({
+    amountCents: line.amountCents,
+    category: line.category,
+    memo: line.memo,
+    taxCodeId: line.taxCodeId,
+    taxAmountCents: line.taxAmountCents,
+  }))
+}
+
+/**
+ * Prepared lines as ExpenseLine rows (without expenseId)
+ */
+export function toLineRows(lines: PreparedExpenseLine[]) {
+  return lines.map(({ amountCents: _amountCents, taxAmountCents: _taxAmountCents, ...line }) => line)
+}
+
+/**
+ * Replaces an expense's stored lines; no lines turns it back into a single-category expense
+ */
+export async function replaceExpenseLines(tx: any, expenseId: string, lines: PreparedExpenseLine[]) {
+  await tx.expenseLine.deleteMany({ where: { expenseId } })
+
+  if (lines.length > 0) {
+    await tx.expenseLine.createMany({
+      data: toLineRows(lines).map((line) => ({ expenseId, ...line })),
+    })
+  }
+}
@@ -0,0 +1,299 @@
+import { prisma } from "@/lib/prisma"
+import { createAuditLog } from "@/lib/audit-log"
+import { AccountType, PostingDirection } from "@prisma/client"
+import {
+  assertBalanced,
+  guardPeriodNotLocked,
+  ledgerError,
+  reverseTransaction,
+} from "@/lib/ledger/ledgerService"
+import { convertMinorUnits, getBaseCurrency, getFxRate, groupBaseAmounts } from "@/lib/ledger/fxService"
+import { nextPeriodStart, periodEnd, periodLastDay } from "@/lib/ledger/periods"
+
+/**
+ * Server-only unrealized FX revaluation
+ * Monetary (ASSET/LIABILITY) balances held in a foreign currency are restated at the period's closing rate.
+ * The difference to their historical base amount is posted against the FX gain/loss system account,
+ * dated on the period's last day and reversed on the first day of the next period, so each month starts from
+ * historical amounts again
+ */
+
+const FX_GAIN_LOSS_ACCOUNT = { name: "Unrealized FX Gain/Loss", code: "FX_GAIN_LOSS" }
+
+interface RevaluationLine {
+  accountId: string
+  accountName: string
+  currency: string
+  nativeCents: number // Debit-positive balance in `currency` minor units
+  historicalBaseCents: number // Debit-positive base amount at historical rates
+  closingRate: number
+  closingBaseCents: number
+  adjustmentCents: number // closing - historical; positive debits the account
+}
+
+/**
+ * Gets or creates the FX gain/loss system account (INCOME; a debit balance is a net loss)
+ */
+async function getOrCreateFxGainLossAccount(tx: any, organizationId: string, baseCurrency: string) {
+  const existing = await tx.ledgerAccount.findUnique({
+    where: { organizationId_name: { organizationId, name: FX_GAIN_LOSS_ACCOUNT.name } },
+  })
+
+  if (existing) {
+    return existing
+  }
+
+  const account = await tx.ledgerAccount.create({
+    data: {
+      organizationId,
+      name: FX_GAIN_LOSS_ACCOUNT.name,
+      code: FX_GAIN_LOSS_ACCOUNT.code,
+      type: AccountType.INCOME,
+      currency: baseCurrency,
+      isSystem: true,
+    },
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId: "system",
+    action: "ACCOUNT_CREATED",
+    entityType: "LedgerAccount",
+    entityId: account.id,
+    metadata: { name: account.name, type: account.type, isSystem: true },
+  })
+
+  return account
+}
+
+/**
+ * Computes revaluation lines for every monetary account/currency pair with a foreign balance at period end
+ */
+export async function computeRevaluation(
+  organizationId: string,
+  period: string,
+  tx?: any
+): Promise<{ baseCurrency: string; asOf: Date; lines: RevaluationLine[] }> {
+  const client = tx || prisma
+  const asOf = periodEnd(period)
+  const baseCurrency = await getBaseCurrency(organizationId, client)
+
+  const sums = await groupBaseAmounts<{ accountId: string; currency: string; direction: PostingDirection }>(
+    client,
+    ["accountId", "currency", "direction"],
+    {
+      organizationId,
+      currency: { not: baseCurrency },
+      account: { type: { in: [AccountType.ASSET, AccountType.LIABILITY] } },
+      transaction: { occurredAt: { lte: asOf } },
+    }
+  )
+
+  const balances = new Map<string, { accountId: string; currency: string; nativeCents: number; baseCents: number }>()
+  for (const sum of sums) {
+    const key = `${sum.accountId}:${sum.currency}`
+    const sign = sum.direction === PostingDirection.DR ? 1 : -1
+    const balance = balances.get(key) || { accountId: sum.accountId, currency: sum.currency, nativeCents: 0, baseCents: 0 }
+    balance.nativeCents += sign * sum.amountCents
+    balance.baseCents += sign * sum.baseAmountCents
+    balances.set(key, balance)
+  }
+
+  const accounts = await client.ledgerAccount.findMany({
+    where: { organizationId, id: { in: Array.from(new Set(sums.map((s) => s.accountId))) } },
+    select: { id: true, name: true },
+  })
+  const nameById = new Map(accounts.map((a: any) => [a.id, a.name]))
+
+  const lines: RevaluationLine[] = []
+  for (const balance of Array.from(balances.values())) {
+    const closingRate = await getFxRate(organizationId, balance.currency, baseCurrency, asOf, client)
+    const closingBaseCents = convertMinorUnits(balance.nativeCents, balance.currency, baseCurrency, closingRate)
+    const adjustmentCents = closingBaseCents - balance.baseCents
+
+    if (adjustmentCents === 0) {
+      continue
+    }
+
+    lines.push({
+      accountId: balance.accountId,
+      accountName: (nameById.get(balance.accountId) as string) || balance.accountId,
+      currency: balance.currency,
+      nativeCents: balance.nativeCents,
+      historicalBaseCents: balance.baseCents,
+      closingRate,
+      closingBaseCents,
+      adjustmentCents,
+    })
+  }
+
+  lines.sort((a, b) => a.accountName.localeCompare(b.accountName) || a.currency.localeCompare(b.currency))
+
+  return { baseCurrency, asOf, lines }
+}
+
+const runInclude = {
+  transaction: {
+    include: { postings: true, reversedBy: { include: { postings: true } } },
+  },
+}
+
+/**
+ * Lists revaluation runs, newest period (and latest run of a period) first
+ */
+export async function listRevaluationRuns(organizationId: string) {
+  return prisma.fxRevaluationRun.findMany({
+    where: { organizationId },
+    include: runInclude,
+    orderBy: [{ period: "desc" }, { sequence: "desc" }],
+  })
+}
+
+function latestRun(organizationId: string, period: string) {
+  return prisma.fxRevaluationRun.findFirst({
+    where: { organizationId, period },
+    include: runInclude,
+    orderBy: { sequence: "desc" },
+  })
+}
+
+/**
+ * Runs the revaluation for a period
+ * The balances include earlier runs' adjustments, which are dated in the period, so running it again while
+ * the period is not locked posts only what changed since: foreign-currency postings added to the period
+ * (or before it) after the last run, or a corrected closing rate. A run with nothing to adjust returns the
+ * latest run unchanged, as does any run once the period is locked
+ */
+export async function runRevaluation(input: { organizationId: string; period: string; createdByUserId: string }) {
+  const { organizationId, period, createdByUserId } = input
+
+  const previous = await latestRun(organizationId, period)
+  const sequence = (previous?.sequence ?? 0) + 1
+
+  const closingDate = periodLastDay(period)
+  const reversalDate = nextPeriodStart(period)
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // Revaluation is an adjusting entry, so a soft-closed period still accepts it
+      try {
+        await guardPeriodNotLocked(tx, organizationId, closingDate, { allowSoftClosed: true })
+      } catch (error) {
+        if (previous) {
+          return previous
+        }
+        throw error
+      }
+
+      const { baseCurrency, lines } = await computeRevaluation(organizationId, period, tx)
+      if (previous && lines.length === 0) {
+        return previous
+      }
+
+      let transactionId: string | null = null
+      if (lines.length > 0) {
+        const gainLossAccount = await getOrCreateFxGainLossAccount(tx, organizationId, baseCurrency)
+
+        const transaction = await tx.ledgerTransaction.create({
+          data: {
+            organizationId,
+            occurredAt: closingDate,
+            description: sequence === 1 ? `Unrealized FX revaluation ${period}` : `Unrealized FX revaluation ${period} (run ${sequence})`,
+            idempotencyKey: sequence === 1 ? `fx-revaluation:${period}` : `fx-revaluation:${period}:${sequence}`,
+            createdByUserId,
+          },
+        })
+
+        // Foreign balances keep their native amount; only the base amount moves
+        const postingData = lines.map((line) => ({
+          organizationId,
+          transactionId: transaction.id,
+          accountId: line.accountId,
+          direction: line.adjustmentCents > 0 ? PostingDirection.DR : PostingDirection.CR,
+          amountCents: 0,
+          currency: line.currency,
+          baseAmountCents: Math.abs(line.adjustmentCents),
+          fxRate: line.closingRate,
+          memo: `Revalue ${line.currency} at ${line.closingRate}`,
+        }))
+
+        const netCents = lines.reduce((sum, line) => sum + line.adjustmentCents, 0)
+        if (netCents !== 0) {
+          postingData.push({
+            organizationId,
+            transactionId: transaction.id,
+            accountId: gainLossAccount.id,
+            direction: netCents > 0 ? PostingDirection.CR : PostingDirection.DR,
+            amountCents: Math.abs(netCents),
+            currency: baseCurrency,
+            baseAmountCents: Math.abs(netCents),
+            fxRate: 1,
+            memo: netCents > 0 ? "Unrealized FX gain" : "Unrealized FX loss",
+          })
+        }
+
+        await tx.ledgerPosting.createMany({ data: postingData })
+
+        const postings = await tx.ledgerPosting.findMany({
+          where: { transactionId: transaction.id },
+        })
+        assertBalanced(postings)
+
+        await createAuditLog({
+          organizationId,
+          userId: createdByUserId,
+          action: "LEDGER_TX_CREATED",
+          entityType: "LedgerTransaction",
+          entityId: transaction.id,
+          metadata: { description: transaction.description, kind: "fx_revaluation", period, sequence, netCents },
+        })
+
+        await reverseTransaction(
+          {
+            organizationId,
+            transactionId: transaction.id,
+            reason: `Auto-reversal of ${period} FX revaluation`,
+            createdByUserId,
+            occurredAt: reversalDate,
+          },
+          tx
+        )
+
+        transactionId = transaction.id
+      }
+
+      const run = await tx.fxRevaluationRun.create({
+        data: {
+          organizationId,
+          period,
+          sequence,
+          transactionId,
+          lines: lines as any,
+          createdByUserId,
+        },
+        include: runInclude,
+      })
+
+      await createAuditLog({
+        organizationId,
+        userId: createdByUserId,
+        action: "FX_REVALUATION_RUN",
+        entityType: "FxRevaluationRun",
+        entityId: run.id,
+        metadata: { period, sequence, lineCount: lines.length, transactionId },
+      })
+
+      return run
+    })
+  } catch (error: any) {
+    // A concurrent run for the same period won the race; return its result
+    if (error.code === "P2002") {
+      const run = await latestRun(organizationId, period)
+      if (run && run.sequence >= sequence) {
+        return run
+      }
+      throw ledgerError(`Revaluation for ${period} is already in progress`, 409)
+    }
+    throw error
+  }
+}
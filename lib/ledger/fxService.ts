@@ -0,0 +1,307 @@
+import { prisma } from "@/lib/prisma"
+import { createAuditLog } from "@/lib/audit-log"
+import { ledgerError } from "@/lib/ledger/ledgerService"
+import { currencyDecimals, isSupportedCurrency } from "@/lib/currency"
+
+/**
+ * Server-only foreign exchange rates
+ * A rate row means 1 fromCurrency = rate toCurrency, effective from its date until a newer row
+ * ECB reference files are stored as-is (EUR -> X); other pairs are derived by inversion or crossing
+ */
+
+interface FxRateInput {
+  organizationId: string
+  fromCurrency: string
+  toCurrency: string
+  rate: number
+  effectiveDate: Date
+  source?: string
+  userId: string
+}
+
+interface ParsedRate {
+  effectiveDate: Date
+  currency: string
+  rate: number
+}
+
+/**
+ * Gets the organization's base (reporting) currency
+ */
+export async function getBaseCurrency(organizationId: string, tx?: any): Promise<string> {
+  const client = tx || prisma
+
+  const organization = await client.organization.findUnique({
+    where: { id: organizationId },
+    select: { baseCurrency: true },
+  })
+
+  if (!organization) {
+    throw ledgerError("Organization not found", 404)
+  }
+
+  return organization.baseCurrency
+}
+
+/**
+ * Truncates a timestamp to its UTC calendar date, matching the @db.Date column
+ */
+function toRateDate(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+/**
+ * Gets the rate to convert fromCurrency into toCurrency on a date
+ * Uses the latest rate on or before the date: direct, inverse, then crossed through a shared currency
+ */
+export async function getFxRate(
+  organizationId: string,
+  fromCurrency: string,
+  toCurrency: string,
+  date: Date,
+  tx?: any
+): Promise<number> {
+  if (fromCurrency === toCurrency) {
+    return 1
+  }
+
+  const client = tx || prisma
+  const effectiveDate = { lte: toRateDate(date) }
+
+  const direct = await client.fxRate.findFirst({
+    where: { organizationId, fromCurrency, toCurrency, effectiveDate },
+    orderBy: { effectiveDate: "desc" },
+  })
+  if (direct) {
+    return Number(direct.rate)
+  }
+
+  const inverse = await client.fxRate.findFirst({
+    where: { organizationId, fromCurrency: toCurrency, toCurrency: fromCurrency, effectiveDate },
+    orderBy: { effectiveDate: "desc" },
+  })
+  if (inverse) {
+    return 1 / Number(inverse.rate)
+  }
+
+  // Cross rate through a shared source currency (e.g. EUR for ECB files)
+  const quotes: Array<{ fromCurrency: string; toCurrency: string; rate: any }> = await client.fxRate.findMany({
+    where: { organizationId, toCurrency: { in: [fromCurrency, toCurrency] }, effectiveDate },
+    orderBy: { effectiveDate: "desc" },
+    distinct: ["fromCurrency", "toCurrency"],
+  })
+
+  for (const fromQuote of quotes.filter((q) => q.toCurrency === fromCurrency)) {
+    const toQuote = quotes.find((q) => q.toCurrency === toCurrency && q.fromCurrency === fromQuote.fromCurrency)
+    if (toQuote) {
+      return Number(toQuote.rate) / Number(fromQuote.rate)
+    }
+  }
+
+  throw ledgerError(
+    `No exchange rate for ${fromCurrency} to ${toCurrency} on or before ${toRateDate(date).toISOString().split("T")[0]}`,
+    422
+  )
+}
+
+/**
+ * Converts minor units between currencies, respecting each currency's precision
+ */
+export function convertMinorUnits(amountMinor: number, fromCurrency: string, toCurrency: string, rate: number): number {
+  const major = amountMinor / 10 ** currencyDecimals(fromCurrency)
+  return Math.round(major * rate * 10 ** currencyDecimals(toCurrency))
+}
+
+/**
+ * Base-currency amount of a posting
+ * Postings from before multi-currency support carry no base amount and are already in base currency
+ */
+export function baseAmountOf(posting: { amountCents: number; baseAmountCents: number | null }): number {
+  return posting.baseAmountCents ?? posting.amountCents
+}
+
+/**
+ * Groups postings by the given fields and sums their amounts and base-currency amounts
+ * Like baseAmountOf, postings without a base amount count their amount, even in groups mixing both kinds
+ */
+export async function groupBaseAmounts<Group extends Record<string, unknown>>(
+  client: any,
+  by: (keyof Group & string)[],
+  where: Record<string, any>
+): Promise<Array<Group & { amountCents: number; baseAmountCents: number }>> {
+  const [converted, legacy] = await Promise.all([
+    client.ledgerPosting.groupBy({
+      by,
+      where: { AND: [where, { baseAmountCents: { not: null } }] },
+      _sum: { amountCents: true, baseAmountCents: true },
+    }),
+    client.ledgerPosting.groupBy({
+      by,
+      where: { AND: [where, { baseAmountCents: null }] },
+      _sum: { amountCents: true },
+    }),
+  ])
+
+  const groups = new Map<string, Group & { amountCents: number; baseAmountCents: number }>()
+  const add = (row: any, baseAmountCents: number | null) => {
+    const key = JSON.stringify(by.map((field) => row[field]))
+    const group = groups.get(key) || {
+      ...(Object.fromEntries(by.map((field) => [field, row[field]])) as Group),
+      amountCents: 0,
+      baseAmountCents: 0,
+    }
+    group.amountCents += row._sum.amountCents || 0
+    group.baseAmountCents += baseAmountCents || 0
+    groups.set(key, group)
+  }
+  converted.forEach((row: any) => add(row, row._sum.baseAmountCents))
+  legacy.forEach((row: any) => add(row, row._sum.amountCents))
+
+  return Array.from(groups.values())
+}
+
+/**
+ * Lists stored rates, newest first
+ */
+export async function listFxRates(
+  organizationId: string,
+  filters: { currency?: string; startDate?: Date; endDate?: Date; limit?: number } = {}
+) {
+  const { currency, startDate, endDate, limit = 200 } = filters
+
+  return prisma.fxRate.findMany({
+    where: {
+      organizationId,
+      ...(currency ? { OR: [{ fromCurrency: currency }, { toCurrency: currency }] } : {}),
+      ...(startDate || endDate
+        ? {
+            effectiveDate: {
+              ...(startDate ? { gte: toRateDate(startDate) } : {}),
+              ...(endDate ? { lte: toRateDate(endDate) } : {}),
+            },
+          }
+        : {}),
+    },
+    orderBy: [{ effectiveDate: "desc" }, { fromCurrency: "asc" }, { toCurrency: "asc" }],
+    take: limit,
+  })
+}
+
+/**
+ * Creates or replaces the rate for a currency pair on a date
+ */
+export async function upsertFxRate(input: FxRateInput) {
+  const { organizationId, fromCurrency, toCurrency, rate, effectiveDate, source = "manual", userId } = input
+
+  if (fromCurrency === toCurrency) {
+    throw ledgerError("From and to currencies must differ")
+  }
+
+  if (!isSupportedCurrency(fromCurrency) || !isSupportedCurrency(toCurrency)) {
+    throw ledgerError("Unknown currency code")
+  }
+
+  if (!(rate > 0)) {
+    throw ledgerError("Rate must be positive")
+  }
+
+  const date = toRateDate(effectiveDate)
+  const fxRate = await prisma.fxRate.upsert({
+    where: {
+      organizationId_fromCurrency_toCurrency_effectiveDate: {
+        organizationId,
+        fromCurrency,
+        toCurrency,
+        effectiveDate: date,
+      },
+    },
+    update: { rate, source },
+    create: { organizationId, fromCurrency, toCurrency, rate, effectiveDate: date, source },
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "FX_RATE_SET",
+    entityType: "FxRate",
+    entityId: fxRate.id,
+    metadata: { fromCurrency, toCurrency, rate, effectiveDate: date.toISOString(), source },
+  })
+
+  return fxRate
+}
+
+/**
+ * Parses an ECB reference rate CSV (daily "eurofxref.csv" or "eurofxref-hist.csv")
+ * Header: Date, USD, JPY, ...; rows hold units of each currency per 1 EUR
+ * Dates may be ISO (2024-01-31) or long form (31 January 2024); N/A cells are skipped
+ */
+export function parseEcbCsv(csv: string): ParsedRate[] {
+  const lines = csv
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+  if (lines.length < 2) {
+    throw ledgerError("Rate file has no data rows")
+  }
+
+  const headers = lines[0].split(",").map((h) => h.trim().toUpperCase())
+  if (headers[0] !== "DATE") {
+    throw ledgerError("Rate file must start with a Date column")
+  }
+
+  const rates: ParsedRate[] = []
+  for (const line of lines.slice(1)) {
+    const cells = line.split(",").map((c) => c.trim())
+    const parsedDate = new Date(/^\d{4}-\d{2}-\d{2}$/.test(cells[0]) ? `${cells[0]}T00:00:00Z` : `${cells[0]} UTC`)
+    if (isNaN(parsedDate.getTime())) {
+      throw ledgerError(`Invalid date in rate file: ${cells[0]}`)
+    }
+
+    headers.slice(1).forEach((currency, index) => {
+      const value = Number(cells[index + 1])
+      if (!currency || !cells[index + 1] || isNaN(value) || value <= 0) {
+        return
+      }
+      rates.push({ effectiveDate: toRateDate(parsedDate), currency, rate: value })
+    })
+  }
+
+  return rates
+}
+
+/**
+ * Imports an ECB-style rate file as EUR -> currency rates
+ * Existing rows for the same pair and date are left untouched (reference rates are final)
+ */
+export async function importEcbRates(organizationId: string, csv: string, userId: string) {
+  const parsed = parseEcbCsv(csv).filter((r) => isSupportedCurrency(r.currency))
+
+  const CHUNK_SIZE = 1000
+  let imported = 0
+  for (let i = 0; i < parsed.length; i += CHUNK_SIZE) {
+    const result = await prisma.fxRate.createMany({
+      data: parsed.slice(i, i + CHUNK_SIZE).map((r) => ({
+        organizationId,
+        fromCurrency: "EUR",
+        toCurrency: r.currency,
+        rate: r.rate,
+        effectiveDate: r.effectiveDate,
+        source: "ecb",
+      })),
+      skipDuplicates: true,
+    })
+    imported += result.count
+  }
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "FX_RATES_IMPORTED",
+    entityType: "FxRate",
+    metadata: { parsed: parsed.length, imported, source: "ecb" },
+  })
+
+  return { parsed: parsed.length, imported, skipped: parsed.length - imported }
+}
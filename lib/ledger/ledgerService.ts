@@ -1,7 +1,12 @@
 import { prisma } from "@/lib/prisma"
 import { createAuditLog } from "@/lib/audit-log"
-import { AccountType, PostingDirection } from "@prisma/client"
+import { AccountType, BankLineStatus, PeriodStatus, PostingDirection, TaxPostingKind } from "@prisma/client"
 import { randomUUID } from "crypto"
+import { convertMinorUnits, getBaseCurrency, getFxRate } from "@/lib/ledger/fxService"
+import { assertPeriod, fiscalYearOf, getFiscalCalendar, periodOf, today } from "@/lib/ledger/periods"
+import { resolveExpenseCategory } from "@/lib/ledger/categoryService"
+import { getActiveTaxCode, splitTaxAmount } from "@/lib/ledger/taxCodes"
+import { toMinorUnits } from "@/lib/currency"
 
 /**
  * Server-only ledger service for double-entry bookkeeping
@@ -14,10 +19,47 @@ interface CreateExpenseTransactionInput {
   description: string
   amountCents: number
   category?: string | null
+  expenseAccountId?: string | null // Debited instead of the category's account
   vendor?: string | null
+  vendorId?: string | null
+  paymentAccountId?: string | null
   idempotencyKey: string
   createdByUserId: string
   currency?: string
+  fxRate?: number
+  lines?: ExpenseLineInput[] // Split expense: one DR per line instead of one for the whole amount
+  taxCodeId?: string | null // Tax on an expense that is not split; lines carry their own
+  taxAmountCents?: number | null // Explicit tax included in amountCents, else computed from the tax code
+}
+
+interface ExpenseLineInput {
+  amountCents: number
+  category?: string | null
+  memo?: string | null
+  taxCodeId?: string | null
+  taxAmountCents?: number | null
+}
+
+interface JournalEntryLineInput {
+  accountId: string
+  direction: PostingDirection
+  amountCents: number
+  currency?: string
+  baseAmountCents?: number
+  memo?: string | null
+  category?: string | null
+}
+
+interface CreateJournalEntryInput {
+  organizationId: string
+  occurredAt: Date
+  description: string
+  vendor?: string | null
+  vendorId?: string | null
+  externalRef?: string | null
+  idempotencyKey: string
+  createdByUserId: string
+  lines: JournalEntryLineInput[]
 }
 
 interface ReverseTransactionInput {
@@ -25,6 +67,107 @@ interface ReverseTransactionInput {
   transactionId: string
   reason: string
   createdByUserId: string
+  occurredAt?: Date // Defaults to now
+}
+
+/**
+ * Creates an Error carrying an HTTP status code for route handlers
+ */
+export function ledgerError(message: string, statusCode = 400): Error {
+  const error = new Error(message)
+  ;(error as any).statusCode = statusCode
+  return error
+}
+
+/**
+ * Verifies DR == CR in the organization's base currency
+ * Postings without a base amount (pre multi-currency) are already in base currency
+ */
+export function assertBalanced(
+  postings: Array<{ direction: PostingDirection; amountCents: number; baseAmountCents?: number | null }>
+): void {
+  let dr = 0
+  let cr = 0
+
+  for (const posting of postings) {
+    const amount = posting.baseAmountCents ?? posting.amountCents
+    if (posting.direction === PostingDirection.DR) {
+      dr += amount
+    } else {
+      cr += amount
+    }
+  }
+
+  if (dr !== cr) {
+    throw ledgerError(`Transaction imbalance: DR=${dr}, CR=${cr}`)
+  }
+}
+
+/**
+ * Converts journal lines into postings carrying base-currency amounts
+ * Lines in a currency that balances on its own can drift a minor unit apart after rounding;
+ * the difference is absorbed by the largest converted line on the heavier side
+ */
+async function toBasePostings(
+  tx: any,
+  organizationId: string,
+  occurredAt: Date,
+  lines: JournalEntryLineInput[]
+) {
+  const baseCurrency = await getBaseCurrency(organizationId, tx)
+
+  const postings: Array<{
+    organizationId: string
+    accountId: string
+    direction: PostingDirection
+    amountCents: number
+    currency: string
+    baseAmountCents: number
+    fxRate: number
+    memo: string | null
+    category: string | null
+    converted: boolean
+  }> = []
+  for (const line of lines) {
+    const currency = line.currency || baseCurrency
+    const fxRate = await getFxRate(organizationId, currency, baseCurrency, occurredAt, tx)
+    postings.push({
+      organizationId,
+      accountId: line.accountId,
+      direction: line.direction,
+      amountCents: line.amountCents,
+      currency,
+      baseAmountCents: line.baseAmountCents ?? convertMinorUnits(line.amountCents, currency, baseCurrency, fxRate),
+      fxRate,
+      memo: line.memo || null,
+      category: line.category || null,
+      converted: line.baseAmountCents === undefined && currency !== baseCurrency,
+    })
+  }
+
+  const currencies = Array.from(new Set(postings.map((p) => p.currency)))
+  for (const currency of currencies) {
+    const group = postings.filter((p) => p.currency === currency)
+    const signed = (p: (typeof postings)[number], field: "amountCents" | "baseAmountCents") =>
+      p.direction === PostingDirection.DR ? p[field] : -p[field]
+
+    const nativeDiff = group.reduce((sum, p) => sum + signed(p, "amountCents"), 0)
+    const baseDiff = group.reduce((sum, p) => sum + signed(p, "baseAmountCents"), 0)
+    if (nativeDiff !== 0 || baseDiff === 0) {
+      continue
+    }
+
+    const heavierSide = baseDiff > 0 ? PostingDirection.DR : PostingDirection.CR
+    const candidates = group.filter((p) => p.converted && p.direction === heavierSide)
+    if (candidates.length === 0) {
+      continue
+    }
+
+    const largest = candidates.reduce((max, p) => (p.baseAmountCents > max.baseAmountCents ? p : max))
+    largest.baseAmountCents -= Math.abs(baseDiff)
+  }
+
+  return postings.map(({ converted: _converted, ...posting }) => posting)
 }
 
 /**
@@ -32,6 +175,8 @@ interface ReverseTransactionInput {
  */
 export async function ensureDefaultAccounts(organizationId: string): Promise<void> {
   await prisma.$transaction(async (tx) => {
+    const baseCurrency = await getBaseCurrency(organizationId, tx)
+
     // Check if Cash account exists
     const cashAccount = await tx.ledgerAccount.findUnique({
       where: {
@@ -48,7 +193,7 @@ export async function ensureDefaultAccounts(organizationId: string): Promise<voi
           organizationId,
           name: "Cash",
           type: AccountType.ASSET,
-          currency: "USD",
+          currency: baseCurrency,
           isSystem: true,
           code: "CASH",
         },
@@ -79,7 +224,7 @@ export async function ensureDefaultAccounts(organizationId: string): Promise<voi
           organizationId,
           name: "Uncategorized Expense",
           type: AccountType.EXPENSE,
-          currency: "USD",
+          currency: baseCurrency,
           isSystem: true,
           code: "UNCAT_EXP",
         },
@@ -97,13 +242,14 @@ export async function ensureDefaultAccounts(organizationId: string): Promise<voi
 }
 
 /**
- * Gets or creates an expense account for a category
+ * Gets the expense account for a category through the organization's managed category list
+ * Returns the category's canonical name for the posting; without a category, Uncategorized Expense
  */
-async function getOrCreateExpenseAccount(
+async function getExpenseAccount(
   tx: any,
   organizationId: string,
   category: string | null | undefined
-): Promise<string> {
+): Promise<{ accountId: string; category: string | null }> {
   if (!category) {
     const uncategorized = await tx.ledgerAccount.findUnique({
       where: {
@@ -116,36 +262,34 @@ async function getOrCreateExpenseAccount(
     if (!uncategorized) {
       throw new Error("Uncategorized Expense account not found. Run ensureDefaultAccounts first.")
     }
-    return uncategorized.id
+    return { accountId: uncategorized.id, category: null }
   }
 
-  // Try to find existing category account
-  const existing = await tx.ledgerAccount.findUnique({
-    where: {
-      organizationId_name: {
-        organizationId,
-        name: `Expense: ${category}`,
-      },
-    },
+  const resolved = await resolveExpenseCategory(tx, organizationId, category)
+  return { accountId: resolved.accountId, category: resolved.name }
+}
+
+/**
+ * Validates an explicit expense account (e.g. chosen by a categorization rule)
+ */
+export async function assertExpenseAccount(tx: any, organizationId: string, accountId: string) {
+  const account = await tx.ledgerAccount.findFirst({
+    where: { id: accountId, organizationId },
   })
 
-  if (existing) {
-    return existing.id
+  if (!account) {
+    throw ledgerError("Expense account not found", 404)
   }
 
-  // Create new category account
-  const newAccount = await tx.ledgerAccount.create({
-    data: {
-      organizationId,
-      name: `Expense: ${category}`,
-      type: AccountType.EXPENSE,
-      currency: "USD",
-      isSystem: false,
-      code: `EXP_${category.toUpperCase().replace(/[^A-Z0-9]/g, "_")}`,
-    },
-  })
+  if (account.archivedAt) {
+    throw ledgerError(`Expense account ${account.name} is archived`)
+  }
+
+  if (account.type !== AccountType.EXPENSE) {
+    throw ledgerError("Expense account must be an EXPENSE account")
+  }
 
-  return newAccount.id
+  return account
 }
 
 /**
@@ -168,17 +312,96 @@ async function getCashAccount(tx: any, organizationId: string): Promise<string>
   return cashAccount.id
 }
 
+/**
+ * Validates that an account can pay for expenses
+ * Payment sources are active ASSET (bank, cash) or LIABILITY (credit card, employee payable) accounts
+ */
+export async function assertPaymentAccount(tx: any, organizationId: string, accountId: string) {
+  const account = await tx.ledgerAccount.findFirst({
+    where: { id: accountId, organizationId },
+  })
+
+  if (!account) {
+    throw ledgerError("Payment account not found", 404)
+  }
+
+  if (account.archivedAt) {
+    throw ledgerError(`Payment account ${account.name} is archived`)
+  }
+
+  if (account.type !== AccountType.ASSET && account.type !== AccountType.LIABILITY) {
+    throw ledgerError("Payment account must be an ASSET or LIABILITY account")
+  }
+
+  return account
+}
+
+/**
+ * Resolves the account credited for an expense
+ * Explicit payment account, then the organization's default, then Cash (created with the other
+ * default accounts if the organization has none yet)
+ */
+export async function resolvePaymentAccount(
+  tx: any,
+  organizationId: string,
+  paymentAccountId: string | null | undefined
+): Promise<string> {
+  if (paymentAccountId) {
+    const account = await assertPaymentAccount(tx, organizationId, paymentAccountId)
+    return account.id
+  }
+
+  const organization = await tx.organization.findUnique({
+    where: { id: organizationId },
+    select: { defaultPaymentAccountId: true },
+  })
+
+  if (organization?.defaultPaymentAccountId) {
+    const account = await tx.ledgerAccount.findFirst({
+      where: { id: organization.defaultPaymentAccountId, organizationId, archivedAt: null },
+    })
+    if (account) {
+      return account.id
+    }
+  }
+
+  await ensureDefaultAccounts(organizationId)
+  return getCashAccount(tx, organizationId)
+}
+
 /**
  * Creates a ledger transaction for an expense
- * DR: Expense account (category-based)
- * CR: Cash account
+ * DR: Expense account (explicit, else category-based), one posting per line for a split expense
+ * CR: Payment account (explicit, organization default, or Cash)
+ * Split lines must add up to amountCents. Amounts are tax-inclusive: a line with a tax code debits
+ * its recoverable tax to the code's input tax account and the rest to the expense account
+ * Amounts are in the expense currency (default: base currency) and converted at the
+ * rate effective on occurredAt unless an explicit fxRate is supplied
+ * occurredAt must fall in an open period
  * Can be called within an existing transaction (tx parameter) or standalone
  */
 export async function createExpenseTransaction(
   input: CreateExpenseTransactionInput,
   tx?: any
 ): Promise<string> {
-  const { organizationId, occurredAt, description, amountCents, category, vendor, idempotencyKey, createdByUserId, currency = "USD" } = input
+  const { organizationId, occurredAt, description, amountCents, category, expenseAccountId, vendor, paymentAccountId, idempotencyKey, createdByUserId } = input
+  const split = Boolean(input.lines && input.lines.length > 0)
+  const lines: ExpenseLineInput[] = split
+    ? input.lines!
+    : [{ amountCents, category, taxCodeId: input.taxCodeId, taxAmountCents: input.taxAmountCents }]
+
+  if (lines.some((line) => !Number.isInteger(line.amountCents) || line.amountCents <= 0)) {
+    throw ledgerError("Expense line amounts must be positive")
+  }
+  if (lines.reduce((sum, line) => sum + line.amountCents, 0) !== amountCents) {
+    throw ledgerError("Expense lines must add up to the expense amount")
+  }
+  if (split && input.taxAmountCents != null) {
+    throw ledgerError("Set tax amounts on the lines of a split expense")
+  }
+  if (lines.some((line) => line.taxAmountCents != null && !line.taxCodeId)) {
+    throw ledgerError("A tax amount needs a tax code")
+  }
 
   const execute = async (prismaTx: any) => {
     // Validate idempotency
@@ -195,14 +418,70 @@ export async function createExpenseTransaction(
       return existing.id
     }
 
+    await guardPeriodNotLocked(prismaTx, organizationId, occurredAt)
+
     // Ensure accounts exist (this will check and create if needed)
     await ensureDefaultAccounts(organizationId)
 
-    // Get expense account (category-based)
-    const expenseAccountId = await getOrCreateExpenseAccount(prismaTx, organizationId, category)
+    // Get expense account per line (explicit, else category-based)
+    const explicitAccountId = expenseAccountId
+      ? (await assertExpenseAccount(prismaTx, organizationId, expenseAccountId)).id
+      : null
+    const debits: {
+      accountId: string
+      category: string | null
+      amountCents: number
+      memo: string
+      taxCodeId?: string
+      taxKind?: TaxPostingKind
+    }[] = []
+    for (const line of lines) {
+      const expenseAccount = await getExpenseAccount(prismaTx, organizationId, line.category)
+      const accountId = explicitAccountId ?? expenseAccount.accountId
+      const memo = line.memo || description
+
+      if (!line.taxCodeId) {
+        debits.push({ accountId, category: expenseAccount.category, amountCents: line.amountCents, memo })
+        continue
+      }
+
+      const taxCode = await getActiveTaxCode(prismaTx, organizationId, line.taxCodeId)
+      const tax = splitTaxAmount(line.amountCents, taxCode, line.taxAmountCents)
+      const taxed = { category: expenseAccount.category, taxCodeId: taxCode.id }
+      debits.push(
+        { ...taxed, accountId, amountCents: tax.netCents, memo, taxKind: TaxPostingKind.NET },
+        {
+          ...taxed,
+          accountId,
+          amountCents: tax.nonRecoverableCents,
+          memo: `${memo} (non-recoverable ${taxCode.code})`,
+          taxKind: TaxPostingKind.NON_RECOVERABLE,
+        },
+        {
+          ...taxed,
+          accountId: taxCode.inputTaxAccountId,
+          amountCents: tax.recoverableCents,
+          memo: `${memo} (${taxCode.code} input tax)`,
+          taxKind: TaxPostingKind.RECOVERABLE,
+        }
+      )
+    }
+    // Zero parts (zero-rated or fully recoverable tax) get no posting; the net part is always kept
+    const postedDebits = debits.filter((debit) => debit.amountCents > 0 || debit.taxKind === TaxPostingKind.NET)
+
+    // Get payment account (CR side)
+    const creditAccountId = await resolvePaymentAccount(prismaTx, organizationId, paymentAccountId)
+
+    // Convert to base currency; both sides share one base amount so they always balance
+    const baseCurrency = await getBaseCurrency(organizationId, prismaTx)
+    const currency = input.currency || baseCurrency
+    const fxRate = input.fxRate ?? (await getFxRate(organizationId, currency, baseCurrency, occurredAt, prismaTx))
+    const baseAmountCents = convertMinorUnits(amountCents, currency, baseCurrency, fxRate)
 
-    // Get cash account
-    const cashAccountId = await getCashAccount(prismaTx, organizationId)
+    // Lines converted one by one can round a minor unit away from the total; the largest line absorbs it
+    const debitBaseAmounts = postedDebits.map((debit) => convertMinorUnits(debit.amountCents, currency, baseCurrency, fxRate))
+    const largest = postedDebits.reduce((max, debit, i) => (debit.amountCents > postedDebits[max].amountCents ? i : max), 0)
+    debitBaseAmounts[largest] += baseAmountCents - debitBaseAmounts.reduce((sum, amount) => sum + amount, 0)
 
     // Create transaction
     const transaction = await prismaTx.ledgerTransaction.create({
@@ -211,31 +490,38 @@ export async function createExpenseTransaction(
         occurredAt,
         description,
         vendor: vendor || null,
+        vendorId: input.vendorId || null,
         idempotencyKey,
         createdByUserId,
       },
     })
 
-    // Create postings: DR expense, CR cash
+    // Create postings: DR expense (per line), CR payment account
     await prismaTx.ledgerPosting.createMany({
       data: [
-        {
+        ...postedDebits.map((debit, i) => ({
           organizationId,
           transactionId: transaction.id,
-          accountId: expenseAccountId,
+          accountId: debit.accountId,
           direction: PostingDirection.DR,
-          amountCents,
+          amountCents: debit.amountCents,
           currency,
-          category: category || null,
-          memo: description,
-        },
+          baseAmountCents: debitBaseAmounts[i],
+          fxRate,
+          category: debit.category,
+          memo: debit.memo,
+          taxCodeId: debit.taxCodeId ?? null,
+          taxKind: debit.taxKind ?? null,
+        })),
         {
           organizationId,
           transactionId: transaction.id,
-          accountId: cashAccountId,
+          accountId: creditAccountId,
           direction: PostingDirection.CR,
           amountCents,
           currency,
+          baseAmountCents,
+          fxRate,
           memo: description,
         },
       ],
@@ -246,27 +532,143 @@ export async function createExpenseTransaction(
       where: { transactionId: transaction.id },
     })
 
-    const drTotal = postings
-      .filter((p: any) => p.direction === PostingDirection.DR)
-      .reduce((sum: number, p: any) => sum + p.amountCents, 0)
-    const crTotal = postings
-      .filter((p: any) => p.direction === PostingDirection.CR)
-      .reduce((sum: number, p: any) => sum + p.amountCents, 0)
+    assertBalanced(postings)
+
+    await createAuditLog({
+      organizationId,
+      userId: createdByUserId,
+      action: "LEDGER_TX_CREATED",
+      entityType: "LedgerTransaction",
+      entityId: transaction.id,
+      metadata: {
+        description,
+        amountCents,
+        currency,
+        baseAmountCents,
+        category: split ? null : debits[0].category,
+        ...(split ? { lines: lines.map((line) => ({ amountCents: line.amountCents, category: line.category || null })) } : {}),
+        ...(postedDebits.some((debit) => debit.taxCodeId)
+          ? {
+              tax: postedDebits
+                .filter((debit) => debit.taxKind && debit.taxKind !== TaxPostingKind.NET)
+                .map((debit) => ({ taxCodeId: debit.taxCodeId, taxKind: debit.taxKind, amountCents: debit.amountCents })),
+            }
+          : {}),
+        vendor,
+        paymentAccountId: creditAccountId,
+      },
+    })
+
+    return transaction.id
+  }
+
+  if (tx) {
+    return execute(tx)
+  } else {
+    return await prisma.$transaction(execute)
+  }
+}
+
+/**
+ * Creates a general journal entry with any number of balanced postings
+ * Lines may target any non-archived account in the organization and any currency;
+ * DR must equal CR in the base currency after conversion
+ * Can be called within an existing transaction (tx parameter) or standalone
+ * Returns the persisted transaction with its postings
+ */
+export async function createJournalEntry(input: CreateJournalEntryInput, tx?: any) {
+  const { organizationId, occurredAt, description, vendor, externalRef, idempotencyKey, createdByUserId, lines } = input
+
+  if (lines.length < 2) {
+    throw ledgerError("A journal entry requires at least two lines")
+  }
+
+  for (const line of lines) {
+    if (!Number.isInteger(line.amountCents) || line.amountCents <= 0) {
+      throw ledgerError("Line amounts must be positive integer cents")
+    }
+  }
+
+  // Fail fast before touching the database when no conversion is involved
+  const lineCurrencies = new Set(lines.map((line) => line.currency))
+  if (lineCurrencies.size === 1 && lines.every((line) => line.baseAmountCents === undefined)) {
+    assertBalanced(lines)
+  }
+
+  const execute = async (prismaTx: any) => {
+    // Validate idempotency
+    const existing = await prismaTx.ledgerTransaction.findUnique({
+      where: {
+        organizationId_idempotencyKey: {
+          organizationId,
+          idempotencyKey,
+        },
+      },
+      include: { postings: true },
+    })
+
+    if (existing) {
+      return existing
+    }
+
+    // Journal entries are adjusting entries, so soft-closed periods accept them
+    await guardPeriodNotLocked(prismaTx, organizationId, occurredAt, { allowSoftClosed: true })
+
+    // All accounts must belong to this organization and be active
+    const accountIds = Array.from(new Set(lines.map((line) => line.accountId)))
+    const accounts = await prismaTx.ledgerAccount.findMany({
+      where: {
+        id: { in: accountIds },
+        organizationId,
+      },
+    })
+
+    if (accounts.length !== accountIds.length) {
+      throw ledgerError("One or more accounts not found", 404)
+    }
 
-    if (drTotal !== crTotal) {
-      throw new Error(`Transaction imbalance: DR=${drTotal}, CR=${crTotal}`)
+    const archived = accounts.find((a: any) => a.archivedAt)
+    if (archived) {
+      throw ledgerError(`Account ${archived.name} is archived`)
     }
 
+    const postingData = await toBasePostings(prismaTx, organizationId, occurredAt, lines)
+    assertBalanced(postingData)
+
+    const transaction = await prismaTx.ledgerTransaction.create({
+      data: {
+        organizationId,
+        occurredAt,
+        description,
+        vendor: vendor || null,
+        vendorId: input.vendorId || null,
+        externalRef: externalRef || null,
+        idempotencyKey,
+        createdByUserId,
+      },
+    })
+
+    await prismaTx.ledgerPosting.createMany({
+      data: postingData.map((p) => ({ ...p, transactionId: transaction.id })),
+    })
+
+    // Verify DR == CR on what was persisted
+    const postings = await prismaTx.ledgerPosting.findMany({
+      where: { transactionId: transaction.id },
+    })
+
+    assertBalanced(postings)
+
     await createAuditLog({
       organizationId,
       userId: createdByUserId,
       action: "LEDGER_TX_CREATED",
       entityType: "LedgerTransaction",
       entityId: transaction.id,
-      metadata: { description, amountCents, category, vendor },
+      metadata: { description, vendor, externalRef, lineCount: postings.length, kind: "journal" },
     })
 
-    return transaction.id
+    return { ...transaction, postings }
   }
 
   if (tx) {
@@ -276,14 +678,96 @@ export async function createExpenseTransaction(
   }
 }
 
+/**
+ * Re-books an expense under a new category or expense account and returns the new transaction id
+ * Supersedes the current transaction like an edit: the expense's period must be open, the reversal is
+ * dated today and the new transaction keeps the expense date and original rate.
+ * A split expense is re-booked from its stored lines (changes.category does not apply to it), so the
+ * caller updates those first. Runs inside the caller's transaction, which also updates the expense row
+ */
+export async function rebookExpenseTransaction(
+  tx: any,
+  expense: {
+    id: string
+    organizationId: string
+    date: Date
+    description: string
+    amount: any
+    currency: string
+    vendor: string | null
+    vendorId?: string | null
+    paymentAccountId: string | null
+    ledgerTransactionId: string | null
+    taxCodeId?: string | null
+    taxAmount?: any
+  },
+  changes: { category: string | null; expenseAccountId: string | null },
+  reason: string,
+  createdByUserId: string
+): Promise<string> {
+  const { organizationId } = expense
+
+  await guardPeriodNotLocked(tx, organizationId, expense.date)
+
+  let fxRate: number | undefined
+  if (expense.ledgerTransactionId) {
+    const original = await tx.ledgerPosting.findFirst({
+      where: { transactionId: expense.ledgerTransactionId, direction: PostingDirection.DR },
+    })
+    fxRate = original?.fxRate ? Number(original.fxRate) : undefined
+
+    await reverseTransaction(
+      { organizationId, transactionId: expense.ledgerTransactionId, reason, createdByUserId },
+      tx
+    )
+  }
+
+  const lines = await tx.expenseLine.findMany({ where: { expenseId: expense.id }, orderBy: { position: "asc" } })
+
+  return createExpenseTransaction(
+    {
+      organizationId,
+      occurredAt: expense.date,
+      description: expense.description,
+      amountCents: toMinorUnits(Number(expense.amount), expense.currency),
+      currency: expense.currency,
+      fxRate,
+      category: changes.category,
+      expenseAccountId: changes.expenseAccountId,
+      taxCodeId: expense.taxCodeId,
+      taxAmountCents: expense.taxAmount != null ? toMinorUnits(Number(expense.taxAmount), expense.currency) : null,
+      lines: lines.map((line: any) => ({
+        amountCents: toMinorUnits(Number(line.amount), expense.currency),
+        category: line.category,
+        memo: line.memo,
+        taxCodeId: line.taxCodeId,
+        taxAmountCents: line.taxAmount != null ? toMinorUnits(Number(line.taxAmount), expense.currency) : null,
+      })),
+      vendor: expense.vendor,
+      vendorId: expense.vendorId,
+      paymentAccountId: expense.paymentAccountId,
+      idempotencyKey: `expense:${expense.id}:${randomUUID()}`,
+      createdByUserId,
+    },
+    tx
+  )
+}
+
 /**
  * Reverses a ledger transaction by creating opposite postings
+ * The reversal is dated occurredAt (default today in the reporting timezone), which must fall in an open period
+ * Transactions with reconciled postings cannot be reversed; bank matches of cleared postings are released
  * Can be called within an existing transaction (tx parameter) or standalone
  */
 export async function reverseTransaction(input: ReverseTransactionInput, tx?: any): Promise<string> {
   const { organizationId, transactionId, reason, createdByUserId } = input
 
   const execute = async (prismaTx: any) => {
+    const occurredAt = input.occurredAt || today((await getFiscalCalendar(organizationId, prismaTx)).timezone)
+
+    // Row locks serialize this with a reconciliation stamping the same postings
+    await prismaTx.$executeRaw`SELECT id FROM "LedgerPosting" WHERE "transactionId" = ${transactionId} FOR UPDATE`
+
     // Load original transaction
     const originalTx = await prismaTx.ledgerTransaction.findUnique({
       where: { id: transactionId },
@@ -314,13 +798,30 @@ export async function reverseTransaction(input: ReverseTransactionInput, tx?: an
       return existingReversal.id
     }
 
+    await guardPeriodNotLocked(prismaTx, organizationId, occurredAt)
+
+    if (originalTx.postings.some((posting: any) => posting.reconciliationId)) {
+      throw ledgerError("Transaction has reconciled postings and cannot be changed", 409)
+    }
+
+    // The reversed postings no longer clear anything; matched lines go back to review
+    const matchIds = Array.from(new Set(originalTx.postings.map((p: any) => p.bankMatchId).filter(Boolean)))
+    if (matchIds.length > 0) {
+      await prismaTx.bankStatementLine.updateMany({
+        where: { matchId: { in: matchIds }, status: BankLineStatus.MATCHED },
+        data: { status: BankLineStatus.PENDING },
+      })
+      await prismaTx.bankMatch.deleteMany({ where: { id: { in: matchIds } } })
+    }
+
     // Create reversal transaction
     const reversalTx = await prismaTx.ledgerTransaction.create({
       data: {
         organizationId,
-        occurredAt: new Date(),
+        occurredAt,
         description: `Reversal: ${originalTx.description}`,
         vendor: originalTx.vendor,
+        vendorId: originalTx.vendorId,
         idempotencyKey: `reversal:${transactionId}:${randomUUID()}`,
         createdByUserId,
         originalTransactionId: transactionId,
@@ -335,8 +836,12 @@ export async function reverseTransaction(input: ReverseTransactionInput, tx?: an
       direction: posting.direction === PostingDirection.DR ? PostingDirection.CR : PostingDirection.DR,
       amountCents: posting.amountCents,
       currency: posting.currency,
+      baseAmountCents: posting.baseAmountCents,
+      fxRate: posting.fxRate,
       memo: `Reversal: ${posting.memo || ""} - ${reason}`,
       category: posting.category,
+      taxCodeId: posting.taxCodeId,
+      taxKind: posting.taxKind,
     }))
 
     await prismaTx.ledgerPosting.createMany({
@@ -369,12 +874,48 @@ export async function reverseTransaction(input: ReverseTransactionInput, tx?: an
 }
 
 /**
- * Guards against modifying transactions in locked periods
+ * Takes a period's (YYYY-MM) or fiscal year's (FYyyyy) advisory lock for the rest of the caller's transaction
+ * Posting writers take both shared, fiscal year first; lockPeriod/unlockPeriod and the year-end close take
+ * theirs exclusively, so neither can close while a transaction that already passed the guard is still writing
  */
-export async function guardPeriodNotLocked(organizationId: string, occurredAt: Date): Promise<void> {
-  const period = occurredAt.toISOString().slice(0, 7) // YYYY-MM
+export async function acquirePeriodLock(tx: any, organizationId: string, key: string, exclusive: boolean) {
+  if (exclusive) {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${organizationId}), hashtext(${key}))`
+  } else {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock_shared(hashtext(${organizationId}), hashtext(${key}))`
+  }
+}
+
+/**
+ * Guards against writing postings into a closed period or a fiscal year that has been closed
+ * Must run inside the DB transaction that writes the postings
+ * Soft-closed periods accept only adjusting entries, which pass allowSoftClosed: journal entries, FX revaluation
+ * and the year-end close. Expenses, bills and payments are refused there; locked periods accept nothing
+ * The period is the one occurredAt falls in under the organization's reporting timezone
+ */
+export async function guardPeriodNotLocked(
+  tx: any,
+  organizationId: string,
+  occurredAt: Date,
+  options: { allowSoftClosed?: boolean } = {}
+): Promise<void> {
+  const calendar = await getFiscalCalendar(organizationId, tx)
+  const period = periodOf(occurredAt, calendar.timezone)
+  const fiscalYear = fiscalYearOf(period, calendar.fiscalYearStartMonth)
+
+  await acquirePeriodLock(tx, organizationId, `FY${fiscalYear}`, false)
+  await acquirePeriodLock(tx, organizationId, period, false)
+
+  const yearEndClose = await tx.yearEndClose.findUnique({
+    where: { organizationId_fiscalYear: { organizationId, fiscalYear } },
+    select: { id: true },
+  })
+
+  if (yearEndClose) {
+    throw ledgerError(`Fiscal year ${fiscalYear} has been closed and cannot be modified`, 409)
+  }
 
-  const lock = await prisma.ledgerPeriodLock.findUnique({
+  const lock = await tx.ledgerPeriodLock.findUnique({
     where: {
       organizationId_period: {
         organizationId,
@@ -383,20 +924,43 @@ export async function guardPeriodNotLocked(organizationId: string, occurredAt: D
     },
   })
 
-  if (lock) {
-    throw new Error(`Period ${period} is locked and cannot be modified`)
+  if (!lock || (lock.status === PeriodStatus.SOFT_CLOSED && options.allowSoftClosed)) {
+    return
   }
+
+  const state = lock.status === PeriodStatus.SOFT_CLOSED ? "soft-closed" : "locked"
+  throw ledgerError(`Period ${period} is ${state} and cannot be modified`, 409)
 }
 
 /**
- * Locks a period to prevent modifications
+ * Closes a period (soft-close or lock) to prevent modifications
+ * Re-closing with a different status moves the period between soft-closed and locked
+ * Only periods that have started in the organization's reporting timezone can be closed
  */
-export async function lockPeriod(
-  organizationId: string,
-  period: string,
+export async function lockPeriod(input: {
+  organizationId: string
+  period: string
+  status?: PeriodStatus
+  reason: string
   lockedByUserId: string
-): Promise<void> {
-  await prisma.$transaction(async (tx) => {
+  metadata?: Record<string, any>
+}) {
+  const { organizationId, period, status = PeriodStatus.LOCKED, reason, lockedByUserId, metadata } = input
+
+  if (!reason.trim()) {
+    throw ledgerError("A reason is required to close a period")
+  }
+
+  assertPeriod(period)
+
+  return prisma.$transaction(async (tx) => {
+    const calendar = await getFiscalCalendar(organizationId, tx)
+    if (period > periodOf(today(calendar.timezone))) {
+      throw ledgerError(`Period ${period} has not started yet`)
+    }
+
+    await acquirePeriodLock(tx, organizationId, period, true)
+
     const existing = await tx.ledgerPeriodLock.findUnique({
       where: {
         organizationId_period: {
@@ -406,25 +970,81 @@ export async function lockPeriod(
       },
     })
 
-    if (existing) {
-      return // Already locked
+    if (existing?.status === status) {
+      return existing // Already closed with this status
     }
 
-    await tx.ledgerPeriodLock.create({
-      data: {
-        organizationId,
-        period,
-        lockedByUserId,
-      },
+    const lock = await tx.ledgerPeriodLock.upsert({
+      where: { organizationId_period: { organizationId, period } },
+      update: { status, reason, lockedByUserId, lockedAt: new Date() },
+      create: { organizationId, period, status, reason, lockedByUserId },
     })
 
     await createAuditLog({
       organizationId,
       userId: lockedByUserId,
-      action: "PERIOD_LOCKED",
+      action: status === PeriodStatus.LOCKED ? "PERIOD_LOCKED" : "PERIOD_SOFT_CLOSED",
       entityType: "LedgerPeriodLock",
-      metadata: { period },
+      entityId: lock.id,
+      metadata: {
+        period,
+        fiscalYear: fiscalYearOf(period, calendar.fiscalYearStartMonth),
+        reason,
+        previousStatus: existing?.status || "OPEN",
+        ...metadata,
+      },
     })
+
+    return lock
   })
 }
 
+/**
+ * Reopens a closed period
+ */
+export async function unlockPeriod(input: {
+  organizationId: string
+  period: string
+  reason: string
+  unlockedByUserId: string
+}): Promise<void> {
+  const { organizationId, period, reason, unlockedByUserId } = input
+
+  if (!reason.trim()) {
+    throw ledgerError("A reason is required to reopen a period")
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await acquirePeriodLock(tx, organizationId, period, true)
+
+    const existing = await tx.ledgerPeriodLock.findUnique({
+      where: {
+        organizationId_period: {
+          organizationId,
+          period,
+        },
+      },
+    })
+
+    if (!existing) {
+      throw ledgerError(`Period ${period} is already open`, 409)
+    }
+
+    await tx.ledgerPeriodLock.delete({ where: { id: existing.id } })
+
+    await createAuditLog({
+      organizationId,
+      userId: unlockedByUserId,
+      action: "PERIOD_UNLOCKED",
+      entityType: "LedgerPeriodLock",
+      entityId: existing.id,
+      metadata: {
+        period,
+        reason,
+        previousStatus: existing.status,
+        lockedAt: existing.lockedAt.toISOString(),
+        lockedByUserId: existing.lockedByUserId,
+      },
+    })
+  })
+}
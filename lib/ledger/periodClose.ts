@@ -0,0 +1,169 @@
+import { prisma } from "@/lib/prisma"
+import { AccountType } from "@prisma/client"
+import {
+  addPeriods,
+  fiscalYearOf,
+  getFiscalCalendar,
+  periodEnd,
+  periodLastDay,
+  periodOf,
+  periodStart,
+  today,
+} from "@/lib/ledger/periods"
+
+/**
+ * Server-only period close workflow
+ * Lists periods with their close status and builds the checklist reviewed before closing
+ */
+
+export type PeriodState = "OPEN" | "SOFT_CLOSED" | "LOCKED"
+
+const CHECKLIST_SAMPLE_SIZE = 50
+
+/**
+ * Lists periods from the first ledger activity (or lock) through the current month, newest first
+ * Each period carries the fiscal year it belongs to
+ */
+export async function listPeriods(organizationId: string, filters: { from?: string; to?: string } = {}) {
+  const [calendar, firstTransaction, locks] = await Promise.all([
+    getFiscalCalendar(organizationId),
+    prisma.ledgerTransaction.findFirst({
+      where: { organizationId },
+      orderBy: { occurredAt: "asc" },
+      select: { occurredAt: true },
+    }),
+    prisma.ledgerPeriodLock.findMany({
+      where: { organizationId },
+      orderBy: { period: "asc" },
+    }),
+  ])
+
+  const current = periodOf(today(calendar.timezone))
+  const candidates = [current, ...locks.map((l) => l.period)]
+  if (firstTransaction) {
+    candidates.push(periodOf(firstTransaction.occurredAt, calendar.timezone))
+  }
+
+  const from = filters.from || candidates.reduce((min, p) => (p < min ? p : min))
+  const to = filters.to || candidates.reduce((max, p) => (p > max ? p : max))
+  const lockByPeriod = new Map(locks.map((l) => [l.period, l]))
+
+  const periods = []
+  for (let period = from; period <= to; period = addPeriods(period, 1)) {
+    const lock = lockByPeriod.get(period)
+    periods.push({
+      period,
+      fiscalYear: fiscalYearOf(period, calendar.fiscalYearStartMonth),
+      status: (lock?.status || "OPEN") as PeriodState,
+      reason: lock?.reason || null,
+      lockedAt: lock?.lockedAt || null,
+      lockedByUserId: lock?.lockedByUserId || null,
+    })
+  }
+
+  return periods.reverse()
+}
+
+/**
+ * Gets the close status of a single period
+ */
+export async function getPeriodStatus(organizationId: string, period: string) {
+  const lock = await prisma.ledgerPeriodLock.findUnique({
+    where: { organizationId_period: { organizationId, period } },
+  })
+
+  return {
+    period,
+    status: (lock?.status || "OPEN") as PeriodState,
+    reason: lock?.reason || null,
+    lockedAt: lock?.lockedAt || null,
+    lockedByUserId: lock?.lockedByUserId || null,
+  }
+}
+
+/**
+ * Builds the close checklist for a period
+ * - Unreconciled accounts: bank/card (ASSET/LIABILITY) accounts with activity in the period
+ *   whose last reconciliation does not reach the period end. Only accounts with an imported statement
+ *   or a past reconciliation count; payables, tax and other accounts have no statement to reconcile
+ * - Uncategorized expenses and expenses without receipts dated in the period
+ */
+export async function getCloseChecklist(organizationId: string, period: string) {
+  const start = periodStart(period)
+  const end = periodEnd(period)
+
+  const expenseWhere = { organizationId, deletedAt: null, date: { gte: start, lte: end } }
+  const expenseSelect = { id: true, description: true, amount: true, currency: true, date: true, vendor: true }
+  // A split expense is categorized when each of its lines is
+  const uncategorizedWhere = {
+    ...expenseWhere,
+    OR: [
+      { category: null, lines: { none: {} } },
+      { category: "", lines: { none: {} } },
+      { lines: { some: { OR: [{ category: null }, { category: "" }] } } },
+    ],
+  }
+
+  const [accounts, uncategorizedCount, uncategorized, missingReceiptCount, missingReceipts] = await Promise.all([
+    prisma.ledgerAccount.findMany({
+      where: {
+        organizationId,
+        archivedAt: null,
+        type: { in: [AccountType.ASSET, AccountType.LIABILITY] },
+        postings: { some: { transaction: { occurredAt: { gte: start, lte: end } } } },
+        AND: [
+          { OR: [{ statementImports: { some: {} } }, { reconciliations: { some: {} } }] },
+          // reconciledThrough is a statement date (a calendar day), so the last day of the period suffices
+          { OR: [{ reconciledThrough: null }, { reconciledThrough: { lt: periodLastDay(period) } }] },
+        ],
+      },
+      select: { id: true, name: true, code: true, type: true, reconciledThrough: true },
+      orderBy: { name: "asc" },
+    }),
+    prisma.expense.count({
+      where: uncategorizedWhere,
+    }),
+    prisma.expense.findMany({
+      where: uncategorizedWhere,
+      select: expenseSelect,
+      orderBy: { date: "asc" },
+      take: CHECKLIST_SAMPLE_SIZE,
+    }),
+    prisma.expense.count({
+      where: { ...expenseWhere, receipts: { none: {} } },
+    }),
+    prisma.expense.findMany({
+      where: { ...expenseWhere, receipts: { none: {} } },
+      select: expenseSelect,
+      orderBy: { date: "asc" },
+      take: CHECKLIST_SAMPLE_SIZE,
+    }),
+  ])
+
+  const items = [
+    {
+      key: "unreconciled_accounts",
+      label: "Accounts not reconciled through period end",
+      count: accounts.length,
+      entries: accounts,
+    },
+    {
+      key: "uncategorized_expenses",
+      label: "Uncategorized expenses",
+      count: uncategorizedCount,
+      entries: uncategorized,
+    },
+    {
+      key: "expenses_missing_receipts",
+      label: "Expenses missing receipts",
+      count: missingReceiptCount,
+      entries: missingReceipts,
+    },
+  ]
+
+  return {
+    period,
+    items,
+    complete: items.every((item) => item.count === 0),
+  }
+}
@@ -0,0 +1,134 @@
+import { prisma } from "@/lib/prisma"
+import { ledgerError } from "@/lib/ledger/ledgerService"
+
+/**
+ * Accounting period and fiscal year helpers
+ * Periods are calendar months written as YYYY-MM (matching LedgerPeriodLock.period)
+ * Ledger dates are calendar dates: values at UTC midnight (every date-only input, e.g. expense dates)
+ * keep their day, while timestamps with a time of day fall on their date in the reporting timezone
+ */
+
+export interface FiscalCalendar {
+  timezone: string
+  fiscalYearStartMonth: number // 1 = January
+}
+
+const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/
+
+const dateFormatters = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * Gets the organization's reporting timezone and fiscal year start
+ */
+export async function getFiscalCalendar(organizationId: string, tx?: any): Promise<FiscalCalendar> {
+  const client = tx || prisma
+
+  const organization = await client.organization.findUnique({
+    where: { id: organizationId },
+    select: { reportingTimezone: true, fiscalYearStartMonth: true },
+  })
+
+  if (!organization) {
+    throw ledgerError("Organization not found", 404)
+  }
+
+  return { timezone: organization.reportingTimezone, fiscalYearStartMonth: organization.fiscalYearStartMonth }
+}
+
+/**
+ * Returns the calendar date (YYYY-MM-DD) a ledger date falls on
+ */
+export function calendarDateOf(date: Date, timezone = "UTC"): string {
+  const iso = date.toISOString()
+  if (timezone === "UTC" || iso.endsWith("T00:00:00.000Z")) {
+    return iso.slice(0, 10)
+  }
+
+  let formatter = dateFormatters.get(timezone)
+  if (!formatter) {
+    // en-CA formats as YYYY-MM-DD
+    formatter = new Intl.DateTimeFormat("en-CA", { timeZone: timezone, year: "numeric", month: "2-digit", day: "2-digit" })
+    dateFormatters.set(timezone, formatter)
+  }
+  return formatter.format(date)
+}
+
+/**
+ * Today's calendar date in a timezone, as a UTC-midnight ledger date
+ */
+export function today(timezone = "UTC"): Date {
+  return new Date(`${calendarDateOf(new Date(), timezone)}T00:00:00Z`)
+}
+
+/**
+ * Returns the period containing a date
+ */
+export function periodOf(date: Date, timezone = "UTC"): string {
+  return calendarDateOf(date, timezone).slice(0, 7)
+}
+
+/**
+ * Validates a YYYY-MM period string
+ */
+export function assertPeriod(period: string): void {
+  if (!PERIOD_PATTERN.test(period)) {
+    throw ledgerError(`Invalid period ${period}; expected YYYY-MM`)
+  }
+}
+
+/**
+ * Shifts a period by a number of months
+ */
+export function addPeriods(period: string, months: number): string {
+  const start = periodStart(period)
+  return periodOf(new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1)))
+}
+
+/**
+ * First instant of a period
+ */
+export function periodStart(period: string): Date {
+  assertPeriod(period)
+  const [year, month] = period.split("-").map(Number)
+  return new Date(Date.UTC(year, month - 1, 1))
+}
+
+/**
+ * First instant of the period after the given one
+ */
+export function nextPeriodStart(period: string): Date {
+  return periodStart(addPeriods(period, 1))
+}
+
+/**
+ * Last instant of a period
+ */
+export function periodEnd(period: string): Date {
+  return new Date(nextPeriodStart(period).getTime() - 1)
+}
+
+/**
+ * Last calendar day of a period, as a ledger date; closing entries are dated here
+ */
+export function periodLastDay(period: string): Date {
+  return new Date(nextPeriodStart(period).getTime() - 24 * 60 * 60 * 1000)
+}
+
+/**
+ * Returns the fiscal year a period belongs to, named by the calendar year it ends in
+ * e.g. with a July start, 2024-07 through 2025-06 is fiscal year 2025
+ */
+export function fiscalYearOf(period: string, fiscalYearStartMonth: number): number {
+  assertPeriod(period)
+  const [year, month] = period.split("-").map(Number)
+  return fiscalYearStartMonth === 1 || month < fiscalYearStartMonth ? year : year + 1
+}
+
+/**
+ * First and last period of a fiscal year
+ */
+export function fiscalYearPeriods(fiscalYear: number, fiscalYearStartMonth: number) {
+  const startYear = fiscalYearStartMonth === 1 ? fiscalYear : fiscalYear - 1
+  const firstPeriod = `${startYear}-${String(fiscalYearStartMonth).padStart(2, "0")}`
+  return { firstPeriod, lastPeriod: addPeriods(firstPeriod, 11) }
+}
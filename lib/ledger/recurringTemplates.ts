@@ -0,0 +1,701 @@
+import { prisma } from "@/lib/prisma"
+import { createAuditLog } from "@/lib/audit-log"
+import {
+  ExpenseApprovalStatus,
+  PeriodStatus,
+  PostingDirection,
+  RecurrenceFrequency,
+  RecurringKind,
+  RecurringOccurrenceStatus,
+} from "@prisma/client"
+import {
+  assertExpenseAccount,
+  assertPaymentAccount,
+  createExpenseTransaction,
+  createJournalEntry,
+  guardPeriodNotLocked,
+  ledgerError,
+  resolvePaymentAccount,
+} from "@/lib/ledger/ledgerService"
+import { getBaseCurrency } from "@/lib/ledger/fxService"
+import { resolveExpenseCategory } from "@/lib/ledger/categoryService"
+import { getVendorDefaults, resolveVendor } from "@/lib/ledger/vendorService"
+import { calendarDateOf, fiscalYearOf, getFiscalCalendar, periodOf, today } from "@/lib/ledger/periods"
+import { checkExpenseDuplicates } from "@/lib/ledger/expenseDuplicates"
+import { approvalStepsFor, requestExpenseApproval } from "@/lib/approvals/expenseApprovals"
+import { enforceSpendingPolicies } from "@/lib/approvals/spendingPolicies"
+import { currencyDecimals, fromMinorUnits, hasValidPrecision, toMinorUnits } from "@/lib/currency"
+
+/**
+ * Server-only recurring expenses and scheduled journal entries
+ * A template posts an expense (with its ledger transaction) or a journal entry on each scheduled date. A run
+ * materializes every occurrence dated up to today in the reporting timezone, each in its own transaction
+ * under the idempotency key recurring:<templateId>:<YYYY-MM-DD>, so runs can repeat or overlap safely.
+ * Expenses need an open period and journal entries a period that is not locked (soft-closed periods take
+ * adjusting entries); an occurrence that cannot be posted, for that or any other reason, is recorded SKIPPED
+ * with the error and retried on later runs. Expenses are subject to approval, spending policies and duplicate
+ * review like any other; one awaiting approval counts as posted and reaches the ledger when approved.
+ * Occurrences already posted are not changed by later edits to the template
+ */
+
+export interface RecurringJournalLine {
+  accountId: string
+  direction: PostingDirection
+  amount: number
+  memo?: string
+  category?: string
+}
+
+interface RecurringSchedule {
+  frequency: RecurrenceFrequency
+  interval: number
+  dayOfMonth: number | null
+  startDate: Date
+  endDate: Date | null
+}
+
+// Fields a template posts; which apply depends on its kind
+interface RecurringEntry {
+  description: string
+  currency: string
+  amount?: number | null
+  category?: string | null
+  vendor?: string | null
+  paymentAccountId?: string | null
+  expenseAccountId?: string | null
+  tags?: string[]
+  journalLines?: RecurringJournalLine[] | null
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Upper bound on occurrences a template posts per run; a backlog beyond it is posted by the next runs
+const MAX_OCCURRENCES_PER_RUN = 366
+
+const EXPENSE_FIELDS = ["amount", "category", "vendor", "paymentAccountId", "expenseAccountId", "tags"] as const
+
+/**
+ * Ledger date (UTC midnight) of a date's UTC calendar day
+ */
+function toLedgerDate(date: Date): Date {
+  return new Date(`${calendarDateOf(date)}T00:00:00Z`)
+}
+
+function occurrenceKey(templateId: string, date: Date): string {
+  return `recurring:${templateId}:${calendarDateOf(date)}`
+}
+
+/**
+ * The index-th date of a schedule, counting from startDate; monthly and yearly dates past the end of a
+ * shorter month fall on its last day
+ */
+function occurrenceDate(schedule: RecurringSchedule, index: number): Date {
+  const start = schedule.startDate
+  const steps = index * schedule.interval
+
+  switch (schedule.frequency) {
+    case RecurrenceFrequency.DAILY:
+      return new Date(start.getTime() + steps * DAY_MS)
+    case RecurrenceFrequency.WEEKLY:
+      return new Date(start.getTime() + steps * 7 * DAY_MS)
+  }
+
+  const months = start.getUTCMonth() + (schedule.frequency === RecurrenceFrequency.MONTHLY ? steps : steps * 12)
+  const year = start.getUTCFullYear() + Math.floor(months / 12)
+  const month = months % 12
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(year, month, Math.min(schedule.dayOfMonth ?? start.getUTCDate(), lastDay)))
+}
+
+/**
+ * Scheduled dates after `after` (all when null) up to `until` and the schedule's end date
+ */
+function occurrencesBetween(schedule: RecurringSchedule, after: Date | null, until: Date, limit: number): Date[] {
+  const dates: Date[] = []
+  for (let index = 0; dates.length < limit; index++) {
+    const date = occurrenceDate(schedule, index)
+    if (date > until || (schedule.endDate && date > schedule.endDate)) break
+    // A dayOfMonth before the start date's day puts the first month's date before the start
+    if (date < schedule.startDate || (after && date <= after)) continue
+    dates.push(date)
+  }
+  return dates
+}
+
+/**
+ * Checks what a template posts against its kind: an expense's amount and accounts, or balanced journal
+ * lines on active accounts
+ */
+async function assertTemplateEntry(tx: any, organizationId: string, kind: RecurringKind, entry: RecurringEntry) {
+  const { currency } = entry
+  const precisionError = () => ledgerError(`${currency} amounts allow at most ${currencyDecimals(currency)} decimal places`)
+
+  if (kind === RecurringKind.EXPENSE) {
+    if (entry.journalLines) {
+      throw ledgerError("Journal lines apply to journal templates")
+    }
+    if (!entry.amount || !hasValidPrecision(entry.amount, currency)) {
+      throw entry.amount ? precisionError() : ledgerError("Amount is required")
+    }
+    if (entry.paymentAccountId) {
+      await assertPaymentAccount(tx, organizationId, entry.paymentAccountId)
+    }
+    if (entry.expenseAccountId) {
+      await assertExpenseAccount(tx, organizationId, entry.expenseAccountId)
+    }
+    return
+  }
+
+  if (EXPENSE_FIELDS.some((field) => entry[field] != null && !(field === "tags" && entry.tags!.length === 0))) {
+    throw ledgerError("Journal templates post their journal lines only")
+  }
+  const lines = entry.journalLines || []
+  if (lines.length < 2) {
+    throw ledgerError("A journal entry requires at least two lines")
+  }
+  if (lines.some((line) => !hasValidPrecision(line.amount, currency))) {
+    throw precisionError()
+  }
+
+  const totals = { DR: 0, CR: 0 }
+  lines.forEach((line) => (totals[line.direction] += toMinorUnits(line.amount, currency)))
+  if (totals.DR !== totals.CR) {
+    throw ledgerError("Journal lines must balance: debits must equal credits")
+  }
+
+  const accountIds = Array.from(new Set(lines.map((line) => line.accountId)))
+  const accounts = await tx.ledgerAccount.findMany({ where: { id: { in: accountIds }, organizationId, archivedAt: null } })
+  if (accounts.length !== accountIds.length) {
+    throw ledgerError("One or more accounts not found", 404)
+  }
+}
+
+/**
+ * Posts one occurrence inside the caller's transaction and returns what it created
+ * An expense goes through the same checks as one entered by hand: approval policies leave it PENDING without
+ * a transaction until approved, a HARD spending policy violation refuses it (the occurrence is skipped) and
+ * likely duplicates are queued for review
+ */
+async function materializeOccurrence(tx: any, template: any, date: Date) {
+  const { organizationId, currency } = template
+  const idempotencyKey = occurrenceKey(template.id, date)
+
+  if (template.kind === RecurringKind.JOURNAL) {
+    const lines = (template.journalLines as RecurringJournalLine[]).map((line) => ({
+      accountId: line.accountId,
+      direction: line.direction,
+      amountCents: toMinorUnits(line.amount, currency),
+      currency,
+      memo: line.memo,
+      category: line.category,
+    }))
+    const transaction = await createJournalEntry({
+      organizationId,
+      occurredAt: date,
+      description: template.description,
+      externalRef: template.name,
+      idempotencyKey,
+      createdByUserId: template.createdByUserId,
+      lines,
+    }, tx)
+    return { expenseId: null, transactionId: transaction.id }
+  }
+
+  // Checked even for an expense held for approval, which could never be posted into a closed period
+  await guardPeriodNotLocked(tx, organizationId, date)
+
+  const paymentAccountId = await resolvePaymentAccount(tx, organizationId, template.paymentAccountId)
+  const vendorRef = template.vendor ? await resolveVendor(tx, organizationId, template.vendor) : null
+
+  // Like a new expense, the vendor's defaults apply when the template sets no category or account
+  let categoryName = template.category
+  let expenseAccountId = template.expenseAccountId
+  if (vendorRef && !categoryName && !expenseAccountId) {
+    const defaults = await getVendorDefaults(tx, vendorRef)
+    categoryName = defaults.category
+    expenseAccountId = defaults.expenseAccountId
+  }
+  const categoryRef = categoryName ? await resolveExpenseCategory(tx, organizationId, categoryName) : null
+
+  const amount = Number(template.amount)
+  const category = categoryRef?.name ?? null
+
+  const approvalSteps = await approvalStepsFor(tx, {
+    organizationId,
+    date,
+    description: template.description,
+    vendor: vendorRef?.name ?? null,
+    category,
+    lineCategories: [],
+    amount,
+    currency,
+    paymentAccountId,
+  })
+  const pendingApproval = approvalSteps.length > 0
+
+  const ledgerTransactionId = pendingApproval ? null : await createExpenseTransaction({
+    organizationId,
+    occurredAt: date,
+    description: template.description,
+    amountCents: toMinorUnits(amount, currency),
+    currency,
+    category,
+    expenseAccountId,
+    vendor: vendorRef?.name ?? null,
+    vendorId: vendorRef?.id,
+    paymentAccountId,
+    idempotencyKey,
+    createdByUserId: template.createdByUserId,
+  }, tx)
+
+  const expense = await tx.expense.create({
+    data: {
+      organizationId,
+      amount,
+      currency,
+      description: template.description,
+      category,
+      categoryId: categoryRef?.id ?? null,
+      vendor: vendorRef?.name ?? null,
+      vendorId: vendorRef?.id ?? null,
+      expenseAccountId,
+      tags: template.tags,
+      date,
+      paymentAccountId,
+      createdById: template.createdByUserId,
+      ledgerTransactionId,
+      approvalStatus: pendingApproval ? ExpenseApprovalStatus.PENDING : ExpenseApprovalStatus.APPROVED,
+      recurringTemplateId: template.id,
+    },
+  })
+
+  if (pendingApproval) {
+    await requestExpenseApproval(tx, {
+      organizationId,
+      expenseId: expense.id,
+      steps: approvalSteps,
+      userId: template.createdByUserId,
+    })
+  }
+  await enforceSpendingPolicies(tx, organizationId, expense.id)
+  await checkExpenseDuplicates(tx, organizationId, expense.id)
+
+  return { expenseId: expense.id, transactionId: ledgerTransactionId }
+}
+
+/**
+ * Posts an occurrence, or records it SKIPPED with the error when it cannot be posted
+ * The template row lock serializes runs, so an occurrence is posted at most once. failed marks errors other
+ * than ledger refusals (such as a database error), after which the run moves on to the next template
+ */
+async function runOccurrence(template: any, date: Date) {
+  try {
+    const occurrence = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT id FROM "RecurringTemplate" WHERE id = ${template.id} FOR UPDATE`
+
+      const existing = await tx.recurringOccurrence.findUnique({
+        where: { templateId_occurrenceDate: { templateId: template.id, occurrenceDate: date } },
+      })
+      if (existing?.status === RecurringOccurrenceStatus.POSTED) {
+        return existing
+      }
+
+      const posted = await materializeOccurrence(tx, template, date)
+      const occurrence = await tx.recurringOccurrence.upsert({
+        where: { templateId_occurrenceDate: { templateId: template.id, occurrenceDate: date } },
+        create: {
+          organizationId: template.organizationId,
+          templateId: template.id,
+          occurrenceDate: date,
+          status: RecurringOccurrenceStatus.POSTED,
+          ...posted,
+        },
+        update: { status: RecurringOccurrenceStatus.POSTED, error: null, attempts: { increment: 1 }, ...posted },
+      })
+      await advanceTemplate(tx, template.id, date)
+      return occurrence
+    })
+    return { occurrence, failed: false }
+  } catch (error: any) {
+    const failed = !error.statusCode
+    const message = error.message || String(error)
+
+    try {
+      const occurrence = await prisma.$transaction(async (tx) => {
+        const occurrence = await tx.recurringOccurrence.upsert({
+          where: { templateId_occurrenceDate: { templateId: template.id, occurrenceDate: date } },
+          create: {
+            organizationId: template.organizationId,
+            templateId: template.id,
+            occurrenceDate: date,
+            status: RecurringOccurrenceStatus.SKIPPED,
+            error: message,
+          },
+          update: { error: message, attempts: { increment: 1 } },
+        })
+        await advanceTemplate(tx, template.id, date)
+        return occurrence
+      })
+      return { occurrence, failed }
+    } catch {
+      // Not even the skip could be recorded; the date stays due and is tried again on the next run
+      const occurrence = { status: RecurringOccurrenceStatus.SKIPPED, error: message, expenseId: null, transactionId: null }
+      return { occurrence, failed: true }
+    }
+  }
+}
+
+async function advanceTemplate(tx: any, templateId: string, date: Date) {
+  await tx.recurringTemplate.updateMany({
+    where: { id: templateId, OR: [{ lastOccurrenceDate: null }, { lastOccurrenceDate: { lt: date } }] },
+    data: { lastOccurrenceDate: date },
+  })
+}
+
+/**
+ * Materializes the organization's due occurrences: SKIPPED ones are retried, then active templates post
+ * each scheduled date after their last occurrence up to asOf (default today). asOf cannot be in the future.
+ * A failing occurrence is reported as skipped and never stops the run
+ */
+export async function runRecurringTemplates(input: { organizationId: string; asOf?: Date; userId?: string }) {
+  const { organizationId } = input
+  const calendar = await getFiscalCalendar(organizationId)
+  const currentDate = today(calendar.timezone)
+  const asOf = input.asOf ? toLedgerDate(input.asOf) : currentDate
+  if (asOf > currentDate) {
+    throw ledgerError("Occurrences cannot be posted before their date")
+  }
+
+  const templates = await prisma.recurringTemplate.findMany({
+    where: { organizationId, active: true },
+    include: {
+      occurrences: {
+        where: { status: RecurringOccurrenceStatus.SKIPPED, occurrenceDate: { lte: asOf } },
+        orderBy: { occurrenceDate: "asc" },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  })
+
+  const posted: Array<{ templateId: string; name: string; occurrenceDate: Date; expenseId: string | null; transactionId: string | null }> = []
+  const skipped: Array<{ templateId: string; name: string; occurrenceDate: Date; error: string | null }> = []
+
+  for (const template of templates) {
+    const due = [
+      ...template.occurrences.map((occurrence) => occurrence.occurrenceDate),
+      ...occurrencesBetween(template, template.lastOccurrenceDate, asOf, MAX_OCCURRENCES_PER_RUN),
+    ]
+
+    for (const date of due) {
+      const { occurrence, failed } = await runOccurrence(template, date)
+      if (occurrence.status === RecurringOccurrenceStatus.POSTED) {
+        posted.push({
+          templateId: template.id,
+          name: template.name,
+          occurrenceDate: date,
+          expenseId: occurrence.expenseId,
+          transactionId: occurrence.transactionId,
+        })
+      } else {
+        skipped.push({ templateId: template.id, name: template.name, occurrenceDate: date, error: occurrence.error })
+      }
+      // A template that fails unexpectedly waits for the next run; the other templates still post
+      if (failed) {
+        break
+      }
+    }
+  }
+
+  if (posted.length > 0 || skipped.length > 0) {
+    await createAuditLog({
+      organizationId,
+      userId: input.userId || "system",
+      action: "RECURRING_TEMPLATES_RUN",
+      entityType: "RecurringTemplate",
+      metadata: {
+        asOf,
+        posted: posted.length,
+        skipped: skipped.map((item) => ({ templateId: item.templateId, occurrenceDate: item.occurrenceDate, error: item.error })),
+      },
+    })
+  }
+
+  return { asOf, posted, skipped }
+}
+
+/**
+ * Upcoming occurrences of active templates (or one template) up to `until` (default 90 days ahead),
+ * with SKIPPED ones awaiting a retry. Each shows the period it falls in and whether the period would
+ * refuse it as things stand
+ */
+export async function previewRecurringOccurrences(input: { organizationId: string; templateId?: string; until?: Date }) {
+  const { organizationId, templateId } = input
+  const calendar = await getFiscalCalendar(organizationId)
+  const until = input.until ? toLedgerDate(input.until) : new Date(today(calendar.timezone).getTime() + 90 * DAY_MS)
+
+  const [templates, locks, yearEndCloses] = await Promise.all([
+    prisma.recurringTemplate.findMany({
+      where: { organizationId, active: true, ...(templateId ? { id: templateId } : {}) },
+      include: {
+        occurrences: {
+          where: { status: RecurringOccurrenceStatus.SKIPPED },
+          orderBy: { occurrenceDate: "asc" },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.ledgerPeriodLock.findMany({ where: { organizationId }, select: { period: true, status: true } }),
+    prisma.yearEndClose.findMany({ where: { organizationId }, select: { fiscalYear: true } }),
+  ])
+  if (templateId && templates.length === 0) {
+    throw ledgerError("Recurring template not found", 404)
+  }
+
+  const lockByPeriod = new Map(locks.map((lock) => [lock.period, lock.status]))
+  const closedYears = new Set(yearEndCloses.map((close) => close.fiscalYear))
+
+  const occurrences = templates.flatMap((template) => {
+    // A journal entry's amount is its total debits
+    const amount = template.kind === RecurringKind.EXPENSE
+      ? Number(template.amount)
+      : fromMinorUnits(
+          (template.journalLines as unknown as RecurringJournalLine[])
+            .filter((line) => line.direction === PostingDirection.DR)
+            .reduce((sum, line) => sum + toMinorUnits(line.amount, template.currency), 0),
+          template.currency
+        )
+
+    const retries = template.occurrences.map((occurrence) => ({ date: occurrence.occurrenceDate, error: occurrence.error }))
+    const upcoming = occurrencesBetween(template, template.lastOccurrenceDate, until, MAX_OCCURRENCES_PER_RUN)
+      .map((date) => ({ date, error: null as string | null }))
+
+    return [...retries, ...upcoming].map(({ date, error }) => {
+      const period = periodOf(date, calendar.timezone)
+      const yearClosed = closedYears.has(fiscalYearOf(period, calendar.fiscalYearStartMonth))
+      const periodStatus = yearClosed ? PeriodStatus.LOCKED : lockByPeriod.get(period) || "OPEN"
+      const blocked = periodStatus === PeriodStatus.LOCKED ||
+        (periodStatus === PeriodStatus.SOFT_CLOSED && template.kind === RecurringKind.EXPENSE)
+
+      return {
+        templateId: template.id,
+        name: template.name,
+        kind: template.kind,
+        occurrenceDate: date,
+        idempotencyKey: occurrenceKey(template.id, date),
+        description: template.description,
+        amount,
+        currency: template.currency,
+        period,
+        periodStatus,
+        blocked,
+        retry: error !== null,
+        lastError: error,
+      }
+    })
+  })
+
+  return {
+    until,
+    occurrences: occurrences.sort((a, b) => a.occurrenceDate.getTime() - b.occurrenceDate.getTime()),
+  }
+}
+
+/**
+ * Lists templates by name
+ */
+export async function listRecurringTemplates(organizationId: string) {
+  return prisma.recurringTemplate.findMany({
+    where: { organizationId },
+    orderBy: { name: "asc" },
+  })
+}
+
+/**
+ * A template with its most recent occurrences
+ */
+export async function getRecurringTemplate(organizationId: string, templateId: string) {
+  const template = await prisma.recurringTemplate.findFirst({
+    where: { id: templateId, organizationId },
+    include: { occurrences: { orderBy: { occurrenceDate: "desc" }, take: 24 } },
+  })
+  if (!template) {
+    throw ledgerError("Recurring template not found", 404)
+  }
+  return template
+}
+
+function duplicateName(error: any, name: string | undefined) {
+  if (error.code === "P2002") {
+    return ledgerError(`A recurring template named "${name}" already exists`, 409)
+  }
+  return error
+}
+
+function assertSchedule(schedule: { frequency: RecurrenceFrequency; dayOfMonth?: number | null }) {
+  if (schedule.dayOfMonth && schedule.frequency !== RecurrenceFrequency.MONTHLY && schedule.frequency !== RecurrenceFrequency.YEARLY) {
+    throw ledgerError("dayOfMonth applies to monthly and yearly schedules")
+  }
+}
+
+/**
+ * Creates a template; its first run posts every occurrence from startDate up to today
+ */
+export async function createRecurringTemplate(input: Omit<RecurringEntry, "currency"> & {
+  organizationId: string
+  currency?: string
+  name: string
+  kind: RecurringKind
+  frequency: RecurrenceFrequency
+  interval: number
+  dayOfMonth?: number | null
+  startDate: Date
+  endDate?: Date | null
+  active: boolean
+  userId: string
+}) {
+  const { organizationId, userId, ...data } = input
+  const currency = data.currency || (await getBaseCurrency(organizationId))
+
+  assertSchedule(data)
+  await assertTemplateEntry(prisma, organizationId, data.kind, { ...data, currency })
+
+  try {
+    const template = await prisma.recurringTemplate.create({
+      data: {
+        organizationId,
+        name: data.name,
+        kind: data.kind,
+        frequency: data.frequency,
+        interval: data.interval,
+        dayOfMonth: data.dayOfMonth ?? null,
+        startDate: toLedgerDate(data.startDate),
+        endDate: data.endDate ? toLedgerDate(data.endDate) : null,
+        description: data.description,
+        currency,
+        amount: data.amount ?? null,
+        category: data.category ?? null,
+        vendor: data.vendor ?? null,
+        paymentAccountId: data.paymentAccountId ?? null,
+        expenseAccountId: data.expenseAccountId ?? null,
+        tags: data.tags || [],
+        journalLines: (data.journalLines as any) ?? undefined,
+        active: data.active,
+        createdByUserId: userId,
+      },
+    })
+
+    await createAuditLog({
+      organizationId,
+      userId,
+      action: "RECURRING_TEMPLATE_CREATED",
+      entityType: "RecurringTemplate",
+      entityId: template.id,
+      metadata: { name: template.name, kind: template.kind, frequency: template.frequency, startDate: template.startDate },
+    })
+
+    return template
+  } catch (error: any) {
+    throw duplicateName(error, data.name)
+  }
+}
+
+/**
+ * Updates a template; schedule changes apply to dates after its last occurrence, and posted
+ * occurrences keep what they were posted with
+ */
+export async function updateRecurringTemplate(input: {
+  organizationId: string
+  templateId: string
+  changes: Partial<RecurringEntry> & {
+    name?: string
+    frequency?: RecurrenceFrequency
+    interval?: number
+    dayOfMonth?: number | null
+    endDate?: Date | null
+    active?: boolean
+  }
+  userId: string
+}) {
+  const { organizationId, templateId, changes, userId } = input
+
+  const existing = await prisma.recurringTemplate.findFirst({ where: { id: templateId, organizationId } })
+  if (!existing) {
+    throw ledgerError("Recurring template not found", 404)
+  }
+
+  const endDate = changes.endDate !== undefined ? changes.endDate && toLedgerDate(changes.endDate) : existing.endDate
+  if (endDate && endDate < existing.startDate) {
+    throw ledgerError("End date must be on or after the start date")
+  }
+  assertSchedule({
+    frequency: changes.frequency ?? existing.frequency,
+    dayOfMonth: changes.dayOfMonth !== undefined ? changes.dayOfMonth : existing.dayOfMonth,
+  })
+
+  // Fields of the other kind are refused; the result must still be a complete template of its kind
+  const fieldsOfOtherKind = existing.kind === RecurringKind.EXPENSE
+    ? changes.journalLines !== undefined
+    : EXPENSE_FIELDS.some((field) => changes[field] !== undefined)
+  if (fieldsOfOtherKind) {
+    throw ledgerError(`These fields do not apply to ${existing.kind.toLowerCase()} templates`)
+  }
+  // Schedule-only changes (such as deactivating a template that no longer posts) leave the entry as it is
+  const entryChanged = [...EXPENSE_FIELDS, "description", "currency", "journalLines"].some(
+    (field) => changes[field as keyof RecurringEntry] !== undefined
+  )
+  if (entryChanged) {
+    await assertTemplateEntry(prisma, organizationId, existing.kind, {
+      description: changes.description ?? existing.description,
+      currency: changes.currency ?? existing.currency,
+      amount: changes.amount ?? (existing.amount !== null ? Number(existing.amount) : null),
+      paymentAccountId: changes.paymentAccountId,
+      expenseAccountId: changes.expenseAccountId,
+      journalLines: changes.journalLines ?? (existing.journalLines as unknown as RecurringJournalLine[] | null),
+    })
+  }
+
+  try {
+    const template = await prisma.recurringTemplate.update({
+      where: { id: templateId },
+      data: {
+        ...changes,
+        endDate,
+        journalLines: (changes.journalLines as any) ?? undefined,
+      },
+    })
+
+    await createAuditLog({
+      organizationId,
+      userId,
+      action: "RECURRING_TEMPLATE_UPDATED",
+      entityType: "RecurringTemplate",
+      entityId: template.id,
+      metadata: { changes },
+    })
+
+    return template
+  } catch (error: any) {
+    throw duplicateName(error, changes.name)
+  }
+}
+
+/**
+ * Deletes a template and its occurrence history; expenses and journal entries it posted stay
+ */
+export async function deleteRecurringTemplate(organizationId: string, templateId: string, userId: string) {
+  const template = await prisma.recurringTemplate.findFirst({ where: { id: templateId, organizationId } })
+  if (!template) {
+    throw ledgerError("Recurring template not found", 404)
+  }
+
+  await prisma.recurringTemplate.delete({ where: { id: template.id } })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "RECURRING_TEMPLATE_DELETED",
+    entityType: "RecurringTemplate",
+    entityId: template.id,
+    metadata: { name: template.name, kind: template.kind, lastOccurrenceDate: template.lastOccurrenceDate },
+  })
+}
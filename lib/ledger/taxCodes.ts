@@ -0,0 +1,177 @@
+import { prisma } from "@/lib/prisma"
+import { createAuditLog } from "@/lib/audit-log"
+import { AccountType } from "@prisma/client"
+import { ledgerError } from "@/lib/ledger/ledgerService"
+
+/**
+ * Server-only sales tax / VAT / GST codes
+ * Expense amounts are tax-inclusive. A taxed expense posts the recoverable share of its tax to the
+ * code's input tax account and the rest (net amount plus non-recoverable tax) to the expense account
+ */
+
+export interface TaxSplit {
+  netCents: number
+  recoverableCents: number
+  nonRecoverableCents: number
+}
+
+/**
+ * Splits a tax-inclusive amount into net, recoverable and non-recoverable tax (all minor units)
+ * Tax is computed from the rate unless an explicit tax amount is given
+ */
+export function splitTaxAmount(
+  grossCents: number,
+  taxCode: { rate: any; recoverablePercent: any },
+  taxCents?: number | null
+): TaxSplit {
+  const rate = Number(taxCode.rate)
+  const tax = taxCents ?? Math.round((grossCents * rate) / (100 + rate))
+
+  if (!Number.isInteger(tax) || tax < 0 || tax > grossCents) {
+    throw ledgerError("Tax amount must be between zero and the expense amount")
+  }
+
+  const recoverableCents = Math.round((tax * Number(taxCode.recoverablePercent)) / 100)
+
+  return {
+    netCents: grossCents - tax,
+    recoverableCents,
+    nonRecoverableCents: tax - recoverableCents,
+  }
+}
+
+/**
+ * Gets a tax code that can be used on new postings
+ */
+export async function getActiveTaxCode(tx: any, organizationId: string, taxCodeId: string) {
+  const taxCode = await tx.taxCode.findFirst({ where: { id: taxCodeId, organizationId } })
+
+  if (!taxCode) {
+    throw ledgerError("Tax code not found", 404)
+  }
+
+  if (taxCode.archivedAt) {
+    throw ledgerError(`Tax code ${taxCode.code} is archived`)
+  }
+
+  return taxCode
+}
+
+/**
+ * Validates the account input tax is reclaimed to
+ * Input tax is a receivable (ASSET) or reduces a VAT control account (LIABILITY)
+ */
+async function assertInputTaxAccount(tx: any, organizationId: string, accountId: string) {
+  const account = await tx.ledgerAccount.findFirst({ where: { id: accountId, organizationId } })
+
+  if (!account) {
+    throw ledgerError("Input tax account not found", 404)
+  }
+
+  if (account.archivedAt) {
+    throw ledgerError(`Input tax account ${account.name} is archived`)
+  }
+
+  if (account.type !== AccountType.ASSET && account.type !== AccountType.LIABILITY) {
+    throw ledgerError("Input tax account must be an ASSET or LIABILITY account")
+  }
+
+  return account
+}
+
+/**
+ * Lists tax codes by code
+ */
+export async function listTaxCodes(organizationId: string, options: { includeArchived?: boolean } = {}) {
+  return prisma.taxCode.findMany({
+    where: { organizationId, ...(options.includeArchived ? {} : { archivedAt: null }) },
+    include: { inputTaxAccount: { select: { id: true, name: true, code: true } } },
+    orderBy: { code: "asc" },
+  })
+}
+
+/**
+ * Creates a tax code
+ */
+export async function createTaxCode(input: {
+  organizationId: string
+  code: string
+  name: string
+  rate: number
+  recoverablePercent: number
+  inputTaxAccountId: string
+  userId: string
+}) {
+  const { organizationId, userId, ...data } = input
+
+  await assertInputTaxAccount(prisma, organizationId, data.inputTaxAccountId)
+
+  const existing = await prisma.taxCode.findUnique({
+    where: { organizationId_code: { organizationId, code: data.code } },
+  })
+  if (existing) {
+    throw ledgerError(`Tax code ${data.code} already exists`, 409)
+  }
+
+  const taxCode = await prisma.taxCode.create({
+    data: { organizationId, ...data },
+    include: { inputTaxAccount: { select: { id: true, name: true, code: true } } },
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "TAX_CODE_CREATED",
+    entityType: "TaxCode",
+    entityId: taxCode.id,
+    metadata: data,
+  })
+
+  return taxCode
+}
+
+/**
+ * Updates a tax code's name, recoverable share, input tax account or archived state
+ * The rate is fixed: a new rate gets a new code so re-posted history keeps its tax. Other changes
+ * apply to postings made from now on, including expenses re-posted after an edit
+ */
+export async function updateTaxCode(input: {
+  organizationId: string
+  taxCodeId: string
+  name?: string
+  recoverablePercent?: number
+  inputTaxAccountId?: string
+  archived?: boolean
+  userId: string
+}) {
+  const { organizationId, taxCodeId, userId, archived, ...changes } = input
+
+  const existing = await prisma.taxCode.findFirst({ where: { id: taxCodeId, organizationId } })
+  if (!existing) {
+    throw ledgerError("Tax code not found", 404)
+  }
+
+  if (changes.inputTaxAccountId) {
+    await assertInputTaxAccount(prisma, organizationId, changes.inputTaxAccountId)
+  }
+
+  const taxCode = await prisma.taxCode.update({
+    where: { id: existing.id },
+    data: {
+      ...changes,
+      ...(archived !== undefined ? { archivedAt: archived ? existing.archivedAt || new Date() : null } : {}),
+    },
+    include: { inputTaxAccount: { select: { id: true, name: true, code: true } } },
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "TAX_CODE_UPDATED",
+    entityType: "TaxCode",
+    entityId: taxCode.id,
+    metadata: { ...changes, ...(archived !== undefined ? { archived } : {}) },
+  })
+
+  return taxCode
+}
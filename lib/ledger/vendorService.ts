@@ -0,0 +1,453 @@
+import { prisma } from "@/lib/prisma"
+import { createAuditLog } from "@/lib/audit-log"
+import { assertExpenseAccount, ledgerError } from "@/lib/ledger/ledgerService"
+
+/**
+ * Server-only vendor master records
+ * Expenses, bills, ledger transactions and statement lines link to a vendor and carry its current
+ * name. Names match on a normalized key (case and punctuation ignored) against the vendor's name,
+ * aliases, former names and the names of vendors merged into it. A rename or merge rewrites the
+ * vendor name on everything linked, so reports group one vendor under one name
+ */
+
+export interface VendorDetails {
+  aliases?: string[]
+  taxId?: string | null
+  defaultCategoryId?: string | null
+  defaultExpenseAccountId?: string | null
+  is1099?: boolean
+  email?: string | null
+  phone?: string | null
+  address?: string | null
+}
+
+const vendorInclude = {
+  defaultCategory: { select: { id: true, name: true } },
+  defaultExpenseAccount: { select: { id: true, name: true, code: true } },
+}
+
+/**
+ * Normalizes a vendor name for matching: "AMAZON.COM" and "Amazon.com" both become "amazon com"
+ */
+export function vendorKey(name: string): string {
+  // Whitespace and ASCII punctuation separate words; letters outside ASCII are kept
+  return name.toLowerCase().replace(/[\s!-/:-@[-`{-~]+/g, " ").trim()
+}
+
+function displayName(name: string): string {
+  return name.trim().replace(/\s+/g, " ")
+}
+
+function uniqueAliases(aliases: string[], name: string): string[] {
+  const seen = new Set([vendorKey(name)])
+  const result: string[] = []
+  for (const alias of aliases.map(displayName)) {
+    const key = vendorKey(alias)
+    if (key && !seen.has(key)) {
+      seen.add(key)
+      result.push(alias)
+    }
+  }
+  return result
+}
+
+/**
+ * Finds the vendor a name refers to (by name or alias), following merges to the surviving vendor
+ */
+async function findVendor(client: any, organizationId: string, name: string) {
+  const key = vendorKey(name)
+  const matches = await client.vendor.findMany({
+    where: { organizationId, OR: [{ nameKey: key }, { aliasKeys: { has: key } }] },
+  })
+
+  let vendor = matches.find((v: any) => v.nameKey === key) || matches[0] || null
+  while (vendor?.mergedIntoId) {
+    vendor = await client.vendor.findUnique({ where: { id: vendor.mergedIntoId } })
+  }
+  return vendor
+}
+
+async function assertNamesAvailable(client: any, organizationId: string, names: string[], exceptId?: string) {
+  const keys = names.map(vendorKey)
+  const clash = await client.vendor.findFirst({
+    where: {
+      organizationId,
+      OR: [{ nameKey: { in: keys } }, { aliasKeys: { hasSome: keys } }],
+      ...(exceptId ? { id: { not: exceptId } } : {}),
+    },
+  })
+  if (clash) {
+    const name = names.find((n) => clash.nameKey === vendorKey(n) || clash.aliasKeys.includes(vendorKey(n)))
+    throw ledgerError(`Vendor name "${displayName(name || names[0])}" is already used by "${clash.name}"`, 409)
+  }
+}
+
+async function assertDefaultCategory(client: any, organizationId: string, categoryId: string) {
+  const category = await client.expenseCategory.findFirst({ where: { id: categoryId, organizationId } })
+  if (!category) {
+    throw ledgerError("Category not found", 404)
+  }
+  if (category.archivedAt) {
+    throw ledgerError(`Category "${category.name}" is archived`)
+  }
+  return category
+}
+
+/**
+ * Resolves a vendor name to its vendor record, creating it on first use
+ * Names typed on entry or sent by API clients join the list; an archived vendor cannot take new expenses
+ */
+export async function resolveVendor(tx: any, organizationId: string, name: string) {
+  if (!vendorKey(name)) {
+    throw ledgerError("Vendor name is required")
+  }
+
+  const existing = await findVendor(tx, organizationId, name)
+  if (existing) {
+    if (existing.archivedAt) {
+      throw ledgerError(`Vendor "${existing.name}" is archived`)
+    }
+    return existing
+  }
+
+  return tx.vendor.create({
+    data: { organizationId, name: displayName(name), nameKey: vendorKey(name) },
+  })
+}
+
+/**
+ * The category and expense account a vendor's new expenses default to
+ * A default category that has since been archived or merged away is ignored
+ */
+export async function getVendorDefaults(tx: any, vendor: { defaultCategoryId: string | null; defaultExpenseAccountId: string | null }) {
+  const category = vendor.defaultCategoryId
+    ? await tx.expenseCategory.findUnique({ where: { id: vendor.defaultCategoryId } })
+    : null
+
+  return {
+    category: category && !category.archivedAt ? (category.name as string) : null,
+    expenseAccountId: vendor.defaultExpenseAccountId,
+  }
+}
+
+/**
+ * Builds a matcher for bank statement payees, which carry store numbers and references after the name
+ * A payee matches a vendor whose name or alias it equals, else the longest one it starts with
+ * ("AMAZON.COM*2K4LL0" matches the alias "Amazon.com"). Archived vendors are not matched
+ */
+export async function getVendorMatcher(organizationId: string, client: any = prisma) {
+  const vendors: { id: string; name: string; nameKey: string; aliasKeys: string[] }[] = await client.vendor.findMany({
+    where: { organizationId, archivedAt: null },
+    select: { id: true, name: true, nameKey: true, aliasKeys: true },
+  })
+
+  const byKey = new Map<string, { id: string; name: string }>()
+  for (const vendor of vendors) {
+    vendor.aliasKeys.forEach((key) => byKey.set(key, vendor))
+  }
+  for (const vendor of vendors) {
+    byKey.set(vendor.nameKey, vendor)
+  }
+  const keys = Array.from(byKey.keys()).sort((a, b) => b.length - a.length)
+
+  return (text: string | null | undefined) => {
+    const key = text ? vendorKey(text) : ""
+    if (!key) {
+      return null
+    }
+    const prefix = byKey.has(key) ? key : keys.find((k) => key.startsWith(`${k} `))
+    return prefix ? byKey.get(prefix)! : null
+  }
+}
+
+/**
+ * Maps a transaction's vendor to the vendor's current name
+ * Linked transactions use their vendor; unlinked names are matched like typed names, else returned unchanged
+ */
+export async function getVendorNameResolver(organizationId: string) {
+  const vendors = await prisma.vendor.findMany({
+    where: { organizationId },
+    select: { id: true, name: true, nameKey: true, aliasKeys: true, mergedIntoId: true },
+  })
+
+  const byId = new Map(vendors.map((v) => [v.id, v]))
+  const survivor = (vendor: (typeof vendors)[number]) => {
+    let current = vendor
+    while (current.mergedIntoId && byId.has(current.mergedIntoId)) {
+      current = byId.get(current.mergedIntoId)!
+    }
+    return current.name
+  }
+
+  const names = new Map<string, string>()
+  for (const vendor of vendors) {
+    vendor.aliasKeys.forEach((key) => names.set(key, survivor(vendor)))
+  }
+  for (const vendor of vendors) {
+    names.set(vendor.nameKey, survivor(vendor))
+  }
+
+  return (vendorId: string | null, name: string | null) => {
+    const linked = vendorId ? byId.get(vendorId) : undefined
+    if (linked) {
+      return survivor(linked)
+    }
+    return name ? names.get(vendorKey(name)) || name : null
+  }
+}
+
+/**
+ * Ledger transaction filter for a vendor: transactions linked to it, and unlinked ones booked under its name or aliases
+ */
+export async function vendorTransactionFilter(organizationId: string, name: string) {
+  const vendor = await findVendor(prisma, organizationId, name)
+  if (!vendor) {
+    return { vendor: name }
+  }
+
+  return {
+    OR: [
+      { vendorId: vendor.id },
+      ...[vendor.name, ...vendor.aliases].map((alias: string) => ({
+        vendorId: null,
+        vendor: { equals: alias, mode: "insensitive" as const },
+      })),
+    ],
+  }
+}
+
+/**
+ * Lists vendors by name
+ */
+export async function listVendors(organizationId: string, options: { includeArchived?: boolean; search?: string } = {}) {
+  const search = options.search ? vendorKey(options.search) : ""
+
+  return prisma.vendor.findMany({
+    where: {
+      organizationId,
+      ...(options.includeArchived ? {} : { archivedAt: null }),
+      ...(search ? { OR: [{ nameKey: { contains: search } }, { aliasKeys: { has: search } }] } : {}),
+    },
+    include: vendorInclude,
+    orderBy: { name: "asc" },
+  })
+}
+
+/**
+ * Creates a vendor; its name and aliases may not be used by another vendor
+ */
+export async function createVendor(input: VendorDetails & { organizationId: string; name: string; userId: string }) {
+  const { organizationId, userId, ...details } = input
+  const name = displayName(input.name)
+  const aliases = uniqueAliases(details.aliases || [], name)
+  if (!vendorKey(name)) {
+    throw ledgerError("Vendor name is required")
+  }
+
+  const vendor = await prisma.$transaction(async (tx) => {
+    await assertNamesAvailable(tx, organizationId, [name, ...aliases])
+    if (details.defaultCategoryId) {
+      await assertDefaultCategory(tx, organizationId, details.defaultCategoryId)
+    }
+    if (details.defaultExpenseAccountId) {
+      await assertExpenseAccount(tx, organizationId, details.defaultExpenseAccountId)
+    }
+
+    return tx.vendor.create({
+      data: {
+        ...details,
+        organizationId,
+        name,
+        nameKey: vendorKey(name),
+        aliases,
+        aliasKeys: aliases.map(vendorKey),
+      },
+      include: vendorInclude,
+    })
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "VENDOR_CREATED",
+    entityType: "Vendor",
+    entityId: vendor.id,
+    metadata: { name, aliases, is1099: vendor.is1099 },
+  })
+
+  return vendor
+}
+
+/**
+ * Updates a vendor's name, aliases, details or archived state
+ * A rename keeps the old name as an alias and rewrites the vendor name on its expenses, bills and
+ * ledger transactions; aliases sent replace the current ones
+ */
+export async function updateVendor(
+  input: VendorDetails & { organizationId: string; vendorId: string; name?: string; archived?: boolean; userId: string }
+) {
+  const { organizationId, vendorId, userId, name: newName, archived, aliases: newAliases, ...details } = input
+
+  const { vendor, changes } = await prisma.$transaction(async (tx) => {
+    const existing = await tx.vendor.findFirst({ where: { id: vendorId, organizationId } })
+    if (!existing) {
+      throw ledgerError("Vendor not found", 404)
+    }
+    if (existing.mergedIntoId) {
+      throw ledgerError(`Vendor "${existing.name}" was merged and cannot be changed`, 409)
+    }
+
+    const changes: Record<string, any> = {}
+    const data: Record<string, any> = {}
+
+    const name = newName !== undefined ? displayName(newName) : existing.name
+    if (!vendorKey(name)) {
+      throw ledgerError("Vendor name is required")
+    }
+    const aliases = uniqueAliases(newAliases ?? existing.aliases, name)
+    // Former names and merged names stay matchable whatever the aliases become
+    const historicKeys = existing.aliasKeys.filter((key) => !existing.aliases.some((alias) => vendorKey(alias) === key))
+    if (name !== existing.name) {
+      historicKeys.push(existing.nameKey)
+    }
+
+    const addedNames = [
+      ...(vendorKey(name) !== existing.nameKey && !existing.aliasKeys.includes(vendorKey(name)) ? [name] : []),
+      ...aliases.filter((alias) => vendorKey(alias) !== existing.nameKey && !existing.aliasKeys.includes(vendorKey(alias))),
+    ]
+    if (addedNames.length > 0) {
+      await assertNamesAvailable(tx, organizationId, addedNames, existing.id)
+    }
+
+    if (name !== existing.name) {
+      data.name = name
+      data.nameKey = vendorKey(name)
+      changes.name = { from: existing.name, to: name }
+
+      await tx.expense.updateMany({ where: { organizationId, vendorId: existing.id }, data: { vendor: name } })
+      await tx.bill.updateMany({ where: { organizationId, vendorId: existing.id }, data: { vendor: name } })
+      await tx.ledgerTransaction.updateMany({ where: { organizationId, vendorId: existing.id }, data: { vendor: name } })
+    }
+    if (newAliases !== undefined) {
+      changes.aliases = { from: existing.aliases, to: aliases }
+    }
+    data.aliases = aliases
+    data.aliasKeys = Array.from(new Set([...historicKeys, ...aliases.map(vendorKey)])).filter((key) => key !== vendorKey(name))
+
+    if (details.defaultCategoryId && details.defaultCategoryId !== existing.defaultCategoryId) {
+      await assertDefaultCategory(tx, organizationId, details.defaultCategoryId)
+    }
+    if (details.defaultExpenseAccountId && details.defaultExpenseAccountId !== existing.defaultExpenseAccountId) {
+      await assertExpenseAccount(tx, organizationId, details.defaultExpenseAccountId)
+    }
+    for (const [field, value] of Object.entries(details)) {
+      if (value !== undefined && value !== (existing as any)[field]) {
+        data[field] = value
+        changes[field] = { from: (existing as any)[field], to: value }
+      }
+    }
+
+    if (archived !== undefined && archived !== Boolean(existing.archivedAt)) {
+      data.archivedAt = archived ? new Date() : null
+      changes.archived = archived
+    }
+
+    const vendor = await tx.vendor.update({ where: { id: existing.id }, data, include: vendorInclude })
+
+    return { vendor, changes }
+  })
+
+  if (Object.keys(changes).length > 0) {
+    await createAuditLog({
+      organizationId,
+      userId,
+      action: "VENDOR_UPDATED",
+      entityType: "Vendor",
+      entityId: vendor.id,
+      metadata: changes,
+    })
+  }
+
+  return vendor
+}
+
+/**
+ * Merges a vendor into another
+ * The source is archived with its names aliased to the target, which also takes over details it lacks
+ * and the 1099 flag. Expenses, bills, ledger transactions and statement lines move to the target and
+ * carry its name, including in closed periods: the vendor is descriptive and no posting changes
+ */
+export async function mergeVendor(input: { organizationId: string; sourceId: string; targetId: string; userId: string }) {
+  const { organizationId, sourceId, targetId, userId } = input
+
+  if (sourceId === targetId) {
+    throw ledgerError("A vendor cannot be merged into itself")
+  }
+
+  const result = await prisma.$transaction(async (tx) => {
+    const [source, target] = await Promise.all([
+      tx.vendor.findFirst({ where: { id: sourceId, organizationId } }),
+      tx.vendor.findFirst({ where: { id: targetId, organizationId } }),
+    ])
+
+    if (!source || !target) {
+      throw ledgerError("Vendor not found", 404)
+    }
+    if (target.mergedIntoId) {
+      throw ledgerError(`Vendor "${target.name}" was merged into another vendor`, 409)
+    }
+    if (source.mergedIntoId) {
+      throw ledgerError(`Vendor "${source.name}" was already merged`, 409)
+    }
+
+    await tx.vendor.update({
+      where: { id: source.id },
+      data: { mergedIntoId: target.id, archivedAt: source.archivedAt || new Date() },
+    })
+    await tx.vendor.update({
+      where: { id: target.id },
+      data: {
+        aliases: uniqueAliases([...target.aliases, source.name, ...source.aliases], target.name),
+        aliasKeys: Array.from(new Set([...target.aliasKeys, source.nameKey, ...source.aliasKeys])).filter((key) => key !== target.nameKey),
+        taxId: target.taxId ?? source.taxId,
+        defaultCategoryId: target.defaultCategoryId ?? source.defaultCategoryId,
+        defaultExpenseAccountId: target.defaultExpenseAccountId ?? source.defaultExpenseAccountId,
+        is1099: target.is1099 || source.is1099,
+        email: target.email ?? source.email,
+        phone: target.phone ?? source.phone,
+        address: target.address ?? source.address,
+      },
+    })
+
+    const moved = { vendorId: target.id }
+    const named = { vendorId: target.id, vendor: target.name }
+    const [expenses, bills, transactions, statementLines] = await Promise.all([
+      tx.expense.updateMany({ where: { organizationId, vendorId: source.id }, data: named }),
+      tx.bill.updateMany({ where: { organizationId, vendorId: source.id }, data: named }),
+      tx.ledgerTransaction.updateMany({ where: { organizationId, vendorId: source.id }, data: named }),
+      tx.bankStatementLine.updateMany({ where: { organizationId, vendorId: source.id }, data: moved }),
+    ])
+
+    return {
+      source,
+      target,
+      expenseCount: expenses.count,
+      billCount: bills.count,
+      transactionCount: transactions.count,
+      statementLineCount: statementLines.count,
+    }
+  })
+
+  const { source, target, ...counts } = result
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "VENDOR_MERGED",
+    entityType: "Vendor",
+    entityId: target.id,
+    metadata: { sourceId: source.id, sourceName: source.name, targetName: target.name, ...counts },
+  })
+
+  return { sourceId: source.id, targetId: target.id, ...counts }
+}
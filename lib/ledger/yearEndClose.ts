@@ -0,0 +1,287 @@
+import { prisma } from "@/lib/prisma"
+import { createAuditLog } from "@/lib/audit-log"
+import { AccountType, PostingDirection } from "@prisma/client"
+import {
+  acquirePeriodLock,
+  assertBalanced,
+  guardPeriodNotLocked,
+  ledgerError,
+} from "@/lib/ledger/ledgerService"
+import { getBaseCurrency, groupBaseAmounts } from "@/lib/ledger/fxService"
+import {
+  fiscalYearPeriods,
+  getFiscalCalendar,
+  periodEnd,
+  periodLastDay,
+  periodOf,
+  periodStart,
+  today,
+} from "@/lib/ledger/periods"
+
+/**
+ * Server-only year-end close
+ * INCOME and EXPENSE balances at fiscal year end are zeroed into the Retained Earnings system account
+ * by one closing transaction dated on the last day of the fiscal year.
+ * Once a year is closed, guardPeriodNotLocked rejects any further posting dated in it
+ */
+
+const RETAINED_EARNINGS_ACCOUNT = { name: "Retained Earnings", code: "RETAINED_EARNINGS" }
+
+interface ClosingLine {
+  accountId: string
+  accountName: string
+  accountType: AccountType
+  balanceCents: number // Debit-positive base-currency balance at year end
+}
+
+/**
+ * Gets or creates the Retained Earnings system account (EQUITY)
+ */
+async function getOrCreateRetainedEarningsAccount(tx: any, organizationId: string, baseCurrency: string) {
+  const existing = await tx.ledgerAccount.findUnique({
+    where: { organizationId_name: { organizationId, name: RETAINED_EARNINGS_ACCOUNT.name } },
+  })
+
+  if (existing) {
+    if (existing.type !== AccountType.EQUITY) {
+      throw ledgerError(`Account "${existing.name}" must be an EQUITY account to receive closing entries`, 409)
+    }
+    return existing
+  }
+
+  const account = await tx.ledgerAccount.create({
+    data: {
+      organizationId,
+      name: RETAINED_EARNINGS_ACCOUNT.name,
+      code: RETAINED_EARNINGS_ACCOUNT.code,
+      type: AccountType.EQUITY,
+      currency: baseCurrency,
+      isSystem: true,
+    },
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId: "system",
+    action: "ACCOUNT_CREATED",
+    entityType: "LedgerAccount",
+    entityId: account.id,
+    metadata: { name: account.name, type: account.type, isSystem: true },
+  })
+
+  return account
+}
+
+/**
+ * Computes the closing lines for a fiscal year
+ * Balances are cumulative through year end, so earnings of earlier years that were never closed are swept too
+ */
+export async function computeYearEndClose(organizationId: string, fiscalYear: number, tx?: any) {
+  const client = tx || prisma
+  const calendar = await getFiscalCalendar(organizationId, client)
+  const { firstPeriod, lastPeriod } = fiscalYearPeriods(fiscalYear, calendar.fiscalYearStartMonth)
+  const endDate = periodEnd(lastPeriod)
+
+  const [baseCurrency, sums] = await Promise.all([
+    getBaseCurrency(organizationId, client),
+    groupBaseAmounts<{ accountId: string; direction: PostingDirection }>(client, ["accountId", "direction"], {
+      organizationId,
+      account: { type: { in: [AccountType.INCOME, AccountType.EXPENSE] } },
+      transaction: { occurredAt: { lte: endDate } },
+    }),
+  ])
+
+  const balances = new Map<string, number>()
+  for (const sum of sums) {
+    const sign = sum.direction === PostingDirection.DR ? 1 : -1
+    balances.set(sum.accountId, (balances.get(sum.accountId) || 0) + sign * sum.baseAmountCents)
+  }
+
+  const accounts = await client.ledgerAccount.findMany({
+    where: { organizationId, id: { in: Array.from(balances.keys()) } },
+    select: { id: true, name: true, type: true },
+  })
+
+  const lines: ClosingLine[] = accounts
+    .map((account: any) => ({
+      accountId: account.id,
+      accountName: account.name,
+      accountType: account.type,
+      balanceCents: balances.get(account.id) || 0,
+    }))
+    .filter((line: ClosingLine) => line.balanceCents !== 0)
+    .sort((a: ClosingLine, b: ClosingLine) => a.accountType.localeCompare(b.accountType) || a.accountName.localeCompare(b.accountName))
+
+  // Income carries credit (negative) balances, so net income is the negated debit total
+  const netIncomeCents = -lines.reduce((sum, line) => sum + line.balanceCents, 0)
+
+  return {
+    fiscalYear,
+    baseCurrency,
+    startDate: periodStart(firstPeriod),
+    endDate,
+    lines,
+    netIncomeCents,
+  }
+}
+
+/**
+ * Lists year-end closes, newest fiscal year first
+ */
+export async function listYearEndCloses(organizationId: string) {
+  return prisma.yearEndClose.findMany({
+    where: { organizationId },
+    include: { transaction: { include: { postings: true } } },
+    orderBy: { fiscalYear: "desc" },
+  })
+}
+
+/**
+ * Closes a fiscal year into Retained Earnings
+ * Idempotent per organization and fiscal year: a second call returns the first close unchanged
+ * Years close in order: once a later year is closed, an earlier one can no longer be
+ */
+export async function closeFiscalYear(input: { organizationId: string; fiscalYear: number; createdByUserId: string }) {
+  const { organizationId, fiscalYear, createdByUserId } = input
+
+  const existing = await prisma.yearEndClose.findUnique({
+    where: { organizationId_fiscalYear: { organizationId, fiscalYear } },
+    include: { transaction: { include: { postings: true } } },
+  })
+
+  if (existing) {
+    return existing
+  }
+
+  const calendar = await getFiscalCalendar(organizationId)
+  const { lastPeriod } = fiscalYearPeriods(fiscalYear, calendar.fiscalYearStartMonth)
+  if (lastPeriod >= periodOf(today(calendar.timezone))) {
+    throw ledgerError(`Fiscal year ${fiscalYear} has not ended yet`)
+  }
+
+  const closingDate = periodLastDay(lastPeriod)
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      // Blocks new postings into the year until the close commits
+      await acquirePeriodLock(tx, organizationId, `FY${fiscalYear}`, true)
+
+      // A concurrent close committed while we waited for the lock
+      const closed = await tx.yearEndClose.findUnique({
+        where: { organizationId_fiscalYear: { organizationId, fiscalYear } },
+        include: { transaction: { include: { postings: true } } },
+      })
+      if (closed) {
+        return closed
+      }
+
+      // A later close already swept this year's cumulative earnings, so closing it now would count them twice
+      const laterClose = await tx.yearEndClose.findFirst({
+        where: { organizationId, fiscalYear: { gt: fiscalYear } },
+        orderBy: { fiscalYear: "asc" },
+      })
+      if (laterClose) {
+        throw ledgerError(`Fiscal year ${laterClose.fiscalYear} is already closed; close fiscal years in order`, 409)
+      }
+
+      // Closing is an adjusting entry, so a soft-closed last period still accepts it
+      await guardPeriodNotLocked(tx, organizationId, closingDate, { allowSoftClosed: true })
+
+      const { baseCurrency, lines, netIncomeCents } = await computeYearEndClose(organizationId, fiscalYear, tx)
+
+      let transactionId: string | null = null
+      if (lines.length > 0) {
+        const retainedEarnings = await getOrCreateRetainedEarningsAccount(tx, organizationId, baseCurrency)
+
+        const transaction = await tx.ledgerTransaction.create({
+          data: {
+            organizationId,
+            occurredAt: closingDate,
+            description: `Year-end close FY${fiscalYear}`,
+            idempotencyKey: `year-end-close:${fiscalYear}`,
+            createdByUserId,
+          },
+        })
+
+        const postingData = lines.map((line) => ({
+          organizationId,
+          transactionId: transaction.id,
+          accountId: line.accountId,
+          direction: line.balanceCents > 0 ? PostingDirection.CR : PostingDirection.DR,
+          amountCents: Math.abs(line.balanceCents),
+          currency: baseCurrency,
+          baseAmountCents: Math.abs(line.balanceCents),
+          fxRate: 1,
+          memo: `Close FY${fiscalYear} to retained earnings`,
+        }))
+
+        if (netIncomeCents !== 0) {
+          postingData.push({
+            organizationId,
+            transactionId: transaction.id,
+            accountId: retainedEarnings.id,
+            direction: netIncomeCents > 0 ? PostingDirection.CR : PostingDirection.DR,
+            amountCents: Math.abs(netIncomeCents),
+            currency: baseCurrency,
+            baseAmountCents: Math.abs(netIncomeCents),
+            fxRate: 1,
+            memo: netIncomeCents > 0 ? `FY${fiscalYear} net income` : `FY${fiscalYear} net loss`,
+          })
+        }
+
+        await tx.ledgerPosting.createMany({ data: postingData })
+
+        const postings = await tx.ledgerPosting.findMany({
+          where: { transactionId: transaction.id },
+        })
+        assertBalanced(postings)
+
+        await createAuditLog({
+          organizationId,
+          userId: createdByUserId,
+          action: "LEDGER_TX_CREATED",
+          entityType: "LedgerTransaction",
+          entityId: transaction.id,
+          metadata: { description: transaction.description, kind: "year_end_close", fiscalYear, netIncomeCents },
+        })
+
+        transactionId = transaction.id
+      }
+
+      const close = await tx.yearEndClose.create({
+        data: {
+          organizationId,
+          fiscalYear,
+          transactionId,
+          netIncomeCents,
+          createdByUserId,
+        },
+        include: { transaction: { include: { postings: true } } },
+      })
+
+      await createAuditLog({
+        organizationId,
+        userId: createdByUserId,
+        action: "YEAR_END_CLOSED",
+        entityType: "YearEndClose",
+        entityId: close.id,
+        metadata: { fiscalYear, netIncomeCents, lineCount: lines.length, transactionId },
+      })
+
+      return close
+    })
+  } catch (error: any) {
+    // A concurrent close for the same year won the race; return its result
+    if (error.code === "P2002") {
+      const close = await prisma.yearEndClose.findUnique({
+        where: { organizationId_fiscalYear: { organizationId, fiscalYear } },
+        include: { transaction: { include: { postings: true } } },
+      })
+      if (close) {
+        return close
+      }
+      throw ledgerError(`Year-end close for ${fiscalYear} is already in progress`, 409)
+    }
+    throw error
+  }
+}
@@ -0,0 +1,503 @@
+import { prisma } from "@/lib/prisma"
+import { createAuditLog } from "@/lib/audit-log"
+import { AccountType, BillStatus, PostingDirection } from "@prisma/client"
+import {
+  createExpenseTransaction,
+  createJournalEntry,
+  guardPeriodNotLocked,
+  ledgerError,
+  resolvePaymentAccount,
+  reverseTransaction,
+} from "@/lib/ledger/ledgerService"
+import { getBaseCurrency } from "@/lib/ledger/fxService"
+import { resolveExpenseCategory } from "@/lib/ledger/categoryService"
+import { getVendorDefaults, resolveVendor } from "@/lib/ledger/vendorService"
+import { currencyDecimals, fromMinorUnits, hasValidPrecision, toMinorUnits } from "@/lib/currency"
+
+/**
+ * Server-only accounts payable
+ * A bill is booked like an expense that is paid from the Accounts Payable system account
+ * (DR expense / CR AP on the bill date). Each payment is a journal entry DR AP / CR the paying account.
+ * Payments settle at the bill's booked rate, so AP for a foreign-currency bill clears to zero in the base
+ * currency as well. Voiding a payment or a bill reverses its transaction
+ */
+
+const ACCOUNTS_PAYABLE_ACCOUNT = { name: "Accounts Payable", code: "AP" }
+
+const billInclude = {
+  payments: { orderBy: { paidAt: "asc" as const }, include: { paymentAccount: { select: { id: true, name: true } } } },
+  receipts: true,
+}
+
+/**
+ * Gets or creates the Accounts Payable system account (LIABILITY)
+ */
+export async function getOrCreateAccountsPayableAccount(tx: any, organizationId: string) {
+  const existing = await tx.ledgerAccount.findUnique({
+    where: { organizationId_name: { organizationId, name: ACCOUNTS_PAYABLE_ACCOUNT.name } },
+  })
+
+  if (existing) {
+    if (existing.type !== AccountType.LIABILITY) {
+      throw ledgerError(`Account ${existing.name} must be a LIABILITY account`, 409)
+    }
+    return existing
+  }
+
+  const account = await tx.ledgerAccount.create({
+    data: {
+      organizationId,
+      name: ACCOUNTS_PAYABLE_ACCOUNT.name,
+      code: ACCOUNTS_PAYABLE_ACCOUNT.code,
+      type: AccountType.LIABILITY,
+      currency: await getBaseCurrency(organizationId, tx),
+      isSystem: true,
+    },
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId: "system",
+    action: "ACCOUNT_CREATED",
+    entityType: "LedgerAccount",
+    entityId: account.id,
+    metadata: { name: account.name, type: account.type, isSystem: true },
+  })
+
+  return account
+}
+
+/**
+ * Due date from payment terms: NETn is n days after the bill date, DUE_ON_RECEIPT the bill date itself
+ */
+export function dueDateFromTerms(billDate: Date, terms: string): Date {
+  if (terms === "DUE_ON_RECEIPT") {
+    return new Date(billDate)
+  }
+
+  const match = /^NET(\d{1,3})$/.exec(terms)
+  if (!match) {
+    throw ledgerError(`Unknown payment terms ${terms}`)
+  }
+
+  const dueDate = new Date(billDate)
+  dueDate.setUTCDate(dueDate.getUTCDate() + Number(match[1]))
+  return dueDate
+}
+
+function billStatusFor(amountCents: number, paidCents: number): BillStatus {
+  if (paidCents <= 0) {
+    return BillStatus.OPEN
+  }
+  return paidCents >= amountCents ? BillStatus.PAID : BillStatus.PARTIALLY_PAID
+}
+
+/**
+ * Locks a bill row for the rest of the caller's transaction so payments are applied one at a time
+ */
+async function lockBill(tx: any, organizationId: string, billId: string) {
+  await tx.$executeRaw`SELECT id FROM "Bill" WHERE id = ${billId} FOR UPDATE`
+
+  const bill = await tx.bill.findFirst({ where: { id: billId, organizationId } })
+  if (!bill) {
+    throw ledgerError("Bill not found", 404)
+  }
+
+  return bill
+}
+
+/**
+ * Lists bills, most urgent first
+ */
+export async function listBills(organizationId: string, filters: { status?: BillStatus; vendor?: string } = {}) {
+  return prisma.bill.findMany({
+    where: {
+      organizationId,
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.vendor ? { vendor: { equals: filters.vendor, mode: "insensitive" as const } } : {}),
+    },
+    include: billInclude,
+    orderBy: [{ dueDate: "asc" }, { createdAt: "asc" }],
+  })
+}
+
+/**
+ * Gets a bill with its payments and receipts
+ */
+export async function getBill(organizationId: string, billId: string) {
+  const bill = await prisma.bill.findFirst({ where: { id: billId, organizationId }, include: billInclude })
+
+  if (!bill) {
+    throw ledgerError("Bill not found", 404)
+  }
+
+  return bill
+}
+
+/**
+ * Records a vendor bill and books it DR expense / CR Accounts Payable on the bill date
+ * The due date is taken as given, else derived from the terms. A vendor's bill number may be used once
+ * among bills that are not void
+ */
+export async function createBill(input: {
+  organizationId: string
+  vendor: string
+  billNumber?: string | null
+  description: string
+  amount: number
+  currency?: string
+  billDate: Date
+  dueDate?: Date | null
+  terms?: string | null
+  category?: string | null
+  expenseAccountId?: string | null
+  taxCodeId?: string | null
+  taxAmount?: number | null
+  userId: string
+}) {
+  const { organizationId, userId } = input
+
+  const currency = input.currency || (await getBaseCurrency(organizationId))
+  const taxAmount = input.taxAmount ?? null
+  if (!hasValidPrecision(input.amount, currency) || (taxAmount !== null && !hasValidPrecision(taxAmount, currency))) {
+    throw ledgerError(`${currency} amounts allow at most ${currencyDecimals(currency)} decimal places`)
+  }
+
+  const dueDate = input.dueDate ?? (input.terms ? dueDateFromTerms(input.billDate, input.terms) : null)
+  if (!dueDate) {
+    throw ledgerError("Pass a due date or payment terms")
+  }
+  if (dueDate < input.billDate) {
+    throw ledgerError("Due date cannot be before the bill date")
+  }
+
+  const bill = await prisma.$transaction(async (tx) => {
+    const vendor = await resolveVendor(tx, organizationId, input.vendor)
+
+    if (input.billNumber) {
+      const duplicate = await tx.bill.findFirst({
+        where: {
+          organizationId,
+          vendorId: vendor.id,
+          billNumber: input.billNumber,
+          status: { not: BillStatus.VOID },
+        },
+      })
+      if (duplicate) {
+        throw ledgerError(`Bill ${input.billNumber} from ${vendor.name} is already recorded`, 409)
+      }
+    }
+
+    // The vendor's defaults apply when the bill names no category or account
+    const defaults = !input.category && !input.expenseAccountId ? await getVendorDefaults(tx, vendor) : null
+    const categoryName = input.category || defaults?.category
+    const expenseAccountId = input.expenseAccountId || defaults?.expenseAccountId || null
+
+    const payable = await getOrCreateAccountsPayableAccount(tx, organizationId)
+    const categoryRef = categoryName ? await resolveExpenseCategory(tx, organizationId, categoryName) : null
+
+    const created = await tx.bill.create({
+      data: {
+        organizationId,
+        vendor: vendor.name,
+        vendorId: vendor.id,
+        billNumber: input.billNumber || null,
+        description: input.description,
+        amount: input.amount,
+        currency,
+        billDate: input.billDate,
+        dueDate,
+        terms: input.terms || null,
+        category: categoryRef?.name ?? null,
+        categoryId: categoryRef?.id ?? null,
+        expenseAccountId,
+        taxCodeId: input.taxCodeId || null,
+        taxAmount,
+        createdById: userId,
+      },
+    })
+
+    const ledgerTransactionId = await createExpenseTransaction(
+      {
+        organizationId,
+        occurredAt: input.billDate,
+        description: input.billNumber ? `Bill ${input.billNumber}: ${input.description}` : input.description,
+        amountCents: toMinorUnits(input.amount, currency),
+        currency,
+        category: categoryRef?.name ?? null,
+        expenseAccountId,
+        taxCodeId: input.taxCodeId,
+        taxAmountCents: taxAmount !== null ? toMinorUnits(taxAmount, currency) : null,
+        vendor: vendor.name,
+        vendorId: vendor.id,
+        paymentAccountId: payable.id,
+        idempotencyKey: `bill:${created.id}`,
+        createdByUserId: userId,
+      },
+      tx
+    )
+
+    return tx.bill.update({ where: { id: created.id }, data: { ledgerTransactionId }, include: billInclude })
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "BILL_CREATED",
+    entityType: "Bill",
+    entityId: bill.id,
+    metadata: {
+      vendor: bill.vendor,
+      billNumber: bill.billNumber,
+      amount: input.amount,
+      currency,
+      dueDate: bill.dueDate,
+      ledgerTransactionId: bill.ledgerTransactionId,
+    },
+  })
+
+  return bill
+}
+
+/**
+ * Records a full or partial payment of a bill, DR Accounts Payable / CR the paying account on paidAt
+ * The payment may not exceed what is still outstanding and its period must be open. Its base amount is the
+ * paid share of the bill's booked AP credit; the payment that settles the bill takes whatever is left
+ */
+export async function recordBillPayment(input: {
+  organizationId: string
+  billId: string
+  amount: number
+  paidAt: Date
+  paymentAccountId?: string | null
+  reference?: string | null
+  userId: string
+}) {
+  const { organizationId, billId, paidAt, userId } = input
+
+  const { bill, payment } = await prisma.$transaction(async (tx) => {
+    const bill = await lockBill(tx, organizationId, billId)
+
+    if (bill.status === BillStatus.VOID) {
+      throw ledgerError("Bill is void", 409)
+    }
+    if (!bill.ledgerTransactionId) {
+      throw ledgerError("Bill has no ledger transaction", 409)
+    }
+    if (!hasValidPrecision(input.amount, bill.currency)) {
+      throw ledgerError(`${bill.currency} amounts allow at most ${currencyDecimals(bill.currency)} decimal places`)
+    }
+    if (paidAt < bill.billDate) {
+      throw ledgerError("A payment cannot be dated before the bill")
+    }
+
+    const billCents = toMinorUnits(Number(bill.amount), bill.currency)
+    const paidCents = toMinorUnits(Number(bill.paidAmount), bill.currency)
+    const amountCents = toMinorUnits(input.amount, bill.currency)
+    const outstandingCents = billCents - paidCents
+    if (amountCents > outstandingCents) {
+      throw ledgerError(
+        `Payment of ${input.amount} ${bill.currency} exceeds the outstanding ${fromMinorUnits(outstandingCents, bill.currency)} ${bill.currency}`
+      )
+    }
+
+    // Payments are not adjusting entries, so soft-closed periods refuse them as they refuse expenses
+    await guardPeriodNotLocked(tx, organizationId, paidAt)
+
+    const payable = await getOrCreateAccountsPayableAccount(tx, organizationId)
+    const paymentAccountId = await resolvePaymentAccount(tx, organizationId, input.paymentAccountId)
+    if (paymentAccountId === payable.id) {
+      throw ledgerError("A bill cannot be paid from Accounts Payable")
+    }
+
+    const billCredit = await tx.ledgerPosting.findFirst({
+      where: { transactionId: bill.ledgerTransactionId, accountId: payable.id, direction: PostingDirection.CR },
+    })
+    if (!billCredit) {
+      throw ledgerError("Bill has no Accounts Payable posting", 409)
+    }
+
+    const activePayments = await tx.billPayment.findMany({
+      where: { billId: bill.id, voidedAt: null, ledgerTransactionId: { not: null } },
+      select: { ledgerTransactionId: true },
+    })
+    const paidBase = await tx.ledgerPosting.aggregate({
+      where: {
+        transactionId: { in: activePayments.map((p: { ledgerTransactionId: string | null }) => p.ledgerTransactionId!) },
+        accountId: payable.id,
+        direction: PostingDirection.DR,
+      },
+      _sum: { baseAmountCents: true },
+    })
+    const billBaseCents = billCredit.baseAmountCents ?? billCredit.amountCents
+    const baseAmountCents = amountCents === outstandingCents
+      ? billBaseCents - (paidBase._sum.baseAmountCents || 0)
+      : Math.round((billBaseCents * amountCents) / billCents)
+
+    const payment = await tx.billPayment.create({
+      data: {
+        organizationId,
+        billId: bill.id,
+        amount: fromMinorUnits(amountCents, bill.currency),
+        paidAt,
+        paymentAccountId,
+        reference: input.reference || null,
+        createdById: userId,
+      },
+    })
+
+    const description = `Payment: ${bill.billNumber ? `Bill ${bill.billNumber}` : bill.description}`
+    const entry = await createJournalEntry(
+      {
+        organizationId,
+        occurredAt: paidAt,
+        description,
+        vendor: bill.vendor,
+        vendorId: bill.vendorId,
+        externalRef: input.reference || null,
+        idempotencyKey: `bill-payment:${payment.id}`,
+        createdByUserId: userId,
+        lines: [
+          { accountId: payable.id, direction: PostingDirection.DR, amountCents, currency: bill.currency, baseAmountCents, memo: description },
+          { accountId: paymentAccountId, direction: PostingDirection.CR, amountCents, currency: bill.currency, baseAmountCents, memo: description },
+        ],
+      },
+      tx
+    )
+
+    const updatedPayment = await tx.billPayment.update({
+      where: { id: payment.id },
+      data: { ledgerTransactionId: entry.id },
+    })
+
+    const updatedBill = await tx.bill.update({
+      where: { id: bill.id },
+      data: {
+        paidAmount: fromMinorUnits(paidCents + amountCents, bill.currency),
+        status: billStatusFor(billCents, paidCents + amountCents),
+      },
+      include: billInclude,
+    })
+
+    return { bill: updatedBill, payment: updatedPayment }
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "BILL_PAYMENT_RECORDED",
+    entityType: "BillPayment",
+    entityId: payment.id,
+    metadata: {
+      billId,
+      amount: input.amount,
+      currency: bill.currency,
+      paidAt,
+      paymentAccountId: payment.paymentAccountId,
+      ledgerTransactionId: payment.ledgerTransactionId,
+      status: bill.status,
+    },
+  })
+
+  return { bill, payment }
+}
+
+/**
+ * Voids a bill payment by reversing its transaction; the amount becomes outstanding again
+ */
+export async function voidBillPayment(input: {
+  organizationId: string
+  billId: string
+  paymentId: string
+  reason?: string
+  userId: string
+}) {
+  const { organizationId, billId, paymentId, userId } = input
+  const reason = input.reason || "Bill payment voided"
+
+  const bill = await prisma.$transaction(async (tx) => {
+    const bill = await lockBill(tx, organizationId, billId)
+
+    const payment = await tx.billPayment.findFirst({ where: { id: paymentId, billId, organizationId } })
+    if (!payment) {
+      throw ledgerError("Payment not found", 404)
+    }
+    if (payment.voidedAt) {
+      throw ledgerError("Payment is already void", 409)
+    }
+
+    if (payment.ledgerTransactionId) {
+      await reverseTransaction(
+        { organizationId, transactionId: payment.ledgerTransactionId, reason, createdByUserId: userId },
+        tx
+      )
+    }
+
+    await tx.billPayment.update({ where: { id: payment.id }, data: { voidedAt: new Date() } })
+
+    const billCents = toMinorUnits(Number(bill.amount), bill.currency)
+    const paidCents = toMinorUnits(Number(bill.paidAmount), bill.currency) - toMinorUnits(Number(payment.amount), bill.currency)
+    return tx.bill.update({
+      where: { id: bill.id },
+      data: { paidAmount: fromMinorUnits(paidCents, bill.currency), status: billStatusFor(billCents, paidCents) },
+      include: billInclude,
+    })
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "BILL_PAYMENT_VOIDED",
+    entityType: "BillPayment",
+    entityId: paymentId,
+    metadata: { billId, reason, status: bill.status },
+  })
+
+  return bill
+}
+
+/**
+ * Voids a bill by reversing its transaction
+ * A bill with payments that are not void cannot be voided; void the payments first
+ */
+export async function voidBill(input: { organizationId: string; billId: string; reason?: string; userId: string }) {
+  const { organizationId, billId, userId } = input
+  const reason = input.reason || "Bill voided"
+
+  const bill = await prisma.$transaction(async (tx) => {
+    const bill = await lockBill(tx, organizationId, billId)
+
+    if (bill.status === BillStatus.VOID) {
+      throw ledgerError("Bill is already void", 409)
+    }
+
+    const activePayments = await tx.billPayment.count({ where: { billId: bill.id, voidedAt: null } })
+    if (activePayments > 0) {
+      throw ledgerError("Void the bill's payments before voiding the bill", 409)
+    }
+
+    if (bill.ledgerTransactionId) {
+      await reverseTransaction(
+        { organizationId, transactionId: bill.ledgerTransactionId, reason, createdByUserId: userId },
+        tx
+      )
+    }
+
+    return tx.bill.update({
+      where: { id: bill.id },
+      data: { status: BillStatus.VOID, voidedAt: new Date() },
+      include: billInclude,
+    })
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "BILL_VOIDED",
+    entityType: "Bill",
+    entityId: bill.id,
+    metadata: { reason, ledgerTransactionId: bill.ledgerTransactionId },
+  })
+
+  return bill
+}
@@ -0,0 +1,606 @@
+import { prisma } from "@/lib/prisma"
+import { createAuditLog } from "@/lib/audit-log"
+import { AccountType, ExpenseReportStatus, PostingDirection } from "@prisma/client"
+import {
+  createJournalEntry,
+  guardPeriodNotLocked,
+  ledgerError,
+  rebookExpenseTransaction,
+  resolvePaymentAccount,
+} from "@/lib/ledger/ledgerService"
+import { getBaseCurrency, groupBaseAmounts } from "@/lib/ledger/fxService"
+import { fromMinorUnits, toMinorUnits } from "@/lib/currency"
+
+/**
+ * Server-only employee expense reports
+ * Reimbursable expenses are recorded without postings. An employee groups them into a report and submits
+ * it; approval books each expense DR expense / CR the employee's sub-ledger account under Employee
+ * Reimbursements Payable, on the expense date. The payout is a journal entry DR the employee's account /
+ * CR the paying account for the report's base-currency total, which clears the liability exactly.
+ * Expenses on a submitted, approved or paid report cannot be changed or deleted
+ */
+
+const REIMBURSEMENTS_PAYABLE_ACCOUNT = { name: "Employee Reimbursements Payable", code: "EMP_REIMB" }
+
+// Reports whose expenses are fixed: awaiting a decision or already posted
+const LOCKED_STATUSES: ExpenseReportStatus[] = [
+  ExpenseReportStatus.SUBMITTED,
+  ExpenseReportStatus.APPROVED,
+  ExpenseReportStatus.PAID,
+]
+
+// Reports the employee may still change
+const OPEN_STATUSES: ExpenseReportStatus[] = [ExpenseReportStatus.DRAFT, ExpenseReportStatus.REJECTED]
+
+const reportInclude = {
+  expenses: {
+    where: { deletedAt: null },
+    orderBy: { date: "asc" as const },
+    include: { receipts: true, lines: { orderBy: { position: "asc" as const } } },
+  },
+  payoutAccount: { select: { id: true, name: true } },
+}
+
+async function createSystemAccount(tx: any, organizationId: string, data: Record<string, any>) {
+  const account = await tx.ledgerAccount.create({
+    data: {
+      organizationId,
+      type: AccountType.LIABILITY,
+      currency: await getBaseCurrency(organizationId, tx),
+      isSystem: true,
+      ...data,
+    },
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId: "system",
+    action: "ACCOUNT_CREATED",
+    entityType: "LedgerAccount",
+    entityId: account.id,
+    metadata: { name: account.name, type: account.type, isSystem: true, employeeId: account.employeeId },
+  })
+
+  return account
+}
+
+/**
+ * Gets or creates an employee's sub-ledger account (LIABILITY) under Employee Reimbursements Payable
+ */
+export async function getOrCreateReimbursementsAccount(tx: any, organizationId: string, employeeId: string) {
+  const existing = await tx.ledgerAccount.findUnique({
+    where: { organizationId_employeeId: { organizationId, employeeId } },
+  })
+  if (existing) {
+    return existing
+  }
+
+  let parent = await tx.ledgerAccount.findUnique({
+    where: { organizationId_name: { organizationId, name: REIMBURSEMENTS_PAYABLE_ACCOUNT.name } },
+  })
+  if (parent && parent.type !== AccountType.LIABILITY) {
+    throw ledgerError(`Account ${parent.name} must be a LIABILITY account`, 409)
+  }
+  if (!parent) {
+    parent = await createSystemAccount(tx, organizationId, REIMBURSEMENTS_PAYABLE_ACCOUNT)
+  }
+
+  const user = await tx.user.findUnique({ where: { id: employeeId }, select: { name: true, email: true } })
+  if (!user) {
+    throw ledgerError("Employee not found", 404)
+  }
+
+  return createSystemAccount(tx, organizationId, {
+    name: `${REIMBURSEMENTS_PAYABLE_ACCOUNT.name}: ${user.name ? `${user.name} (${user.email})` : user.email}`,
+    parentId: parent.id,
+    employeeId,
+  })
+}
+
+/**
+ * Throws 409 when an expense sits on a report that fixes it; unposted reimbursable expenses on a draft or
+ * rejected report may still be changed
+ */
+export async function assertExpenseEditable(tx: any, expense: { expenseReportId: string | null }) {
+  if (!expense.expenseReportId) {
+    return
+  }
+
+  const report = await tx.expenseReport.findUnique({
+    where: { id: expense.expenseReportId },
+    select: { status: true },
+  })
+  if (report && LOCKED_STATUSES.includes(report.status)) {
+    throw ledgerError(`Expense is on a ${report.status.toLowerCase()} expense report`, 409)
+  }
+}
+
+/**
+ * Locks a report row for the rest of the caller's transaction so status changes apply one at a time
+ */
+async function lockExpenseReport(tx: any, organizationId: string, reportId: string) {
+  await tx.$executeRaw`SELECT id FROM "ExpenseReport" WHERE id = ${reportId} FOR UPDATE`
+
+  const report = await tx.expenseReport.findFirst({ where: { id: reportId, organizationId } })
+  if (!report) {
+    throw ledgerError("Expense report not found", 404)
+  }
+
+  return report
+}
+
+/**
+ * Locks a report the employee is still putting together
+ */
+async function lockOpenReport(tx: any, organizationId: string, reportId: string, userId: string) {
+  const report = await lockExpenseReport(tx, organizationId, reportId)
+
+  if (report.employeeId !== userId) {
+    throw ledgerError("Only the employee can change their expense report", 403)
+  }
+  if (!OPEN_STATUSES.includes(report.status)) {
+    throw ledgerError(`Expense report is ${report.status.toLowerCase()}`, 409)
+  }
+
+  return report
+}
+
+/**
+ * Replaces the expenses on a report; each must be an unposted reimbursable expense of the employee that
+ * is not on another report
+ */
+async function setReportExpenses(tx: any, report: { id: string; organizationId: string; employeeId: string }, expenseIds: string[]) {
+  const ids = Array.from(new Set(expenseIds))
+
+  const expenses = await tx.expense.findMany({
+    where: {
+      id: { in: ids },
+      organizationId: report.organizationId,
+      createdById: report.employeeId,
+      reimbursable: true,
+      ledgerTransactionId: null,
+      deletedAt: null,
+      OR: [{ expenseReportId: null }, { expenseReportId: report.id }],
+    },
+    select: { id: true },
+  })
+  if (expenses.length !== ids.length) {
+    throw ledgerError("Expenses must be the employee's own reimbursable expenses and not on another report")
+  }
+
+  await tx.expense.updateMany({
+    where: { expenseReportId: report.id, id: { notIn: ids } },
+    data: { expenseReportId: null },
+  })
+  await tx.expense.updateMany({
+    where: { id: { in: ids } },
+    data: { expenseReportId: report.id },
+  })
+}
+
+/**
+ * Expense totals of a report per currency
+ */
+function withTotals<T extends { expenses: { amount: any; currency: string }[] }>(report: T) {
+  const cents = new Map<string, number>()
+  for (const expense of report.expenses) {
+    cents.set(expense.currency, (cents.get(expense.currency) || 0) + toMinorUnits(Number(expense.amount), expense.currency))
+  }
+
+  return {
+    ...report,
+    totals: Array.from(cents.entries()).map(([currency, amountCents]) => ({
+      currency,
+      amount: fromMinorUnits(amountCents, currency),
+    })),
+  }
+}
+
+/**
+ * Lists expense reports, newest first
+ */
+export async function listExpenseReports(
+  organizationId: string,
+  filters: { status?: ExpenseReportStatus; employeeId?: string } = {}
+) {
+  const reports = await prisma.expenseReport.findMany({
+    where: {
+      organizationId,
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.employeeId ? { employeeId: filters.employeeId } : {}),
+    },
+    include: reportInclude,
+    orderBy: { createdAt: "desc" },
+  })
+
+  return reports.map(withTotals)
+}
+
+/**
+ * Gets a report with its expenses and totals
+ */
+export async function getExpenseReport(organizationId: string, reportId: string) {
+  const report = await prisma.expenseReport.findFirst({ where: { id: reportId, organizationId }, include: reportInclude })
+
+  if (!report) {
+    throw ledgerError("Expense report not found", 404)
+  }
+
+  return withTotals(report)
+}
+
+/**
+ * Starts a draft report for the acting employee
+ */
+export async function createExpenseReport(input: {
+  organizationId: string
+  title: string
+  expenseIds?: string[]
+  userId: string
+}) {
+  const { organizationId, userId } = input
+
+  const report = await prisma.$transaction(async (tx) => {
+    const report = await tx.expenseReport.create({
+      data: { organizationId, employeeId: userId, title: input.title },
+    })
+
+    if (input.expenseIds && input.expenseIds.length > 0) {
+      await setReportExpenses(tx, report, input.expenseIds)
+    }
+
+    return tx.expenseReport.findUniqueOrThrow({ where: { id: report.id }, include: reportInclude })
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "EXPENSE_REPORT_CREATED",
+    entityType: "ExpenseReport",
+    entityId: report.id,
+    metadata: { title: report.title, expenseIds: report.expenses.map((expense) => expense.id) },
+  })
+
+  return withTotals(report)
+}
+
+/**
+ * Renames a draft or rejected report or replaces its expenses; only the employee may change it
+ */
+export async function updateExpenseReport(input: {
+  organizationId: string
+  reportId: string
+  title?: string
+  expenseIds?: string[]
+  userId: string
+}) {
+  const { organizationId, reportId, userId } = input
+
+  const report = await prisma.$transaction(async (tx) => {
+    const report = await lockOpenReport(tx, organizationId, reportId, userId)
+
+    if (input.expenseIds !== undefined) {
+      await setReportExpenses(tx, report, input.expenseIds)
+    }
+
+    return tx.expenseReport.update({
+      where: { id: report.id },
+      data: input.title !== undefined ? { title: input.title } : {},
+      include: reportInclude,
+    })
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "EXPENSE_REPORT_UPDATED",
+    entityType: "ExpenseReport",
+    entityId: report.id,
+    metadata: { title: input.title, expenseIds: input.expenseIds },
+  })
+
+  return withTotals(report)
+}
+
+/**
+ * Deletes a draft or rejected report; its expenses stay and can go on another report
+ */
+export async function deleteExpenseReport(input: { organizationId: string; reportId: string; userId: string }) {
+  const { organizationId, reportId, userId } = input
+
+  await prisma.$transaction(async (tx) => {
+    const report = await lockOpenReport(tx, organizationId, reportId, userId)
+
+    await tx.expense.updateMany({ where: { expenseReportId: report.id }, data: { expenseReportId: null } })
+    await tx.expenseReport.delete({ where: { id: report.id } })
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "EXPENSE_REPORT_DELETED",
+    entityType: "ExpenseReport",
+    entityId: reportId,
+  })
+}
+
+/**
+ * Submits a draft or rejected report for approval; it must have at least one expense
+ */
+export async function submitExpenseReport(input: { organizationId: string; reportId: string; userId: string }) {
+  const { organizationId, reportId, userId } = input
+
+  const report = await prisma.$transaction(async (tx) => {
+    const report = await lockOpenReport(tx, organizationId, reportId, userId)
+
+    const expenseCount = await tx.expense.count({ where: { expenseReportId: report.id, deletedAt: null } })
+    if (expenseCount === 0) {
+      throw ledgerError("An expense report needs at least one expense")
+    }
+
+    return tx.expenseReport.update({
+      where: { id: report.id },
+      data: {
+        status: ExpenseReportStatus.SUBMITTED,
+        submittedAt: new Date(),
+        decidedAt: null,
+        decidedById: null,
+        rejectionReason: null,
+      },
+      include: reportInclude,
+    })
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "EXPENSE_REPORT_SUBMITTED",
+    entityType: "ExpenseReport",
+    entityId: report.id,
+    metadata: { expenseCount: report.expenses.length },
+  })
+
+  return withTotals(report)
+}
+
+/**
+ * Locks a submitted report for a decision; employees cannot decide on their own reports
+ */
+async function lockSubmittedReport(tx: any, organizationId: string, reportId: string, userId: string) {
+  const report = await lockExpenseReport(tx, organizationId, reportId)
+
+  if (report.status !== ExpenseReportStatus.SUBMITTED) {
+    throw ledgerError(`Expense report is ${report.status.toLowerCase()}`, 409)
+  }
+  if (report.employeeId === userId) {
+    throw ledgerError("Expense reports cannot be approved or rejected by their employee", 403)
+  }
+
+  return report
+}
+
+/**
+ * Approves a submitted report and posts each expense DR expense / CR the employee's reimbursements
+ * account on its expense date. Every expense date must fall in an open period
+ */
+export async function approveExpenseReport(input: { organizationId: string; reportId: string; userId: string }) {
+  const { organizationId, reportId, userId } = input
+
+  const report = await prisma.$transaction(async (tx) => {
+    const report = await lockSubmittedReport(tx, organizationId, reportId, userId)
+    const account = await getOrCreateReimbursementsAccount(tx, organizationId, report.employeeId)
+
+    const expenses = await tx.expense.findMany({ where: { expenseReportId: report.id, deletedAt: null } })
+    for (const expense of expenses) {
+      const ledgerTransactionId = await rebookExpenseTransaction(
+        tx,
+        { ...expense, paymentAccountId: account.id, ledgerTransactionId: null },
+        { category: expense.category, expenseAccountId: expense.expenseAccountId },
+        `Expense report ${report.title} approved`,
+        userId
+      )
+
+      await tx.expense.update({
+        where: { id: expense.id },
+        data: { paymentAccountId: account.id, ledgerTransactionId },
+      })
+    }
+
+    return tx.expenseReport.update({
+      where: { id: report.id },
+      data: { status: ExpenseReportStatus.APPROVED, decidedAt: new Date(), decidedById: userId },
+      include: reportInclude,
+    })
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "EXPENSE_REPORT_APPROVED",
+    entityType: "ExpenseReport",
+    entityId: report.id,
+    metadata: { employeeId: report.employeeId, expenseCount: report.expenses.length },
+  })
+
+  return withTotals(report)
+}
+
+/**
+ * Returns a submitted report to the employee with a reason; nothing is posted
+ */
+export async function rejectExpenseReport(input: {
+  organizationId: string
+  reportId: string
+  reason: string
+  userId: string
+}) {
+  const { organizationId, reportId, reason, userId } = input
+
+  const report = await prisma.$transaction(async (tx) => {
+    const report = await lockSubmittedReport(tx, organizationId, reportId, userId)
+
+    return tx.expenseReport.update({
+      where: { id: report.id },
+      data: {
+        status: ExpenseReportStatus.REJECTED,
+        decidedAt: new Date(),
+        decidedById: userId,
+        rejectionReason: reason,
+      },
+      include: reportInclude,
+    })
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "EXPENSE_REPORT_REJECTED",
+    entityType: "ExpenseReport",
+    entityId: report.id,
+    metadata: { employeeId: report.employeeId, reason },
+  })
+
+  return withTotals(report)
+}
+
+/**
+ * Pays out an approved report, DR the employee's reimbursements account / CR the paying account on paidAt
+ * The amount is the base-currency total the report's expenses credited to the employee's account, so
+ * foreign-currency expenses are reimbursed at the rates they were booked at. The period must be open
+ */
+export async function payExpenseReport(input: {
+  organizationId: string
+  reportId: string
+  paidAt: Date
+  paymentAccountId?: string | null
+  reference?: string | null
+  userId: string
+}) {
+  const { organizationId, reportId, paidAt, userId } = input
+
+  const report = await prisma.$transaction(async (tx) => {
+    const report = await lockExpenseReport(tx, organizationId, reportId)
+    if (report.status !== ExpenseReportStatus.APPROVED) {
+      throw ledgerError(`Expense report is ${report.status.toLowerCase()}`, 409)
+    }
+
+    // Payouts are not adjusting entries, so soft-closed periods refuse them as they refuse expenses
+    await guardPeriodNotLocked(tx, organizationId, paidAt)
+
+    const account = await getOrCreateReimbursementsAccount(tx, organizationId, report.employeeId)
+    const paymentAccountId = await resolvePaymentAccount(tx, organizationId, input.paymentAccountId)
+    if (paymentAccountId === account.id || paymentAccountId === account.parentId) {
+      throw ledgerError("A reimbursement cannot be paid from Employee Reimbursements Payable")
+    }
+
+    const expenses = await tx.expense.findMany({
+      where: { expenseReportId: report.id, deletedAt: null, ledgerTransactionId: { not: null } },
+      select: { ledgerTransactionId: true },
+    })
+    const credited = await tx.ledgerPosting.aggregate({
+      where: {
+        transactionId: { in: expenses.map((expense: { ledgerTransactionId: string | null }) => expense.ledgerTransactionId!) },
+        accountId: account.id,
+        direction: PostingDirection.CR,
+      },
+      _sum: { baseAmountCents: true },
+    })
+    const amountCents = credited._sum.baseAmountCents || 0
+    if (amountCents <= 0) {
+      throw ledgerError("Expense report has nothing to reimburse", 409)
+    }
+
+    const currency = await getBaseCurrency(organizationId, tx)
+    const description = `Reimbursement: ${report.title}`
+    const entry = await createJournalEntry(
+      {
+        organizationId,
+        occurredAt: paidAt,
+        description,
+        externalRef: input.reference || null,
+        idempotencyKey: `expense-report-payout:${report.id}`,
+        createdByUserId: userId,
+        lines: [
+          { accountId: account.id, direction: PostingDirection.DR, amountCents, currency, memo: description },
+          { accountId: paymentAccountId, direction: PostingDirection.CR, amountCents, currency, memo: description },
+        ],
+      },
+      tx
+    )
+
+    return tx.expenseReport.update({
+      where: { id: report.id },
+      data: {
+        status: ExpenseReportStatus.PAID,
+        paidAt,
+        payoutAccountId: paymentAccountId,
+        payoutReference: input.reference || null,
+        payoutTransactionId: entry.id,
+      },
+      include: reportInclude,
+    })
+  })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "EXPENSE_REPORT_PAID",
+    entityType: "ExpenseReport",
+    entityId: report.id,
+    metadata: {
+      employeeId: report.employeeId,
+      paidAt,
+      paymentAccountId: report.payoutAccountId,
+      ledgerTransactionId: report.payoutTransactionId,
+    },
+  })
+
+  return withTotals(report)
+}
+
+/**
+ * Outstanding reimbursements per employee, in the organization's base currency: the balance of each
+ * employee's sub-ledger account, with the approved reports still to be paid
+ */
+export async function getReimbursementBalances(organizationId: string) {
+  const [baseCurrency, accounts, unpaidReports] = await Promise.all([
+    getBaseCurrency(organizationId),
+    prisma.ledgerAccount.findMany({
+      where: { organizationId, employeeId: { not: null } },
+      orderBy: { name: "asc" },
+    }),
+    prisma.expenseReport.findMany({
+      where: { organizationId, status: ExpenseReportStatus.APPROVED },
+      select: { id: true, title: true, employeeId: true, decidedAt: true },
+      orderBy: { decidedAt: "asc" },
+    }),
+  ])
+
+  const sums = await groupBaseAmounts<{ accountId: string; direction: PostingDirection }>(prisma, ["accountId", "direction"], {
+    organizationId,
+    accountId: { in: accounts.map((account) => account.id) },
+  })
+
+  const balances = new Map<string, number>()
+  for (const sum of sums) {
+    const signed = sum.baseAmountCents * (sum.direction === PostingDirection.CR ? 1 : -1)
+    balances.set(sum.accountId, (balances.get(sum.accountId) || 0) + signed)
+  }
+
+  const employees = accounts.map((account) => ({
+    employeeId: account.employeeId!,
+    accountId: account.id,
+    accountName: account.name,
+    outstanding: fromMinorUnits(balances.get(account.id) || 0, baseCurrency),
+    unpaidReports: unpaidReports.filter((report) => report.employeeId === account.employeeId),
+  }))
+
+  return {
+    currency: baseCurrency,
+    employees,
+    total: fromMinorUnits(
+      accounts.reduce((sum, account) => sum + (balances.get(account.id) || 0), 0),
+      baseCurrency
+    ),
+  }
+}
@@ -0,0 +1,110 @@
+import { AccountType } from "@prisma/client"
+
+/**
+ * Helpers for rolling child account amounts up into parent subtotals
+ * Pure functions: callers load accounts and per-account amounts, these shape the tree
+ */
+
+export interface AccountNode {
+  id: string
+  name: string
+  code: string | null
+  type: AccountType
+  parentId: string | null
+}
+
+export interface RolledUpAccountLine<K extends string> {
+  accountId: string
+  name: string
+  code: string | null
+  type: AccountType
+  parentId: string | null
+  depth: number
+  /** True when the line has children shown beneath it */
+  hasChildren: boolean
+  /** Amounts posted directly to this account */
+  own: Record<K, number>
+  /** Own amounts plus every descendant's amounts, including folded descendants */
+  total: Record<K, number>
+}
+
+function zeroes<K extends string>(columns: readonly K[]): Record<K, number> {
+  return columns.reduce((acc, column) => {
+    acc[column] = 0
+    return acc
+  }, {} as Record<K, number>)
+}
+
+/**
+ * Rolls per-account amounts up the account tree
+ * Returns lines in depth-first order; accounts deeper than maxDepth are folded into
+ * their ancestor's total and omitted. Subtrees with no amounts are dropped unless includeZero is set
+ */
+export function rollUpAccounts<K extends string>(
+  accounts: AccountNode[],
+  amounts: Map<string, Record<K, number>>,
+  columns: readonly K[],
+  options: { maxDepth?: number; includeZero?: boolean } = {}
+): Array<RolledUpAccountLine<K>> {
+  const { maxDepth, includeZero = false } = options
+  const ids = new Set(accounts.map((a) => a.id))
+  const childrenOf = new Map<string | null, AccountNode[]>()
+
+  for (const account of accounts) {
+    // Parents outside the given set (e.g. a different type) are treated as roots
+    const key = account.parentId && ids.has(account.parentId) ? account.parentId : null
+    childrenOf.set(key, [...(childrenOf.get(key) || []), account])
+  }
+
+  Array.from(childrenOf.values()).forEach((siblings) =>
+    siblings.sort((a, b) => (a.code || a.name).localeCompare(b.code || b.name))
+  )
+
+  const lines: Array<RolledUpAccountLine<K>> = []
+  const visiting = new Set<string>()
+
+  const visit = (account: AccountNode, depth: number): { total: Record<K, number>; lines: Array<RolledUpAccountLine<K>> } => {
+    const own = { ...zeroes(columns), ...(amounts.get(account.id) || {}) }
+    const total = { ...own }
+    const childLines: Array<RolledUpAccountLine<K>> = []
+
+    if (!visiting.has(account.id)) {
+      visiting.add(account.id)
+      for (const child of childrenOf.get(account.id) || []) {
+        const result = visit(child, depth + 1)
+        for (const column of columns) {
+          total[column] += result.total[column]
+        }
+        childLines.push(...result.lines)
+      }
+      visiting.delete(account.id)
+    }
+
+    const hidden = maxDepth !== undefined && depth > maxDepth
+    const isZero = columns.every((column) => total[column] === 0)
+    if (hidden || (isZero && !includeZero)) {
+      return { total, lines: [] }
+    }
+
+    const showChildren = maxDepth === undefined || depth < maxDepth
+    const line: RolledUpAccountLine<K> = {
+      accountId: account.id,
+      name: account.name,
+      code: account.code,
+      type: account.type,
+      parentId: account.parentId,
+      depth,
+      hasChildren: showChildren && childLines.length > 0,
+      own,
+      total,
+    }
+
+    return { total, lines: [line, ...(showChildren ? childLines : [])] }
+  }
+
+  for (const root of childrenOf.get(null) || []) {
+    lines.push(...visit(root, 0).lines)
+  }
+
+  return lines
+}
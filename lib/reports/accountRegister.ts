@@ -0,0 +1,172 @@
+import { prisma } from "@/lib/prisma"
+import { PostingDirection } from "@prisma/client"
+import { isDebitNormal } from "@/lib/ledger/accountService"
+import { ledgerError } from "@/lib/ledger/ledgerService"
+import { baseAmountOf, getBaseCurrency, groupBaseAmounts } from "@/lib/ledger/fxService"
+import { fromMinorUnits } from "@/lib/currency"
+
+/**
+ * General ledger register for a single account
+ * Every posting (reversals included) in date order with a running balance
+ * Balances are in the organization's base currency, signed by the account's normal side;
+ * each entry also carries its original currency amount
+ */
+
+interface RegisterFilters {
+  organizationId: string
+  accountId: string
+  startDate?: Date
+  endDate?: Date
+  cursor?: string
+  limit?: number
+}
+
+const DEFAULT_LIMIT = 50
+
+/**
+ * Sums an account's postings matching a filter, signed by the account's normal side
+ */
+async function sumPostings(organizationId: string, accountId: string, debitNormal: boolean, where: Record<string, any>) {
+  const sums = await groupBaseAmounts<{ direction: PostingDirection }>(prisma, ["direction"], { organizationId, accountId, ...where })
+
+  const debitCents = sums.find((s) => s.direction === PostingDirection.DR)?.baseAmountCents || 0
+  const creditCents = sums.find((s) => s.direction === PostingDirection.CR)?.baseAmountCents || 0
+
+  return debitNormal ? debitCents - creditCents : creditCents - debitCents
+}
+
+export async function getAccountRegister(filters: RegisterFilters) {
+  const { organizationId, accountId, startDate, endDate, cursor, limit = DEFAULT_LIMIT } = filters
+
+  const account = await prisma.ledgerAccount.findFirst({
+    where: { id: accountId, organizationId },
+  })
+
+  if (!account) {
+    throw ledgerError("Account not found", 404)
+  }
+
+  const debitNormal = isDebitNormal(account.type)
+  const baseCurrency = await getBaseCurrency(organizationId)
+  const toAmount = (cents: number) => fromMinorUnits(cents, baseCurrency)
+
+  const occurredAt: Record<string, Date> = {}
+  if (startDate) occurredAt.gte = startDate
+  if (endDate) occurredAt.lte = endDate
+  const rangeWhere = startDate || endDate ? { transaction: { occurredAt } } : {}
+
+  // Postings are ordered by transaction date, then posting id for a stable cursor
+  let balanceBeforePageCents: number
+  let cursorWhere: Record<string, any> = {}
+
+  const openingCents = startDate
+    ? await sumPostings(organizationId, accountId, debitNormal, {
+        transaction: { occurredAt: { lt: startDate } },
+      })
+    : 0
+
+  if (cursor) {
+    const cursorPosting = await prisma.ledgerPosting.findFirst({
+      where: { id: cursor, organizationId, accountId },
+      include: { transaction: { select: { occurredAt: true } } },
+    })
+
+    if (!cursorPosting) {
+      throw ledgerError("Invalid cursor", 400)
+    }
+
+    const cursorDate = cursorPosting.transaction.occurredAt
+    const throughCursor = {
+      OR: [
+        { transaction: { occurredAt: { lt: cursorDate } } },
+        { transaction: { occurredAt: cursorDate }, id: { lte: cursor } },
+      ],
+    }
+    cursorWhere = {
+      OR: [
+        { transaction: { occurredAt: { gt: cursorDate } } },
+        { transaction: { occurredAt: cursorDate }, id: { gt: cursor } },
+      ],
+    }
+
+    balanceBeforePageCents =
+      openingCents +
+      (await sumPostings(organizationId, accountId, debitNormal, {
+        AND: [rangeWhere, throughCursor],
+      }))
+  } else {
+    balanceBeforePageCents = openingCents
+  }
+
+  const [postings, rangeCents] = await Promise.all([
+    prisma.ledgerPosting.findMany({
+      where: {
+        organizationId,
+        accountId,
+        AND: [rangeWhere, cursorWhere],
+      },
+      include: {
+        transaction: {
+          include: {
+            expense: { select: { id: true, description: true, deletedAt: true } },
+            attachmentLinks: {
+              include: {
+                receipt: { select: { id: true, filename: true, mimeType: true } },
+              },
+            },
+          },
+        },
+      },
+      orderBy: [{ transaction: { occurredAt: "asc" } }, { id: "asc" }],
+      take: limit + 1,
+    }),
+    sumPostings(organizationId, accountId, debitNormal, rangeWhere),
+  ])
+
+  const hasMore = postings.length > limit
+  const page = hasMore ? postings.slice(0, limit) : postings
+
+  let runningCents = balanceBeforePageCents
+  const entries = page.map((posting) => {
+    const isDebit = posting.direction === PostingDirection.DR
+    const baseCents = baseAmountOf(posting)
+    runningCents += isDebit === debitNormal ? baseCents : -baseCents
+
+    return {
+      postingId: posting.id,
+      transactionId: posting.transactionId,
+      occurredAt: posting.transaction.occurredAt,
+      description: posting.transaction.description,
+      vendor: posting.transaction.vendor,
+      memo: posting.memo,
+      category: posting.category,
+      currency: posting.currency,
+      amount: fromMinorUnits(posting.amountCents, posting.currency),
+      fxRate: posting.fxRate ? Number(posting.fxRate) : null,
+      debit: isDebit ? toAmount(baseCents) : 0,
+      credit: isDebit ? 0 : toAmount(baseCents),
+      balance: toAmount(runningCents),
+      reversalOfTransactionId: posting.transaction.originalTransactionId,
+      reversedByTransactionId: posting.transaction.reversedByTransactionId,
+      expense: posting.transaction.expense,
+      receipts: posting.transaction.attachmentLinks.map((link) => link.receipt),
+    }
+  })
+
+  return {
+    account: {
+      id: account.id,
+      name: account.name,
+      code: account.code,
+      type: account.type,
+      currency: account.currency,
+    },
+    currency: baseCurrency,
+    startDate: startDate || null,
+    endDate: endDate || null,
+    openingBalance: toAmount(openingCents),
+    closingBalance: toAmount(openingCents + rangeCents),
+    entries,
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  }
+}
@@ -0,0 +1,132 @@
+import { prisma } from "@/lib/prisma"
+import { PostingDirection } from "@prisma/client"
+import { getBaseCurrency } from "@/lib/ledger/fxService"
+import { calendarDateOf, getFiscalCalendar } from "@/lib/ledger/periods"
+import { fromMinorUnits, toMinorUnits } from "@/lib/currency"
+
+export const AGING_BUCKETS = ["current", "days1to30", "days31to60", "days61to90", "over90"] as const
+
+export type AgingBucket = (typeof AGING_BUCKETS)[number]
+
+type BucketAmounts = Record<AgingBucket, number>
+
+function bucketFor(daysPastDue: number): AgingBucket {
+  if (daysPastDue <= 0) return "current"
+  if (daysPastDue <= 30) return "days1to30"
+  if (daysPastDue <= 60) return "days31to60"
+  if (daysPastDue <= 90) return "days61to90"
+  return "over90"
+}
+
+function emptyBuckets(): BucketAmounts {
+  return { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0 }
+}
+
+/**
+ * Accounts payable aging as of a date, in the organization's base currency
+ * A bill counts when it is dated on or before asOf and was not void by then; its outstanding amount
+ * excludes payments made by asOf. Base amounts are the bill's booked AP credit less the payments' AP
+ * debits, so the total agrees with the Accounts Payable balance. Days past due are calendar days in the
+ * reporting timezone; a bill due on asOf is current
+ */
+export async function getApAging(input: { organizationId: string; asOf: Date }) {
+  const { organizationId, asOf } = input
+
+  const [baseCurrency, calendar] = await Promise.all([
+    getBaseCurrency(organizationId),
+    getFiscalCalendar(organizationId),
+  ])
+
+  const bills = await prisma.bill.findMany({
+    where: {
+      organizationId,
+      billDate: { lte: asOf },
+      ledgerTransactionId: { not: null },
+      OR: [{ voidedAt: null }, { voidedAt: { gt: asOf } }],
+    },
+    include: {
+      // The bill's only credit is to Accounts Payable, a payment's only debit likewise
+      ledgerTransaction: {
+        include: { postings: { where: { direction: PostingDirection.CR } } },
+      },
+      payments: {
+        where: { paidAt: { lte: asOf }, OR: [{ voidedAt: null }, { voidedAt: { gt: asOf } }] },
+        include: {
+          ledgerTransaction: {
+            include: { postings: { where: { direction: PostingDirection.DR } } },
+          },
+        },
+      },
+    },
+    orderBy: [{ vendor: "asc" }, { dueDate: "asc" }],
+  })
+
+  const asOfDay = Date.parse(calendarDateOf(asOf, calendar.timezone))
+
+  const lines = []
+  const vendors = new Map<string, { vendor: string; buckets: BucketAmounts; total: number }>()
+  const totals = emptyBuckets()
+
+  for (const bill of bills) {
+    const billCents = toMinorUnits(Number(bill.amount), bill.currency)
+    const paidCents = bill.payments.reduce((sum, payment) => sum + toMinorUnits(Number(payment.amount), bill.currency), 0)
+    const outstandingCents = billCents - paidCents
+    if (outstandingCents <= 0) {
+      continue
+    }
+
+    const bookedBase = bill.ledgerTransaction?.postings.reduce((sum, posting) => sum + (posting.baseAmountCents ?? posting.amountCents), 0) || 0
+    const paidBase = bill.payments.reduce(
+      (sum, payment) => sum + (payment.ledgerTransaction?.postings.reduce((s, posting) => s + (posting.baseAmountCents ?? posting.amountCents), 0) || 0),
+      0
+    )
+    const outstandingBase = bookedBase - paidBase
+
+    const daysPastDue = Math.round((asOfDay - Date.parse(calendarDateOf(bill.dueDate, calendar.timezone))) / 86_400_000)
+    const bucket = bucketFor(daysPastDue)
+
+    totals[bucket] += outstandingBase
+    const vendorKey = bill.vendorId ?? bill.vendor.toLowerCase()
+    const vendor = vendors.get(vendorKey) || { vendor: bill.vendor, buckets: emptyBuckets(), total: 0 }
+    vendor.buckets[bucket] += outstandingBase
+    vendor.total += outstandingBase
+    vendors.set(vendorKey, vendor)
+
+    lines.push({
+      billId: bill.id,
+      vendor: bill.vendor,
+      billNumber: bill.billNumber,
+      description: bill.description,
+      billDate: bill.billDate,
+      dueDate: bill.dueDate,
+      daysPastDue: Math.max(daysPastDue, 0),
+      bucket,
+      currency: bill.currency,
+      outstanding: fromMinorUnits(outstandingCents, bill.currency),
+      outstandingBase: fromMinorUnits(outstandingBase, baseCurrency),
+    })
+  }
+
+  const toAmounts = (buckets: BucketAmounts) => {
+    const amounts = emptyBuckets()
+    for (const bucket of AGING_BUCKETS) {
+      amounts[bucket] = fromMinorUnits(buckets[bucket], baseCurrency)
+    }
+    return amounts
+  }
+
+  return {
+    asOf,
+    currency: baseCurrency,
+    lines,
+    vendors: Array.from(vendors.values()).map((vendor) => ({
+      vendor: vendor.vendor,
+      ...toAmounts(vendor.buckets),
+      total: fromMinorUnits(vendor.total, baseCurrency),
+    })),
+    totals: {
+      ...toAmounts(totals),
+      total: fromMinorUnits(AGING_BUCKETS.reduce((sum, bucket) => sum + totals[bucket], 0), baseCurrency),
+    },
+  }
+}
@@ -0,0 +1,286 @@
+import { prisma } from "@/lib/prisma"
+import { AccountType, PostingDirection } from "@prisma/client"
+import { differenceInCalendarDays, subDays, subMonths, subYears, endOfMonth } from "date-fns"
+import { isDebitNormal } from "@/lib/ledger/accountService"
+import { rollUpAccounts } from "@/lib/reports/accountHierarchy"
+import { asOfTransactionWhere, rangeTransactionWhere } from "@/lib/reports/ledgerReports"
+import { getBaseCurrency, groupBaseAmounts } from "@/lib/ledger/fxService"
+import { fromMinorUnits, toMinorUnits } from "@/lib/currency"
+import { fiscalYearOf, fiscalYearPeriods, getFiscalCalendar, periodOf, periodStart } from "@/lib/ledger/periods"
+
+/**
+ * Financial statements (income statement and balance sheet) from ledger postings
+ * Amounts are signed by each account's normal side and returned in the organization's base currency
+ */
+
+export type Comparison = "previous_period" | "previous_year"
+
+const COLUMNS = ["current", "comparison"] as const
+type Column = (typeof COLUMNS)[number]
+
+interface StatementLine {
+  accountId: string
+  code: string | null
+  name: string
+  depth: number
+  hasChildren: boolean
+  /** Subtotal including child accounts */
+  current: number
+  comparison?: number
+}
+
+interface StatementSection {
+  type: AccountType
+  lines: StatementLine[]
+  total: { current: number; comparison?: number }
+}
+
+/**
+ * Sums postings per account for the given transaction filter
+ * Returns base-currency minor units signed by each account's normal balance side
+ */
+async function getNormalBalances(
+  organizationId: string,
+  types: AccountType[],
+  transactionWhere: Record<string, any>
+): Promise<Map<string, number>> {
+  const sums = await groupBaseAmounts<{ accountId: string; direction: PostingDirection }>(prisma, ["accountId", "direction"], {
+    organizationId,
+    account: { type: { in: types } },
+    transaction: transactionWhere,
+  })
+
+  const accounts = await prisma.ledgerAccount.findMany({
+    where: { organizationId, id: { in: Array.from(new Set(sums.map((s) => s.accountId))) } },
+    select: { id: true, type: true },
+  })
+  const typeById = new Map(accounts.map((a) => [a.id, a.type]))
+
+  const balances = new Map<string, number>()
+  for (const sum of sums) {
+    const type = typeById.get(sum.accountId)
+    if (!type) continue
+    const debitSide = sum.direction === PostingDirection.DR
+    const sign = debitSide === isDebitNormal(type) ? 1 : -1
+    balances.set(sum.accountId, (balances.get(sum.accountId) || 0) + sign * sum.baseAmountCents)
+  }
+
+  return balances
+}
+
+/**
+ * Builds one section per account type, rolling children into parent subtotals
+ */
+async function buildSections(
+  organizationId: string,
+  baseCurrency: string,
+  types: AccountType[],
+  current: Map<string, number>,
+  comparison: Map<string, number> | null,
+  depth?: number
+): Promise<StatementSection[]> {
+  const accounts = await prisma.ledgerAccount.findMany({
+    where: { organizationId, type: { in: types } },
+  })
+
+  const amounts = new Map<string, Record<Column, number>>()
+  for (const account of accounts) {
+    amounts.set(account.id, {
+      current: current.get(account.id) || 0,
+      comparison: comparison?.get(account.id) || 0,
+    })
+  }
+
+  return types.map((type) => {
+    const rolled = rollUpAccounts(
+      accounts.filter((a) => a.type === type),
+      amounts,
+      COLUMNS,
+      { maxDepth: depth }
+    )
+
+    const lines = rolled.map((line) => ({
+      accountId: line.accountId,
+      code: line.code,
+      name: line.name,
+      depth: line.depth,
+      hasChildren: line.hasChildren,
+      current: fromMinorUnits(line.total.current, baseCurrency),
+      ...(comparison ? { comparison: fromMinorUnits(line.total.comparison, baseCurrency) } : {}),
+    }))
+
+    const roots = rolled.filter((line) => line.depth === 0)
+    const totalCurrent = roots.reduce((sum, line) => sum + line.total.current, 0)
+    const totalComparison = roots.reduce((sum, line) => sum + line.total.comparison, 0)
+
+    return {
+      type,
+      lines,
+      total: {
+        current: fromMinorUnits(totalCurrent, baseCurrency),
+        ...(comparison ? { comparison: fromMinorUnits(totalComparison, baseCurrency) } : {}),
+      },
+    }
+  })
+}
+
+/**
+ * Shifts a date range back for comparative columns
+ * previous_period: the equally long range ending the day before startDate
+ * previous_year: the same dates one year earlier
+ */
+export function comparisonRange(startDate: Date, endDate: Date, comparison: Comparison) {
+  if (comparison === "previous_year") {
+    return { startDate: subYears(startDate, 1), endDate: subYears(endDate, 1) }
+  }
+
+  const days = differenceInCalendarDays(endDate, startDate) + 1
+  return { startDate: subDays(startDate, days), endDate: subDays(endDate, days) }
+}
+
+/**
+ * Transaction filter for income statement activity in a range
+ * Year-end closing entries are left out, otherwise a closed year would report zero net income
+ */
+function incomeTransactionWhere(startDate: Date, endDate: Date) {
+  return { ...rangeTransactionWhere(startDate, endDate), yearEndClose: { is: null } }
+}
+
+/**
+ * Income statement (P&L) for a date range: INCOME minus EXPENSE with per-account lines
+ */
+export async function getIncomeStatement(filters: {
+  organizationId: string
+  startDate: Date
+  endDate: Date
+  comparison?: Comparison
+  depth?: number
+}) {
+  const { organizationId, startDate, endDate, comparison, depth } = filters
+  const types = [AccountType.INCOME, AccountType.EXPENSE]
+
+  const compareRange = comparison ? comparisonRange(startDate, endDate, comparison) : null
+
+  const [baseCurrency, current, previous] = await Promise.all([
+    getBaseCurrency(organizationId),
+    getNormalBalances(organizationId, types, incomeTransactionWhere(startDate, endDate)),
+    compareRange
+      ? getNormalBalances(organizationId, types, incomeTransactionWhere(compareRange.startDate, compareRange.endDate))
+      : Promise.resolve(null),
+  ])
+
+  const [income, expense] = await buildSections(organizationId, baseCurrency, types, current, previous, depth)
+  const net = (column: "current" | "comparison") =>
+    fromMinorUnits(
+      toMinorUnits(income.total[column] || 0, baseCurrency) - toMinorUnits(expense.total[column] || 0, baseCurrency),
+      baseCurrency
+    )
+
+  return {
+    currency: baseCurrency,
+    period: { startDate, endDate },
+    ...(compareRange ? { comparisonPeriod: compareRange } : {}),
+    income,
+    expense,
+    netIncome: {
+      current: net("current"),
+      ...(compareRange ? { comparison: net("comparison") } : {}),
+    },
+  }
+}
+
+/**
+ * Net income (base-currency minor units) from postings in a range
+ */
+async function getNetIncomeCents(organizationId: string, transactionWhere: Record<string, any>): Promise<number> {
+  const balances = await getNormalBalances(
+    organizationId,
+    [AccountType.INCOME, AccountType.EXPENSE],
+    transactionWhere
+  )
+  const accounts = await prisma.ledgerAccount.findMany({
+    where: { organizationId, id: { in: Array.from(balances.keys()) } },
+    select: { id: true, type: true },
+  })
+
+  return accounts.reduce((sum, account) => {
+    const amount = balances.get(account.id) || 0
+    return account.type === AccountType.INCOME ? sum + amount : sum - amount
+  }, 0)
+}
+
+/**
+ * Earnings that belong on the balance sheet as of a date
+ * currentYear covers the fiscal year to date; prior covers everything before it
+ * Closing entries count here, so earnings of closed years show up in Retained Earnings instead
+ */
+async function getEarnings(organizationId: string, asOf: Date) {
+  const { fiscalYearStartMonth } = await getFiscalCalendar(organizationId)
+  const fiscalYear = fiscalYearOf(periodOf(asOf), fiscalYearStartMonth)
+  const yearStart = periodStart(fiscalYearPeriods(fiscalYear, fiscalYearStartMonth).firstPeriod)
+  const [total, currentYear] = await Promise.all([
+    getNetIncomeCents(organizationId, asOfTransactionWhere(asOf)),
+    getNetIncomeCents(organizationId, rangeTransactionWhere(yearStart, asOf)),
+  ])
+  return { currentYearCents: currentYear, priorCents: total - currentYear }
+}
+
+/**
+ * Balance sheet as of a date: ASSET = LIABILITY + EQUITY + earnings
+ * Prior-year earnings not yet closed to an equity account are shown alongside current-year earnings
+ */
+export async function getBalanceSheet(filters: {
+  organizationId: string
+  asOf: Date
+  comparison?: Comparison
+  depth?: number
+}) {
+  const { organizationId, asOf, comparison, depth } = filters
+  const types = [AccountType.ASSET, AccountType.LIABILITY, AccountType.EQUITY]
+
+  const compareAsOf = comparison
+    ? comparison === "previous_year"
+      ? subYears(asOf, 1)
+      : endOfMonth(subMonths(asOf, 1))
+    : null
+
+  const [baseCurrency, current, previous, earnings, previousEarnings] = await Promise.all([
+    getBaseCurrency(organizationId),
+    getNormalBalances(organizationId, types, asOfTransactionWhere(asOf)),
+    compareAsOf ? getNormalBalances(organizationId, types, asOfTransactionWhere(compareAsOf)) : Promise.resolve(null),
+    getEarnings(organizationId, asOf),
+    compareAsOf ? getEarnings(organizationId, compareAsOf) : Promise.resolve(null),
+  ])
+
+  const [assets, liabilities, equity] = await buildSections(organizationId, baseCurrency, types, current, previous, depth)
+
+  const withComparison = (currentCents: number, comparisonCents: number | undefined) => ({
+    current: fromMinorUnits(currentCents, baseCurrency),
+    ...(compareAsOf ? { comparison: fromMinorUnits(comparisonCents || 0, baseCurrency) } : {}),
+  })
+
+  const toCents = (value: number | undefined) => toMinorUnits(value || 0, baseCurrency)
+  const liabilitiesAndEquity = (column: "current" | "comparison", e: typeof earnings | null) =>
+    toCents(liabilities.total[column]) +
+    toCents(equity.total[column]) +
+    (e ? e.currentYearCents + e.priorCents : 0)
+
+  const totalAssetsCents = toCents(assets.total.current)
+  const totalLiabilitiesAndEquityCents = liabilitiesAndEquity("current", earnings)
+
+  return {
+    currency: baseCurrency,
+    asOf,
+    ...(compareAsOf ? { comparisonAsOf: compareAsOf } : {}),
+    assets,
+    liabilities,
+    equity,
+    currentYearEarnings: withComparison(earnings.currentYearCents, previousEarnings?.currentYearCents),
+    priorUnclosedEarnings: withComparison(earnings.priorCents, previousEarnings?.priorCents),
+    totalLiabilitiesAndEquity: withComparison(
+      totalLiabilitiesAndEquityCents,
+      compareAsOf ? liabilitiesAndEquity("comparison", previousEarnings) : undefined
+    ),
+    balanced: totalAssetsCents === totalLiabilitiesAndEquityCents,
+  }
+}
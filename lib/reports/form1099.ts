@@ -0,0 +1,137 @@
+import { prisma } from "@/lib/prisma"
+import { AccountType, PostingDirection } from "@prisma/client"
+import { getBaseCurrency } from "@/lib/ledger/fxService"
+import { periodEnd, periodStart } from "@/lib/ledger/periods"
+import { fromMinorUnits, toMinorUnits } from "@/lib/currency"
+
+/**
+ * Reporting threshold for 1099-NEC in a tax year: $600 through 2025, $2,000 for payments made from 2026
+ */
+function default1099Threshold(taxYear: number): number {
+  return taxYear >= 2026 ? 2000 : 600
+}
+
+/**
+ * TIN type of a formatted tax ID: EIN for 12-3456789, SSN for 123-45-6789, null when unformatted or invalid
+ */
+function tinType(taxId: string | null): "EIN" | "SSN" | null {
+  const value = taxId?.trim() || ""
+  if (/^\d{2}-\d{7}$/.test(value)) return "EIN"
+  if (/^\d{3}-\d{2}-\d{4}$/.test(value)) return "SSN"
+  return null
+}
+
+function isValidTin(taxId: string | null): boolean {
+  return /^\d{9}$/.test((taxId || "").trim().replace(/-/g, ""))
+}
+
+/**
+ * 1099-NEC totals per 1099 vendor for a calendar tax year, in the organization's base currency
+ * Payments are the credits, less debits such as refunds and reversals, to ASSET accounts in ledger
+ * transactions linked to the vendor and dated in the year: expenses paid from bank or cash, bill payments
+ * and journal entries booked from statement lines. Bills themselves credit Accounts Payable and count when
+ * paid. Payments from card accounts (LIABILITY accounts other than system accounts such as Accounts
+ * Payable) are reported by the card processor on 1099-K, so they are shown separately and left out.
+ * A vendor is reportable when its payments reach the threshold
+ */
+export async function get1099Report(input: { organizationId: string; taxYear: number; threshold?: number }) {
+  const { organizationId, taxYear } = input
+  const threshold = input.threshold ?? default1099Threshold(taxYear)
+  const startDate = periodStart(`${taxYear}-01`)
+  const endDate = periodEnd(`${taxYear}-12`)
+
+  const [baseCurrency, organization, vendors] = await Promise.all([
+    getBaseCurrency(organizationId),
+    prisma.organization.findUnique({ where: { id: organizationId }, select: { name: true, taxId: true } }),
+    prisma.vendor.findMany({
+      where: { organizationId, is1099: true, mergedIntoId: null },
+      orderBy: { name: "asc" },
+    }),
+  ])
+
+  const postings = await prisma.ledgerPosting.findMany({
+    where: {
+      organizationId,
+      taxKind: null,
+      account: {
+        OR: [{ type: AccountType.ASSET }, { type: AccountType.LIABILITY, isSystem: false }],
+      },
+      transaction: {
+        vendorId: { in: vendors.map((vendor) => vendor.id) },
+        occurredAt: { gte: startDate, lte: endDate },
+      },
+    },
+    select: {
+      direction: true,
+      amountCents: true,
+      baseAmountCents: true,
+      account: { select: { type: true } },
+      transaction: { select: { vendorId: true } },
+    },
+  })
+
+  const paid = new Map<string, { payments: number; cardPayments: number }>()
+  for (const posting of postings) {
+    const vendorId = posting.transaction.vendorId!
+    const signed = (posting.baseAmountCents ?? posting.amountCents) * (posting.direction === PostingDirection.CR ? 1 : -1)
+    const current = paid.get(vendorId) || { payments: 0, cardPayments: 0 }
+    if (posting.account.type === AccountType.ASSET) {
+      current.payments += signed
+    } else {
+      current.cardPayments += signed
+    }
+    paid.set(vendorId, current)
+  }
+
+  const thresholdCents = toMinorUnits(threshold, baseCurrency)
+  const totals = { payments: 0, cardPayments: 0, reportable: 0 }
+
+  const lines = vendors
+    .filter((vendor) => paid.has(vendor.id))
+    .map((vendor) => {
+      const cents = paid.get(vendor.id)!
+      const reportable = cents.payments >= thresholdCents && cents.payments > 0
+      totals.payments += cents.payments
+      totals.cardPayments += cents.cardPayments
+      if (reportable) {
+        totals.reportable += cents.payments
+      }
+
+      return {
+        vendorId: vendor.id,
+        vendor: vendor.name,
+        taxId: vendor.taxId,
+        tinType: tinType(vendor.taxId),
+        email: vendor.email,
+        address: vendor.address,
+        archived: vendor.archivedAt !== null,
+        payments: fromMinorUnits(cents.payments, baseCurrency),
+        cardPayments: fromMinorUnits(cents.cardPayments, baseCurrency),
+        reportable,
+      }
+    })
+
+  const missingTins = lines
+    .filter((line) => line.reportable && !isValidTin(line.taxId))
+    .map((line) => ({
+      vendorId: line.vendorId,
+      vendor: line.vendor,
+      taxId: line.taxId,
+      payments: line.payments,
+      reason: line.taxId ? "Tax ID is not a 9-digit TIN" : "No tax ID on file",
+    }))
+
+  return {
+    taxYear,
+    threshold,
+    currency: baseCurrency,
+    payer: { name: organization?.name || "", taxId: organization?.taxId || null },
+    lines,
+    missingTins,
+    totals: {
+      payments: fromMinorUnits(totals.payments, baseCurrency),
+      cardPayments: fromMinorUnits(totals.cardPayments, baseCurrency),
+      reportable: fromMinorUnits(totals.reportable, baseCurrency),
+    },
+  }
+}
@@ -1,5 +1,12 @@
 import { prisma } from "@/lib/prisma"
-import { PostingDirection } from "@prisma/client"
+import { AccountType, PostingDirection } from "@prisma/client"
+import { rollUpAccounts } from "@/lib/reports/accountHierarchy"
+import { isDebitNormal } from "@/lib/ledger/accountService"
+import { baseAmountOf, getBaseCurrency, groupBaseAmounts } from "@/lib/ledger/fxService"
+import { fromMinorUnits } from "@/lib/currency"
+import { getFiscalCalendar, periodOf } from "@/lib/ledger/periods"
+import { categoryPostingFilter, getCategoryNameResolver } from "@/lib/ledger/categoryService"
+import { getVendorNameResolver, vendorTransactionFilter } from "@/lib/ledger/vendorService"
 
 interface ReportFilters {
   organizationId: string
@@ -7,21 +14,31 @@ interface ReportFilters {
   endDate?: Date
   category?: string
   vendor?: string
-  groupBy?: "month" | "category" | "vendor"
+  groupBy?: "month" | "category" | "vendor" | "account"
+  depth?: number
 }
 
 /**
  * Get expense totals from ledger transactions
- * Only includes non-reversed transactions
+ * Only includes non-reversed transactions and debits to EXPENSE accounts; totals are in the organization's
+ * base currency
  */
 export async function getLedgerReport(filters: ReportFilters) {
   const { organizationId, startDate, endDate, category, vendor, groupBy } = filters
 
+  if (groupBy === "account") {
+    return getExpenseTotalsByAccount(filters)
+  }
+
+  const [baseCurrency, calendar] = await Promise.all([getBaseCurrency(organizationId), getFiscalCalendar(organizationId)])
+
   // Build where clause for transactions
   const transactionWhere: any = {
     organizationId,
     // Exclude reversed transactions (those that have been reversed)
     reversedByTransactionId: null,
+    // Closing entries move balances to Retained Earnings; they are not spending
+    yearEndClose: { is: null },
   }
 
   if (startDate) {
@@ -33,7 +50,8 @@ export async function getLedgerReport(filters: ReportFilters) {
   }
 
   if (vendor) {
-    transactionWhere.vendor = vendor
+    // Transactions linked to the vendor, and unlinked ones booked under its name or aliases
+    transactionWhere.AND = [await vendorTransactionFilter(organizationId, vendor)]
   }
 
   // Get transactions with postings
@@ -42,9 +60,12 @@ export async function getLedgerReport(filters: ReportFilters) {
     include: {
       postings: {
         where: {
-          direction: PostingDirection.DR, // Only DR postings for expenses
-          // Filter by category if provided
-          ...(category ? { category } : {}),
+          // Only DR postings to expense accounts: bill payments, payouts, journal entries and FX revaluations
+          // also debit balance-sheet accounts, which is not spending
+          direction: PostingDirection.DR,
+          account: { type: AccountType.EXPENSE },
+          // Filter by category if provided, including names it was posted under before a rename or merge
+          ...(category ? await categoryPostingFilter(organizationId, category) : {}),
         },
       },
     },
@@ -55,54 +76,108 @@ export async function getLedgerReport(filters: ReportFilters) {
 
   if (groupBy === "month") {
     const grouped = expenseTransactions.reduce((acc, tx) => {
-      const month = tx.occurredAt.toISOString().slice(0, 7) // YYYY-MM
-      const total = tx.postings.reduce((sum, p) => sum + p.amountCents, 0)
+      const month = periodOf(tx.occurredAt, calendar.timezone) // YYYY-MM
+      const total = tx.postings.reduce((sum, p) => sum + baseAmountOf(p), 0)
       acc[month] = (acc[month] || 0) + total
       return acc
     }, {} as Record<string, number>)
 
     return Object.entries(grouped).map(([month, total]) => ({
       month,
-      total: Number(total) / 100, // Convert cents to dollars
+      total: fromMinorUnits(total, baseCurrency),
     }))
   } else if (groupBy === "category") {
+    // Postings keep the name they were booked under; group them under the category's current name
+    const categoryName = await getCategoryNameResolver(organizationId)
     const grouped = expenseTransactions.reduce((acc, tx) => {
       tx.postings.forEach((posting) => {
-        const cat = posting.category || "Uncategorized"
-        acc[cat] = (acc[cat] || 0) + posting.amountCents
+        const cat = posting.category ? categoryName(posting.category) : "Uncategorized"
+        acc[cat] = (acc[cat] || 0) + baseAmountOf(posting)
       })
       return acc
     }, {} as Record<string, number>)
 
     return Object.entries(grouped).map(([category, total]) => ({
       category,
-      total: Number(total) / 100,
+      total: fromMinorUnits(total, baseCurrency),
     }))
   } else if (groupBy === "vendor") {
+    // Group under the vendor's current name so aliases and merged vendors are counted together
+    const vendorName = await getVendorNameResolver(organizationId)
     const grouped = expenseTransactions.reduce((acc, tx) => {
-      const vendor = tx.vendor || "Unknown"
-      const total = tx.postings.reduce((sum, p) => sum + p.amountCents, 0)
+      const vendor = vendorName(tx.vendorId, tx.vendor) || "Unknown"
+      const total = tx.postings.reduce((sum, p) => sum + baseAmountOf(p), 0)
       acc[vendor] = (acc[vendor] || 0) + total
       return acc
     }, {} as Record<string, number>)
 
     return Object.entries(grouped).map(([vendor, total]) => ({
       vendor,
-      total: Number(total) / 100,
+      total: fromMinorUnits(total, baseCurrency),
     }))
   } else {
     // Default: total
     const total = expenseTransactions.reduce((sum, tx) => {
-      return sum + tx.postings.reduce((postingSum, p) => postingSum + p.amountCents, 0)
+      return sum + tx.postings.reduce((postingSum, p) => postingSum + baseAmountOf(p), 0)
     }, 0)
 
     return {
-      total: Number(total) / 100,
+      total: fromMinorUnits(total, baseCurrency),
       count: expenseTransactions.length,
     }
   }
 }
 
+/**
+ * Get expense totals per EXPENSE account, rolled up the account hierarchy
+ * depth limits how far down the tree lines are shown (0 = top-level accounts only);
+ * deeper accounts are folded into their ancestor's subtotal
+ */
+async function getExpenseTotalsByAccount(filters: ReportFilters) {
+  const { organizationId, startDate, endDate, category, vendor, depth } = filters
+
+  const occurredAt: any = {}
+  if (startDate) occurredAt.gte = startDate
+  if (endDate) occurredAt.lte = endDate
+
+  const [baseCurrency, accounts, sums] = await Promise.all([
+    getBaseCurrency(organizationId),
+    prisma.ledgerAccount.findMany({
+      where: { organizationId, type: AccountType.EXPENSE },
+    }),
+    groupBaseAmounts<{ accountId: string; direction: PostingDirection }>(prisma, ["accountId", "direction"], {
+      organizationId,
+      account: { type: AccountType.EXPENSE },
+      ...(category ? await categoryPostingFilter(organizationId, category) : {}),
+      transaction: {
+        // Reversal pairs cancel out, so leave both sides out of the range
+        reversedByTransactionId: null,
+        originalTransactionId: null,
+        yearEndClose: { is: null },
+        ...(startDate || endDate ? { occurredAt } : {}),
+        ...(vendor ? await vendorTransactionFilter(organizationId, vendor) : {}),
+      },
+    }),
+  ])
+
+  const amounts = new Map<string, { amountCents: number }>()
+  for (const sum of sums) {
+    const signed = sum.baseAmountCents * (sum.direction === PostingDirection.DR ? 1 : -1)
+    const current = amounts.get(sum.accountId) || { amountCents: 0 }
+    current.amountCents += signed
+    amounts.set(sum.accountId, current)
+  }
+
+  return rollUpAccounts(accounts, amounts, ["amountCents"] as const, { maxDepth: depth }).map((line) => ({
+    accountId: line.accountId,
+    account: line.name,
+    code: line.code,
+    depth: line.depth,
+    hasChildren: line.hasChildren,
+    total: fromMinorUnits(line.total.amountCents, baseCurrency),
+  }))
+}
+
 /**
  * Get expenses for CSV export from ledger
  */
@@ -118,6 +193,7 @@ export async function getLedgerExpensesForExport(filters: {
   const transactionWhere: any = {
     organizationId,
     reversedByTransactionId: null,
+    yearEndClose: { is: null },
   }
 
   if (startDate) {
@@ -129,7 +205,8 @@ export async function getLedgerExpensesForExport(filters: {
   }
 
   if (vendor) {
-    transactionWhere.vendor = vendor
+    // Transactions linked to the vendor, and unlinked ones booked under its name or aliases
+    transactionWhere.AND = [await vendorTransactionFilter(organizationId, vendor)]
   }
 
   const transactions = await prisma.ledgerTransaction.findMany({
@@ -138,7 +215,8 @@ export async function getLedgerExpensesForExport(filters: {
       postings: {
         where: {
           direction: PostingDirection.DR,
-          ...(category ? { category } : {}),
+          account: { type: AccountType.EXPENSE },
+          ...(category ? await categoryPostingFilter(organizationId, category) : {}),
         },
       },
     },
@@ -146,19 +224,136 @@ export async function getLedgerExpensesForExport(filters: {
       occurredAt: "desc",
     },
   })
+  const categoryName = await getCategoryNameResolver(organizationId)
+  const vendorName = await getVendorNameResolver(organizationId)
+
+  // Map to expense-like format for CSV, one row per expense-account DR posting so split expenses list every line
+  return transactions.flatMap((tx) =>
+    tx.postings.map((posting) => ({
+      date: tx.occurredAt,
+      amount: fromMinorUnits(posting.amountCents, posting.currency),
+      currency: posting.currency,
+      description: tx.description,
+      category: posting.category ? categoryName(posting.category) : "",
+      memo: posting.memo && posting.memo !== tx.description ? posting.memo : "",
+      vendor: vendorName(tx.vendorId, tx.vendor) || "",
+    }))
+  )
+}
+
+
+/**
+ * Transaction filter for balances as of a date
+ * A reversal pair whose both sides fall on or before asOf nets to zero and is left out entirely,
+ * so debit/credit totals are not inflated; an original reversed after asOf still counts
+ */
+export function asOfTransactionWhere(asOf: Date) {
+  return {
+    occurredAt: { lte: asOf },
+    NOT: [
+      { reversedBy: { is: { occurredAt: { lte: asOf } } } },
+      { originalTransaction: { is: { occurredAt: { lte: asOf } } } },
+    ],
+  }
+}
+
+/**
+ * Transaction filter for activity within a date range
+ * Same reversal pair handling as asOfTransactionWhere, applied to the range
+ */
+export function rangeTransactionWhere(startDate: Date, endDate: Date) {
+  const inRange = { gte: startDate, lte: endDate }
+  return {
+    occurredAt: inRange,
+    NOT: [
+      { reversedBy: { is: { occurredAt: inRange } } },
+      { originalTransaction: { is: { occurredAt: inRange } } },
+    ],
+  }
+}
+
+/**
+ * Trial balance as of a date
+ * Lists every account with debit/credit totals and net balance; grand totals must match
+ * With depth, accounts below that level are folded into their ancestor's line
+ */
+export async function getTrialBalance(filters: { organizationId: string; asOf: Date; depth?: number }) {
+  const { organizationId, asOf, depth } = filters
+
+  const [baseCurrency, accounts, sums] = await Promise.all([
+    getBaseCurrency(organizationId),
+    prisma.ledgerAccount.findMany({
+      where: { organizationId },
+    }),
+    groupBaseAmounts<{ accountId: string; direction: PostingDirection }>(prisma, ["accountId", "direction"], {
+      organizationId,
+      transaction: asOfTransactionWhere(asOf),
+    }),
+  ])
 
-  // Map to expense-like format for CSV
-  return transactions
-    .filter((tx) => tx.postings.length > 0)
-    .map((tx) => {
-      const posting = tx.postings[0] // Get first DR posting
+  const amounts = new Map<string, { debitCents: number; creditCents: number }>()
+  for (const sum of sums) {
+    const current = amounts.get(sum.accountId) || { debitCents: 0, creditCents: 0 }
+    if (sum.direction === PostingDirection.DR) {
+      current.debitCents += sum.baseAmountCents
+    } else {
+      current.creditCents += sum.baseAmountCents
+    }
+    amounts.set(sum.accountId, current)
+  }
+
+  const archivedIds = new Set(accounts.filter((a) => a.archivedAt).map((a) => a.id))
+  const lines = rollUpAccounts(accounts, amounts, ["debitCents", "creditCents"] as const, {
+    maxDepth: depth,
+    includeZero: true,
+  })
+    // Archived accounts are always zero-balance; keep them only if they saw activity
+    .filter((line) => !archivedIds.has(line.accountId) || line.total.debitCents !== 0 || line.total.creditCents !== 0)
+    .map((line) => {
+      // Parents with visible children show only their own postings, so columns sum without double counting
+      const { debitCents, creditCents } = line.hasChildren ? line.own : line.total
+      const netCents = debitCents - creditCents
       return {
-        date: tx.occurredAt,
-        amount: posting.amountCents / 100,
-        description: tx.description,
-        category: posting.category || "",
-        vendor: tx.vendor || "",
+        accountId: line.accountId,
+        code: line.code,
+        name: line.name,
+        type: line.type,
+        depth: line.depth,
+        normalBalance: isDebitNormal(line.type) ? "DR" : "CR",
+        debitCents,
+        creditCents,
+        netCents,
       }
     })
-}
 
+  // Totals come from the raw sums so they are independent of the roll-up
+  const totalDebitCents = sums
+    .filter((s) => s.direction === PostingDirection.DR)
+    .reduce((sum, s) => sum + s.baseAmountCents, 0)
+  const totalCreditCents = sums
+    .filter((s) => s.direction === PostingDirection.CR)
+    .reduce((sum, s) => sum + s.baseAmountCents, 0)
+  const totalBalanceDebit = lines.reduce((sum, l) => sum + Math.max(l.netCents, 0), 0)
+  const totalBalanceCredit = lines.reduce((sum, l) => sum + Math.max(-l.netCents, 0), 0)
+
+  const toAmount = (cents: number) => fromMinorUnits(cents, baseCurrency)
+
+  return {
+    asOf,
+    currency: baseCurrency,
+    lines: lines.map(({ debitCents, creditCents, netCents, ...line }) => ({
+      ...line,
+      debit: toAmount(debitCents),
+      credit: toAmount(creditCents),
+      balanceDebit: netCents > 0 ? toAmount(netCents) : 0,
+      balanceCredit: netCents < 0 ? toAmount(-netCents) : 0,
+    })),
+    totals: {
+      debit: toAmount(totalDebitCents),
+      credit: toAmount(totalCreditCents),
+      balanceDebit: toAmount(totalBalanceDebit),
+      balanceCredit: toAmount(totalBalanceCredit),
+    },
+    balanced: totalDebitCents === totalCreditCents && totalBalanceDebit === totalBalanceCredit,
+  }
+}
@@ -0,0 +1,116 @@
+import { prisma } from "@/lib/prisma"
+import { PolicySeverity } from "@prisma/client"
+
+/**
+ * Policy exceptions: the spending policy violations stored on live expenses dated in the range, newest
+ * expense first, with counts per policy and per member who entered the expenses. Violations are as of
+ * each expense's last evaluation; evaluate the policies on demand to bring older expenses up to date
+ */
+export async function getPolicyExceptions(input: {
+  organizationId: string
+  startDate?: Date
+  endDate?: Date
+  severity?: PolicySeverity
+  policyId?: string
+}) {
+  const { organizationId, startDate, endDate, severity, policyId } = input
+
+  const violations = await prisma.expensePolicyViolation.findMany({
+    where: {
+      organizationId,
+      ...(severity ? { severity } : {}),
+      ...(policyId ? { policyId } : {}),
+      expense: {
+        deletedAt: null,
+        ...(startDate || endDate
+          ? { date: { ...(startDate ? { gte: startDate } : {}), ...(endDate ? { lte: endDate } : {}) } }
+          : {}),
+      },
+    },
+    include: {
+      expense: {
+        select: {
+          id: true,
+          date: true,
+          description: true,
+          vendor: true,
+          category: true,
+          amount: true,
+          currency: true,
+          createdById: true,
+          approvalStatus: true,
+        },
+      },
+    },
+    orderBy: [{ expense: { date: "desc" } }, { createdAt: "asc" }],
+  })
+
+  const userIds = Array.from(new Set(violations.map((v) => v.expense.createdById).filter((id): id is string => Boolean(id))))
+  const users = await prisma.user.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true, name: true, email: true },
+  })
+  const userById = new Map(users.map((user) => [user.id, user]))
+
+  const byPolicy = new Map<string, { policyId: string | null; policyName: string; kind: string; severity: PolicySeverity; count: number }>()
+  const byEmployee = new Map<string, { userId: string | null; name: string | null; email: string | null; count: number; hard: number }>()
+
+  const exceptions = violations.map((violation) => {
+    const { expense } = violation
+    const user = expense.createdById ? userById.get(expense.createdById) : undefined
+
+    const policyKey = violation.policyId || `deleted:${violation.policyName}`
+    const policy = byPolicy.get(policyKey) || {
+      policyId: violation.policyId,
+      policyName: violation.policyName,
+      kind: violation.kind,
+      severity: violation.severity,
+      count: 0,
+    }
+    policy.count++
+    byPolicy.set(policyKey, policy)
+
+    const employeeKey = expense.createdById || ""
+    const employee = byEmployee.get(employeeKey) || {
+      userId: expense.createdById,
+      name: user?.name ?? null,
+      email: user?.email ?? null,
+      count: 0,
+      hard: 0,
+    }
+    employee.count++
+    if (violation.severity === PolicySeverity.HARD) employee.hard++
+    byEmployee.set(employeeKey, employee)
+
+    return {
+      expenseId: expense.id,
+      date: expense.date,
+      description: expense.description,
+      vendor: expense.vendor,
+      category: expense.category,
+      amount: Number(expense.amount),
+      currency: expense.currency,
+      approvalStatus: expense.approvalStatus,
+      createdById: expense.createdById,
+      createdBy: user?.name || user?.email || null,
+      policyId: violation.policyId,
+      policyName: violation.policyName,
+      kind: violation.kind,
+      severity: violation.severity,
+      message: violation.message,
+      flaggedAt: violation.createdAt,
+    }
+  })
+
+  return {
+    exceptions,
+    byPolicy: Array.from(byPolicy.values()).sort((a, b) => b.count - a.count),
+    byEmployee: Array.from(byEmployee.values()).sort((a, b) => b.count - a.count),
+    totals: {
+      exceptions: exceptions.length,
+      expenses: new Set(exceptions.map((exception) => exception.expenseId)).size,
+      hard: exceptions.filter((exception) => exception.severity === PolicySeverity.HARD).length,
+      warnings: exceptions.filter((exception) => exception.severity === PolicySeverity.WARNING).length,
+    },
+  }
+}
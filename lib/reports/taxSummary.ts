@@ -0,0 +1,80 @@
+import { prisma } from "@/lib/prisma"
+import { PostingDirection, TaxPostingKind } from "@prisma/client"
+import { getBaseCurrency, groupBaseAmounts } from "@/lib/ledger/fxService"
+import { fromMinorUnits } from "@/lib/currency"
+
+interface TaxSummaryTotals {
+  netAmount: number
+  recoverableTax: number
+  nonRecoverableTax: number
+  totalTax: number
+  grossAmount: number
+}
+
+/**
+ * Input tax per tax code for a date range, in the organization's base currency
+ * Built from the tax postings of expenses dated in the range. A reversal counts in the period it is
+ * dated, so an expense corrected after filing shows up as an adjustment in the later return
+ */
+export async function getTaxSummary(input: { organizationId: string; startDate: Date; endDate: Date }) {
+  const { organizationId, startDate, endDate } = input
+
+  const [baseCurrency, taxCodes, sums] = await Promise.all([
+    getBaseCurrency(organizationId),
+    prisma.taxCode.findMany({ where: { organizationId }, orderBy: { code: "asc" } }),
+    groupBaseAmounts<{ taxCodeId: string | null; taxKind: TaxPostingKind | null; direction: PostingDirection }>(
+      prisma,
+      ["taxCodeId", "taxKind", "direction"],
+      {
+        organizationId,
+        taxCodeId: { not: null },
+        transaction: { occurredAt: { gte: startDate, lte: endDate } },
+      }
+    ),
+  ])
+
+  const amounts = new Map<string, Record<TaxPostingKind, number>>()
+  for (const sum of sums) {
+    if (!sum.taxCodeId || !sum.taxKind) {
+      continue
+    }
+    const signed = sum.baseAmountCents * (sum.direction === PostingDirection.DR ? 1 : -1)
+    const current = amounts.get(sum.taxCodeId) || { NET: 0, RECOVERABLE: 0, NON_RECOVERABLE: 0 }
+    current[sum.taxKind] += signed
+    amounts.set(sum.taxCodeId, current)
+  }
+
+  const toTotals = (cents: Record<TaxPostingKind, number>): TaxSummaryTotals => ({
+    netAmount: fromMinorUnits(cents.NET, baseCurrency),
+    recoverableTax: fromMinorUnits(cents.RECOVERABLE, baseCurrency),
+    nonRecoverableTax: fromMinorUnits(cents.NON_RECOVERABLE, baseCurrency),
+    totalTax: fromMinorUnits(cents.RECOVERABLE + cents.NON_RECOVERABLE, baseCurrency),
+    grossAmount: fromMinorUnits(cents.NET + cents.RECOVERABLE + cents.NON_RECOVERABLE, baseCurrency),
+  })
+
+  const totalCents: Record<TaxPostingKind, number> = { NET: 0, RECOVERABLE: 0, NON_RECOVERABLE: 0 }
+  const lines = taxCodes
+    .filter((taxCode) => amounts.has(taxCode.id))
+    .map((taxCode) => {
+      const cents = amounts.get(taxCode.id)!
+      totalCents.NET += cents.NET
+      totalCents.RECOVERABLE += cents.RECOVERABLE
+      totalCents.NON_RECOVERABLE += cents.NON_RECOVERABLE
+
+      return {
+        taxCodeId: taxCode.id,
+        code: taxCode.code,
+        name: taxCode.name,
+        rate: Number(taxCode.rate),
+        ...toTotals(cents),
+      }
+    })
+
+  return {
+    startDate,
+    endDate,
+    currency: baseCurrency,
+    lines,
+    totals: toTotals(totalCents),
+  }
+}
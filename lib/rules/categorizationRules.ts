@@ -0,0 +1,668 @@
+import { prisma } from "@/lib/prisma"
+import { createAuditLog } from "@/lib/audit-log"
+import { BankLineStatus, ExpenseApprovalStatus } from "@prisma/client"
+import { assertExpenseAccount, ledgerError, rebookExpenseTransaction } from "@/lib/ledger/ledgerService"
+import { resolveExpenseCategory } from "@/lib/ledger/categoryService"
+import { fromMinorUnits } from "@/lib/currency"
+
+/**
+ * Server-only categorization rules
+ * Enabled rules are tried by ascending priority and the first one whose conditions all hold sets the
+ * category, expense account and/or tags it carries. Rules run when an expense is created, when a
+ * statement is imported (outgoing lines keep the result until they are converted) and on demand over
+ * existing expenses and pending lines. Every rule-driven change is audited as CATEGORIZATION_RULE_APPLIED
+ */
+
+export type RuleField = "vendor" | "description" | "category" | "amount" | "currency" | "paymentAccountId"
+export type RuleOperator = "matches" | "contains" | "equals" | "lt" | "lte" | "gt" | "gte"
+
+export interface RuleCondition {
+  field: RuleField
+  operator: RuleOperator
+  value: string | number
+}
+
+// What a rule is evaluated against; amount is positive, in major units of currency
+export interface RuleSubject {
+  vendor?: string | null
+  description: string
+  category?: string | null
+  amount: number
+  currency: string
+  paymentAccountId?: string | null
+}
+
+export interface Categorization {
+  category: string | null
+  expenseAccountId: string | null
+  tags: string[]
+}
+
+export interface RuleApplication {
+  ruleId: string
+  ruleName: string
+  before: Categorization
+  after: Categorization
+}
+
+interface CompiledRule {
+  id: string
+  name: string
+  category: string | null
+  expenseAccountId: string | null
+  tags: string[]
+  test: (subject: RuleSubject) => boolean
+}
+
+const HISTORY_BATCH_SIZE = 500
+const PREVIEW_LIMIT = 200
+
+function compileCondition(condition: RuleCondition): (subject: RuleSubject) => boolean {
+  const { field, operator, value } = condition
+
+  if (field === "amount") {
+    const target = Number(value)
+    return (subject) => {
+      switch (operator) {
+        case "lt":
+          return subject.amount < target
+        case "lte":
+          return subject.amount <= target
+        case "gt":
+          return subject.amount > target
+        case "gte":
+          return subject.amount >= target
+        default:
+          return subject.amount === target
+      }
+    }
+  }
+
+  const expected = String(value).toLowerCase()
+  const pattern = operator === "matches" ? new RegExp(String(value), "i") : null
+
+  return (subject) => {
+    const actual = subject[field]
+    if (actual === null || actual === undefined || actual === "") {
+      return false
+    }
+    const text = String(actual)
+    if (pattern) {
+      return pattern.test(text)
+    }
+    if (operator === "contains") {
+      return text.toLowerCase().includes(expected)
+    }
+    return text.toLowerCase() === expected
+  }
+}
+
+/**
+ * Compiles conditions into a test that holds when all of them do; approval policies share the format
+ */
+export function compileConditions(conditions: RuleCondition[]): (subject: RuleSubject) => boolean {
+  const tests = conditions.map(compileCondition)
+  return (subject) => tests.every((test) => test(subject))
+}
+
+function compileRule(rule: any): CompiledRule {
+  return {
+    id: rule.id,
+    name: rule.name,
+    category: rule.category,
+    expenseAccountId: rule.expenseAccountId,
+    tags: rule.tags,
+    test: compileConditions(rule.conditions as RuleCondition[]),
+  }
+}
+
+/**
+ * Loads enabled rules in evaluation order, or a single rule (enabled or not) for previews and reruns
+ */
+async function loadRules(client: any, organizationId: string, ruleId?: string): Promise<CompiledRule[]> {
+  if (ruleId) {
+    const rule = await client.categorizationRule.findFirst({ where: { id: ruleId, organizationId } })
+    if (!rule) {
+      throw ledgerError("Categorization rule not found", 404)
+    }
+    return [compileRule(rule)]
+  }
+
+  const rules = await client.categorizationRule.findMany({
+    where: { organizationId, enabled: true },
+    orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+  })
+  return rules.map(compileRule)
+}
+
+/**
+ * Runs rules against a subject and returns what the first matching rule changes, if anything
+ */
+function evaluate(rules: CompiledRule[], subject: RuleSubject, current: Categorization): RuleApplication | null {
+  const rule = rules.find((candidate) => candidate.test(subject))
+  if (!rule) {
+    return null
+  }
+
+  const after: Categorization = {
+    category: rule.category ?? current.category,
+    expenseAccountId: rule.expenseAccountId ?? current.expenseAccountId,
+    tags: Array.from(new Set([...current.tags, ...rule.tags])),
+  }
+
+  const unchanged =
+    after.category === current.category &&
+    after.expenseAccountId === current.expenseAccountId &&
+    after.tags.length === current.tags.length
+  if (unchanged) {
+    return null
+  }
+
+  return { ruleId: rule.id, ruleName: rule.name, before: current, after }
+}
+
+/**
+ * Drops the category from an application, or the whole application when nothing else changes
+ */
+function withoutCategory(application: RuleApplication): RuleApplication | null {
+  const after = { ...application.after, category: application.before.category }
+  const unchanged =
+    after.expenseAccountId === application.before.expenseAccountId && after.tags.length === application.before.tags.length
+  return unchanged ? null : { ...application, after }
+}
+
+async function auditApplication(input: {
+  organizationId: string
+  userId: string
+  entityType: "Expense" | "BankStatementLine"
+  entityId: string
+  application: RuleApplication
+  source: "expense_create" | "bank_import" | "history"
+}) {
+  const { application } = input
+  await createAuditLog({
+    organizationId: input.organizationId,
+    userId: input.userId,
+    action: "CATEGORIZATION_RULE_APPLIED",
+    entityType: input.entityType,
+    entityId: input.entityId,
+    metadata: {
+      ruleId: application.ruleId,
+      ruleName: application.ruleName,
+      source: input.source,
+      before: application.before,
+      after: application.after,
+    },
+  })
+}
+
+/**
+ * Categorizes a new expense before it is booked; returns null when no rule changes it
+ * Runs inside the caller's transaction so the rule's expense account is checked with the booking
+ */
+export async function categorizeNewExpense(
+  tx: any,
+  organizationId: string,
+  subject: RuleSubject & { expenseAccountId?: string | null; tags?: string[] }
+): Promise<RuleApplication | null> {
+  const rules = await loadRules(tx, organizationId)
+  return evaluate(rules, subject, {
+    category: subject.category || null,
+    expenseAccountId: subject.expenseAccountId || null,
+    tags: subject.tags || [],
+  })
+}
+
+/**
+ * Audits the rule that categorized a newly created expense
+ */
+export async function auditNewExpenseCategorization(
+  organizationId: string,
+  userId: string,
+  expenseId: string,
+  application: RuleApplication
+) {
+  await auditApplication({ organizationId, userId, entityType: "Expense", entityId: expenseId, application, source: "expense_create" })
+}
+
+/**
+ * Categorizes outgoing statement lines at import; incoming lines are never expenses
+ * Returns one result per line, null where no rule applies
+ */
+export async function categorizeStatementLines(
+  organizationId: string,
+  accountId: string,
+  lines: { amountCents: number; currency: string; description: string; payee?: string }[]
+): Promise<(RuleApplication | null)[]> {
+  const rules = await loadRules(prisma, organizationId)
+  if (rules.length === 0) {
+    return lines.map(() => null)
+  }
+
+  return lines.map((line) =>
+    line.amountCents < 0
+      ? evaluate(
+          rules,
+          {
+            vendor: line.payee,
+            description: line.description,
+            amount: fromMinorUnits(-line.amountCents, line.currency),
+            currency: line.currency,
+            paymentAccountId: accountId,
+          },
+          { category: null, expenseAccountId: null, tags: [] }
+        )
+      : null
+  )
+}
+
+/**
+ * Audits the rule-driven categorization of freshly imported lines
+ */
+export async function auditImportedLineCategorizations(organizationId: string, userId: string, importId: string) {
+  const lines = await prisma.bankStatementLine.findMany({
+    where: { organizationId, importId, categorizationRuleId: { not: null } },
+    include: { categorizationRule: { select: { name: true } } },
+  })
+
+  for (const line of lines) {
+    await auditApplication({
+      organizationId,
+      userId,
+      entityType: "BankStatementLine",
+      entityId: line.id,
+      source: "bank_import",
+      application: {
+        ruleId: line.categorizationRuleId!,
+        ruleName: line.categorizationRule?.name || "",
+        before: { category: null, expenseAccountId: null, tags: [] },
+        after: { category: line.category, expenseAccountId: line.expenseAccountId, tags: line.tags },
+      },
+    })
+  }
+}
+
+/**
+ * Re-books an expense under a rule's categorization
+ * A category or account change supersedes its ledger transaction like an edit does; a tag-only change
+ * touches no postings
+ */
+async function applyToExpense(expense: any, application: RuleApplication, userId: string) {
+  const { after } = application
+  const rebook = after.category !== application.before.category || after.expenseAccountId !== application.before.expenseAccountId
+
+  await prisma.$transaction(async (tx) => {
+    const current = await tx.expense.findFirst({
+      where: { id: expense.id, deletedAt: null, ledgerTransactionId: expense.ledgerTransactionId },
+    })
+    if (!current) {
+      throw ledgerError("Expense changed while rules were applied", 409)
+    }
+
+    const category = after.category ? await resolveExpenseCategory(tx, current.organizationId, after.category) : null
+
+    // Expenses awaiting approval, directly or on an expense report, post with whatever category they have then
+    const awaitsPosting = current.reimbursable || current.approvalStatus !== ExpenseApprovalStatus.APPROVED
+    let ledgerTransactionId = current.ledgerTransactionId
+    if (rebook && (current.ledgerTransactionId || !awaitsPosting)) {
+      ledgerTransactionId = await rebookExpenseTransaction(
+        tx,
+        current,
+        { category: category?.name ?? null, expenseAccountId: after.expenseAccountId },
+        `Recategorized by rule ${application.ruleName}`,
+        userId
+      )
+    }
+
+    await tx.expense.update({
+      where: { id: current.id },
+      data: {
+        category: category?.name ?? null,
+        categoryId: category?.id ?? null,
+        expenseAccountId: after.expenseAccountId,
+        tags: after.tags,
+        categorizationRuleId: application.ruleId,
+        ledgerTransactionId,
+      },
+    })
+  })
+}
+
+/**
+ * Runs rules over existing expenses and pending outgoing statement lines
+ * With dryRun nothing is written and the affected rows are returned (up to 200, with totals);
+ * otherwise each change is applied and audited, and rows that cannot change (closed period,
+ * reconciled postings, concurrent edit) are reported as skipped
+ */
+export async function applyRulesToHistory(input: {
+  organizationId: string
+  ruleId?: string
+  startDate?: Date
+  endDate?: Date
+  dryRun: boolean
+  userId: string
+}) {
+  const { organizationId, ruleId, startDate, endDate, dryRun, userId } = input
+
+  const rules = await loadRules(prisma, organizationId, ruleId)
+
+  const dateFilter =
+    startDate || endDate ? { ...(startDate ? { gte: startDate } : {}), ...(endDate ? { lte: endDate } : {}) } : undefined
+
+  const preview: any[] = []
+  const skipped: { entityType: string; entityId: string; error: string }[] = []
+  let expenseCount = 0
+  let bankLineCount = 0
+  let matchedCount = 0
+
+  const record = (row: any) => {
+    matchedCount++
+    if (preview.length < PREVIEW_LIMIT) {
+      preview.push(row)
+    }
+  }
+
+  const attempt = async (entityType: string, entityId: string, apply: () => Promise<void>) => {
+    try {
+      await apply()
+      return true
+    } catch (error: any) {
+      if (!error.statusCode) {
+        throw error
+      }
+      skipped.push({ entityType, entityId, error: error.message })
+      return false
+    }
+  }
+
+  let cursor: string | undefined
+  for (;;) {
+    const expenses: any[] = await prisma.expense.findMany({
+      where: { organizationId, deletedAt: null, ...(dateFilter ? { date: dateFilter } : {}) },
+      include: { _count: { select: { lines: true } } },
+      orderBy: { id: "asc" },
+      take: HISTORY_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    })
+    if (expenses.length === 0) {
+      break
+    }
+    cursor = expenses[expenses.length - 1].id
+
+    for (const expense of expenses) {
+      let application = evaluate(
+        rules,
+        {
+          vendor: expense.vendor,
+          description: expense.description,
+          category: expense.category,
+          amount: Number(expense.amount),
+          currency: expense.currency,
+          paymentAccountId: expense.paymentAccountId,
+        },
+        { category: expense.category, expenseAccountId: expense.expenseAccountId, tags: expense.tags }
+      )
+      // Split expenses keep their line categories; only the account and tags apply
+      if (application && expense._count.lines > 0) {
+        application = withoutCategory(application)
+      }
+      if (!application) {
+        continue
+      }
+
+      record({
+        entityType: "Expense",
+        entityId: expense.id,
+        date: expense.date,
+        description: expense.description,
+        vendor: expense.vendor,
+        amount: expense.amount,
+        currency: expense.currency,
+        ...application,
+      })
+
+      if (dryRun) {
+        expenseCount++
+        continue
+      }
+
+      const applied = await attempt("Expense", expense.id, () => applyToExpense(expense, application, userId))
+      if (applied) {
+        expenseCount++
+        await auditApplication({ organizationId, userId, entityType: "Expense", entityId: expense.id, application, source: "history" })
+      }
+    }
+  }
+
+  cursor = undefined
+  for (;;) {
+    const lines: any[] = await prisma.bankStatementLine.findMany({
+      where: {
+        organizationId,
+        status: BankLineStatus.PENDING,
+        amountCents: { lt: 0 },
+        ...(dateFilter ? { postedAt: dateFilter } : {}),
+      },
+      orderBy: { id: "asc" },
+      take: HISTORY_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    })
+    if (lines.length === 0) {
+      break
+    }
+    cursor = lines[lines.length - 1].id
+
+    for (const line of lines) {
+      const application = evaluate(
+        rules,
+        {
+          vendor: line.payee,
+          description: line.description,
+          category: line.category,
+          amount: fromMinorUnits(-line.amountCents, line.currency),
+          currency: line.currency,
+          paymentAccountId: line.accountId,
+        },
+        { category: line.category, expenseAccountId: line.expenseAccountId, tags: line.tags }
+      )
+      if (!application) {
+        continue
+      }
+
+      record({
+        entityType: "BankStatementLine",
+        entityId: line.id,
+        date: line.postedAt,
+        description: line.description,
+        vendor: line.payee,
+        amount: fromMinorUnits(-line.amountCents, line.currency),
+        currency: line.currency,
+        ...application,
+      })
+
+      if (dryRun) {
+        bankLineCount++
+        continue
+      }
+
+      const applied = await attempt("BankStatementLine", line.id, async () => {
+        const updated = await prisma.bankStatementLine.updateMany({
+          where: { id: line.id, status: BankLineStatus.PENDING },
+          data: {
+            category: application.after.category,
+            expenseAccountId: application.after.expenseAccountId,
+            tags: application.after.tags,
+            categorizationRuleId: application.ruleId,
+          },
+        })
+        if (updated.count === 0) {
+          throw ledgerError("Statement line is no longer pending", 409)
+        }
+      })
+      if (applied) {
+        bankLineCount++
+        await auditApplication({ organizationId, userId, entityType: "BankStatementLine", entityId: line.id, application, source: "history" })
+      }
+    }
+  }
+
+  return {
+    dryRun,
+    expenseCount,
+    bankLineCount,
+    changes: preview,
+    truncated: matchedCount > preview.length,
+    skipped,
+  }
+}
+
+/**
+ * Lists rules in evaluation order
+ */
+export async function listRules(organizationId: string) {
+  return prisma.categorizationRule.findMany({
+    where: { organizationId },
+    include: { expenseAccount: { select: { id: true, name: true, code: true } } },
+    orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+  })
+}
+
+function duplicateName(error: any, name: string | undefined) {
+  if (error.code === "P2002") {
+    return ledgerError(`A rule named "${name}" already exists`, 409)
+  }
+  return error
+}
+
+/**
+ * Creates a rule
+ */
+export async function createRule(input: {
+  organizationId: string
+  name: string
+  priority: number
+  enabled: boolean
+  conditions: RuleCondition[]
+  category?: string | null
+  expenseAccountId?: string | null
+  tags: string[]
+  userId: string
+}) {
+  const { organizationId, userId, ...data } = input
+
+  if (data.expenseAccountId) {
+    await assertExpenseAccount(prisma, organizationId, data.expenseAccountId)
+  }
+  const category = data.category ? (await resolveExpenseCategory(prisma, organizationId, data.category)).name : null
+
+  try {
+    const rule = await prisma.categorizationRule.create({
+      data: {
+        organizationId,
+        name: data.name,
+        priority: data.priority,
+        enabled: data.enabled,
+        conditions: data.conditions as any,
+        category,
+        expenseAccountId: data.expenseAccountId || null,
+        tags: data.tags,
+        createdByUserId: userId,
+      },
+    })
+
+    await createAuditLog({
+      organizationId,
+      userId,
+      action: "CATEGORIZATION_RULE_CREATED",
+      entityType: "CategorizationRule",
+      entityId: rule.id,
+      metadata: { name: rule.name, priority: rule.priority, conditions: data.conditions },
+    })
+
+    return rule
+  } catch (error: any) {
+    throw duplicateName(error, data.name)
+  }
+}
+
+/**
+ * Updates a rule; the result must still set a category, expense account or tags
+ */
+export async function updateRule(input: {
+  organizationId: string
+  ruleId: string
+  changes: {
+    name?: string
+    priority?: number
+    enabled?: boolean
+    conditions?: RuleCondition[]
+    category?: string | null
+    expenseAccountId?: string | null
+    tags?: string[]
+  }
+  userId: string
+}) {
+  const { organizationId, ruleId, changes, userId } = input
+
+  const existing = await prisma.categorizationRule.findFirst({ where: { id: ruleId, organizationId } })
+  if (!existing) {
+    throw ledgerError("Categorization rule not found", 404)
+  }
+
+  const category = changes.category !== undefined ? changes.category : existing.category
+  const expenseAccountId = changes.expenseAccountId !== undefined ? changes.expenseAccountId : existing.expenseAccountId
+  const tags = changes.tags ?? existing.tags
+  if (!category && !expenseAccountId && tags.length === 0) {
+    throw ledgerError("Set a category, expense account or tags")
+  }
+  if (changes.expenseAccountId) {
+    await assertExpenseAccount(prisma, organizationId, changes.expenseAccountId)
+  }
+  if (changes.category) {
+    changes.category = (await resolveExpenseCategory(prisma, organizationId, changes.category)).name
+  }
+
+  try {
+    const rule = await prisma.categorizationRule.update({
+      where: { id: ruleId },
+      data: {
+        ...changes,
+        conditions: changes.conditions as any,
+      },
+    })
+
+    await createAuditLog({
+      organizationId,
+      userId,
+      action: "CATEGORIZATION_RULE_UPDATED",
+      entityType: "CategorizationRule",
+      entityId: rule.id,
+      metadata: { changes },
+    })
+
+    return rule
+  } catch (error: any) {
+    throw duplicateName(error, changes.name)
+  }
+}
+
+/**
+ * Deletes a rule; rows it categorized keep their values
+ */
+export async function deleteRule(organizationId: string, ruleId: string, userId: string) {
+  const rule = await prisma.categorizationRule.findFirst({ where: { id: ruleId, organizationId } })
+  if (!rule) {
+    throw ledgerError("Categorization rule not found", 404)
+  }
+
+  await prisma.categorizationRule.delete({ where: { id: rule.id } })
+
+  await createAuditLog({
+    organizationId,
+    userId,
+    action: "CATEGORIZATION_RULE_DELETED",
+    entityType: "CategorizationRule",
+    entityId: rule.id,
+    metadata: { name: rule.name },
+  })
+}
@@ -1,5 +1,6 @@
 import { S3Client, PutObjectCommand, DeleteObjectCommand, GetObjectCommand } from "@aws-sdk/client-s3"
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner"
+import { createHash } from "crypto"
 
 const s3Client = new S3Client({
   region: process.env.AWS_REGION || "us-east-1",
@@ -47,6 +48,27 @@ export async function generatePresignedDownloadUrl(
   return getSignedUrl(s3Client, command, { expiresIn })
 }
 
+/**
+ * Hex SHA-256 of an uploaded object, read back from the bucket so the digest does not depend on the client
+ */
+export async function hashS3Object(key: string): Promise<string> {
+  if (!BUCKET_NAME) {
+    throw new Error("AWS_S3_BUCKET_NAME is not configured")
+  }
+
+  const command = new GetObjectCommand({
+    Bucket: BUCKET_NAME,
+    Key: key,
+  })
+
+  const response = await s3Client.send(command)
+  if (!response.Body) {
+    throw new Error("Uploaded receipt not found")
+  }
+
+  return createHash("sha256").update(await response.Body.transformToByteArray()).digest("hex")
+}
+
 export async function deleteS3Object(key: string): Promise<void> {
   if (!BUCKET_NAME) {
     throw new Error("AWS_S3_BUCKET_NAME is not configured")
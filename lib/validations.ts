@@ -1,4 +1,16 @@
 import { z } from "zod"
+import { isSupportedCurrency } from "@/lib/currency"
+import { isValidTimezone } from "@/lib/utils"
+
+// Line item of a split expense; lines must add up to the expense amount
+export const expenseLineSchema = z.object({
+  amount: z.coerce.number().positive("Amount must be positive"),
+  category: z.string().max(100).optional(),
+  memo: z.string().max(500).optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  taxCodeId: z.string().cuid().optional(),
+  taxAmount: z.coerce.number().min(0).optional(),
+})
 
 // Base expense schema (without organizationId - comes from OrgCore)
 export const expenseSchema = z.object({
@@ -7,6 +19,19 @@ export const expenseSchema = z.object({
   category: z.string().max(100).optional(),
   vendor: z.string().max(100).optional(),
   date: z.coerce.date(),
+  paymentAccountId: z.string().cuid().optional(),
+  expenseAccountId: z.string().cuid().optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  currency: z.string().length(3).toUpperCase().refine(isSupportedCurrency, "Unknown currency code").optional(),
+  // Tax included in amount; taxAmount overrides the amount computed from the tax code
+  taxCodeId: z.string().cuid().nullable().optional(),
+  taxAmount: z.coerce.number().min(0).nullable().optional(),
+  // Splits the expense across categories; on update an empty list removes the split
+  lines: z.array(expenseLineSchema).max(50).optional(),
+  // Paid by the employee; posted when its expense report is approved
+  reimbursable: z.boolean().optional(),
+  // Creates the expense even when it looks like a duplicate
+  allowDuplicates: z.boolean().optional(),
 })
 
 // Extended schema for internal use (with organizationId)
@@ -14,8 +39,12 @@ export const expenseSchemaWithOrg = expenseSchema.extend({
   organizationId: z.string().cuid(),
 })
 
+export const expenseListQuerySchema = z.object({
+  approvalStatus: z.enum(["PENDING", "APPROVED", "REJECTED"]).optional(),
+})
+
 // Update schema (without organizationId - comes from OrgCore)
-export const expenseUpdateSchema = expenseSchema.partial().extend({
+export const expenseUpdateSchema = expenseSchema.omit({ reimbursable: true, allowDuplicates: true }).partial().extend({
   id: z.string().cuid(),
 })
 
@@ -30,12 +59,19 @@ export const membershipSchema = z.object({
   role: z.enum(["OWNER", "ADMIN", "MEMBER", "VIEWER"]),
 })
 
-export const receiptUploadSchema = z.object({
-  expenseId: z.string().cuid(),
-  filename: z.string().min(1),
-  mimeType: z.string().min(1),
-  size: z.number().int().positive().max(10 * 1024 * 1024), // 10MB max
-})
+// A receipt belongs to an expense or to a vendor bill
+export const receiptUploadSchema = z
+  .object({
+    expenseId: z.string().cuid().optional(),
+    billId: z.string().cuid().optional(),
+    filename: z.string().min(1),
+    mimeType: z.string().min(1),
+    size: z.number().int().positive().max(10 * 1024 * 1024), // 10MB max
+  })
+  .refine((receipt) => Boolean(receipt.expenseId) !== Boolean(receipt.billId), {
+    message: "Pass either expenseId or billId",
+    path: ["expenseId"],
+  })
 
 export const reportFiltersSchema = z.object({
   organizationId: z.string().cuid(),
@@ -43,6 +79,602 @@ export const reportFiltersSchema = z.object({
   endDate: z.coerce.date().optional(),
   category: z.string().optional(),
   vendor: z.string().optional(),
-  groupBy: z.enum(["month", "category", "vendor"]).optional(),
+  groupBy: z.enum(["month", "category", "vendor", "account"]).optional(),
+  depth: z.coerce.number().int().min(0).optional(),
+})
+
+
+export const journalEntryLineSchema = z.object({
+  accountId: z.string().cuid(),
+  direction: z.enum(["DR", "CR"]),
+  amount: z.coerce.number().positive("Amount must be positive"),
+  currency: z.string().length(3).toUpperCase().refine(isSupportedCurrency, "Unknown currency code").optional(),
+  // Base-currency amount when the conversion is known (e.g. from a bank statement)
+  baseAmount: z.coerce.number().positive("Base amount must be positive").optional(),
+  memo: z.string().max(500).optional(),
+  category: z.string().max(100).optional(),
+})
+
+// Journal entry schema (without organizationId - comes from OrgCore)
+export const journalEntrySchema = z.object({
+  date: z.coerce.date(),
+  description: z.string().min(1, "Description is required").max(500),
+  vendor: z.string().max(100).optional(),
+  externalRef: z.string().max(200).optional(),
+  idempotencyKey: z.string().min(1).max(200).optional(),
+  lines: z.array(journalEntryLineSchema).min(2, "At least two lines are required"),
+})
+
+export const accountCodeSchema = z
+  .string()
+  .max(50)
+  .regex(/^[A-Za-z0-9_.-]+$/, "Code may contain letters, numbers, '.', '-' and '_' only")
+
+// Ledger account schema (without organizationId - comes from OrgCore)
+export const ledgerAccountSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100),
+  type: z.enum(["ASSET", "LIABILITY", "EQUITY", "INCOME", "EXPENSE"]),
+  code: accountCodeSchema.optional(),
+  currency: z.string().length(3).toUpperCase().refine(isSupportedCurrency, "Unknown currency code").optional(),
+  parentId: z.string().cuid().optional(),
+})
+
+export const ledgerAccountUpdateSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100).optional(),
+  code: accountCodeSchema.nullable().optional(),
+  parentId: z.string().cuid().nullable().optional(),
+  archived: z.boolean().optional(),
+})
+
+export const trialBalanceQuerySchema = z.object({
+  asOf: z.coerce.date().optional(),
+  depth: z.coerce.number().int().min(0).optional(),
+  format: z.enum(["json", "csv"]).optional(),
+})
+
+export const incomeStatementQuerySchema = z.object({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  comparison: z.enum(["previous_period", "previous_year"]).optional(),
+  depth: z.coerce.number().int().min(0).optional(),
+})
+
+export const balanceSheetQuerySchema = z.object({
+  asOf: z.coerce.date().optional(),
+  comparison: z.enum(["previous_period", "previous_year"]).optional(),
+  depth: z.coerce.number().int().min(0).optional(),
+})
+
+export const accountRegisterQuerySchema = z.object({
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  cursor: z.string().cuid().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+})
+
+// Organization settings (organizationId comes from OrgCore)
+export const orgSettingsSchema = z.object({
+  defaultPaymentAccountId: z.string().cuid().nullable().optional(),
+  baseCurrency: z.string().length(3).toUpperCase().refine(isSupportedCurrency, "Unknown currency code").optional(),
+  fiscalYearStartMonth: z.number().int().min(1).max(12).optional(),
+  reportingTimezone: z.string().refine(isValidTimezone, "Unknown timezone").optional(),
+  taxId: z.string().trim().max(20).nullable().optional(),
+})
+
+// FX rate schema (without organizationId - comes from OrgCore)
+export const fxRateSchema = z.object({
+  fromCurrency: z.string().length(3).toUpperCase().refine(isSupportedCurrency, "Unknown currency code"),
+  toCurrency: z.string().length(3).toUpperCase().refine(isSupportedCurrency, "Unknown currency code"),
+  rate: z.coerce.number().positive("Rate must be positive"),
+  effectiveDate: z.coerce.date(),
+})
+
+export const periodSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Period must be YYYY-MM")
+
+export const periodListQuerySchema = z.object({
+  from: periodSchema.optional(),
+  to: periodSchema.optional(),
+})
+
+export const periodLockSchema = z.object({
+  status: z.enum(["SOFT_CLOSED", "LOCKED"]).default("LOCKED"),
+  reason: z.string().trim().min(1, "Reason is required").max(500),
+  // Close even though the checklist has open items
+  force: z.boolean().optional(),
+})
+
+export const periodUnlockSchema = z.object({
+  reason: z.string().trim().min(1, "Reason is required").max(500),
+})
+
+export const yearEndCloseSchema = z.object({
+  fiscalYear: z.coerce.number().int().min(1900).max(9999),
+})
+
+export const fxRevaluationSchema = z.object({
+  period: periodSchema,
+})
+
+export const fxRateQuerySchema = z.object({
+  currency: z.string().length(3).toUpperCase().optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+})
+
+const csvColumnSchema = z.union([z.string().trim().min(1), z.number().int().min(0)])
+
+// Saved CSV column mapping for bank statements (columns are header names, or 0-based indexes without a header)
+export const bankCsvMappingSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    delimiter: z.string().length(1).default(","),
+    hasHeader: z.boolean().default(true),
+    dateColumn: csvColumnSchema,
+    dateFormat: z.enum(["YYYY-MM-DD", "YYYYMMDD", "MM/DD/YYYY", "DD/MM/YYYY", "DD.MM.YYYY"]).default("YYYY-MM-DD"),
+    amountColumn: csvColumnSchema.optional(),
+    debitColumn: csvColumnSchema.optional(),
+    creditColumn: csvColumnSchema.optional(),
+    descriptionColumn: csvColumnSchema,
+    payeeColumn: csvColumnSchema.optional(),
+    referenceColumn: csvColumnSchema.optional(),
+    currencyColumn: csvColumnSchema.optional(),
+    decimalSeparator: z.enum([".", ","]).default("."),
+    negateAmounts: z.boolean().default(false),
+  })
+  .refine(
+    (mapping) => mapping.amountColumn !== undefined || mapping.debitColumn !== undefined || mapping.creditColumn !== undefined,
+    { message: "Map an amount column or debit/credit columns", path: ["amountColumn"] }
+  )
+
+// Statement upload form fields (the file itself is validated by the route)
+export const statementImportSchema = z.object({
+  accountId: z.string().cuid(),
+  format: z.enum(["csv", "ofx", "camt053", "mt940"]).optional(),
+  mappingId: z.string().cuid().optional(),
+})
+
+export const bankLineQuerySchema = z.object({
+  accountId: z.string().cuid().optional(),
+  importId: z.string().cuid().optional(),
+  status: z.enum(["PENDING", "CONVERTED", "MATCHED", "IGNORED"]).optional(),
+  cursor: z.string().cuid().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+})
+
+export const bankLineConvertSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("expense"),
+    description: z.string().min(1).max(500).optional(),
+    category: z.string().max(100).optional(),
+    vendor: z.string().max(100).optional(),
+  }),
+  z.object({
+    type: z.literal("journal"),
+    offsetAccountId: z.string().cuid(),
+    description: z.string().min(1).max(500).optional(),
+    memo: z.string().max(500).optional(),
+  }),
+])
+
+export const bankLineUpdateSchema = z.object({
+  ignored: z.boolean(),
+})
+
+export const bankMatchSuggestionQuerySchema = z.object({
+  accountId: z.string().cuid(),
+  dateWindowDays: z.coerce.number().int().min(0).max(60).optional(),
+})
+
+export const bankAutoMatchSchema = z.object({
+  accountId: z.string().cuid(),
+  dateWindowDays: z.number().int().min(0).max(60).optional(),
+})
+
+// Statement lines and the postings they clear; no lines clears postings that never hit a statement
+export const bankMatchSchema = z.object({
+  lineIds: z.array(z.string().cuid()).max(50).default([]),
+  postingIds: z.array(z.string().cuid()).min(1, "At least one posting is required").max(50),
+})
+
+export const reconciliationReportQuerySchema = z.object({
+  accountId: z.string().cuid(),
+  statementDate: z.coerce.date(),
+  statementEndingBalance: z.coerce.number().finite().optional(),
+})
+
+export const reconciliationSchema = z.object({
+  accountId: z.string().cuid(),
+  statementDate: z.coerce.date(),
+  statementEndingBalance: z.number().finite(),
+})
+
+const TEXT_RULE_FIELDS = ["vendor", "description", "category"]
+
+// One categorization rule condition; text operators ignore case and "matches" takes a regular expression
+export const ruleConditionSchema = z
+  .object({
+    field: z.enum(["vendor", "description", "category", "amount", "currency", "paymentAccountId"]),
+    operator: z.enum(["matches", "contains", "equals", "lt", "lte", "gt", "gte"]),
+    value: z.union([z.string().min(1).max(200), z.number().finite()]),
+  })
+  .superRefine((condition, ctx) => {
+    const numeric = ["lt", "lte", "gt", "gte"].includes(condition.operator)
+    if (condition.field === "amount") {
+      if (!(numeric || condition.operator === "equals") || typeof condition.value !== "number") {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Amount conditions compare with a number", path: ["operator"] })
+      }
+      return
+    }
+    if (typeof condition.value !== "string" || numeric) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${condition.field} conditions compare with text`, path: ["operator"] })
+      return
+    }
+    if (!TEXT_RULE_FIELDS.includes(condition.field) && condition.operator !== "equals") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${condition.field} only supports equals`, path: ["operator"] })
+    }
+    if (condition.operator === "matches") {
+      try {
+        new RegExp(condition.value, "i")
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid regular expression", path: ["value"] })
+      }
+    }
+  })
+
+const categorizationRuleFields = {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  priority: z.number().int().min(0).max(100000),
+  enabled: z.boolean(),
+  conditions: z.array(ruleConditionSchema).min(1, "At least one condition is required").max(20),
+  category: z.string().trim().min(1).max(100).nullable(),
+  expenseAccountId: z.string().cuid().nullable(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20),
+}
+
+const hasRuleAction = (rule: { category?: string | null; expenseAccountId?: string | null; tags?: string[] }) =>
+  Boolean(rule.category || rule.expenseAccountId || (rule.tags && rule.tags.length > 0))
+
+export const categorizationRuleSchema = z
+  .object({
+    ...categorizationRuleFields,
+    enabled: categorizationRuleFields.enabled.default(true),
+    category: categorizationRuleFields.category.optional(),
+    expenseAccountId: categorizationRuleFields.expenseAccountId.optional(),
+    tags: categorizationRuleFields.tags.default([]),
+  })
+  .refine(hasRuleAction, { message: "Set a category, expense account or tags", path: ["category"] })
+
+export const categorizationRuleUpdateSchema = z.object(categorizationRuleFields).partial()
+
+// Runs rules over existing expenses and pending bank lines; dryRun only previews the changes
+export const ruleApplySchema = z.object({
+  ruleId: z.string().cuid().optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  dryRun: z.boolean().default(true),
+})
+
+const categoryFields = {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  accountId: z.string().cuid(),
+}
+
+export const categorySchema = z.object({
+  name: categoryFields.name,
+  accountId: categoryFields.accountId.optional(),
+})
+
+// accountId re-maps postings made from now on; archived hides the category from new expenses
+export const categoryUpdateSchema = z.object({
+  ...categoryFields,
+  archived: z.boolean(),
+}).partial()
+
+export const categoryMergeSchema = z.object({
+  targetCategoryId: z.string().cuid(),
+})
+
+const vendorFields = {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  aliases: z.array(z.string().trim().min(1).max(100)).max(50),
+  taxId: z.string().trim().min(1).max(50).nullable(),
+  defaultCategoryId: z.string().cuid().nullable(),
+  defaultExpenseAccountId: z.string().cuid().nullable(),
+  is1099: z.boolean(),
+  email: z.string().trim().email().max(200).nullable(),
+  phone: z.string().trim().min(1).max(50).nullable(),
+  address: z.string().trim().min(1).max(500).nullable(),
+}
+
+export const vendorSchema = z.object(vendorFields).partial().required({ name: true })
+
+// aliases replace the current ones; archived hides the vendor from new expenses and matching
+export const vendorUpdateSchema = z.object({
+  ...vendorFields,
+  archived: z.boolean(),
+}).partial()
+
+export const vendorMergeSchema = z.object({
+  targetVendorId: z.string().cuid(),
+})
+
+// rate is a percentage of the net amount and cannot change once the code exists
+export const taxCodeSchema = z.object({
+  code: z.string().trim().min(1).max(20).regex(/^[A-Za-z0-9_-]+$/, "Code may contain letters, numbers, - and _").toUpperCase(),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  rate: z.number().min(0).max(100),
+  recoverablePercent: z.number().min(0).max(100).default(100),
+  inputTaxAccountId: z.string().cuid(),
+})
+
+export const taxCodeUpdateSchema = z.object({
+  name: taxCodeSchema.shape.name,
+  recoverablePercent: z.number().min(0).max(100),
+  inputTaxAccountId: z.string().cuid(),
+  archived: z.boolean(),
+}).partial()
+
+// A filing period (YYYY-MM) or an explicit date range
+export const taxSummaryQuerySchema = z
+  .object({
+    period: periodSchema.optional(),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional(),
+    format: z.enum(["json", "csv"]).optional(),
+  })
+  .refine((query) => Boolean(query.period) !== Boolean(query.startDate && query.endDate), {
+    message: "Pass either period or startDate and endDate",
+    path: ["period"],
+  })
+
+// Vendor bill; the due date defaults from the terms (NETn or DUE_ON_RECEIPT)
+export const billSchema = z
+  .object({
+    vendor: z.string().trim().min(1, "Vendor is required").max(100),
+    billNumber: z.string().trim().min(1).max(100).optional(),
+    description: z.string().min(1, "Description is required").max(500),
+    amount: z.coerce.number().positive("Amount must be positive"),
+    currency: expenseSchema.shape.currency,
+    billDate: z.coerce.date(),
+    dueDate: z.coerce.date().optional(),
+    terms: z.string().trim().toUpperCase().regex(/^(NET\d{1,3}|DUE_ON_RECEIPT)$/, "Terms must be NETn or DUE_ON_RECEIPT").optional(),
+    category: z.string().max(100).optional(),
+    expenseAccountId: z.string().cuid().optional(),
+    taxCodeId: z.string().cuid().optional(),
+    taxAmount: z.coerce.number().min(0).optional(),
+  })
+  .refine((bill) => Boolean(bill.dueDate || bill.terms), {
+    message: "Pass a due date or payment terms",
+    path: ["dueDate"],
+  })
+
+export const billPaymentSchema = z.object({
+  amount: z.coerce.number().positive("Amount must be positive"),
+  paidAt: z.coerce.date(),
+  paymentAccountId: z.string().cuid().optional(),
+  reference: z.string().trim().min(1).max(100).optional(),
+})
+
+export const billListQuerySchema = z.object({
+  status: z.enum(["OPEN", "PARTIALLY_PAID", "PAID", "VOID"]).optional(),
+  vendor: z.string().trim().min(1).max(100).optional(),
+})
+
+export const apAgingQuerySchema = z.object({
+  asOf: z.coerce.date().optional(),
+  format: z.enum(["json", "csv"]).optional(),
+})
+
+// Employee expense report (the employee is the acting user)
+export const expenseReportSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  expenseIds: z.array(z.string().cuid()).max(200).optional(),
+})
+
+export const expenseReportUpdateSchema = expenseReportSchema.partial()
+
+export const expenseReportListQuerySchema = z.object({
+  status: z.enum(["DRAFT", "SUBMITTED", "APPROVED", "REJECTED", "PAID"]).optional(),
+  employeeId: z.string().cuid().optional(),
+})
+
+export const expenseReportRejectSchema = z.object({
+  reason: z.string().trim().min(1, "Reason is required").max(500),
 })
 
+export const expenseReportPayoutSchema = z.object({
+  paidAt: z.coerce.date(),
+  paymentAccountId: z.string().cuid().optional(),
+  reference: z.string().trim().min(1).max(100).optional(),
+})
+
+// Approval policy; steps need a member with requiredRole or above, or one of approverIds
+const approvalPolicyFields = {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  priority: z.number().int().min(0).max(100000),
+  enabled: z.boolean(),
+  conditions: z.array(ruleConditionSchema).max(20),
+  requiredRole: z.enum(["OWNER", "ADMIN", "MEMBER"]).nullable(),
+  approverIds: z.array(z.string().cuid()).max(20),
+}
+
+export const approvalPolicySchema = z
+  .object({
+    ...approvalPolicyFields,
+    enabled: approvalPolicyFields.enabled.default(true),
+    conditions: approvalPolicyFields.conditions.default([]),
+    requiredRole: approvalPolicyFields.requiredRole.optional(),
+    approverIds: approvalPolicyFields.approverIds.default([]),
+  })
+  .refine((policy) => Boolean(policy.requiredRole || policy.approverIds.length > 0), {
+    message: "Set a required role or approvers",
+    path: ["requiredRole"],
+  })
+
+export const approvalPolicyUpdateSchema = z.object(approvalPolicyFields).partial()
+
+export const expenseApprovalSchema = z.object({
+  comment: z.string().trim().min(1).max(1000).optional(),
+})
+
+export const expenseRejectionSchema = z.object({
+  comment: z.string().trim().min(1, "A comment is required").max(1000),
+})
+
+// Spending policy rule; amounts are in the base currency and categories are matched by name
+const spendingPolicyRuleSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("RECEIPT_REQUIRED"),
+    params: z.object({ amount: z.number().min(0) }),
+  }),
+  z.object({
+    kind: z.literal("CATEGORY_CAP"),
+    params: z.object({
+      category: z.string().trim().min(1).max(100),
+      amount: z.number().positive(),
+      per: z.enum(["EXPENSE", "DAY"]).default("EXPENSE"),
+    }),
+  }),
+  z.object({
+    kind: z.literal("NO_WEEKEND"),
+    params: z.object({ category: z.string().trim().min(1).max(100).optional() }),
+  }),
+  z.object({
+    kind: z.literal("MAX_AGE"),
+    params: z.object({ days: z.number().int().min(1).max(3650) }),
+  }),
+  z.object({
+    kind: z.literal("BLOCKED_VENDOR"),
+    params: z.object({ vendorIds: z.array(z.string().cuid()).min(1).max(100) }),
+  }),
+])
+
+const spendingPolicyFields = {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  severity: z.enum(["WARNING", "HARD"]),
+  enabled: z.boolean(),
+}
+
+// Receipts are uploaded after the expense is created, so a missing receipt can only warn
+export const spendingPolicySchema = z
+  .object({
+    ...spendingPolicyFields,
+    severity: spendingPolicyFields.severity.default("WARNING"),
+    enabled: spendingPolicyFields.enabled.default(true),
+  })
+  .and(spendingPolicyRuleSchema)
+  .refine((policy) => !(policy.kind === "RECEIPT_REQUIRED" && policy.severity === "HARD"), {
+    message: "A receipt policy can only warn",
+    path: ["severity"],
+  })
+
+// kind and params are replaced together
+export const spendingPolicyUpdateSchema = z
+  .object(spendingPolicyFields)
+  .partial()
+  .and(z.union([spendingPolicyRuleSchema, z.object({ kind: z.undefined(), params: z.undefined() })]))
+
+export const spendingPolicyEvaluateSchema = z.object({
+  expenseId: z.string().cuid().optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+})
+
+export const policyExceptionsQuerySchema = z.object({
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  severity: z.enum(["WARNING", "HARD"]).optional(),
+  policyId: z.string().cuid().optional(),
+  format: z.enum(["json", "csv"]).optional(),
+})
+
+export const expenseDuplicateListQuerySchema = z.object({
+  status: z.enum(["OPEN", "MERGED", "DISMISSED"]).optional(),
+})
+
+export const expenseDuplicateMergeSchema = z.object({
+  keepExpenseId: z.string().cuid().optional(),
+})
+
+// Recurring template; amounts are in the template currency (default: base currency)
+const recurringJournalLineSchema = journalEntryLineSchema.pick({
+  accountId: true,
+  direction: true,
+  amount: true,
+  memo: true,
+  category: true,
+})
+
+const recurringTemplateFields = {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().min(1, "Description is required").max(500),
+  currency: z.string().length(3).toUpperCase().refine(isSupportedCurrency, "Unknown currency code"),
+  frequency: z.enum(["DAILY", "WEEKLY", "MONTHLY", "YEARLY"]),
+  interval: z.number().int().min(1).max(366),
+  dayOfMonth: z.number().int().min(1).max(31).nullable(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullable(),
+  active: z.boolean(),
+  amount: z.coerce.number().positive("Amount must be positive"),
+  category: z.string().max(100).nullable(),
+  vendor: z.string().max(100).nullable(),
+  paymentAccountId: z.string().cuid().nullable(),
+  expenseAccountId: z.string().cuid().nullable(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(20),
+  journalLines: z.array(recurringJournalLineSchema).min(2, "At least two lines are required").max(50),
+}
+
+export const recurringTemplateSchema = z
+  .object({
+    name: recurringTemplateFields.name,
+    description: recurringTemplateFields.description,
+    currency: recurringTemplateFields.currency.optional(),
+    frequency: recurringTemplateFields.frequency,
+    interval: recurringTemplateFields.interval.default(1),
+    dayOfMonth: recurringTemplateFields.dayOfMonth.optional(),
+    startDate: recurringTemplateFields.startDate,
+    endDate: recurringTemplateFields.endDate.optional(),
+    active: recurringTemplateFields.active.default(true),
+  })
+  .and(
+    z.discriminatedUnion("kind", [
+      z.object({
+        kind: z.literal("EXPENSE"),
+        amount: recurringTemplateFields.amount,
+        category: recurringTemplateFields.category.optional(),
+        vendor: recurringTemplateFields.vendor.optional(),
+        paymentAccountId: recurringTemplateFields.paymentAccountId.optional(),
+        expenseAccountId: recurringTemplateFields.expenseAccountId.optional(),
+        tags: recurringTemplateFields.tags.default([]),
+      }),
+      z.object({
+        kind: z.literal("JOURNAL"),
+        journalLines: recurringTemplateFields.journalLines,
+      }),
+    ])
+  )
+  .refine((template) => !template.endDate || template.endDate >= template.startDate, {
+    message: "End date must be on or after the start date",
+    path: ["endDate"],
+  })
+
+// The kind and start date are fixed; fields of the other kind are refused
+export const recurringTemplateUpdateSchema = z
+  .object(recurringTemplateFields)
+  .omit({ startDate: true })
+  .partial()
+
+export const recurringRunSchema = z.object({
+  asOf: z.coerce.date().optional(),
+})
+
+export const recurringPreviewQuerySchema = z.object({
+  templateId: z.string().cuid().optional(),
+  until: z.coerce.date().optional(),
+})
+
+export const form1099QuerySchema = z.object({
+  taxYear: z.coerce.number().int().min(2000).max(2100),
+  threshold: z.coerce.number().nonnegative().optional(),
+  format: z.enum(["json", "csv"]).optional(),
+})
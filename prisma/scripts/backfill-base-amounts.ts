@@ -0,0 +1,67 @@
+import { PrismaClient } from "@prisma/client"
+import { convertMinorUnits, getFxRate } from "../../lib/ledger/fxService"
+
+const prisma = new PrismaClient()
+
+const BATCH_SIZE = 500
+
+async function main() {
+  console.log("Starting base amount backfill...")
+
+  const organizations = await prisma.organization.findMany()
+
+  for (const org of organizations) {
+    console.log(`\nProcessing organization: ${org.name} (${org.id}), base currency ${org.baseCurrency}`)
+
+    let updated = 0
+    let failed = 0
+    let cursor: string | undefined
+
+    for (;;) {
+      // Postings created before multi-currency support have no base amount
+      const postings = await prisma.ledgerPosting.findMany({
+        where: { organizationId: org.id, baseAmountCents: null },
+        include: { transaction: { select: { occurredAt: true } } },
+        orderBy: { id: "asc" },
+        take: BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      })
+
+      if (postings.length === 0) {
+        break
+      }
+
+      for (const posting of postings) {
+        try {
+          const fxRate = await getFxRate(org.id, posting.currency, org.baseCurrency, posting.transaction.occurredAt)
+          await prisma.ledgerPosting.update({
+            where: { id: posting.id },
+            data: {
+              baseAmountCents: convertMinorUnits(posting.amountCents, posting.currency, org.baseCurrency, fxRate),
+              fxRate,
+            },
+          })
+          updated++
+        } catch (error: any) {
+          failed++
+          console.error(`  ✗ Failed to backfill posting ${posting.id}:`, error.message)
+        }
+      }
+
+      cursor = postings[postings.length - 1].id
+    }
+
+    console.log(`✓ ${updated} postings updated${failed ? `, ${failed} failed` : ""}`)
+  }
+
+  console.log("\n✓ Base amount backfill completed!")
+}
+
+main()
+  .catch((e) => {
+    console.error("Backfill error:", e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,75 @@
+import { PrismaClient } from "@prisma/client"
+import { resolveExpenseCategory } from "../../lib/ledger/categoryService"
+
+const prisma = new PrismaClient()
+
+const BATCH_SIZE = 500
+
+async function main() {
+  console.log("Starting expense category backfill...")
+
+  const organizations = await prisma.organization.findMany()
+
+  for (const org of organizations) {
+    console.log(`\nProcessing organization: ${org.name} (${org.id})`)
+
+    // Accounts created per category name before the managed list become its categories
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: { organizationId: org.id, type: "EXPENSE", name: { startsWith: "Expense: " }, expenseCategories: { none: {} } },
+      orderBy: { name: "asc" },
+    })
+    for (const account of accounts) {
+      const category = await resolveExpenseCategory(prisma, org.id, account.name.slice("Expense: ".length))
+      console.log(`  ${account.name} -> ${category.name}`)
+    }
+
+    let linked = 0
+    let failed = 0
+    let cursor: string | undefined
+
+    for (;;) {
+      const expenses = await prisma.expense.findMany({
+        where: { organizationId: org.id, categoryId: null, category: { not: null } },
+        orderBy: { id: "asc" },
+        take: BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      })
+
+      if (expenses.length === 0) {
+        break
+      }
+
+      for (const expense of expenses) {
+        if (!expense.category?.trim()) {
+          continue
+        }
+        try {
+          const category = await resolveExpenseCategory(prisma, org.id, expense.category)
+          await prisma.expense.update({
+            where: { id: expense.id },
+            data: { categoryId: category.id, category: category.name },
+          })
+          linked++
+        } catch (error: any) {
+          failed++
+          console.error(`  ✗ Failed to link expense ${expense.id}:`, error.message)
+        }
+      }
+
+      cursor = expenses[expenses.length - 1].id
+    }
+
+    console.log(`✓ ${accounts.length} categories from accounts, ${linked} expenses linked${failed ? `, ${failed} failed` : ""}`)
+  }
+
+  console.log("\n✓ Expense category backfill completed!")
+}
+
+main()
+  .catch((e) => {
+    console.error("Backfill error:", e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
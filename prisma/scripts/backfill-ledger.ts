@@ -1,5 +1,10 @@
 import { PrismaClient } from "@prisma/client"
-import { ensureDefaultAccounts, createExpenseTransaction } from "../../lib/ledger/ledgerService"
+import {
+  ensureDefaultAccounts,
+  createExpenseTransaction,
+  resolvePaymentAccount,
+} from "../../lib/ledger/ledgerService"
+import { toMinorUnits } from "../../lib/currency"
 
 const prisma = new PrismaClient()
 
@@ -21,6 +26,8 @@ async function main() {
       where: {
         organizationId: org.id,
         ledgerTransactionId: null,
+        reimbursable: false, // Reimbursable expenses post when their report is approved
+        approvalStatus: "APPROVED", // Pending and rejected expenses post on approval
         deletedAt: null, // Only backfill non-deleted expenses
       },
       include: {
@@ -55,8 +62,11 @@ async function main() {
           continue
         }
 
-        // Convert amount to cents
-        const amountCents = Math.round(Number(expense.amount) * 100)
+        // Convert amount to minor units of the expense currency
+        const amountCents = toMinorUnits(Number(expense.amount), expense.currency)
+
+        // Expenses recorded before payment accounts existed fall back to the org default (or Cash)
+        const paymentAccountId = await resolvePaymentAccount(prisma, org.id, expense.paymentAccountId)
 
         // Create ledger transaction
         const ledgerTransactionId = await createExpenseTransaction({
@@ -64,8 +74,10 @@ async function main() {
           occurredAt: expense.date,
           description: expense.description,
           amountCents,
+          currency: expense.currency,
           category: expense.category,
           vendor: expense.vendor,
+          paymentAccountId,
           idempotencyKey,
           createdByUserId: expense.createdById || "system",
         })
@@ -73,7 +85,7 @@ async function main() {
         // Link transaction to expense
         await prisma.expense.update({
           where: { id: expense.id },
-          data: { ledgerTransactionId },
+          data: { ledgerTransactionId, paymentAccountId },
         })
 
         // Link receipts to ledger transaction
@@ -0,0 +1,85 @@
+import { PrismaClient } from "@prisma/client"
+import { resolveVendor } from "../../lib/ledger/vendorService"
+
+const prisma = new PrismaClient()
+
+const BATCH_SIZE = 500
+
+/**
+ * Links records that only carry a vendor name to vendor records, creating vendors for new names
+ * Names are matched like typed names, so "Amazon" and "AMAZON" become one vendor; records of archived
+ * vendors are reported and left unlinked
+ */
+async function linkVendors(
+  organizationId: string,
+  model: "expense" | "bill" | "ledgerTransaction",
+  label: string
+) {
+  const delegate = prisma[model] as any
+  let linked = 0
+  let failed = 0
+  let cursor: string | undefined
+
+  for (;;) {
+    const records: { id: string; vendor: string | null }[] = await delegate.findMany({
+      where: { organizationId, vendorId: null, vendor: { not: null } },
+      select: { id: true, vendor: true },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    })
+
+    if (records.length === 0) {
+      break
+    }
+
+    for (const record of records) {
+      if (!record.vendor?.trim()) {
+        continue
+      }
+      try {
+        const vendor = await resolveVendor(prisma, organizationId, record.vendor)
+        await delegate.update({
+          where: { id: record.id },
+          data: { vendorId: vendor.id, vendor: vendor.name },
+        })
+        linked++
+      } catch (error: any) {
+        failed++
+        console.error(`  ✗ Failed to link ${label} ${record.id}:`, error.message)
+      }
+    }
+
+    cursor = records[records.length - 1].id
+  }
+
+  console.log(`  ${linked} ${label}s linked${failed ? `, ${failed} failed` : ""}`)
+}
+
+async function main() {
+  console.log("Starting vendor backfill...")
+
+  const organizations = await prisma.organization.findMany()
+
+  for (const org of organizations) {
+    console.log(`\nProcessing organization: ${org.name} (${org.id})`)
+
+    await linkVendors(org.id, "expense", "expense")
+    await linkVendors(org.id, "bill", "bill")
+    await linkVendors(org.id, "ledgerTransaction", "ledger transaction")
+
+    const vendorCount = await prisma.vendor.count({ where: { organizationId: org.id } })
+    console.log(`✓ ${vendorCount} vendors`)
+  }
+
+  console.log("\n✓ Vendor backfill completed!")
+}
+
+main()
+  .catch((e) => {
+    console.error("Backfill error:", e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,47 @@
+import { PrismaClient } from "@prisma/client"
+import { runRevaluation } from "../lib/ledger/fxRevaluation"
+import { addPeriods, assertPeriod, periodOf, today } from "../lib/ledger/periods"
+
+const prisma = new PrismaClient()
+
+/**
+ * Month-end FX revaluation for every organization
+ * Usage: npm run ledger:fx-revaluation -- [YYYY-MM]  (defaults to each organization's previous month)
+ */
+async function main() {
+  const requestedPeriod = process.argv[2]
+  if (requestedPeriod) {
+    assertPeriod(requestedPeriod)
+  }
+
+  console.log(`Running FX revaluation for ${requestedPeriod || "the previous month"}...`)
+
+  const organizations = await prisma.organization.findMany()
+  let failed = 0
+
+  for (const org of organizations) {
+    try {
+      const period = requestedPeriod || addPeriods(periodOf(today(org.reportingTimezone)), -1)
+      const run = await runRevaluation({ organizationId: org.id, period, createdByUserId: "system" })
+      const lineCount = Array.isArray(run.lines) ? run.lines.length : 0
+      console.log(`  ✓ ${org.name} ${period}: ${lineCount} balances revalued${run.transactionId ? "" : " (no adjustment)"}`)
+    } catch (error: any) {
+      failed++
+      console.error(`  ✗ ${org.name}:`, error.message)
+    }
+  }
+
+  console.log(failed ? `\n✗ FX revaluation finished with ${failed} failures` : "\n✓ FX revaluation completed!")
+  if (failed) {
+    process.exitCode = 1
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error("Revaluation error:", e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
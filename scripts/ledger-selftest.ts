@@ -1,9 +1,116 @@
 import { PrismaClient } from "@prisma/client"
-import { ensureDefaultAccounts, createExpenseTransaction, reverseTransaction } from "../lib/ledger/ledgerService"
-import { randomUUID } from "crypto"
+import {
+  ensureDefaultAccounts,
+  createExpenseTransaction,
+  createJournalEntry,
+  lockPeriod,
+  resolvePaymentAccount,
+  reverseTransaction,
+  unlockPeriod,
+} from "../lib/ledger/ledgerService"
+import { upsertFxRate } from "../lib/ledger/fxService"
+import { checkExpenseDuplicates, dismissDuplicate, findDuplicateCandidates, listExpenseDuplicates, mergeDuplicateExpenses } from "../lib/ledger/expenseDuplicates"
+import { createRecurringTemplate, runRecurringTemplates, updateRecurringTemplate } from "../lib/ledger/recurringTemplates"
+import { createSpendingPolicy, evaluateSpendingPolicies, updateSpendingPolicy } from "../lib/approvals/spendingPolicies"
+import { approveExpense, createApprovalPolicy, rejectExpense } from "../lib/approvals/expenseApprovals"
+import { approveExpenseReport, createExpenseReport, getReimbursementBalances, payExpenseReport, submitExpenseReport } from "../lib/payables/expenseReports"
+import { get1099Report } from "../lib/reports/form1099"
+import { createVendor, getVendorMatcher, mergeVendor, resolveVendor, vendorKey } from "../lib/ledger/vendorService"
+import { getApAging } from "../lib/reports/apAging"
+import { createBill, recordBillPayment, voidBill } from "../lib/payables/bills"
+import { getTaxSummary } from "../lib/reports/taxSummary"
+import { createTaxCode, splitTaxAmount } from "../lib/ledger/taxCodes"
+import { createCategory, mergeCategory, resolveExpenseCategory, updateCategory } from "../lib/ledger/categoryService"
+import { applyRulesToHistory, compileConditions, createRule } from "../lib/rules/categorizationRules"
+import { autoMatch, completeReconciliation, getReconciliationReport, suggestMatches } from "../lib/bank/reconciliation"
+import { parseStatement } from "../lib/bank/statementParsers"
+import { convertLineToExpense, importStatement, listBankLines } from "../lib/bank/statementImport"
+import { fiscalYearOf, periodOf } from "../lib/ledger/periods"
+import { closeFiscalYear } from "../lib/ledger/yearEndClose"
+import { getCloseChecklist, getPeriodStatus } from "../lib/ledger/periodClose"
+import { computeRevaluation, runRevaluation } from "../lib/ledger/fxRevaluation"
+import { getAccountRegister } from "../lib/reports/accountRegister"
+import { getBalanceSheet, getIncomeStatement } from "../lib/reports/financialStatements"
+import { getLedgerReport, getTrialBalance } from "../lib/reports/ledgerReports"
+import { rollUpAccounts } from "../lib/reports/accountHierarchy"
+import { archiveAccount, createAccount, getAccountBalance, updateAccount } from "../lib/ledger/accountService"
+import { randomInt, randomUUID } from "crypto"
 
 const prisma = new PrismaClient()
 
+// Set once the test user exists; entries posted through postEntry are created by it
+let testUserId = ""
+
+/**
+ * Creates a throwaway organization for tests that change organization-wide settings (policies, period
+ * locks, base currency), so the shared test organization and later runs are unaffected
+ */
+async function createScratchOrg(
+  label: string,
+  userId: string,
+  data: { baseCurrency?: string; fiscalYearStartMonth?: number } = {}
+) {
+  const org = await prisma.organization.create({
+    data: { name: `Test ${label}`, slug: `test-ledger-${label}-${randomUUID()}`, ...data },
+  })
+  await prisma.membership.create({ data: { userId, organizationId: org.id, role: "OWNER" } })
+  await ensureDefaultAccounts(org.id)
+  return org
+}
+
+/**
+ * Looks up an organization's default Cash and Uncategorized Expense accounts
+ */
+async function defaultAccounts(organizationId: string) {
+  const [cash, uncategorized] = await Promise.all(
+    ["Cash", "Uncategorized Expense"].map((name) =>
+      prisma.ledgerAccount.findUniqueOrThrow({ where: { organizationId_name: { organizationId, name } } })
+    )
+  )
+  return { cash, uncategorized }
+}
+
+/**
+ * Posts a two-line journal entry debiting one account and crediting another
+ */
+function postEntry(
+  organizationId: string,
+  occurredAt: Date,
+  amountCents: number,
+  debitAccountId: string,
+  creditAccountId: string,
+  options: { description?: string; vendor?: string; currency?: string } = {}
+) {
+  const { description = "Test entry", vendor, currency } = options
+  return createJournalEntry({
+    organizationId,
+    occurredAt,
+    description,
+    vendor,
+    idempotencyKey: `test:journal:${randomUUID()}`,
+    createdByUserId: testUserId,
+    lines: [
+      { accountId: debitAccountId, direction: "DR", amountCents, currency },
+      { accountId: creditAccountId, direction: "CR", amountCents, currency },
+    ],
+  })
+}
+
+/**
+ * Runs a call that must fail and returns its status code (undefined for errors without one)
+ */
+async function expectRejection(label: string, call: () => Promise<unknown>, statusCode?: number) {
+  try {
+    await call()
+  } catch (error: any) {
+    if (statusCode !== undefined && error.statusCode !== statusCode) {
+      throw new Error(`❌ ${label}: expected ${statusCode}, got ${error.statusCode} (${error.message})`)
+    }
+    return error.statusCode as number | undefined
+  }
+  throw new Error(`❌ ${label} was accepted`)
+}
+
 async function main() {
   console.log("Running ledger self-test...\n")
 
@@ -41,6 +148,7 @@ async function main() {
     } else {
       console.log("✓ Using existing test user")
     }
+    testUserId = testUser.id
 
     // Ensure membership
     const membership = await prisma.membership.upsert({
@@ -162,13 +270,1658 @@ async function main() {
     })
     console.log(`✓ Reversed (deleted) transaction: ${deleteReversalTxId}`)
 
-    // Verify org scoping
+    // Test 4: Organization scoping
     console.log("\n--- Test 4: Organization Scoping ---")
     const allTransactions = await prisma.ledgerTransaction.findMany({
       where: { organizationId: testOrg.id },
     })
     console.log(`✓ Found ${allTransactions.length} transactions for test org`)
 
+    // Test 5: General journal entry with multiple lines
+    console.log("\n--- Test 5: Journal Entry ---")
+    const { cash: cashAccount, uncategorized: uncategorizedAccount } = await defaultAccounts(testOrg.id)
+
+    const journalKey = `test:journal:${randomUUID()}`
+    const journal = await createJournalEntry({
+      organizationId: testOrg.id,
+      occurredAt: new Date(),
+      description: "Test journal entry",
+      idempotencyKey: journalKey,
+      createdByUserId: testUser.id,
+      lines: [
+        { accountId: uncategorizedAccount.id, direction: "DR", amountCents: 1200 },
+        { accountId: uncategorizedAccount.id, direction: "DR", amountCents: 800 },
+        { accountId: cashAccount.id, direction: "CR", amountCents: 2000 },
+      ],
+    })
+    if (journal.postings.length !== 3) {
+      throw new Error(`❌ Expected 3 postings, got ${journal.postings.length}`)
+    }
+    console.log(`✓ Created journal entry: ${journal.id}`)
+
+    const journalRetry = await createJournalEntry({
+      organizationId: testOrg.id,
+      occurredAt: new Date(),
+      description: "Test journal entry",
+      idempotencyKey: journalKey,
+      createdByUserId: testUser.id,
+      lines: [
+        { accountId: uncategorizedAccount.id, direction: "DR", amountCents: 2000 },
+        { accountId: cashAccount.id, direction: "CR", amountCents: 2000 },
+      ],
+    })
+    if (journalRetry.id !== journal.id) {
+      throw new Error("❌ Journal entry idempotency key not honoured")
+    }
+    console.log("✓ Journal entry idempotency verified")
+
+    let imbalanceRejected = false
+    try {
+      await createJournalEntry({
+        organizationId: testOrg.id,
+        occurredAt: new Date(),
+        description: "Unbalanced entry",
+        idempotencyKey: `test:journal:${randomUUID()}`,
+        createdByUserId: testUser.id,
+        lines: [
+          { accountId: uncategorizedAccount.id, direction: "DR", amountCents: 100 },
+          { accountId: cashAccount.id, direction: "CR", amountCents: 99 },
+        ],
+      })
+    } catch {
+      imbalanceRejected = true
+    }
+    if (!imbalanceRejected) {
+      throw new Error("❌ Unbalanced journal entry was accepted")
+    }
+    console.log("✓ Unbalanced journal entry rejected")
+
+    // Test 6: Foreign currency postings carry base amounts
+    console.log("\n--- Test 6: Multi-Currency ---")
+    const rateDate = new Date(Date.UTC(2024, 0, 1))
+    await upsertFxRate({
+      organizationId: testOrg.id,
+      fromCurrency: "USD",
+      toCurrency: "JPY",
+      rate: 150,
+      effectiveDate: rateDate,
+      userId: testUser.id,
+    })
+
+    const yenEntry = await createJournalEntry({
+      organizationId: testOrg.id,
+      occurredAt: new Date(Date.UTC(2024, 0, 15)),
+      description: "Test yen entry",
+      idempotencyKey: `test:journal:${randomUUID()}`,
+      createdByUserId: testUser.id,
+      lines: [
+        { accountId: uncategorizedAccount.id, direction: "DR", amountCents: 500, currency: "JPY" },
+        { accountId: uncategorizedAccount.id, direction: "DR", amountCents: 500, currency: "JPY" },
+        { accountId: cashAccount.id, direction: "CR", amountCents: 1000, currency: "JPY" },
+      ],
+    })
+    // ¥500 -> 333 cents twice, but ¥1000 -> 667 cents; the rounding cent is absorbed on the CR side
+    const yenBase = (direction: string) =>
+      yenEntry.postings
+        .filter((p: any) => p.direction === direction)
+        .reduce((sum: number, p: any) => sum + p.baseAmountCents, 0)
+    if (yenBase("DR") !== 666 || yenBase("CR") !== 666) {
+      throw new Error(`❌ Expected 666 base cents per side, got DR=${yenBase("DR")}, CR=${yenBase("CR")}`)
+    }
+    console.log("✓ Yen entry converted through inverse rate and balanced in base currency")
+
+    let missingRateRejected = false
+    try {
+      await createExpenseTransaction({
+        organizationId: testOrg.id,
+        occurredAt: new Date(Date.UTC(2024, 0, 15)),
+        description: "Dinar expense without a rate",
+        amountCents: 1500,
+        currency: "KWD",
+        idempotencyKey: `test:${randomUUID()}`,
+        createdByUserId: testUser.id,
+      })
+    } catch {
+      missingRateRejected = true
+    }
+    if (!missingRateRejected) {
+      throw new Error("❌ Expense without an FX rate was accepted")
+    }
+    console.log("✓ Expense without an FX rate rejected")
+
+    // Test 7: Chart of accounts
+    console.log("\n--- Test 7: Chart of Accounts ---")
+    const travelName = `Travel ${randomUUID().slice(0, 8)}`
+    const travel = await createAccount({
+      organizationId: testOrg.id,
+      name: travelName,
+      type: "EXPENSE",
+      userId: testUser.id,
+    })
+    const flights = await createAccount({
+      organizationId: testOrg.id,
+      name: `${travelName} - Flights`,
+      type: "EXPENSE",
+      parentId: travel!.id,
+      userId: testUser.id,
+    })
+    if (flights!.parentId !== travel!.id) {
+      throw new Error("❌ Child account not linked to its parent")
+    }
+    console.log(`✓ Created ${travelName} with a child account`)
+
+    await expectRejection("Duplicate account name", () =>
+      createAccount({ organizationId: testOrg.id, name: travelName, type: "EXPENSE", userId: testUser.id }), 409)
+    console.log("✓ Duplicate account name rejected")
+
+    await expectRejection("Parent of another type", () =>
+      createAccount({ organizationId: testOrg.id, name: `${travelName} Cash`, type: "ASSET", parentId: travel!.id, userId: testUser.id }))
+    await expectRejection("Account made its own parent", () =>
+      updateAccount({ organizationId: testOrg.id, accountId: travel!.id, parentId: travel!.id, userId: testUser.id }))
+    console.log("✓ Invalid parents rejected")
+
+    await expectRejection("Renaming a system account", () =>
+      updateAccount({ organizationId: testOrg.id, accountId: cashAccount.id, name: "Petty Cash", userId: testUser.id }), 403)
+    await expectRejection("Archiving a system account", () => archiveAccount(testOrg.id, cashAccount.id, testUser.id), 403)
+    await expectRejection("Archiving an account with active children", () =>
+      archiveAccount(testOrg.id, travel!.id, testUser.id), 409)
+    await archiveAccount(testOrg.id, flights!.id, testUser.id)
+    const archivedTravel = await archiveAccount(testOrg.id, travel!.id, testUser.id)
+    if (!archivedTravel.archivedAt) {
+      throw new Error("❌ Account not archived once its child was")
+    }
+    console.log("✓ System accounts protected; parent archived after its child")
+
+    // Test 8: Parent subtotals
+    console.log("\n--- Test 8: Account Roll-Up ---")
+    const officeName = `Office ${randomUUID().slice(0, 8)}`
+    const office = await createAccount({ organizationId: testOrg.id, name: officeName, type: "EXPENSE", userId: testUser.id })
+    const supplies = await createAccount({
+      organizationId: testOrg.id,
+      name: `${officeName} - Supplies`,
+      type: "EXPENSE",
+      parentId: office!.id,
+      userId: testUser.id,
+    })
+    await createJournalEntry({
+      organizationId: testOrg.id,
+      occurredAt: new Date(),
+      description: "Office costs",
+      idempotencyKey: `test:journal:${randomUUID()}`,
+      createdByUserId: testUser.id,
+      lines: [
+        { accountId: office!.id, direction: "DR", amountCents: 1000 },
+        { accountId: supplies!.id, direction: "DR", amountCents: 2500 },
+        { accountId: cashAccount.id, direction: "CR", amountCents: 3500 },
+      ],
+    })
+
+    const ownBalance = await getAccountBalance(testOrg.id, office!.id)
+    const rolledBalance = await getAccountBalance(testOrg.id, office!.id, { includeDescendants: true })
+    if (ownBalance.balanceCents !== 1000 || rolledBalance.balanceCents !== 3500) {
+      throw new Error(`❌ Expected 1000 own / 3500 rolled up, got ${ownBalance.balanceCents} / ${rolledBalance.balanceCents}`)
+    }
+    console.log("✓ Parent balance includes its child's postings")
+
+    const tree = [
+      { id: "parent", name: "Parent", code: null, type: "EXPENSE" as const, parentId: null },
+      { id: "child", name: "Child", code: null, type: "EXPENSE" as const, parentId: "parent" },
+      { id: "grandchild", name: "Grandchild", code: null, type: "EXPENSE" as const, parentId: "child" },
+    ]
+    const treeAmounts = new Map([
+      ["parent", { amountCents: 100 }],
+      ["child", { amountCents: 20 }],
+      ["grandchild", { amountCents: 3 }],
+    ])
+    const folded = rollUpAccounts(tree, treeAmounts, ["amountCents"] as const, { maxDepth: 1 })
+    if (folded.length !== 2 || folded[0].total.amountCents !== 123 || folded[1].total.amountCents !== 23 || folded[1].hasChildren) {
+      throw new Error(`❌ Unexpected roll-up: ${JSON.stringify(folded.map((line) => [line.accountId, line.total.amountCents]))}`)
+    }
+    console.log("✓ Accounts below maxDepth folded into their ancestor's subtotal")
+
+    // Test 9: Trial balance as of a date
+    console.log("\n--- Test 9: Trial Balance ---")
+    const tbOrg = await createScratchOrg("trial-balance", testUser.id)
+    const { cash: tbCash, uncategorized: tbExpense } = await defaultAccounts(tbOrg.id)
+    await postEntry(tbOrg.id, new Date(Date.UTC(2023, 2, 10)), 4000, tbExpense.id, tbCash.id)
+    const reversedEntry = await postEntry(tbOrg.id, new Date(Date.UTC(2023, 2, 12)), 999, tbExpense.id, tbCash.id)
+    await reverseTransaction({
+      organizationId: tbOrg.id,
+      transactionId: reversedEntry.id,
+      reason: "Test reversal",
+      createdByUserId: testUser.id,
+      occurredAt: new Date(Date.UTC(2023, 2, 13)),
+    })
+    await postEntry(tbOrg.id, new Date(Date.UTC(2023, 3, 5)), 600, tbExpense.id, tbCash.id)
+
+    const trialBalance = await getTrialBalance({ organizationId: tbOrg.id, asOf: new Date(Date.UTC(2023, 2, 31, 23, 59, 59)) })
+    const tbLine = (accountId: string) => trialBalance.lines.find((line) => line.accountId === accountId)
+    if (!trialBalance.balanced || trialBalance.totals.debit !== 40 || trialBalance.totals.credit !== 40) {
+      throw new Error(`❌ Expected balanced 40.00 totals, got ${JSON.stringify(trialBalance.totals)}`)
+    }
+    if (tbLine(tbExpense.id)?.balanceDebit !== 40 || tbLine(tbCash.id)?.balanceCredit !== 40) {
+      throw new Error("❌ Account balances as of March 31 are wrong")
+    }
+    console.log("✓ Trial balance as of March 31 leaves out April and the reversed pair, and balances")
+
+    // Postings from before multi-currency support have no base amount and count in base currency
+    const legacyEntry = await postEntry(tbOrg.id, new Date(Date.UTC(2023, 2, 20)), 2500, tbExpense.id, tbCash.id)
+    await prisma.ledgerPosting.updateMany({ where: { transactionId: legacyEntry.id }, data: { baseAmountCents: null } })
+    const legacyBalance = await getTrialBalance({ organizationId: tbOrg.id, asOf: new Date(Date.UTC(2023, 2, 31, 23, 59, 59)) })
+    const legacyExpense = legacyBalance.lines.find((line) => line.accountId === tbExpense.id)
+    if (!legacyBalance.balanced || legacyBalance.totals.debit !== 65 || legacyExpense?.balanceDebit !== 65) {
+      throw new Error(`❌ Expected postings without a base amount in the 65.00 totals, got ${JSON.stringify(legacyBalance.totals)}`)
+    }
+    console.log("✓ Postings without a base amount count at their amount")
+
+    // A foreign balance mixing both kinds of posting is revalued from their combined base amount
+    const legacyFxOrg = await createScratchOrg("legacy-revaluation", testUser.id)
+    const legacyEuroBank = await createAccount({ organizationId: legacyFxOrg.id, name: "Euro Bank", type: "ASSET", currency: "EUR", userId: testUser.id })
+    const legacyCapital = await createAccount({ organizationId: legacyFxOrg.id, name: "Owner Capital", type: "EQUITY", userId: testUser.id })
+    await upsertFxRate({ organizationId: legacyFxOrg.id, fromCurrency: "EUR", toCurrency: "USD", rate: 1.1, effectiveDate: new Date(Date.UTC(2023, 2, 1)), userId: testUser.id })
+    const euroDeposit = () =>
+      postEntry(legacyFxOrg.id, new Date(Date.UTC(2023, 2, 5)), 100000, legacyEuroBank!.id, legacyCapital!.id, { currency: "EUR" })
+    await euroDeposit()
+    const legacyDeposit = await euroDeposit()
+    await prisma.ledgerPosting.updateMany({ where: { transactionId: legacyDeposit.id }, data: { baseAmountCents: null } })
+    await upsertFxRate({ organizationId: legacyFxOrg.id, fromCurrency: "EUR", toCurrency: "USD", rate: 1.2, effectiveDate: new Date(Date.UTC(2023, 2, 31)), userId: testUser.id })
+
+    // €2,000 restated at 1.20 against $1,100 converted plus 1,000 counted at its amount
+    const legacyRevaluation = await computeRevaluation(legacyFxOrg.id, "2023-03")
+    if (legacyRevaluation.lines.length !== 1 || legacyRevaluation.lines[0].adjustmentCents !== 30000) {
+      throw new Error(`❌ Unexpected revaluation with postings without a base amount: ${JSON.stringify(legacyRevaluation.lines)}`)
+    }
+    console.log("✓ Revaluation counts postings without a base amount at their amount")
+
+    // Test 10: Income statement and balance sheet
+    console.log("\n--- Test 10: Financial Statements ---")
+    const fsOrg = await createScratchOrg("statements", testUser.id)
+    const { cash: fsCash, uncategorized: fsExpense } = await defaultAccounts(fsOrg.id)
+    const fsSales = await createAccount({ organizationId: fsOrg.id, name: "Sales", type: "INCOME", userId: testUser.id })
+    await postEntry(fsOrg.id, new Date(Date.UTC(2023, 3, 8)), 1000, fsExpense.id, fsCash.id)
+    await postEntry(fsOrg.id, new Date(Date.UTC(2023, 4, 10)), 10000, fsCash.id, fsSales!.id)
+    await postEntry(fsOrg.id, new Date(Date.UTC(2023, 4, 20)), 2500, fsExpense.id, fsCash.id)
+
+    const incomeStatement = await getIncomeStatement({
+      organizationId: fsOrg.id,
+      startDate: new Date(Date.UTC(2023, 4, 1)),
+      endDate: new Date(Date.UTC(2023, 4, 31, 23, 59, 59, 999)),
+      comparison: "previous_period",
+    })
+    if (incomeStatement.netIncome.current !== 75 || incomeStatement.netIncome.comparison !== -10) {
+      throw new Error(`❌ Expected net income 75.00 vs -10.00, got ${JSON.stringify(incomeStatement.netIncome)}`)
+    }
+    console.log("✓ Income statement nets income and expenses, with the previous period alongside")
+
+    const balanceSheet = await getBalanceSheet({ organizationId: fsOrg.id, asOf: new Date(Date.UTC(2023, 4, 31, 23, 59, 59, 999)) })
+    if (!balanceSheet.balanced || balanceSheet.assets.total.current !== 65 || balanceSheet.currentYearEarnings.current !== 65) {
+      throw new Error(`❌ Expected 65.00 of assets matched by current-year earnings, got ${balanceSheet.assets.total.current}`)
+    }
+    console.log("✓ Balance sheet balances assets against current-year earnings")
+
+    // Test 11: Account register with running balance
+    console.log("\n--- Test 11: Account Register ---")
+    const regOrg = await createScratchOrg("register", testUser.id)
+    const { cash: regCash, uncategorized: regExpense } = await defaultAccounts(regOrg.id)
+    const regEquity = await createAccount({ organizationId: regOrg.id, name: "Owner Capital", type: "EQUITY", userId: testUser.id })
+    await postEntry(regOrg.id, new Date(Date.UTC(2023, 0, 5)), 5000, regCash.id, regEquity!.id)
+    await postEntry(regOrg.id, new Date(Date.UTC(2023, 0, 10)), 1200, regExpense.id, regCash.id)
+    await postEntry(regOrg.id, new Date(Date.UTC(2023, 1, 3)), 300, regExpense.id, regCash.id)
+
+    const registerStart = new Date(Date.UTC(2023, 0, 8))
+    const firstPage = await getAccountRegister({ organizationId: regOrg.id, accountId: regCash.id, startDate: registerStart, limit: 1 })
+    if (firstPage.openingBalance !== 50 || firstPage.entries[0]?.balance !== 38 || !firstPage.nextCursor) {
+      throw new Error(`❌ Unexpected first page: opening ${firstPage.openingBalance}, balance ${firstPage.entries[0]?.balance}`)
+    }
+    const secondPage = await getAccountRegister({
+      organizationId: regOrg.id,
+      accountId: regCash.id,
+      startDate: registerStart,
+      limit: 1,
+      cursor: firstPage.nextCursor,
+    })
+    if (secondPage.entries[0]?.balance !== 35 || secondPage.nextCursor !== null || secondPage.closingBalance !== 35) {
+      throw new Error(`❌ Unexpected second page: balance ${secondPage.entries[0]?.balance}, closing ${secondPage.closingBalance}`)
+    }
+    console.log("✓ Running balance starts from the opening balance and carries across pages")
+
+    await expectRejection("Register cursor from another account", () =>
+      getAccountRegister({ organizationId: regOrg.id, accountId: regExpense.id, cursor: firstPage.nextCursor! }), 400)
+    console.log("✓ Cursor from another account rejected")
+
+    // Test 12: Payment account credited for expenses
+    console.log("\n--- Test 12: Payment Accounts ---")
+    const payOrg = await createScratchOrg("payment-account", testUser.id)
+    const { cash: payCash, uncategorized: payExpense } = await defaultAccounts(payOrg.id)
+    const corporateCard = await createAccount({ organizationId: payOrg.id, name: "Corporate Card", type: "LIABILITY", userId: testUser.id })
+    await prisma.organization.update({ where: { id: payOrg.id }, data: { defaultPaymentAccountId: corporateCard!.id } })
+
+    const creditedAccount = async (paymentAccountId?: string) => {
+      const txId = await createExpenseTransaction({
+        organizationId: payOrg.id,
+        occurredAt: new Date(),
+        description: "Payment account expense",
+        amountCents: 1800,
+        idempotencyKey: `test:payment:${randomUUID()}`,
+        createdByUserId: testUser.id,
+        paymentAccountId,
+      })
+      const credit = await prisma.ledgerPosting.findFirstOrThrow({ where: { transactionId: txId, direction: "CR" } })
+      return credit.accountId
+    }
+    if ((await creditedAccount()) !== corporateCard!.id) {
+      throw new Error("❌ Expense without a payment account did not credit the organization default")
+    }
+    console.log("✓ Organization default payment account credited")
+    if ((await creditedAccount(payCash.id)) !== payCash.id) {
+      throw new Error("❌ Explicit payment account was not credited")
+    }
+    console.log("✓ Explicit payment account overrides the default")
+
+    await expectRejection("Expense account used as payment account", () => creditedAccount(payExpense.id), 400)
+    await expectRejection("Payment account from another organization", () => creditedAccount(cashAccount.id), 404)
+    console.log("✓ Non-payment and foreign accounts rejected")
+
+    // The first expense of an organization without accounts resolves Cash before anything created the defaults
+    const freshOrg = await prisma.organization.create({
+      data: { name: "Test fresh-org", slug: `test-ledger-fresh-org-${randomUUID()}` },
+    })
+    const freshTxId = await prisma.$transaction(async (tx) => {
+      const paymentAccountId = await resolvePaymentAccount(tx, freshOrg.id, null)
+      return createExpenseTransaction({
+        organizationId: freshOrg.id,
+        occurredAt: new Date(),
+        description: "First expense",
+        amountCents: 900,
+        idempotencyKey: `test:fresh:${randomUUID()}`,
+        createdByUserId: testUser.id,
+        paymentAccountId,
+      }, tx)
+    })
+    const { cash: freshCash } = await defaultAccounts(freshOrg.id)
+    const freshCredit = await prisma.ledgerPosting.findFirstOrThrow({ where: { transactionId: freshTxId, direction: "CR" } })
+    if (freshCredit.accountId !== freshCash.id) {
+      throw new Error("❌ First expense of a new organization did not credit Cash")
+    }
+    console.log("✓ First expense in an organization without accounts creates the defaults and credits Cash")
+
+    // Test 13: Month-end FX revaluation and re-runs
+    console.log("\n--- Test 13: FX Revaluation ---")
+    const fxOrg = await createScratchOrg("fx-revaluation", testUser.id)
+    const euroBank = await createAccount({ organizationId: fxOrg.id, name: "Euro Bank", type: "ASSET", currency: "EUR", userId: testUser.id })
+    const fxCapital = await createAccount({ organizationId: fxOrg.id, name: "Owner Capital", type: "EQUITY", userId: testUser.id })
+    const setEuroRate = (rate: number, effectiveDate: Date) =>
+      upsertFxRate({ organizationId: fxOrg.id, fromCurrency: "EUR", toCurrency: "USD", rate, effectiveDate, userId: testUser.id })
+    await setEuroRate(1.1, new Date(Date.UTC(2023, 2, 1)))
+    await postEntry(fxOrg.id, new Date(Date.UTC(2023, 2, 5)), 100000, euroBank!.id, fxCapital!.id, { currency: "EUR" })
+    await setEuroRate(1.2, new Date(Date.UTC(2023, 2, 31)))
+
+    // €1,000 booked at 1.10 and restated at 1.20; equity is not monetary and keeps its historical amount
+    const firstRun = await runRevaluation({ organizationId: fxOrg.id, period: "2023-03", createdByUserId: testUser.id })
+    const firstLines = firstRun.lines as any[]
+    if (firstLines.length !== 1 || firstLines[0].accountId !== euroBank!.id || firstLines[0].adjustmentCents !== 10000) {
+      throw new Error(`❌ Unexpected revaluation lines: ${JSON.stringify(firstLines)}`)
+    }
+    if (!firstRun.transaction?.reversedBy || firstRun.transaction.reversedBy.occurredAt.getTime() !== Date.UTC(2023, 3, 1)) {
+      throw new Error("❌ Revaluation was not reversed on the first day of the next period")
+    }
+    console.log("✓ Foreign balance revalued at the closing rate and reversed next period")
+
+    const unchangedRun = await runRevaluation({ organizationId: fxOrg.id, period: "2023-03", createdByUserId: testUser.id })
+    if (unchangedRun.id !== firstRun.id) {
+      throw new Error("❌ Re-run with nothing to adjust created a new run")
+    }
+    await setEuroRate(1.25, new Date(Date.UTC(2023, 2, 31)))
+    const correctedRun = await runRevaluation({ organizationId: fxOrg.id, period: "2023-03", createdByUserId: testUser.id })
+    const correctedLines = correctedRun.lines as any[]
+    if (correctedRun.sequence !== 2 || correctedLines.length !== 1 || correctedLines[0].adjustmentCents !== 5000) {
+      throw new Error(`❌ Corrected rate re-run: sequence ${correctedRun.sequence}, lines ${JSON.stringify(correctedLines)}`)
+    }
+    console.log("✓ Re-run returns the latest run unchanged, then posts only a corrected rate's difference")
+
+    await expectRejection("Revaluation of an invalid period", () =>
+      runRevaluation({ organizationId: fxOrg.id, period: "2023-13", createdByUserId: testUser.id }), 400)
+    console.log("✓ Invalid period rejected")
+
+    // Test 14: Period close workflow
+    console.log("\n--- Test 14: Period Close ---")
+    const closeOrg = await createScratchOrg("period-close", testUser.id)
+    const { cash: closeCash, uncategorized: closeExpense } = await defaultAccounts(closeOrg.id)
+    const aprilEntry = () => postEntry(closeOrg.id, new Date(Date.UTC(2023, 3, 12)), 900, closeExpense.id, closeCash.id)
+    await aprilEntry()
+
+    // Cash has a bank statement; the payable has activity but nothing to reconcile against
+    await importStatement({
+      organizationId: closeOrg.id,
+      accountId: closeCash.id,
+      content: "OFXHEADER:100\n<OFX><CURDEF>USD<BANKTRANLIST><STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20230412<TRNAMT>-9.00<FITID>P1<NAME>April</STMTTRN></BANKTRANLIST></OFX>",
+      createdByUserId: testUser.id,
+    })
+    const closePayable = await createAccount({ organizationId: closeOrg.id, name: "Accrued Liabilities", type: "LIABILITY", userId: testUser.id })
+    await postEntry(closeOrg.id, new Date(Date.UTC(2023, 3, 20)), 300, closeExpense.id, closePayable!.id)
+
+    const checklist = await getCloseChecklist(closeOrg.id, "2023-04")
+    const unreconciled = checklist.items.find((item) => item.key === "unreconciled_accounts")
+    if (checklist.complete || unreconciled?.count !== 1 || unreconciled.entries[0].id !== closeCash.id) {
+      throw new Error("❌ Close checklist did not list only the unreconciled Cash account")
+    }
+    console.log("✓ Checklist lists statement accounts with period activity that are not reconciled, not payables")
+
+    // Journal entries are adjusting entries, so only expenses are refused once the period is soft-closed
+    const aprilExpense = () =>
+      createExpenseTransaction({
+        organizationId: closeOrg.id,
+        occurredAt: new Date(Date.UTC(2023, 3, 15)),
+        description: "April expense",
+        amountCents: 700,
+        idempotencyKey: `test:expense:${randomUUID()}`,
+        createdByUserId: testUser.id,
+      })
+    await lockPeriod({ organizationId: closeOrg.id, period: "2023-04", status: "SOFT_CLOSED", reason: "Month end review", lockedByUserId: testUser.id })
+    await aprilEntry()
+    await expectRejection("Expense in a soft-closed period", aprilExpense, 409)
+    await lockPeriod({ organizationId: closeOrg.id, period: "2023-04", reason: "Books final", lockedByUserId: testUser.id })
+    const lockedStatus = await getPeriodStatus(closeOrg.id, "2023-04")
+    if (lockedStatus.status !== "LOCKED" || lockedStatus.reason !== "Books final") {
+      throw new Error(`❌ Expected a locked period, got ${lockedStatus.status}`)
+    }
+    await expectRejection("Journal entry in a locked period", aprilEntry, 409)
+    console.log("✓ Soft-closed period takes journal entries but not expenses, and moves to locked")
+
+    await unlockPeriod({ organizationId: closeOrg.id, period: "2023-04", reason: "Late invoice", unlockedByUserId: testUser.id })
+    await aprilEntry()
+    await aprilExpense()
+    console.log("✓ Reopened period accepts entries and expenses")
+
+    await expectRejection("Reopening an open period", () =>
+      unlockPeriod({ organizationId: closeOrg.id, period: "2023-04", reason: "Again", unlockedByUserId: testUser.id }), 409)
+    await expectRejection("Closing without a reason", () =>
+      lockPeriod({ organizationId: closeOrg.id, period: "2023-04", reason: " ", lockedByUserId: testUser.id }), 400)
+    await expectRejection("Closing a future period", () =>
+      lockPeriod({ organizationId: closeOrg.id, period: "2999-01", reason: "Too early", lockedByUserId: testUser.id }), 400)
+    console.log("✓ Invalid close and reopen requests rejected")
+
+    // Test 15: Fiscal year settings and year-end close
+    console.log("\n--- Test 15: Year-End Close ---")
+    if (periodOf(new Date(Date.UTC(2023, 6, 1, 2)), "America/New_York") !== "2023-06" || fiscalYearOf("2023-07", 7) !== 2024) {
+      throw new Error("❌ Periods do not follow the reporting timezone and fiscal year start")
+    }
+    console.log("✓ Periods follow the reporting timezone and fiscal year start")
+
+    const yecOrg = await createScratchOrg("year-end-close", testUser.id, { fiscalYearStartMonth: 7 })
+    const { cash: yecCash, uncategorized: yecExpense } = await defaultAccounts(yecOrg.id)
+    const yecSales = await createAccount({ organizationId: yecOrg.id, name: "Sales", type: "INCOME", userId: testUser.id })
+    // FY2023 runs from July 2022 through June 2023
+    await postEntry(yecOrg.id, new Date(Date.UTC(2023, 1, 10)), 50000, yecCash.id, yecSales!.id)
+    await postEntry(yecOrg.id, new Date(Date.UTC(2023, 5, 30)), 20000, yecExpense.id, yecCash.id)
+    await postEntry(yecOrg.id, new Date(Date.UTC(2023, 6, 2)), 1000, yecExpense.id, yecCash.id)
+
+    const yearEnd = await closeFiscalYear({ organizationId: yecOrg.id, fiscalYear: 2023, createdByUserId: testUser.id })
+    const retainedCredit = yearEnd.transaction?.postings.find((p) => p.direction === "CR" && p.accountId !== yecExpense.id)
+    if (yearEnd.netIncomeCents !== 30000 || retainedCredit?.amountCents !== 30000) {
+      throw new Error(`❌ Expected 30000 net income closed to retained earnings, got ${yearEnd.netIncomeCents}`)
+    }
+    if (yearEnd.transaction?.occurredAt.getTime() !== Date.UTC(2023, 5, 30)) {
+      throw new Error("❌ Closing entry is not dated on the last day of the fiscal year")
+    }
+    console.log("✓ Income and expenses through fiscal year end closed to retained earnings")
+
+    const closedAgain = await closeFiscalYear({ organizationId: yecOrg.id, fiscalYear: 2023, createdByUserId: testUser.id })
+    if (closedAgain.id !== yearEnd.id) {
+      throw new Error("❌ Closing a fiscal year twice created a second close")
+    }
+    await expectRejection("Entry in a closed fiscal year", () =>
+      postEntry(yecOrg.id, new Date(Date.UTC(2022, 8, 1)), 500, yecExpense.id, yecCash.id), 409)
+    await expectRejection("Closing a fiscal year that has not ended", () =>
+      closeFiscalYear({ organizationId: yecOrg.id, fiscalYear: 2999, createdByUserId: testUser.id }), 400)
+    console.log("✓ Close is idempotent and the closed year rejects postings")
+
+    await expectRejection("Closing a fiscal year before a later closed one", () =>
+      closeFiscalYear({ organizationId: yecOrg.id, fiscalYear: 2022, createdByUserId: testUser.id }), 409)
+    if (await prisma.yearEndClose.findFirst({ where: { organizationId: yecOrg.id, fiscalYear: 2022 } })) {
+      throw new Error("❌ Out-of-order close was recorded")
+    }
+    console.log("✓ Earlier fiscal year cannot be closed after a later one")
+
+    // Test 16: Bank statement import and conversion
+    console.log("\n--- Test 16: Statement Import ---")
+    const csvLines = parseStatement("Datum;Betrag;Text\n03.05.2023;-1.234,56;Kaffee", "csv", {
+      defaultCurrency: "EUR",
+      csvMapping: {
+        delimiter: ";",
+        hasHeader: true,
+        dateColumn: "Datum",
+        dateFormat: "DD.MM.YYYY",
+        amountColumn: "Betrag",
+        descriptionColumn: "Text",
+        decimalSeparator: ",",
+        negateAmounts: false,
+      },
+    })
+    if (csvLines[0]?.amountCents !== -123456 || csvLines[0].postedAt.getTime() !== Date.UTC(2023, 4, 3) || csvLines[0].currency !== "EUR") {
+      throw new Error(`❌ Unexpected CSV line: ${JSON.stringify(csvLines[0])}`)
+    }
+    console.log("✓ CSV mapping parses day-first dates and comma decimals")
+
+    const camt = [
+      '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt><Acct><Ccy>EUR</Ccy></Acct>',
+      '<Ntry><Amt Ccy="EUR">75.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><BookgDt><Dt>2023-05-04</Dt></BookgDt><AcctSvcrRef>C1</AcctSvcrRef>',
+      "<NtryDtls><TxDtls><RltdPties><Cdtr><Nm>Hotel Nord</Nm></Cdtr></RltdPties></TxDtls></NtryDtls></Ntry>",
+      '<Ntry><Amt Ccy="EUR">75.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><RvslInd>true</RvslInd><BookgDt><Dt>2023-05-06</Dt></BookgDt><AcctSvcrRef>C2</AcctSvcrRef>',
+      "<NtryDtls><TxDtls><RltdPties><Dbtr><Nm>Hotel Nord</Nm></Dbtr></RltdPties></TxDtls></NtryDtls></Ntry>",
+      "</Stmt></BkToCstmrStmt></Document>",
+    ].join("")
+    const [camtCharge, camtReturn] = parseStatement(camt, "camt053", { defaultCurrency: "USD" })
+    if (camtCharge?.amountCents !== -7500 || camtReturn?.amountCents !== 7500 || camtReturn.payee !== "Hotel Nord" || !camtReturn.description.startsWith("Reversal")) {
+      throw new Error(`❌ Unexpected CAMT.053 lines: ${JSON.stringify([camtCharge, camtReturn])}`)
+    }
+    console.log("✓ CAMT.053 reversal entries keep their booked direction")
+
+    const ofxCommaLines = parseStatement(
+      "OFXHEADER:100\n<OFX><CURDEF>EUR<BANKTRANLIST><STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20230502<TRNAMT>-12,50<FITID>E1</STMTTRN><STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20230503<TRNAMT>1.234,56<FITID>E2</STMTTRN></BANKTRANLIST></OFX>",
+      "ofx",
+      { defaultCurrency: "EUR" }
+    )
+    if (ofxCommaLines[0]?.amountCents !== -1250 || ofxCommaLines[1]?.amountCents !== 123456) {
+      throw new Error(`❌ Unexpected OFX amounts with decimal commas: ${ofxCommaLines.map((line) => line.amountCents).join(", ")}`)
+    }
+    await expectRejection("OFX amount that is not a number", async () =>
+      parseStatement("<OFX><STMTTRN><DTPOSTED>20230502<TRNAMT>abc</STMTTRN></OFX>", "ofx", { defaultCurrency: "EUR" }), 400)
+    console.log("✓ OFX amounts with decimal commas parsed, unreadable amounts rejected")
+
+    const bankOrg = await createScratchOrg("statement-import", testUser.id)
+    const { cash: bankCash } = await defaultAccounts(bankOrg.id)
+    const ofx = [
+      "OFXHEADER:100",
+      "<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>USD",
+      "<BANKTRANLIST>",
+      "<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20230510<TRNAMT>-42.50<FITID>T1<NAME>Paper Co<MEMO>Printer paper</STMTTRN>",
+      "<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20230511120000<TRNAMT>1,200.00<FITID>T2<NAME>Client</STMTTRN>",
+      "</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>",
+    ].join("\n")
+    const firstImport = await importStatement({ organizationId: bankOrg.id, accountId: bankCash.id, content: ofx, createdByUserId: testUser.id })
+    const reImport = await importStatement({ organizationId: bankOrg.id, accountId: bankCash.id, content: ofx, createdByUserId: testUser.id })
+    if (firstImport.format !== "ofx" || firstImport.importedCount !== 2 || reImport.importedCount !== 0 || reImport.duplicateCount !== 2) {
+      throw new Error(`❌ Unexpected imports: ${firstImport.importedCount} then ${reImport.importedCount}`)
+    }
+    console.log("✓ OFX detected and lines already staged are skipped on re-import")
+
+    const { lines: stagedLines } = await listBankLines(bankOrg.id, { importId: firstImport.id })
+    const outgoing = stagedLines.find((line) => line.externalId === "T1")!
+    const incoming = stagedLines.find((line) => line.externalId === "T2")!
+    const converted = await convertLineToExpense({ organizationId: bankOrg.id, lineId: outgoing.id, createdByUserId: testUser.id })
+    const convertedLine = await prisma.bankStatementLine.findUniqueOrThrow({ where: { id: outgoing.id } })
+    if (Number(converted.amount) !== 42.5 || converted.vendor !== "Paper Co" || !converted.ledgerTransactionId || convertedLine.status !== "CONVERTED") {
+      throw new Error("❌ Outgoing line was not booked as an expense from the statement account")
+    }
+    console.log("✓ Outgoing line converted to an expense")
+
+    await expectRejection("Converting a line twice", () =>
+      convertLineToExpense({ organizationId: bankOrg.id, lineId: outgoing.id, createdByUserId: testUser.id }), 409)
+    await expectRejection("Converting an incoming line to an expense", () =>
+      convertLineToExpense({ organizationId: bankOrg.id, lineId: incoming.id, createdByUserId: testUser.id }), 400)
+    await expectRejection("CSV import without a mapping", () =>
+      importStatement({ organizationId: bankOrg.id, accountId: bankCash.id, content: "a,b\n1,2", format: "csv", createdByUserId: testUser.id }), 400)
+    console.log("✓ Repeat, incoming and unmapped conversions rejected")
+
+    // Test 17: Bank reconciliation
+    console.log("\n--- Test 17: Reconciliation ---")
+    const recOrg = await createScratchOrg("reconciliation", testUser.id)
+    const { cash: recCash, uncategorized: recExpense } = await defaultAccounts(recOrg.id)
+    const recCapital = await createAccount({ organizationId: recOrg.id, name: "Owner Capital", type: "EQUITY", userId: testUser.id })
+    await postEntry(recOrg.id, new Date(Date.UTC(2023, 4, 2)), 100000, recCash.id, recCapital!.id, { description: "Payment Owner", vendor: "Owner" })
+    const officeEntry = await postEntry(recOrg.id, new Date(Date.UTC(2023, 4, 8)), 4200, recExpense.id, recCash.id, { description: "Payment Office Depot", vendor: "Office Depot" })
+    await importStatement({
+      organizationId: recOrg.id,
+      accountId: recCash.id,
+      content: [
+        "<OFX><STMTRS><CURDEF>USD",
+        "<STMTTRN><DTPOSTED>20230502<TRNAMT>1000.00<FITID>R1<NAME>Owner deposit</STMTTRN>",
+        "<STMTTRN><DTPOSTED>20230509<TRNAMT>-42.00<FITID>R2<NAME>OFFICE DEPOT #1042</STMTTRN>",
+        "</STMTRS></OFX>",
+      ].join("\n"),
+      createdByUserId: testUser.id,
+    })
+    const statement = { organizationId: recOrg.id, accountId: recCash.id, statementDate: new Date(Date.UTC(2023, 4, 31)) }
+
+    const suggestions = await suggestMatches(recOrg.id, recCash.id)
+    if (suggestions.length !== 2 || suggestions.some((s) => s.kind !== "one_to_one" || !s.exclusive)) {
+      throw new Error(`❌ Expected two exclusive one-to-one suggestions, got ${JSON.stringify(suggestions)}`)
+    }
+    await expectRejection("Completing before anything is cleared", () =>
+      completeReconciliation({ ...statement, statementEndingBalance: 958, createdByUserId: testUser.id }), 409)
+
+    const { matchedCount } = await autoMatch({ organizationId: recOrg.id, accountId: recCash.id, createdByUserId: testUser.id })
+    const recReport = await getReconciliationReport(recOrg.id, recCash.id, { statementDate: statement.statementDate, statementEndingBalance: 958 })
+    if (matchedCount !== 2 || recReport.clearedBalanceCents !== 95800 || recReport.differenceCents !== 0 || recReport.unmatchedLines.length !== 0) {
+      throw new Error(`❌ Unexpected reconciliation report: cleared ${recReport.clearedBalanceCents}, difference ${recReport.differenceCents}`)
+    }
+    console.log("✓ Statement lines auto-matched and cleared balance agrees with the statement")
+
+    const reconciliation = await completeReconciliation({ ...statement, statementEndingBalance: 958, createdByUserId: testUser.id })
+    if (reconciliation.postingCount !== 2) {
+      throw new Error(`❌ Expected 2 reconciled postings, got ${reconciliation.postingCount}`)
+    }
+    console.log("✓ Reconciliation completed")
+
+    await expectRejection("Reversing a reconciled transaction", () =>
+      reverseTransaction({ organizationId: recOrg.id, transactionId: officeEntry.id, reason: "Mistake", createdByUserId: testUser.id }), 409)
+    await expectRejection("Reconciling the same statement date again", () =>
+      completeReconciliation({ ...statement, statementEndingBalance: 958, createdByUserId: testUser.id }), 409)
+    console.log("✓ Reconciled postings are final")
+
+    // Test 18: Categorization rules
+    console.log("\n--- Test 18: Categorization Rules ---")
+    const smallUsd = compileConditions([
+      { field: "amount", operator: "lt", value: 100 },
+      { field: "currency", operator: "equals", value: "usd" },
+    ])
+    if (!smallUsd({ description: "Coffee", amount: 4.5, currency: "USD" }) || smallUsd({ description: "Coffee", amount: 4.5, currency: "EUR" })) {
+      throw new Error("❌ Rule conditions must all hold, with case-insensitive text comparison")
+    }
+    console.log("✓ Conditions are combined with AND")
+
+    const ruleOrg = await createScratchOrg("categorization-rules", testUser.id)
+    const { cash: ruleCash } = await defaultAccounts(ruleOrg.id)
+    const ruleStatement = (fitId: string, amount: string, name: string) =>
+      importStatement({
+        organizationId: ruleOrg.id,
+        accountId: ruleCash.id,
+        content: `<OFX><CURDEF>USD<STMTTRN><DTPOSTED>20230615<TRNAMT>${amount}<FITID>${fitId}<NAME>${name}</STMTTRN></OFX>`,
+        createdByUserId: testUser.id,
+      })
+    const ruleLine = (importId: string) => prisma.bankStatementLine.findFirstOrThrow({ where: { importId } })
+
+    const coffeeImport = await ruleStatement("C1", "-4.50", "Coffee Bar")
+    const rideRule = await createRule({
+      organizationId: ruleOrg.id,
+      name: "Rideshare",
+      priority: 1,
+      enabled: true,
+      conditions: [{ field: "vendor", operator: "matches", value: "^uber" }],
+      category: "Travel",
+      tags: ["rideshare"],
+      userId: testUser.id,
+    })
+    await createRule({
+      organizationId: ruleOrg.id,
+      name: "Small purchases",
+      priority: 5,
+      enabled: true,
+      conditions: [{ field: "amount", operator: "lt", value: 100 }],
+      category: "Sundries",
+      tags: [],
+      userId: testUser.id,
+    })
+
+    const rideLine = await ruleLine((await ruleStatement("U1", "-15.00", "UBER TRIP")).id)
+    if (rideLine.category !== "Travel" || rideLine.categorizationRuleId !== rideRule.id || rideLine.tags.join() !== "rideshare") {
+      throw new Error(`❌ Imported line was not categorized by the first matching rule: ${rideLine.category}`)
+    }
+    console.log("✓ Imported line categorized by the highest-priority matching rule")
+
+    const preview = await applyRulesToHistory({ organizationId: ruleOrg.id, dryRun: true, userId: testUser.id })
+    if (preview.bankLineCount !== 1 || preview.changes[0]?.after.category !== "Sundries" || (await ruleLine(coffeeImport.id)).category !== null) {
+      throw new Error(`❌ Dry run should preview only the earlier line without changing it, got ${preview.bankLineCount}`)
+    }
+    await applyRulesToHistory({ organizationId: ruleOrg.id, dryRun: false, userId: testUser.id })
+    if ((await ruleLine(coffeeImport.id)).category !== "Sundries") {
+      throw new Error("❌ Rules were not applied to the pending line imported before them")
+    }
+    console.log("✓ Rules previewed, then applied over earlier lines")
+
+    await expectRejection("Rule with an ASSET expense account", () =>
+      createRule({
+        organizationId: ruleOrg.id,
+        name: "Into cash",
+        priority: 9,
+        enabled: true,
+        conditions: [{ field: "description", operator: "contains", value: "cash" }],
+        expenseAccountId: ruleCash.id,
+        tags: [],
+        userId: testUser.id,
+      }), 400)
+    await expectRejection("Duplicate rule name", () =>
+      createRule({ organizationId: ruleOrg.id, name: "Rideshare", priority: 2, enabled: true, conditions: [], category: "Travel", tags: [], userId: testUser.id }), 409)
+    console.log("✓ Invalid rules rejected")
+
+    // Test 19: Managed categories with rename and merge
+    console.log("\n--- Test 19: Expense Categories ---")
+    const catOrg = await createScratchOrg("categories", testUser.id)
+    const meals = await createCategory({ organizationId: catOrg.id, name: "Meals", userId: testUser.id })
+    const dining = await createCategory({ organizationId: catOrg.id, name: "Dining", userId: testUser.id })
+    const restaurants = await updateCategory({ organizationId: catOrg.id, categoryId: dining.id, name: "Restaurants", userId: testUser.id })
+    const byOldName = await prisma.$transaction((tx) => resolveExpenseCategory(tx, catOrg.id, "  dining "))
+    if (byOldName.id !== dining.id || restaurants.account?.name !== "Expense: Restaurants") {
+      throw new Error("❌ Renamed category lost its old name or kept the generated account name")
+    }
+    console.log("✓ Rename keeps the old name as an alias and renames the generated account")
+
+    const lunchTxId = await createExpenseTransaction({
+      organizationId: catOrg.id,
+      occurredAt: new Date(),
+      description: "Client lunch",
+      amountCents: 6400,
+      category: "Restaurants",
+      idempotencyKey: `test:category:${randomUUID()}`,
+      createdByUserId: testUser.id,
+    })
+    const lunch = await prisma.expense.create({
+      data: {
+        organizationId: catOrg.id,
+        amount: 64,
+        currency: "USD",
+        description: "Client lunch",
+        category: "Restaurants",
+        categoryId: dining.id,
+        createdById: testUser.id,
+        ledgerTransactionId: lunchTxId,
+      },
+    })
+    const lunchDebitAccount = async () => {
+      const { ledgerTransactionId } = await prisma.expense.findUniqueOrThrow({ where: { id: lunch.id } })
+      const debit = await prisma.ledgerPosting.findFirstOrThrow({ where: { transactionId: ledgerTransactionId!, direction: "DR" } })
+      return debit.accountId
+    }
+    if ((await lunchDebitAccount()) !== dining.accountId) {
+      throw new Error("❌ Expense did not post to its category's account")
+    }
+
+    const merge = await mergeCategory({ organizationId: catOrg.id, sourceId: dining.id, targetId: meals.id, userId: testUser.id })
+    const mergedName = await prisma.$transaction((tx) => resolveExpenseCategory(tx, catOrg.id, "Dining"))
+    if (merge.movedCount !== 1 || merge.repostedCount !== 1 || (await lunchDebitAccount()) !== meals.accountId || mergedName.id !== meals.id) {
+      throw new Error(`❌ Merge moved ${merge.movedCount} and re-posted ${merge.repostedCount} expenses`)
+    }
+    console.log("✓ Merge re-posts expenses to the target account and aliases the source names")
+
+    await expectRejection("Category name already in use", () =>
+      createCategory({ organizationId: catOrg.id, name: " meals ", userId: testUser.id }), 409)
+    await expectRejection("Merging a category into itself", () =>
+      mergeCategory({ organizationId: catOrg.id, sourceId: meals.id, targetId: meals.id, userId: testUser.id }), 400)
+    await expectRejection("Changing a merged category", () =>
+      updateCategory({ organizationId: catOrg.id, categoryId: dining.id, name: "Eating out", userId: testUser.id }), 409)
+    console.log("✓ Name clashes and invalid merges rejected")
+
+    // Test 20: Split expenses
+    console.log("\n--- Test 20: Split Expenses ---")
+    const splitExpense = (lines: { amountCents: number; category?: string }[], amountCents: number, extra: { currency?: string; taxAmountCents?: number } = {}) =>
+      createExpenseTransaction({
+        organizationId: testOrg.id,
+        occurredAt: new Date(Date.UTC(2024, 0, 15)),
+        description: "Split expense",
+        amountCents,
+        lines,
+        idempotencyKey: `test:split:${randomUUID()}`,
+        createdByUserId: testUser.id,
+        ...extra,
+      })
+
+    const splitTxId = await splitExpense([{ amountCents: 3000, category: "Travel" }, { amountCents: 1500, category: "Meals" }], 4500)
+    const splitPostings = await prisma.ledgerPosting.findMany({ where: { transactionId: splitTxId } })
+    const splitDebits = splitPostings.filter((p) => p.direction === "DR")
+    const splitCredit = splitPostings.find((p) => p.direction === "CR")
+    if (splitDebits.length !== 2 || splitDebits.map((p) => `${p.category}:${p.amountCents}`).sort().join() !== "Meals:1500,Travel:3000" || splitCredit?.amountCents !== 4500) {
+      throw new Error("❌ Split expense did not post one debit per line against a single credit")
+    }
+    console.log("✓ One DR posting per line, one CR for the total")
+
+    // ¥500 twice converts to 333 cents each, but ¥1000 to 667; the largest line absorbs the cent
+    const yenSplitId = await splitExpense([{ amountCents: 500, category: "Travel" }, { amountCents: 500, category: "Meals" }], 1000, { currency: "JPY" })
+    const yenSplit = await prisma.ledgerPosting.findMany({ where: { transactionId: yenSplitId } })
+    const yenSplitBase = (direction: string) =>
+      yenSplit.filter((p) => p.direction === direction).reduce((sum, p) => sum + (p.baseAmountCents ?? 0), 0)
+    if (yenSplitBase("DR") !== 667 || yenSplitBase("CR") !== 667) {
+      throw new Error(`❌ Split base amounts do not add up: DR=${yenSplitBase("DR")}, CR=${yenSplitBase("CR")}`)
+    }
+    console.log("✓ Converted split lines add up to the converted total")
+
+    await expectRejection("Split lines not adding up", () => splitExpense([{ amountCents: 3000 }, { amountCents: 1000 }], 4500), 400)
+    await expectRejection("Split line without an amount", () => splitExpense([{ amountCents: 4500 }, { amountCents: 0 }], 4500), 400)
+    await expectRejection("Split expense with a header tax amount", () =>
+      splitExpense([{ amountCents: 3000 }, { amountCents: 1500 }], 4500, { taxAmountCents: 300 }), 400)
+    console.log("✓ Invalid split lines rejected")
+
+    // Test 21: Tax codes and the tax summary
+    console.log("\n--- Test 21: Tax Codes ---")
+    const split = splitTaxAmount(12000, { rate: 20, recoverablePercent: 50 })
+    if (split.netCents !== 10000 || split.recoverableCents !== 1000 || split.nonRecoverableCents !== 1000) {
+      throw new Error(`❌ Unexpected tax split: ${JSON.stringify(split)}`)
+    }
+    console.log("✓ Tax-inclusive amount split into net, recoverable and non-recoverable tax")
+
+    const taxOrg = await createScratchOrg("tax-codes", testUser.id)
+    const vatReceivable = await createAccount({ organizationId: taxOrg.id, name: "VAT Receivable", type: "ASSET", userId: testUser.id })
+    const vat20 = await createTaxCode({
+      organizationId: taxOrg.id,
+      code: "VAT20",
+      name: "Standard VAT",
+      rate: 20,
+      recoverablePercent: 50,
+      inputTaxAccountId: vatReceivable!.id,
+      userId: testUser.id,
+    })
+    const taxedExpense = (amountCents: number, taxAmountCents?: number) =>
+      createExpenseTransaction({
+        organizationId: taxOrg.id,
+        occurredAt: new Date(Date.UTC(2023, 7, 10)),
+        description: "Taxed supplies",
+        amountCents,
+        taxCodeId: vat20.id,
+        taxAmountCents,
+        idempotencyKey: `test:tax:${randomUUID()}`,
+        createdByUserId: testUser.id,
+      })
+    const taxedTxId = await taxedExpense(12000)
+    const vatDebit = await prisma.ledgerPosting.findFirst({ where: { transactionId: taxedTxId, accountId: vatReceivable!.id } })
+    if (vatDebit?.direction !== "DR" || vatDebit.amountCents !== 1000 || vatDebit.taxKind !== "RECOVERABLE") {
+      throw new Error("❌ Recoverable tax was not debited to the input tax account")
+    }
+    console.log("✓ Recoverable tax debited to the input tax account")
+
+    await reverseTransaction({
+      organizationId: taxOrg.id,
+      transactionId: taxedTxId,
+      reason: "Supplier credit",
+      createdByUserId: testUser.id,
+      occurredAt: new Date(Date.UTC(2023, 8, 5)),
+    })
+    const august = await getTaxSummary({ organizationId: taxOrg.id, startDate: new Date(Date.UTC(2023, 7, 1)), endDate: new Date(Date.UTC(2023, 7, 31, 23, 59, 59)) })
+    const september = await getTaxSummary({ organizationId: taxOrg.id, startDate: new Date(Date.UTC(2023, 8, 1)), endDate: new Date(Date.UTC(2023, 8, 30, 23, 59, 59)) })
+    if (august.totals.grossAmount !== 120 || august.totals.recoverableTax !== 10 || september.totals.grossAmount !== -120) {
+      throw new Error(`❌ Unexpected tax summaries: August ${august.totals.grossAmount}, September ${september.totals.grossAmount}`)
+    }
+    console.log("✓ Tax summary reports the reversal as an adjustment in its own period")
+
+    await expectRejection("Duplicate tax code", () =>
+      createTaxCode({ organizationId: taxOrg.id, code: "VAT20", name: "Again", rate: 20, recoverablePercent: 100, inputTaxAccountId: vatReceivable!.id, userId: testUser.id }), 409)
+    const { uncategorized: taxExpenseAccount } = await defaultAccounts(taxOrg.id)
+    await expectRejection("Input tax on an expense account", () =>
+      createTaxCode({ organizationId: taxOrg.id, code: "GST", name: "GST", rate: 10, recoverablePercent: 100, inputTaxAccountId: taxExpenseAccount.id, userId: testUser.id }), 400)
+    await expectRejection("Tax amount above the expense amount", () => taxedExpense(1000, 1500), 400)
+    console.log("✓ Invalid tax codes and tax amounts rejected")
+
+    // Test 22: Vendor bills, payments and AP aging
+    console.log("\n--- Test 22: Bills and AP Aging ---")
+    const billOrg = await createScratchOrg("bills", testUser.id)
+    const { cash: billCash } = await defaultAccounts(billOrg.id)
+    const newBill = (billNumber: string, terms: string) =>
+      createBill({
+        organizationId: billOrg.id,
+        vendor: "Acme Supplies",
+        billNumber,
+        description: "Paper and toner",
+        amount: 500,
+        billDate: new Date(Date.UTC(2023, 9, 1)),
+        terms,
+        category: "Office Supplies",
+        userId: testUser.id,
+      })
+    const bill = await newBill("INV-100", "NET30")
+    if (bill.dueDate.getTime() !== Date.UTC(2023, 9, 31)) {
+      throw new Error(`❌ NET30 bill due ${bill.dueDate.toISOString()}`)
+    }
+    await recordBillPayment({
+      organizationId: billOrg.id,
+      billId: bill.id,
+      amount: 200,
+      paidAt: new Date(Date.UTC(2023, 9, 15)),
+      paymentAccountId: billCash.id,
+      userId: testUser.id,
+    })
+
+    const aging = await getApAging({ organizationId: billOrg.id, asOf: new Date(Date.UTC(2023, 11, 15)) })
+    if (aging.lines.length !== 1 || aging.lines[0].outstanding !== 300 || aging.lines[0].bucket !== "days31to60" || aging.totals.total !== 300) {
+      throw new Error(`❌ Unexpected AP aging: ${JSON.stringify(aging.lines)}`)
+    }
+    console.log("✓ Partly paid bill aged by days past its due date")
+
+    // The payment debits Accounts Payable, which is not spending
+    const billSpend = await getLedgerReport({
+      organizationId: billOrg.id,
+      startDate: new Date(Date.UTC(2023, 9, 1)),
+      endDate: new Date(Date.UTC(2023, 11, 31)),
+      groupBy: "month",
+    })
+    if (JSON.stringify(billSpend) !== JSON.stringify([{ month: "2023-10", total: 500 }])) {
+      throw new Error(`❌ Expense report counted the bill payment: ${JSON.stringify(billSpend)}`)
+    }
+    console.log("✓ Expense report counts the bill once")
+
+    await expectRejection("Payment above the outstanding amount", () =>
+      recordBillPayment({ organizationId: billOrg.id, billId: bill.id, amount: 400, paidAt: new Date(Date.UTC(2023, 10, 1)), userId: testUser.id }), 400)
+    await expectRejection("Voiding a bill with payments", () => voidBill({ organizationId: billOrg.id, billId: bill.id, userId: testUser.id }), 409)
+    await expectRejection("Same bill number from the same vendor", () => newBill("INV-100", "NET30"), 409)
+    await expectRejection("Unknown payment terms", () => newBill("INV-101", "NET-EOM"), 400)
+    console.log("✓ Overpayment, void with payments and duplicate bills rejected")
+
+    // Test 23: Vendor records with aliases, defaults and merges
+    console.log("\n--- Test 23: Vendors ---")
+    if (vendorKey("AMAZON.COM") !== vendorKey(" Amazon.com ")) {
+      throw new Error("❌ Vendor keys should ignore case and punctuation")
+    }
+
+    const vendorOrg = await createScratchOrg("vendors", testUser.id)
+    const officeSupplies = await createCategory({ organizationId: vendorOrg.id, name: "Office Supplies", userId: testUser.id })
+    const amazon = await createVendor({
+      organizationId: vendorOrg.id,
+      name: "Amazon",
+      aliases: ["Amazon.com"],
+      defaultCategoryId: officeSupplies.id,
+      userId: testUser.id,
+    })
+    const matchPayee = await getVendorMatcher(vendorOrg.id)
+    if (matchPayee("AMAZON.COM*2K4LL0")?.id !== amazon.id || matchPayee("Amazonia Travel") !== null) {
+      throw new Error("❌ Statement payee did not match the vendor alias it starts with")
+    }
+    console.log("✓ Statement payees matched by name or alias prefix")
+
+    const vendorBill = (vendor: string) =>
+      createBill({
+        organizationId: vendorOrg.id,
+        vendor,
+        description: "Cables",
+        amount: 35,
+        billDate: new Date(Date.UTC(2023, 10, 3)),
+        terms: "DUE_ON_RECEIPT",
+        userId: testUser.id,
+      })
+    const aliasBill = await vendorBill("amazon.com")
+    if (aliasBill.vendorId !== amazon.id || aliasBill.category !== "Office Supplies") {
+      throw new Error("❌ Bill under a vendor alias did not take the vendor and its default category")
+    }
+    console.log("✓ Alias resolves to the vendor and its default category applies")
+
+    const marketplaceBill = await vendorBill("AMZN Mktp")
+    const vendorMerge = await mergeVendor({ organizationId: vendorOrg.id, sourceId: marketplaceBill.vendorId!, targetId: amazon.id, userId: testUser.id })
+    const movedBill = await prisma.bill.findUniqueOrThrow({ where: { id: marketplaceBill.id } })
+    const mergedVendor = await prisma.$transaction((tx) => resolveVendor(tx, vendorOrg.id, "amzn mktp"))
+    if (vendorMerge.billCount !== 1 || movedBill.vendorId !== amazon.id || movedBill.vendor !== "Amazon" || mergedVendor.id !== amazon.id) {
+      throw new Error("❌ Merged vendor's bills and name did not move to the target")
+    }
+    console.log("✓ Merge moves bills and names to the surviving vendor")
+
+    await expectRejection("Vendor name used as another vendor's alias", () =>
+      createVendor({ organizationId: vendorOrg.id, name: "AMAZON COM", userId: testUser.id }), 409)
+    await expectRejection("Merging a vendor into itself", () =>
+      mergeVendor({ organizationId: vendorOrg.id, sourceId: amazon.id, targetId: amazon.id, userId: testUser.id }), 400)
+    console.log("✓ Name clashes and self-merges rejected")
+
+    // Test 24: 1099-NEC report
+    console.log("\n--- Test 24: 1099-NEC ---")
+    const necOrg = await createScratchOrg("form-1099", testUser.id)
+    const necCard = await createAccount({ organizationId: necOrg.id, name: "Company Card", type: "LIABILITY", userId: testUser.id })
+    const designer = await createVendor({ organizationId: necOrg.id, name: "Jane Designer", is1099: true, userId: testUser.id })
+    const consultant = await createVendor({ organizationId: necOrg.id, name: "Bolt Consulting", is1099: true, taxId: "12-3456789", userId: testUser.id })
+    const payVendor = (vendor: { id: string; name: string }, amountCents: number, paymentAccountId?: string) =>
+      createExpenseTransaction({
+        organizationId: necOrg.id,
+        occurredAt: new Date(Date.UTC(2023, 2, 1)),
+        description: "Contract work",
+        amountCents,
+        vendor: vendor.name,
+        vendorId: vendor.id,
+        paymentAccountId,
+        idempotencyKey: `test:1099:${randomUUID()}`,
+        createdByUserId: testUser.id,
+      })
+    await payVendor(designer, 70000)
+    await payVendor(designer, 25000, necCard!.id)
+    await payVendor(consultant, 45000)
+    // An unpaid bill credits Accounts Payable and is not a payment yet
+    await createBill({
+      organizationId: necOrg.id,
+      vendor: "Jane Designer",
+      description: "Logo",
+      amount: 1000,
+      billDate: new Date(Date.UTC(2023, 5, 1)),
+      terms: "NET30",
+      userId: testUser.id,
+    })
+
+    const nec = await get1099Report({ organizationId: necOrg.id, taxYear: 2023 })
+    const designerLine = nec.lines.find((line) => line.vendorId === designer.id)
+    const consultantLine = nec.lines.find((line) => line.vendorId === consultant.id)
+    if (nec.threshold !== 600 || designerLine?.payments !== 700 || designerLine.cardPayments !== 250 || !designerLine.reportable) {
+      throw new Error(`❌ Unexpected 1099 line: ${JSON.stringify(designerLine)}`)
+    }
+    if (consultantLine?.payments !== 450 || consultantLine.reportable || consultantLine.tinType !== "EIN" || nec.totals.reportable !== 700) {
+      throw new Error(`❌ Vendor under the threshold was reported: ${JSON.stringify(consultantLine)}`)
+    }
+    console.log("✓ Bank payments counted against the threshold; card payments and unpaid bills left out")
+
+    if (nec.missingTins.length !== 1 || nec.missingTins[0].vendorId !== designer.id) {
+      throw new Error("❌ Reportable vendor without a tax ID was not flagged")
+    }
+    console.log("✓ Reportable vendor without a TIN flagged")
+
+    await expectRejection("1099 report for an invalid year", () => get1099Report({ organizationId: necOrg.id, taxYear: 20231 }), 400)
+    console.log("✓ Invalid tax year rejected")
+
+    // Test 25: Reimbursable expenses and expense reports
+    console.log("\n--- Test 25: Expense Reports ---")
+    const reportOrg = await createScratchOrg("expense-reports", testUser.id)
+    const employee = await prisma.user.create({
+      data: { email: `test-ledger-employee-${randomUUID()}@example.com`, name: "Test Employee" },
+    })
+    await prisma.membership.create({ data: { userId: employee.id, organizationId: reportOrg.id, role: "MEMBER" } })
+    const { cash: reportCash } = await defaultAccounts(reportOrg.id)
+    const reimbursable = (description: string, amount: number) =>
+      prisma.expense.create({
+        data: {
+          organizationId: reportOrg.id,
+          amount,
+          currency: "USD",
+          description,
+          date: new Date(Date.UTC(2023, 10, 14)),
+          createdById: employee.id,
+          reimbursable: true,
+        },
+      })
+    const taxi = await reimbursable("Airport taxi", 48)
+    const hotel = await reimbursable("Hotel", 212.5)
+
+    const tripReport = await createExpenseReport({ organizationId: reportOrg.id, title: "Client visit", expenseIds: [taxi.id, hotel.id], userId: employee.id })
+    if (tripReport.totals[0]?.amount !== 260.5) {
+      throw new Error(`❌ Unexpected report total: ${JSON.stringify(tripReport.totals)}`)
+    }
+    await submitExpenseReport({ organizationId: reportOrg.id, reportId: tripReport.id, userId: employee.id })
+    await expectRejection("Approving your own expense report", () =>
+      approveExpenseReport({ organizationId: reportOrg.id, reportId: tripReport.id, userId: employee.id }), 403)
+
+    await approveExpenseReport({ organizationId: reportOrg.id, reportId: tripReport.id, userId: testUser.id })
+    const owed = (await getReimbursementBalances(reportOrg.id)).employees.find((e) => e.employeeId === employee.id)
+    const postedTaxi = await prisma.expense.findUniqueOrThrow({ where: { id: taxi.id } })
+    if (owed?.outstanding !== 260.5 || owed.unpaidReports.length !== 1 || !postedTaxi.ledgerTransactionId) {
+      throw new Error(`❌ Approval did not credit the employee's reimbursements account: ${owed?.outstanding}`)
+    }
+    console.log("✓ Approval posts the expenses against the employee's reimbursements account")
+
+    await payExpenseReport({ organizationId: reportOrg.id, reportId: tripReport.id, paidAt: new Date(Date.UTC(2023, 10, 20)), paymentAccountId: reportCash.id, userId: testUser.id })
+    const settled = (await getReimbursementBalances(reportOrg.id)).employees.find((e) => e.employeeId === employee.id)
+    if (settled?.outstanding !== 0 || settled.unpaidReports.length !== 0) {
+      throw new Error(`❌ Payout did not clear the reimbursement: ${settled?.outstanding}`)
+    }
+    console.log("✓ Payout clears the employee's balance")
+
+    await expectRejection("Paying a report twice", () =>
+      payExpenseReport({ organizationId: reportOrg.id, reportId: tripReport.id, paidAt: new Date(Date.UTC(2023, 10, 21)), userId: testUser.id }), 409)
+    await expectRejection("Putting a posted expense on a new report", () =>
+      createExpenseReport({ organizationId: reportOrg.id, title: "Again", expenseIds: [taxi.id], userId: employee.id }), 400)
+    const emptyReport = await createExpenseReport({ organizationId: reportOrg.id, title: "Empty", userId: employee.id })
+    await expectRejection("Submitting an empty report", () =>
+      submitExpenseReport({ organizationId: reportOrg.id, reportId: emptyReport.id, userId: employee.id }), 400)
+    console.log("✓ Self-approval, repeat payouts and invalid reports rejected")
+
+    // Test 26: Expense approval policies
+    console.log("\n--- Test 26: Expense Approvals ---")
+    const approvalOrg = await createScratchOrg("approvals", testUser.id)
+    const addMember = async (label: string) => {
+      const user = await prisma.user.create({ data: { email: `test-ledger-${label}-${randomUUID()}@example.com`, name: `Test ${label}` } })
+      await prisma.membership.create({ data: { userId: user.id, organizationId: approvalOrg.id, role: "MEMBER" } })
+      return user
+    }
+    const clerk = await addMember("clerk")
+    const cfo = await addMember("cfo")
+    const { cash: approvalCash } = await defaultAccounts(approvalOrg.id)
+    await createApprovalPolicy({
+      organizationId: approvalOrg.id,
+      name: "Over 500",
+      priority: 1,
+      enabled: true,
+      conditions: [{ field: "amount", operator: "gte", value: 500 }],
+      requiredRole: "ADMIN",
+      approverIds: [],
+      userId: testUser.id,
+    })
+    await createApprovalPolicy({
+      organizationId: approvalOrg.id,
+      name: "Over 1000",
+      priority: 2,
+      enabled: true,
+      conditions: [{ field: "amount", operator: "gte", value: 1000 }],
+      approverIds: [cfo.id],
+      userId: testUser.id,
+    })
+
+    // Statement conversions go through the same approvals as expenses entered by hand
+    const approvalImport = await importStatement({
+      organizationId: approvalOrg.id,
+      accountId: approvalCash.id,
+      content: [
+        "<OFX><CURDEF>USD",
+        "<STMTTRN><DTPOSTED>20231102<TRNAMT>-1200.00<FITID>A1<NAME>Laptop Store</STMTTRN>",
+        "<STMTTRN><DTPOSTED>20231103<TRNAMT>-600.00<FITID>A2<NAME>Conference</STMTTRN>",
+        "</OFX>",
+      ].join("\n"),
+      createdByUserId: clerk.id,
+    })
+    const approvalLines = await prisma.bankStatementLine.findMany({ where: { importId: approvalImport.id }, orderBy: { externalId: "asc" } })
+    const laptop = await convertLineToExpense({ organizationId: approvalOrg.id, lineId: approvalLines[0].id, createdByUserId: clerk.id })
+    if (laptop.approvalStatus !== "PENDING" || laptop.ledgerTransactionId !== null) {
+      throw new Error("❌ Converted expense over the threshold was posted without approval")
+    }
+    console.log("✓ Expense matching policies held back as PENDING and unposted")
+
+    await expectRejection("Approving your own expense", () =>
+      approveExpense({ organizationId: approvalOrg.id, expenseId: laptop.id, approver: { userId: clerk.id, role: "MEMBER" } }), 403)
+    await expectRejection("Approving a step you do not qualify for", () =>
+      approveExpense({ organizationId: approvalOrg.id, expenseId: laptop.id, approver: { userId: cfo.id, role: "MEMBER" } }), 403)
+
+    const firstStep = await approveExpense({ organizationId: approvalOrg.id, expenseId: laptop.id, approver: { userId: testUser.id, role: "OWNER" } })
+    if (firstStep.approvalStatus !== "PENDING" || firstStep.approvalSteps.map((step) => step.status).join() !== "APPROVED,PENDING") {
+      throw new Error("❌ Owner approval should complete only the role step")
+    }
+    const approved = await approveExpense({ organizationId: approvalOrg.id, expenseId: laptop.id, approver: { userId: cfo.id, role: "MEMBER" } })
+    const clearedLine = await prisma.bankStatementLine.findUniqueOrThrow({ where: { id: approvalLines[0].id } })
+    if (approved.approvalStatus !== "APPROVED" || !approved.ledgerTransactionId || clearedLine.transactionId !== approved.ledgerTransactionId || !clearedLine.matchId) {
+      throw new Error("❌ Final approval did not post the expense and clear its statement line")
+    }
+    console.log("✓ Steps approved in order; the last approval posts and clears the statement line")
+
+    const conference = await convertLineToExpense({ organizationId: approvalOrg.id, lineId: approvalLines[1].id, createdByUserId: clerk.id })
+    const rejected = await rejectExpense({
+      organizationId: approvalOrg.id,
+      expenseId: conference.id,
+      approver: { userId: testUser.id, role: "OWNER" },
+      comment: "Not budgeted",
+    })
+    if (rejected.approvalStatus !== "REJECTED" || rejected.ledgerTransactionId !== null) {
+      throw new Error("❌ Rejected expense was posted")
+    }
+    console.log("✓ Rejection leaves the expense unposted")
+
+    await expectRejection("Approver outside the organization", () =>
+      createApprovalPolicy({
+        organizationId: approvalOrg.id,
+        name: "Outsider",
+        priority: 3,
+        enabled: true,
+        conditions: [],
+        approverIds: [randomUUID()],
+        userId: testUser.id,
+      }), 400)
+    console.log("✓ Approvers from outside the organization rejected")
+
+    // Test 27: Spending policies
+    console.log("\n--- Test 27: Spending Policies ---")
+    const policyOrg = await createScratchOrg("spending-policies", testUser.id)
+    const { cash: policyCash } = await defaultAccounts(policyOrg.id)
+    const receiptPolicy = await createSpendingPolicy({
+      organizationId: policyOrg.id,
+      name: "Receipts over 25",
+      kind: "RECEIPT_REQUIRED",
+      params: { amount: 25 },
+      severity: "WARNING",
+      enabled: true,
+      userId: testUser.id,
+    })
+    await createSpendingPolicy({
+      organizationId: policyOrg.id,
+      name: "No weekend spending",
+      kind: "NO_WEEKEND",
+      params: {},
+      severity: "HARD",
+      enabled: true,
+      userId: testUser.id,
+    })
+
+    const policyImport = await importStatement({
+      organizationId: policyOrg.id,
+      accountId: policyCash.id,
+      content: [
+        "<OFX><CURDEF>USD",
+        "<STMTTRN><DTPOSTED>20231101<TRNAMT>-80.00<FITID>P1<NAME>Printer Hub</STMTTRN>",
+        "<STMTTRN><DTPOSTED>20231104<TRNAMT>-30.00<FITID>P2<NAME>Weekend Market</STMTTRN>",
+        "</OFX>",
+      ].join("\n"),
+      createdByUserId: testUser.id,
+    })
+    const policyLines = await prisma.bankStatementLine.findMany({ where: { importId: policyImport.id }, orderBy: { externalId: "asc" } })
+    const printer = await convertLineToExpense({ organizationId: policyOrg.id, lineId: policyLines[0].id, createdByUserId: testUser.id })
+    const storedWarnings = await prisma.expensePolicyViolation.findMany({ where: { expenseId: printer.id } })
+    if (printer.policyViolations.length !== 1 || storedWarnings[0]?.policyId !== receiptPolicy.id || !printer.ledgerTransactionId) {
+      throw new Error("❌ Warning policy should flag the converted expense and still post it")
+    }
+    console.log("✓ Warning violation stored on the converted expense")
+
+    let weekendViolations: any[] = []
+    try {
+      await convertLineToExpense({ organizationId: policyOrg.id, lineId: policyLines[1].id, createdByUserId: testUser.id })
+    } catch (error: any) {
+      if (error.statusCode !== 422) throw error
+      weekendViolations = error.violations
+    }
+    const weekendLine = await prisma.bankStatementLine.findUniqueOrThrow({ where: { id: policyLines[1].id } })
+    if (weekendViolations.length !== 1 || weekendViolations[0].kind !== "NO_WEEKEND" || weekendLine.status !== "PENDING") {
+      throw new Error("❌ HARD violation did not refuse the conversion and leave the line pending")
+    }
+    console.log("✓ HARD violation refuses the conversion with 422")
+
+    // Expenses entered before a policy existed are flagged on evaluation, not blocked
+    await prisma.expense.create({
+      data: {
+        organizationId: policyOrg.id,
+        amount: 10,
+        currency: "USD",
+        description: "Sunday parking",
+        date: new Date(Date.UTC(2023, 10, 5)),
+        createdById: testUser.id,
+      },
+    })
+    const evaluation = await evaluateSpendingPolicies({ organizationId: policyOrg.id, userId: testUser.id })
+    if (evaluation.evaluated !== 2 || evaluation.hard !== 1 || evaluation.warnings !== 1) {
+      throw new Error(`❌ Unexpected evaluation: ${JSON.stringify(evaluation)}`)
+    }
+    console.log("✓ Evaluation flags earlier expenses without blocking them")
+
+    await expectRejection("HARD receipt policy", () =>
+      updateSpendingPolicy({ organizationId: policyOrg.id, policyId: receiptPolicy.id, changes: { severity: "HARD" }, userId: testUser.id }), 400)
+    await expectRejection("Duplicate policy name", () =>
+      createSpendingPolicy({ organizationId: policyOrg.id, name: "Receipts over 25", kind: "MAX_AGE", params: { days: 30 }, severity: "WARNING", enabled: true, userId: testUser.id }), 409)
+    console.log("✓ Invalid policies rejected")
+
+    // Test 28: Recurring templates post each date once, skip what the ledger refuses and retry it later
+    console.log("\n--- Test 28: Recurring Templates ---")
+    const recurringOrg = await createScratchOrg("recurring", testUser.id)
+    const { cash: recurringCash, uncategorized: recurringExpense } = await defaultAccounts(recurringOrg.id)
+    const accrualLines = (amount: number) => [
+      { accountId: recurringExpense.id, direction: "DR" as const, amount },
+      { accountId: recurringCash.id, direction: "CR" as const, amount },
+    ]
+
+    // Created first, then corrupted: its unexpected error must not stop the templates after it
+    const brokenTemplate = await createRecurringTemplate({
+      organizationId: recurringOrg.id,
+      name: "Broken accrual",
+      kind: "JOURNAL",
+      frequency: "DAILY",
+      interval: 1,
+      startDate: new Date(Date.UTC(2023, 0, 1)),
+      endDate: new Date(Date.UTC(2023, 0, 2)),
+      description: "Broken accrual",
+      journalLines: accrualLines(10),
+      active: true,
+      userId: testUser.id,
+    })
+    await prisma.recurringTemplate.update({ where: { id: brokenTemplate.id }, data: { journalLines: {} } })
+
+    const streaming = await createRecurringTemplate({
+      organizationId: recurringOrg.id,
+      name: "Streaming",
+      kind: "EXPENSE",
+      frequency: "MONTHLY",
+      interval: 1,
+      startDate: new Date(Date.UTC(2023, 0, 15)),
+      endDate: new Date(Date.UTC(2023, 2, 31)),
+      description: "Streaming subscription",
+      amount: 40,
+      vendor: "Netflix",
+      active: true,
+      userId: testUser.id,
+    })
+    await lockPeriod({ organizationId: recurringOrg.id, period: "2023-02", reason: "Audit", lockedByUserId: testUser.id })
+
+    const recurringAsOf = new Date(Date.UTC(2023, 3, 30))
+    const aprilRun = await runRecurringTemplates({ organizationId: recurringOrg.id, asOf: recurringAsOf, userId: testUser.id })
+    const postedDates = aprilRun.posted.map((item) => item.occurrenceDate.toISOString().slice(0, 10))
+    if (postedDates.join(",") !== "2023-01-15,2023-03-15") {
+      throw new Error(`❌ Expected January and March posted, got ${postedDates.join(",")}`)
+    }
+    const skippedFeb = aprilRun.skipped.find((item) => item.templateId === streaming.id)
+    if (!skippedFeb || skippedFeb.occurrenceDate.toISOString().slice(0, 10) !== "2023-02-15" || !skippedFeb.error) {
+      throw new Error("❌ Expected the February occurrence skipped with the lock error")
+    }
+    console.log("✓ Occurrence in a locked period skipped, the others posted")
+
+    const brokenSkipped = aprilRun.skipped.filter((item) => item.templateId === brokenTemplate.id)
+    if (brokenSkipped.length !== 1) {
+      throw new Error(`❌ Expected the broken template to stop after its first date, got ${brokenSkipped.length} skipped`)
+    }
+    console.log("✓ Unexpected error skipped its template and did not stop the run")
+    await updateRecurringTemplate({ organizationId: recurringOrg.id, templateId: brokenTemplate.id, changes: { active: false }, userId: testUser.id })
+
+    const repeatRun = await runRecurringTemplates({ organizationId: recurringOrg.id, asOf: recurringAsOf, userId: testUser.id })
+    const streamingExpenses = await prisma.expense.count({ where: { recurringTemplateId: streaming.id } })
+    if (repeatRun.posted.length !== 0 || repeatRun.skipped.length !== 1 || streamingExpenses !== 2) {
+      throw new Error(`❌ Re-run posted ${repeatRun.posted.length} and left ${streamingExpenses} expenses; expected 0 and 2`)
+    }
+    console.log("✓ Re-run posted nothing twice and retried the skipped date")
+
+    await unlockPeriod({ organizationId: recurringOrg.id, period: "2023-02", reason: "Audit done", unlockedByUserId: testUser.id })
+    const reopenedRun = await runRecurringTemplates({ organizationId: recurringOrg.id, asOf: recurringAsOf, userId: testUser.id })
+    const febOccurrence = await prisma.recurringOccurrence.findUniqueOrThrow({
+      where: { templateId_occurrenceDate: { templateId: streaming.id, occurrenceDate: new Date(Date.UTC(2023, 1, 15)) } },
+    })
+    if (reopenedRun.posted.length !== 1 || febOccurrence.status !== "POSTED" || febOccurrence.error !== null || !febOccurrence.transactionId) {
+      throw new Error("❌ February occurrence not posted after the period reopened")
+    }
+    console.log(`✓ Skipped date posted once its period reopened (attempt ${febOccurrence.attempts})`)
+
+    // Journal entries take a soft-closed period; expenses go through approvals and spending policies
+    await lockPeriod({ organizationId: recurringOrg.id, period: "2023-05", status: "SOFT_CLOSED", reason: "Month end review", lockedByUserId: testUser.id })
+    const leaseAccrual = await createRecurringTemplate({
+      organizationId: recurringOrg.id,
+      name: "Lease accrual",
+      kind: "JOURNAL",
+      frequency: "MONTHLY",
+      interval: 1,
+      startDate: new Date(Date.UTC(2023, 4, 31)),
+      endDate: new Date(Date.UTC(2023, 4, 31)),
+      description: "Office lease accrual",
+      journalLines: accrualLines(500),
+      active: true,
+      userId: testUser.id,
+    })
+    await createApprovalPolicy({
+      organizationId: recurringOrg.id,
+      name: "Over 500",
+      priority: 1,
+      enabled: true,
+      conditions: [{ field: "amount", operator: "gte", value: 500 }],
+      requiredRole: "ADMIN",
+      approverIds: [],
+      userId: testUser.id,
+    })
+    await createSpendingPolicy({
+      organizationId: recurringOrg.id,
+      name: "No weekend spending",
+      kind: "NO_WEEKEND",
+      params: {},
+      severity: "HARD",
+      enabled: true,
+      userId: testUser.id,
+    })
+    const retainer = await createRecurringTemplate({
+      organizationId: recurringOrg.id,
+      name: "Consulting retainer",
+      kind: "EXPENSE",
+      frequency: "MONTHLY",
+      interval: 1,
+      startDate: new Date(Date.UTC(2023, 5, 5)),
+      endDate: new Date(Date.UTC(2023, 5, 5)),
+      description: "Consulting retainer",
+      amount: 900,
+      active: true,
+      userId: testUser.id,
+    })
+    const auditFee = await createRecurringTemplate({
+      organizationId: recurringOrg.id,
+      name: "Audit fee",
+      kind: "EXPENSE",
+      frequency: "MONTHLY",
+      interval: 1,
+      startDate: new Date(Date.UTC(2023, 4, 10)), // Soft-closed May
+      endDate: new Date(Date.UTC(2023, 4, 10)),
+      description: "Audit fee",
+      amount: 700,
+      active: true,
+      userId: testUser.id,
+    })
+    const cleaning = await createRecurringTemplate({
+      organizationId: recurringOrg.id,
+      name: "Weekend cleaning",
+      kind: "EXPENSE",
+      frequency: "WEEKLY",
+      interval: 1,
+      startDate: new Date(Date.UTC(2023, 5, 3)), // A Saturday
+      endDate: new Date(Date.UTC(2023, 5, 3)),
+      description: "Office cleaning",
+      amount: 60,
+      active: true,
+      userId: testUser.id,
+    })
+
+    const juneRun = await runRecurringTemplates({ organizationId: recurringOrg.id, asOf: new Date(Date.UTC(2023, 5, 30)), userId: testUser.id })
+    const leasePosted = juneRun.posted.find((item) => item.templateId === leaseAccrual.id)
+    if (!leasePosted?.transactionId || leasePosted.expenseId) {
+      throw new Error("❌ Journal template not posted in a soft-closed period")
+    }
+    console.log("✓ Journal entry posted in a soft-closed period")
+
+    const retainerPosted = juneRun.posted.find((item) => item.templateId === retainer.id)
+    const retainerExpense = retainerPosted?.expenseId
+      ? await prisma.expense.findUniqueOrThrow({ where: { id: retainerPosted.expenseId } })
+      : null
+    if (!retainerExpense || retainerExpense.approvalStatus !== "PENDING" || retainerExpense.ledgerTransactionId || retainerPosted!.transactionId) {
+      throw new Error("❌ Expected the retainer to await approval without a ledger transaction")
+    }
+    console.log("✓ Expense over the approval threshold awaits approval")
+
+    const auditFeeSkipped = juneRun.skipped.find((item) => item.templateId === auditFee.id)
+    const auditFeeExpenses = await prisma.expense.count({ where: { recurringTemplateId: auditFee.id } })
+    if (!auditFeeSkipped || auditFeeExpenses !== 0) {
+      throw new Error("❌ Expected the expense awaiting approval in a soft-closed period to be skipped")
+    }
+    console.log("✓ Expense that would await approval skipped in a closed period")
+
+    const cleaningSkipped = juneRun.skipped.find((item) => item.templateId === cleaning.id)
+    const cleaningExpenses = await prisma.expense.count({ where: { recurringTemplateId: cleaning.id } })
+    if (!cleaningSkipped || cleaningExpenses !== 0) {
+      throw new Error("❌ Expected the weekend expense refused by the HARD policy and skipped")
+    }
+    console.log("✓ HARD spending policy violation skipped the occurrence")
+
+    await expectRejection("Duplicate template name", () =>
+      createRecurringTemplate({
+        organizationId: recurringOrg.id,
+        name: "Streaming",
+        kind: "EXPENSE",
+        frequency: "MONTHLY",
+        interval: 1,
+        startDate: new Date(Date.UTC(2023, 0, 1)),
+        description: "Again",
+        amount: 10,
+        active: true,
+        userId: testUser.id,
+      }), 409)
+    await expectRejection("Unbalanced journal template", () =>
+      createRecurringTemplate({
+        organizationId: recurringOrg.id,
+        name: "Unbalanced",
+        kind: "JOURNAL",
+        frequency: "MONTHLY",
+        interval: 1,
+        startDate: new Date(Date.UTC(2023, 0, 1)),
+        description: "Unbalanced",
+        journalLines: [accrualLines(10)[0], accrualLines(20)[1]],
+        active: true,
+        userId: testUser.id,
+      }), 400)
+    await expectRejection("dayOfMonth on a weekly schedule", () =>
+      createRecurringTemplate({
+        organizationId: recurringOrg.id,
+        name: "Weekly on the 5th",
+        kind: "EXPENSE",
+        frequency: "WEEKLY",
+        interval: 1,
+        dayOfMonth: 5,
+        startDate: new Date(Date.UTC(2023, 0, 1)),
+        description: "Weekly",
+        amount: 10,
+        active: true,
+        userId: testUser.id,
+      }), 400)
+    await expectRejection("Journal lines on an expense template", () =>
+      updateRecurringTemplate({ organizationId: recurringOrg.id, templateId: streaming.id, changes: { journalLines: accrualLines(10) }, userId: testUser.id }), 400)
+    await expectRejection("Run dated in the future", () =>
+      runRecurringTemplates({ organizationId: recurringOrg.id, asOf: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) }), 400)
+    console.log("✓ Invalid templates and runs rejected")
+
+    // Test 29: Duplicate detection needs more than amount and date; pairs are reviewed, dismissed or merged
+    console.log("\n--- Test 29: Duplicate Expenses ---")
+    const duplicateDate = new Date(Date.UTC(2024, 1, 10))
+    const duplicateAmount = (10000 + randomInt(1, 10000)) / 100 // Unique per run, so earlier runs' expenses do not match; whole cents avoid float drift
+    const coffee = await prisma.expense.create({
+      data: {
+        organizationId: testOrg.id,
+        amount: duplicateAmount,
+        currency: "USD",
+        description: "Team coffee",
+        vendor: "Blue Bottle Coffee",
+        date: duplicateDate,
+        createdById: testUser.id,
+      },
+    })
+
+    const differentVendor = await findDuplicateCandidates(prisma, {
+      organizationId: testOrg.id,
+      amount: duplicateAmount,
+      currency: "USD",
+      date: duplicateDate,
+      vendor: "Office Depot",
+      vendorId: null,
+    })
+    if (differentVendor.length !== 0) {
+      throw new Error(`❌ Same amount and date with a different vendor was flagged: ${differentVendor[0].reasons.join(", ")}`)
+    }
+    console.log("✓ Same amount and date with a different vendor not flagged")
+
+    const noVendor = await findDuplicateCandidates(prisma, {
+      organizationId: testOrg.id,
+      amount: duplicateAmount,
+      currency: "USD",
+      date: duplicateDate,
+      vendor: null,
+      vendorId: null,
+    })
+    if (noVendor.length !== 0) {
+      throw new Error("❌ Same amount and date alone was flagged as a duplicate")
+    }
+    console.log("✓ Same amount and date alone not flagged")
+
+    const similarVendor = await findDuplicateCandidates(prisma, {
+      organizationId: testOrg.id,
+      amount: duplicateAmount,
+      currency: "USD",
+      date: new Date(Date.UTC(2024, 1, 11)),
+      vendor: "Blue Bottle",
+      vendorId: null,
+    })
+    if (similarVendor.length !== 1 || similarVendor[0].expenseId !== coffee.id) {
+      throw new Error(`❌ Expected the coffee expense as a duplicate, got ${similarVendor.length} candidates`)
+    }
+    console.log(`✓ Similar vendor a day apart flagged (score ${similarVendor[0].score})`)
+
+    // The card feed enters the same coffee again: the pair is queued for review
+    const coffeeCardTxId = await createExpenseTransaction({
+      organizationId: testOrg.id,
+      occurredAt: new Date(Date.UTC(2024, 1, 11)),
+      description: "Card: Blue Bottle",
+      amountCents: Math.round(duplicateAmount * 100),
+      vendor: "Blue Bottle",
+      idempotencyKey: `test:duplicate-card:${randomUUID()}`,
+      createdByUserId: testUser.id,
+    })
+    const coffeeCard = await prisma.expense.create({
+      data: {
+        organizationId: testOrg.id,
+        amount: duplicateAmount,
+        currency: "USD",
+        description: "Card: Blue Bottle",
+        vendor: "Blue Bottle",
+        date: new Date(Date.UTC(2024, 1, 11)),
+        createdById: testUser.id,
+        ledgerTransactionId: coffeeCardTxId,
+      },
+    })
+    const receiptHash = randomUUID().replace(/-/g, "")
+    await prisma.receipt.create({
+      data: {
+        expenseId: coffeeCard.id,
+        url: "https://example.com/receipts/coffee.jpg",
+        key: `test/${receiptHash}.jpg`,
+        filename: "coffee.jpg",
+        size: 1024,
+        mimeType: "image/jpeg",
+        sha256: receiptHash,
+      },
+    })
+
+    await checkExpenseDuplicates(prisma, testOrg.id, coffeeCard.id)
+    const cardPair = (await listExpenseDuplicates(testOrg.id)).find((pair) => pair.expenseId === coffeeCard.id)
+    if (!cardPair || cardPair.duplicateOfId !== coffee.id) {
+      throw new Error("❌ Card expense not queued as a duplicate of the coffee expense")
+    }
+    console.log(`✓ Duplicate pair queued for review (score ${cardPair.score})`)
+
+    const sameReceipt = await findDuplicateCandidates(prisma, {
+      organizationId: testOrg.id,
+      amount: 12.34,
+      currency: "USD",
+      date: new Date(Date.UTC(2024, 5, 1)),
+      vendor: "Office Depot",
+      vendorId: null,
+      receiptHashes: [receiptHash],
+    })
+    const receiptMatch = sameReceipt.find((candidate) => candidate.expenseId === coffeeCard.id)
+    if (!receiptMatch || receiptMatch.score !== 100) {
+      throw new Error(`❌ Expected the same receipt file to score 100, got ${receiptMatch?.score}`)
+    }
+    console.log("✓ Same receipt file flagged regardless of amount, date and vendor")
+
+    // A third entry pairs with both; the pair with the original is reviewed and dismissed
+    const coffeeAgain = await prisma.expense.create({
+      data: {
+        organizationId: testOrg.id,
+        amount: duplicateAmount,
+        currency: "USD",
+        description: "Team coffee (resubmitted)",
+        vendor: "Blue Bottle Coffee",
+        date: new Date(Date.UTC(2024, 1, 12)),
+        createdById: testUser.id,
+      },
+    })
+    const againCandidates = await checkExpenseDuplicates(prisma, testOrg.id, coffeeAgain.id)
+    if (againCandidates.length !== 2) {
+      throw new Error(`❌ Expected the resubmitted coffee to pair with 2 expenses, got ${againCandidates.length}`)
+    }
+    const againPairs = (await listExpenseDuplicates(testOrg.id)).filter((pair) => pair.expenseId === coffeeAgain.id)
+    const againOriginal = againPairs.find((pair) => pair.duplicateOfId === coffee.id)!
+    const dismissed = await dismissDuplicate({ organizationId: testOrg.id, duplicateId: againOriginal.id, userId: testUser.id })
+    if (dismissed.status !== "DISMISSED") {
+      throw new Error(`❌ Expected the pair to be DISMISSED, got ${dismissed.status}`)
+    }
+    await checkExpenseDuplicates(prisma, testOrg.id, coffeeAgain.id)
+    const stillDismissed = await prisma.expenseDuplicate.findUniqueOrThrow({ where: { id: againOriginal.id } })
+    const reopened = (await listExpenseDuplicates(testOrg.id)).some((pair) => pair.id === againOriginal.id)
+    if (stillDismissed.status !== "DISMISSED" || reopened) {
+      throw new Error("❌ Dismissed pair was flagged again after a re-check")
+    }
+    console.log("✓ Dismissed pair stays dismissed on re-check")
+
+    await expectRejection("Dismissing a reviewed pair", () =>
+      dismissDuplicate({ organizationId: testOrg.id, duplicateId: againOriginal.id, userId: testUser.id }), 409)
+    await expectRejection("Dismissing an unknown pair", () =>
+      dismissDuplicate({ organizationId: testOrg.id, duplicateId: "missing-duplicate", userId: testUser.id }), 404)
+    await expectRejection("Keeping an expense outside the pair", () =>
+      mergeDuplicateExpenses({ organizationId: testOrg.id, duplicateId: cardPair.id, keepExpenseId: coffeeAgain.id, userId: testUser.id }), 400)
+
+    // Merging keeps the original, moves the card receipt to it and reverses the card expense's transaction
+    const merged = await mergeDuplicateExpenses({ organizationId: testOrg.id, duplicateId: cardPair.id, userId: testUser.id })
+    const removedCard = await prisma.expense.findUniqueOrThrow({ where: { id: coffeeCard.id } })
+    const movedReceipts = await prisma.receipt.count({ where: { expenseId: coffee.id, sha256: receiptHash } })
+    const reversedCard = await prisma.ledgerTransaction.findUniqueOrThrow({ where: { id: coffeeCardTxId } })
+    if (merged.status !== "MERGED" || merged.keptExpenseId !== coffee.id || !removedCard.deletedAt) {
+      throw new Error("❌ Merge did not keep the original and delete the card expense")
+    }
+    if (movedReceipts !== 1) {
+      throw new Error("❌ Card receipt not moved to the kept expense")
+    }
+    if (!reversedCard.reversedByTransactionId) {
+      throw new Error("❌ Card expense's ledger transaction not reversed")
+    }
+    const cardPairsLeft = await prisma.expenseDuplicate.count({
+      where: { status: "OPEN", OR: [{ expenseId: coffeeCard.id }, { duplicateOfId: coffeeCard.id }] },
+    })
+    if (cardPairsLeft !== 0) {
+      throw new Error(`❌ Expected the removed expense's other open pairs to go, ${cardPairsLeft} left`)
+    }
+    console.log("✓ Merge kept the original, moved the receipt and reversed the duplicate's transaction")
+
+    await expectRejection("Merging a merged pair", () =>
+      mergeDuplicateExpenses({ organizationId: testOrg.id, duplicateId: cardPair.id, userId: testUser.id }), 409)
+    console.log("✓ Reviewed and invalid pairs rejected")
+
     // Summary
     console.log("\n--- Summary ---")
     const allPostings = await prisma.ledgerPosting.findMany({
@@ -189,10 +1942,10 @@ async function main() {
       })
       const dr = txPostings
         .filter((p) => p.direction === "DR")
-        .reduce((sum, p) => sum + p.amountCents, 0)
+        .reduce((sum, p) => sum + (p.baseAmountCents ?? p.amountCents), 0)
       const cr = txPostings
         .filter((p) => p.direction === "CR")
-        .reduce((sum, p) => sum + p.amountCents, 0)
+        .reduce((sum, p) => sum + (p.baseAmountCents ?? p.amountCents), 0)
       if (dr !== cr) {
         throw new Error(`❌ Transaction ${tx.id} is not balanced: DR=${dr}, CR=${cr}`)
       }
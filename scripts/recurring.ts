@@ -0,0 +1,42 @@
+import { PrismaClient } from "@prisma/client"
+import { runRecurringTemplates } from "../lib/ledger/recurringTemplates"
+
+const prisma = new PrismaClient()
+
+/**
+ * Posts due recurring expenses and journal entries for every organization; run it daily from cron
+ * Usage: npm run ledger:recurring
+ */
+async function main() {
+  console.log("Posting recurring occurrences...")
+
+  const organizations = await prisma.organization.findMany()
+  let failed = 0
+
+  for (const org of organizations) {
+    try {
+      const run = await runRecurringTemplates({ organizationId: org.id })
+      console.log(`  ✓ ${org.name}: ${run.posted.length} posted, ${run.skipped.length} skipped`)
+      for (const skipped of run.skipped) {
+        console.warn(`    ! ${skipped.name} ${skipped.occurrenceDate.toISOString().split("T")[0]}: ${skipped.error}`)
+      }
+    } catch (error: any) {
+      failed++
+      console.error(`  ✗ ${org.name}:`, error.message)
+    }
+  }
+
+  console.log(failed ? `\n✗ Recurring run finished with ${failed} failures` : "\n✓ Recurring run completed!")
+  if (failed) {
+    process.exitCode = 1
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error("Recurring run error:", e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -116,20 +116,54 @@ export async function orgFindUniqueLedgerTransaction(
 }
 
 /**
- * Scoped findMany for Receipt model (via expense relation)
+ * Scoped findMany for Receipt model (via expense or bill relation)
  */
 export async function orgFindManyReceipt(
   orgId: string,
-  args?: Partial<Omit<Prisma.ReceiptFindManyArgs, "where">> & { where?: Omit<Prisma.ReceiptWhereInput, "expense"> }
+  args?: Partial<Omit<Prisma.ReceiptFindManyArgs, "where">> & { where?: Omit<Prisma.ReceiptWhereInput, "expense" | "bill"> }
 ) {
   return prisma.receipt.findMany({
+    ...args,
+    where: {
+      AND: [
+        args?.where || {},
+        { OR: [{ expense: { organizationId: orgId } }, { bill: { organizationId: orgId } }] },
+      ],
+    },
+  })
+}
+
+
+/**
+ * Scoped findMany for LedgerAccount model
+ */
+export async function orgFindManyLedgerAccount(
+  orgId: string,
+  args?: Partial<Omit<Prisma.LedgerAccountFindManyArgs, "where">> & { where?: Omit<Prisma.LedgerAccountWhereInput, "organizationId"> }
+) {
+  return prisma.ledgerAccount.findMany({
     ...args,
     where: {
       ...args?.where,
-      expense: {
-        organizationId: orgId,
-      },
+      organizationId: orgId,
     },
   })
 }
 
+/**
+ * Scoped findUnique for LedgerAccount model
+ */
+export async function orgFindUniqueLedgerAccount(
+  orgId: string,
+  args: { where: { id: string }; include?: Prisma.LedgerAccountInclude }
+) {
+  const result = await prisma.ledgerAccount.findUnique({
+    ...args,
+    where: {
+      ...args.where,
+      organizationId: orgId,
+    },
+  })
+
+  return result
+}